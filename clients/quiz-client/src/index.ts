@@ -0,0 +1,146 @@
+/**
+ * Quiz Client - Typed Socket.IO client for the quiz server
+ *
+ * Wraps a socket.io-client socket typed with the generated protocol. Each
+ * client event can be sent as a request: it goes out with an acknowledgement
+ * callback, and resolves with the server's reply or rejects with its error.
+ */
+
+import { io, ManagerOptions, Socket, SocketOptions } from 'socket.io-client';
+import {
+  ClientEventAck,
+  ClientEventName,
+  ClientEventPayload,
+  ClientToServerEvents,
+  ErrorCode,
+  ErrorPayload,
+  ServerEventName,
+  ServerToClientEvents,
+} from './protocol';
+
+export * from './protocol';
+
+export type QuizSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * The event the server answered a request with, and its payload
+ */
+export type ClientEventReply<E extends ClientEventName> = Extract<ClientEventAck<E>, { ok: true }>;
+
+export interface QuizClientOptions extends Partial<ManagerOptions & SocketOptions> {
+  requestTimeout?: number; // ms to wait for the server's answer, default 10000
+}
+
+/**
+ * The server answered a request with an error, or not at all (no payload)
+ */
+export class QuizClientError extends Error {
+  readonly code?: ErrorCode;
+
+  constructor(
+    readonly event: ClientEventName,
+    message: string,
+    readonly payload?: ErrorPayload,
+  ) {
+    super(message);
+    this.name = 'QuizClientError';
+    this.code = payload?.code;
+  }
+}
+
+export class QuizClient {
+  readonly socket: QuizSocket;
+  private readonly requestTimeout: number;
+
+  constructor(url: string, options: QuizClientOptions = {}) {
+    const { requestTimeout = 10000, ...socketOptions } = options;
+    this.socket = io(url, socketOptions);
+    this.requestTimeout = requestTimeout;
+  }
+
+  // Socket.IO can't type a generic event name, so events go through the untyped socket
+  private get untyped(): Socket {
+    return this.socket as unknown as Socket;
+  }
+
+  /**
+   * Listen for a server event; returns a function that stops listening
+   */
+  on<E extends ServerEventName>(event: E, listener: ServerToClientEvents[E]): () => void {
+    const name: string = event;
+    this.untyped.on(name, listener);
+    return () => this.untyped.off(name, listener);
+  }
+
+  /**
+   * Send a client event and wait for the server's acknowledgement
+   */
+  async request<E extends ClientEventName>(
+    event: E,
+    payload: ClientEventPayload<E>,
+  ): Promise<ClientEventReply<E>> {
+    const name: string = event;
+    let ack: ClientEventAck<E>;
+    try {
+      ack = await this.untyped.timeout(this.requestTimeout).emitWithAck(name, payload);
+    } catch {
+      throw new QuizClientError(event, `No answer to ${event} within ${this.requestTimeout}ms`);
+    }
+
+    if (!ack.ok) {
+      throw new QuizClientError(event, ack.error.message, ack.error);
+    }
+    return ack as ClientEventReply<E>;
+  }
+
+  // ==================== Players ====================
+
+  async joinQuiz(payload: ClientEventPayload<'join_quiz'>) {
+    return (await this.request('join_quiz', payload)).data;
+  }
+
+  async rejoinQuiz(payload: ClientEventPayload<'rejoin_quiz'>) {
+    return (await this.request('rejoin_quiz', payload)).data;
+  }
+
+  async submitAnswer(payload: ClientEventPayload<'submit_answer'>) {
+    return (await this.request('submit_answer', payload)).data;
+  }
+
+  async syncLeaderboard(payload: ClientEventPayload<'leaderboard_sync'>) {
+    return (await this.request('leaderboard_sync', payload)).data;
+  }
+
+  // ==================== Hosts ====================
+
+  async createQuiz(payload: ClientEventPayload<'create_quiz'>) {
+    return (await this.request('create_quiz', payload)).data;
+  }
+
+  async startQuiz(payload: ClientEventPayload<'start_quiz'>) {
+    return (await this.request('start_quiz', payload)).data;
+  }
+
+  /**
+   * Resolves with next_question_success, or quiz_completed after the last question
+   */
+  nextQuestion(payload: ClientEventPayload<'next_question'>) {
+    return this.request('next_question', payload);
+  }
+
+  async claimHost(payload: ClientEventPayload<'claim_host'>) {
+    return (await this.request('claim_host', payload)).data;
+  }
+
+  async addCoHost(payload: ClientEventPayload<'add_cohost'>) {
+    return (await this.request('add_cohost', payload)).data;
+  }
+
+  async removeCoHost(payload: ClientEventPayload<'remove_cohost'>) {
+    return (await this.request('remove_cohost', payload)).data;
+  }
+
+  close() {
+    this.socket.disconnect();
+  }
+}
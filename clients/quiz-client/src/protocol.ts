@@ -0,0 +1,673 @@
+/**
+ * Quiz Protocol - The Socket.IO events clients and server exchange
+ *
+ * Generated from src/quiz/protocol/quiz-protocol.ts by `npm run protocol:generate`;
+ * do not edit. Dates are ISO 8601 strings.
+ */
+
+export interface CreateQuizDto {
+  /** Title of the quiz */
+  title: string;
+  /** Who is creating the quiz, e.g. a username; quizzes can be listed by creator */
+  createdBy?: string;
+  /** Number of questions to include in the quiz */
+  questionCount?: number;
+  /** Time allowed per question in seconds */
+  timePerQuestion?: number;
+  /** Automatically move to the next question when the timer runs out */
+  autoAdvance?: boolean;
+  /** How answers are scored (default: time_bonus) */
+  scoring?: ScoringRulesDto;
+  /**
+   * How players with equal points are ordered, most significant first:
+   * correct_answers (most fully correct answers), answer_time (least total answer
+   * time), last_correct (earliest last correct answer). Remaining ties are ordered
+   * by user ID.
+   */
+  tieBreakers?: TieBreaker[];
+  /**
+   * Only pick bank questions from these categories (case-insensitive). Cannot be
+   * combined with questionIds or questions.
+   */
+  categories?: string[];
+  /**
+   * Percentage of questions per difficulty, adding up to 100 (default 40/40/20
+   * easy/medium/hard). Cannot be combined with questionIds or questions.
+   */
+  difficultyDistribution?: DifficultyDistributionDto;
+  /**
+   * Specific question bank IDs to use, in order. Overrides questionCount when
+   * provided.
+   */
+  questionIds?: string[];
+  /**
+   * Custom questions to include, asked after any questionIds. Overrides
+   * questionCount when provided.
+   */
+  questions?: QuestionInputDto[];
+}
+
+export interface ScoringRulesDto {
+  /**
+   * flat: points only; time_bonus: extra points for fast answers; streak: multiplier
+   * for correct answers in a row; negative_marking: wrong answers cost points;
+   * decay: points shrink towards the deadline
+   */
+  strategy: ScoringStrategyName;
+  /** time_bonus: extra share of the points for an instant answer */
+  maxTimeBonus?: number;
+  /** streak: multiplier added per correct answer in a row */
+  streakStep?: number;
+  /** streak: highest multiplier */
+  maxMultiplier?: number;
+  /** negative_marking: share of the points lost for a wrong answer */
+  penalty?: number;
+  /** decay: share of the points left for a correct answer at the deadline */
+  minShare?: number;
+}
+
+export type ScoringStrategyName = 'flat' | 'time_bonus' | 'streak' | 'negative_marking' | 'decay';
+
+/**
+ * Ways to order players with equal points: most fully correct answers, least total
+ * answer time (unanswered questions count as the full time limit), or the earliest
+ * last correct answer
+ */
+export type TieBreaker = 'correct_answers' | 'answer_time' | 'last_correct';
+
+export interface DifficultyDistributionDto {
+  /** Percentage of easy questions */
+  easy?: number;
+  /** Percentage of medium questions */
+  medium?: number;
+  /** Percentage of hard questions */
+  hard?: number;
+}
+
+export interface QuestionInputDto {
+  /**
+   * multiple_choice: pick one option; text: type the answer, matched with typo
+   * tolerance; multi_select: pick every correct option; matching: pick the option
+   * for each prompt; ordering: put the options in order
+   */
+  type?: QuestionType;
+  /** Question text */
+  text: string;
+  /**
+   * Answer options shown to participants, required except for text questions. For
+   * ordering questions, the items in the order they are shown.
+   */
+  options?: string[];
+  /** Matching questions: the items to match, each to one of the options */
+  prompts?: string[];
+  /**
+   * Correct answer, required for multiple choice (one of the options) and text
+   * questions
+   */
+  correctAnswer?: string;
+  /**
+   * Required for multi_select (the options to pick), matching (the option for each
+   * prompt, in prompt order) and ordering (every option in the correct order)
+   */
+  answerKey?: string[];
+  /** Text questions: other answers that also count as correct */
+  acceptedAnswers?: string[];
+  /**
+   * Text questions: typos (edits) accepted per answer, each costing 25% of the
+   * points. Defaults to 0 for answers up to 4 characters, 1 up to 8 and 2 beyond.
+   */
+  typoTolerance?: number;
+  /** Question difficulty */
+  difficulty?: 'easy' | 'medium' | 'hard';
+  /** Question category */
+  category?: string;
+  /** Base points for a correct answer (defaults by difficulty) */
+  points?: number;
+}
+
+/**
+ * - multiple_choice: pick one of the options
+ * - text: type the answer
+ * - multi_select: pick every correct option
+ * - matching: pick the option that goes with each prompt (e.g. word -> definition)
+ * - ordering: put the options in order
+ */
+export type QuestionType = 'multiple_choice' | 'text' | 'multi_select' | 'matching' | 'ordering';
+
+export interface JoinQuizDto {
+  quizId: string;
+  username: string;
+  playerId?: string;
+}
+
+export interface RejoinQuizDto {
+  quizId: string;
+  resumeToken: string;
+}
+
+export interface HostControlDto {
+  quizId: string;
+  hostToken?: string;
+}
+
+export interface SubmitAnswerDto {
+  quizId: string;
+  questionId: string;
+  answer: SubmittedAnswer;
+  timeTaken?: number;
+}
+
+export type SubmittedAnswer = string | string[];
+
+export interface LeaderboardSyncDto {
+  quizId: string;
+}
+
+export interface CoHostDto {
+  quizId: string;
+  hostToken: string;
+  userId: string;
+}
+
+export interface ConnectedPayload {
+  message: string;
+  socketId: string;
+  timestamp: string;
+}
+
+export interface QuizCreatedPayload {
+  quizId: string;
+  title: string;
+  questionCount: number;
+  status: QuizStatus;
+  /** seconds */
+  timePerQuestion: number;
+  autoAdvance: boolean;
+  scoring: ScoringSummary;
+  /** secret that authorizes start_quiz, next_question and co-host changes */
+  hostToken: string;
+}
+
+export type QuizStatus = 'waiting' | 'in_progress' | 'completed';
+
+/** Scoring rules together with a plain-language summary for players */
+export interface ScoringSummary {
+  strategy: ScoringStrategyName;
+  /** time_bonus: extra share of the points for an instant answer */
+  maxTimeBonus?: number;
+  /** streak: multiplier added per consecutive fully correct answer */
+  streakStep?: number;
+  /** streak: highest multiplier */
+  maxMultiplier?: number;
+  /** negative_marking: share of the points lost for a wrong answer */
+  penalty?: number;
+  /** decay: share of the points left for an answer at the deadline */
+  minShare?: number;
+  description: string;
+}
+
+export interface JoinedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    status: QuizStatus;
+    currentQuestion: number;
+    totalQuestions: number;
+    scoring: ScoringSummary;
+  };
+  userId: string;
+  /** send with rejoin_quiz to continue as this participant */
+  resumeToken: string;
+  participants: ParticipantSummary[];
+  leaderboard: LeaderboardEntry[];
+  /** leaderboard_update sequence the leaderboard is current as of */
+  leaderboardSeq: number;
+}
+
+export interface ParticipantSummary {
+  userId: string;
+  username: string;
+  score: number;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  username: string;
+  score: number;
+  rank: number;
+  correctAnswers?: number;
+  totalAnswers?: number;
+}
+
+export interface RejoinedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    status: QuizStatus;
+    currentQuestion: number;
+    totalQuestions: number;
+    timePerQuestion: number;
+    scoring: ScoringSummary;
+  };
+  question: Question | null;
+  questionNumber: number | null;
+  remainingSeconds: number | null;
+  score: number;
+  rank: number | null;
+  questionPhase: QuestionPhase | null;
+  /** receipt only while the question is unrevealed */
+  answers: {
+    [key: string]: AnswerRecord | AnswerReceipt;
+  };
+  leaderboard: LeaderboardEntry[];
+  userId: string;
+  username: string;
+  leaderboardSeq: number;
+}
+
+export interface Question {
+  id: string;
+  /** defaults to multiple_choice */
+  type?: QuestionType;
+  text: string;
+  /** empty for text questions */
+  options: string[];
+  /** matching: the items to match to an option */
+  prompts?: string[];
+  /** list question types: readable summary of answerKey */
+  correctAnswer: string;
+  /**
+   * multi_select: options to pick; matching: option per prompt; ordering: options in
+   * order
+   */
+  answerKey?: string[];
+  /** text questions: other answers that also count as correct */
+  acceptedAnswers?: string[];
+  /** text questions: typos accepted, for partial credit */
+  typoTolerance?: number;
+  difficulty: 'easy' | 'medium' | 'hard';
+  category: string;
+  points: number;
+}
+
+/**
+ * Lifecycle of the current question: answers are accepted while open, and the
+ * correct answer and everyone's points are only shared once it is revealed
+ */
+export type QuestionPhase = 'open' | 'closed' | 'revealed';
+
+export interface AnswerRecord {
+  answer: SubmittedAnswer;
+  correct: boolean;
+  correctAnswer: string;
+  answerKey?: string[];
+  /** absent on answers recorded before partial credit */
+  credit?: number;
+  typos?: number;
+  earnedPoints: number;
+  /** seconds, as used for scoring */
+  timeTaken: number;
+  /** seconds, as reported by the client */
+  clientTimeTaken?: number;
+  submittedAt: string;
+}
+
+/** Acknowledges a submission while the question is open, without its outcome */
+export interface AnswerReceipt {
+  questionId: string;
+  /** as recorded */
+  answer: SubmittedAnswer;
+  submittedAt: string;
+}
+
+export interface UserJoinedPayload {
+  userId: string;
+  username: string;
+  participantCount: number;
+  timestamp: string;
+}
+
+export interface UserReconnectedPayload {
+  userId: string;
+  username: string;
+  timestamp: string;
+}
+
+export interface UserDisconnectedPayload {
+  userId: string;
+  timestamp: string;
+}
+
+export interface QuizStartSuccessPayload {
+  quizId: string;
+  status: 'started';
+}
+
+export interface QuizStartedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    totalQuestions: number;
+    startTime?: string;
+  };
+  /** without its answer */
+  question: Question;
+  questionNumber: number;
+  /** seconds */
+  timeLimit: number;
+  /** epoch ms after which answers are rejected */
+  deadline?: number;
+  timestamp: string;
+}
+
+export interface QuestionNextPayload {
+  /** without its answer */
+  question: Question;
+  questionNumber: number;
+  totalQuestions: number;
+  /** seconds */
+  timeLimit: number;
+  /** epoch ms after which answers are rejected */
+  deadline?: number;
+  timestamp: string;
+}
+
+export interface NextQuestionSuccessPayload {
+  question: Question;
+  questionNumber: number;
+}
+
+export interface QuestionTickPayload {
+  questionId: string;
+  remainingSeconds: number;
+  timestamp: string;
+}
+
+export interface QuestionClosedPayload {
+  questionId: string;
+  questionNumber: number;
+  autoAdvance: boolean;
+  timestamp: string;
+}
+
+export interface QuestionRevealedPayload {
+  questionId: string;
+  questionNumber: number;
+  correctAnswer: string;
+  /** list question types: the full answer, see Question.answerKey */
+  answerKey?: string[];
+  /** text questions */
+  acceptedAnswers?: string[];
+  /** how many players gave each answer */
+  distribution: {
+    [key: string]: number;
+  };
+  unanswered: number;
+  /** by rank */
+  results: PlayerQuestionResult[];
+  timestamp: string;
+}
+
+export interface PlayerQuestionResult {
+  userId: string;
+  username: string;
+  answered: boolean;
+  answer?: SubmittedAnswer;
+  correct: boolean;
+  /** share of the question's points earned, 0-1 (below 1 for near-misses) */
+  credit: number;
+  /** text questions: typos in an accepted answer */
+  typos?: number;
+  earnedPoints: number;
+  score: number;
+  rank: number;
+}
+
+export interface AnswerResultPayload {
+  questionId: string;
+  /** as recorded */
+  answer: SubmittedAnswer;
+  submittedAt: string;
+  timestamp: string;
+}
+
+export interface ScoreUpdatePayload {
+  userId: string;
+  username: string;
+  score: number;
+  rank: number;
+  timestamp: string;
+}
+
+export interface LeaderboardUpdatePayload {
+  seq: number;
+  /** new players and players whose score or rank changed */
+  changes: LeaderboardEntry[];
+  /** user IDs no longer on the leaderboard */
+  removed: string[];
+  participantCount: number;
+  timestamp: string;
+}
+
+export interface LeaderboardSyncPayload {
+  /** the last delta this snapshot includes */
+  seq: number;
+  leaderboard: LeaderboardEntry[];
+  quizId: string;
+  timestamp: string;
+}
+
+export interface QuizCompletedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    endTime?: string;
+  };
+  /** the full final leaderboard */
+  leaderboard: LeaderboardEntry[];
+  timestamp: string;
+}
+
+export interface HostClaimedPayload {
+  quizId: string;
+}
+
+export interface CoHostUpdatedPayload {
+  quizId: string;
+  coHostIds: string[];
+}
+
+export interface CoHostChangedPayload {
+  userId: string;
+  coHostIds: string[];
+  timestamp: string;
+}
+
+export interface HostAssignedPayload {
+  quizId: string;
+  hostToken: string;
+  timestamp: string;
+}
+
+export interface HostChangedPayload {
+  userId: string;
+  username: string;
+  timestamp: string;
+}
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  /** the HTTP status the same failure gets from the REST API */
+  statusCode: number;
+  /** the client event that failed */
+  event?: string;
+  timestamp: string;
+}
+
+/**
+ * Why a request failed; WebSocket errors and REST error responses both carry it,
+ * so clients don't have to match on messages
+ */
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'INTERNAL_ERROR'
+  | 'QUIZ_NOT_FOUND'
+  | 'QUIZ_FULL'
+  | 'QUIZ_ALREADY_STARTED'
+  | 'QUIZ_NOT_IN_PROGRESS'
+  | 'QUIZ_COMPLETED'
+  | 'QUIZ_NOT_COMPLETED'
+  | 'NO_PARTICIPANTS'
+  | 'NO_MORE_QUESTIONS'
+  | 'ALREADY_ADVANCED'
+  | 'INVALID_QUIZ_SETTINGS'
+  | 'NOT_ENOUGH_QUESTIONS'
+  | 'PARTICIPANT_NOT_FOUND'
+  | 'NOT_JOINED'
+  | 'INVALID_RESUME_TOKEN'
+  | 'NOT_HOST'
+  | 'QUESTION_NOT_FOUND'
+  | 'QUESTION_CLOSED'
+  | 'TIME_UP'
+  | 'INVALID_ANSWER'
+  | 'ALREADY_ANSWERED'
+  | 'INVALID_QUESTION'
+  | 'INVALID_IMPORT';
+
+export interface ClientToServerEvents {
+  /** Create a quiz; the sender becomes its host */
+  create_quiz: (payload: CreateQuizDto) => void;
+  /** Join a quiz as a new participant */
+  join_quiz: (payload: JoinQuizDto) => void;
+  /** Continue as the same participant after a reconnect */
+  rejoin_quiz: (payload: RejoinQuizDto) => void;
+  /** Start the quiz (host or co-host) */
+  start_quiz: (payload: HostControlDto) => void;
+  /** Answer the current question */
+  submit_answer: (payload: SubmitAnswerDto) => void;
+  /** Ask for the full leaderboard after missing a leaderboard_update */
+  leaderboard_sync: (payload: LeaderboardSyncDto) => void;
+  /**
+   * Reveal the current question and move on, or complete the quiz after the last one
+   * (host or co-host)
+   */
+  next_question: (payload: HostControlDto) => void;
+  /** Re-attach the host role to a new socket */
+  claim_host: (payload: HostControlDto) => void;
+  /** Delegate quiz control to a participant (host) */
+  add_cohost: (payload: CoHostDto) => void;
+  /** Revoke a co-host (host) */
+  remove_cohost: (payload: CoHostDto) => void;
+}
+
+export interface ServerToClientEvents {
+  /** Welcome message on connection */
+  connected: (payload: ConnectedPayload) => void;
+  /** The quiz was created (reply to create_quiz) */
+  quiz_created: (payload: QuizCreatedPayload) => void;
+  /** Joined the quiz, with its current state (reply to join_quiz) */
+  joined_successfully: (payload: JoinedPayload) => void;
+  /** Resumed, with a snapshot of the quiz (reply to rejoin_quiz) */
+  rejoined_successfully: (payload: RejoinedPayload) => void;
+  /** Another participant joined (room) */
+  user_joined: (payload: UserJoinedPayload) => void;
+  /** A participant resumed on a new connection (room) */
+  user_reconnected: (payload: UserReconnectedPayload) => void;
+  /** A participant's connection dropped; they stay in the quiz (room) */
+  user_disconnected: (payload: UserDisconnectedPayload) => void;
+  /** The quiz was started (reply to start_quiz) */
+  quiz_start_success: (payload: QuizStartSuccessPayload) => void;
+  /** The quiz started, with its first question (room) */
+  quiz_started: (payload: QuizStartedPayload) => void;
+  /** The next question (room) */
+  question_next: (payload: QuestionNextPayload) => void;
+  /** Moved to the next question (reply to next_question) */
+  next_question_success: (payload: NextQuestionSuccessPayload) => void;
+  /** Seconds left on the current question, every second (room) */
+  question_tick: (payload: QuestionTickPayload) => void;
+  /** The question stopped accepting answers (room) */
+  question_closed: (payload: QuestionClosedPayload) => void;
+  /** Correct answer, answer distribution and everyone's points (room) */
+  question_revealed: (payload: QuestionRevealedPayload) => void;
+  /** Your answer was received; its outcome comes with the reveal (personal) */
+  answer_result: (payload: AnswerResultPayload) => void;
+  /** Your answer was received (reply to submit_answer) */
+  answer_submitted: (payload: AnswerReceipt) => void;
+  /** Your score and rank after a reveal (personal) */
+  score_update: (payload: ScoreUpdatePayload) => void;
+  /** Leaderboard changes since the previous update (room) */
+  leaderboard_update: (payload: LeaderboardUpdatePayload) => void;
+  /** Full leaderboard and its sequence (reply to leaderboard_sync) */
+  leaderboard_sync: (payload: LeaderboardSyncPayload) => void;
+  /**
+   * The quiz is over, with the final leaderboard (room, and reply to the last
+   * next_question)
+   */
+  quiz_completed: (payload: QuizCompletedPayload) => void;
+  /** The host role is attached to this socket (reply to claim_host) */
+  host_claimed: (payload: HostClaimedPayload) => void;
+  /** The quiz's co-hosts after a change (reply to add_cohost and remove_cohost) */
+  cohost_updated: (payload: CoHostUpdatedPayload) => void;
+  /** A participant became co-host (room) */
+  cohost_added: (payload: CoHostChangedPayload) => void;
+  /** A participant is no longer co-host (room) */
+  cohost_removed: (payload: CoHostChangedPayload) => void;
+  /** You were made host after the host left, with a fresh host token (personal) */
+  host_assigned: (payload: HostAssignedPayload) => void;
+  /** Someone else became host (room) */
+  host_changed: (payload: HostChangedPayload) => void;
+  /** A request failed (reply to any client event sent without an acknowledgement) */
+  error: (payload: ErrorPayload) => void;
+}
+
+/**
+ * The events the server answers each client event with, besides error
+ */
+export interface ClientEventReplies {
+  create_quiz: 'quiz_created';
+  join_quiz: 'joined_successfully';
+  rejoin_quiz: 'rejoined_successfully';
+  start_quiz: 'quiz_start_success';
+  submit_answer: 'answer_submitted';
+  leaderboard_sync: 'leaderboard_sync';
+  next_question: 'next_question_success' | 'quiz_completed';
+  claim_host: 'host_claimed';
+  add_cohost: 'cohost_updated';
+  remove_cohost: 'cohost_updated';
+}
+
+export const CLIENT_EVENT_REPLIES: {
+  [E in keyof ClientEventReplies]: ClientEventReplies[E][];
+} = {
+  create_quiz: ['quiz_created'],
+  join_quiz: ['joined_successfully'],
+  rejoin_quiz: ['rejoined_successfully'],
+  start_quiz: ['quiz_start_success'],
+  submit_answer: ['answer_submitted'],
+  leaderboard_sync: ['leaderboard_sync'],
+  next_question: ['next_question_success', 'quiz_completed'],
+  claim_host: ['host_claimed'],
+  add_cohost: ['cohost_updated'],
+  remove_cohost: ['cohost_updated'],
+};
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ClientEventPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+/**
+ * What a client event's acknowledgement callback is called with, when the
+ * client sends one: the reply it would otherwise have been emitted, or the error
+ */
+export type ClientEventAck<E extends ClientEventName> =
+  | {
+      [R in ClientEventReplies[E]]: { ok: true; event: R; data: ServerEventPayload<R> };
+    }[ClientEventReplies[E]]
+  | { ok: false; error: ErrorPayload };
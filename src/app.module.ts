@@ -10,7 +10,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { QuizModule } from './quiz/quiz.module';
-import { RedisModule } from './redis/redis.module';
+import { StorageModule } from './storage/storage.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
@@ -20,7 +20,7 @@ import { AppService } from './app.service';
       isGlobal: true,
       envFilePath: '.env',
     }),
-    RedisModule,
+    StorageModule,
     QuizModule,
   ],
   controllers: [AppController],
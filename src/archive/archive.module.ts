@@ -0,0 +1,27 @@
+/**
+ * Archive Module - Durable storage for completed quizzes
+ *
+ * Completed quizzes are written to a SQLite database at QUIZ_ARCHIVE_FILE
+ * (default data/quiz-archive.db, :memory: for a throwaway archive) so their
+ * results outlive the live session in the quiz store.
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuizArchiveRepository } from './repositories/quiz-archive.repository';
+import { SqliteQuizArchiveRepository } from './repositories/sqlite-quiz-archive.repository';
+
+@Module({
+  providers: [
+    {
+      provide: QuizArchiveRepository,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): QuizArchiveRepository =>
+        new SqliteQuizArchiveRepository(
+          configService.get<string>('QUIZ_ARCHIVE_FILE', 'data/quiz-archive.db'),
+        ),
+    },
+  ],
+  exports: [QuizArchiveRepository],
+})
+export class ArchiveModule {}
@@ -0,0 +1,68 @@
+/**
+ * Archived quiz results, kept after the live session has expired
+ */
+
+import { Question } from '../../questions/interfaces/question.interface';
+import {
+  AnswerRecord,
+  LeaderboardEntry,
+  ScoringSummary,
+} from '../../quiz/interfaces/quiz.interface';
+
+export interface ArchivedParticipant extends LeaderboardEntry {
+  playerId: string | null; // as given on join, unverified; null if none was given
+  answers: Record<string, AnswerRecord>; // by question ID
+}
+
+export interface ArchivedQuiz {
+  quizId: string;
+  title: string;
+  createdBy?: string;
+  createdAt: Date;
+  startTime?: Date;
+  endTime?: Date;
+  archivedAt: Date;
+  timePerQuestion: number; // seconds
+  scoring: ScoringSummary;
+  questions: Question[]; // with their answers
+  participants: ArchivedParticipant[]; // final standings, by rank
+}
+
+export interface ArchivedQuizSummary {
+  quizId: string;
+  title: string;
+  createdBy?: string;
+  createdAt: Date;
+  startTime?: Date;
+  endTime?: Date;
+  questionCount: number;
+  participantCount: number;
+}
+
+/**
+ * One player's standing in an archived quiz
+ */
+export interface ArchivedResult {
+  quizId: string;
+  userId: string; // the player's participant ID in the quiz
+  title: string;
+  createdAt: Date;
+  endTime?: Date;
+  score: number;
+  rank: number;
+  correctAnswers: number;
+  totalAnswers: number;
+  questionCount: number;
+  participantCount: number;
+}
+
+export interface ArchivedQuizFilter {
+  createdBy?: string;
+  from?: Date; // created at or after
+  to?: Date; // created at or before
+}
+
+export interface ArchivePage<T> {
+  items: T[];
+  total: number; // matches before offset and limit
+}
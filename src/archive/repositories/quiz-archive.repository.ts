@@ -0,0 +1,44 @@
+/**
+ * Quiz Archive Repository - Durable storage for the results of completed quizzes
+ *
+ * The live quiz store only keeps a quiz for a limited time; the archive keeps
+ * it for good (see ArchiveModule).
+ */
+
+import {
+  ArchivePage,
+  ArchivedQuiz,
+  ArchivedQuizFilter,
+  ArchivedQuizSummary,
+  ArchivedResult,
+} from '../interfaces/archive.interface';
+
+export abstract class QuizArchiveRepository {
+  /**
+   * Archive a quiz, or replace the archived quiz with the same ID
+   */
+  abstract save(quiz: ArchivedQuiz): Promise<void>;
+
+  /**
+   * Get an archived quiz by ID
+   */
+  abstract findById(quizId: string): Promise<ArchivedQuiz | undefined>;
+
+  /**
+   * Archived quizzes matching the filter, newest first
+   */
+  abstract findQuizzes(
+    filter: ArchivedQuizFilter,
+    offset: number,
+    limit: number,
+  ): Promise<ArchivePage<ArchivedQuizSummary>>;
+
+  /**
+   * A player's results in archived quizzes by their player ID, newest quiz first
+   */
+  abstract findResultsByPlayer(
+    playerId: string,
+    offset: number,
+    limit: number,
+  ): Promise<ArchivePage<ArchivedResult>>;
+}
@@ -0,0 +1,281 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArchivedQuiz } from '../interfaces/archive.interface';
+import { SqliteQuizArchiveRepository } from './sqlite-quiz-archive.repository';
+
+describe('SqliteQuizArchiveRepository', () => {
+  let repository: SqliteQuizArchiveRepository;
+
+  const quiz = (overrides: Partial<ArchivedQuiz> = {}): ArchivedQuiz => ({
+    quizId: 'QUIZ01',
+    title: 'Vocabulary',
+    createdAt: new Date('2025-11-10T09:55:00.000Z'),
+    startTime: new Date('2025-11-10T10:00:00.000Z'),
+    endTime: new Date('2025-11-10T10:05:00.000Z'),
+    archivedAt: new Date('2025-11-10T10:05:01.000Z'),
+    timePerQuestion: 30,
+    scoring: { strategy: 'flat', description: 'Correct answers earn the question points.' },
+    questions: [
+      {
+        id: 'q1',
+        text: 'What does "brave" mean?',
+        options: ['Scared', 'Courageous'],
+        correctAnswer: 'Courageous',
+        difficulty: 'easy',
+        category: 'adjectives',
+        points: 10,
+      },
+      {
+        id: 'q2',
+        text: 'Choose the synonym of "big"',
+        options: ['Small', 'Large'],
+        correctAnswer: 'Large',
+        difficulty: 'easy',
+        category: 'adjectives',
+        points: 10,
+      },
+    ],
+    participants: [
+      {
+        userId: 'user1',
+        playerId: 'player-alice',
+        username: 'Alice',
+        score: 20,
+        rank: 1,
+        correctAnswers: 2,
+        totalAnswers: 2,
+        answers: {
+          q1: {
+            answer: 'Courageous',
+            correct: true,
+            correctAnswer: 'Courageous',
+            credit: 1,
+            earnedPoints: 10,
+            timeTaken: 3.5,
+            submittedAt: new Date('2025-11-10T10:00:03.500Z'),
+          },
+          q2: {
+            answer: 'Large',
+            correct: true,
+            correctAnswer: 'Large',
+            credit: 1,
+            earnedPoints: 10,
+            timeTaken: 4,
+            submittedAt: new Date('2025-11-10T10:00:34.000Z'),
+          },
+        },
+      },
+      {
+        userId: 'user2',
+        playerId: 'player-bob',
+        username: 'Bob',
+        score: 0,
+        rank: 2,
+        correctAnswers: 0,
+        totalAnswers: 1,
+        answers: {
+          q1: {
+            answer: 'Scared',
+            correct: false,
+            correctAnswer: 'Courageous',
+            credit: 0,
+            earnedPoints: 0,
+            timeTaken: 12,
+            submittedAt: new Date('2025-11-10T10:00:12.000Z'),
+          },
+        },
+      },
+    ],
+    ...overrides,
+  });
+
+  // Dates of answer records come back as ISO strings, like from the quiz store
+  const asStored = (archived: ArchivedQuiz) => JSON.parse(JSON.stringify(archived));
+
+  beforeEach(() => {
+    repository = new SqliteQuizArchiveRepository(':memory:');
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+  });
+
+  it('should return undefined for a quiz that was never archived', async () => {
+    expect(await repository.findById('NOPE12')).toBeUndefined();
+  });
+
+  it('should read back an archived quiz', async () => {
+    const archived = quiz();
+    await repository.save(archived);
+
+    const found = await repository.findById('QUIZ01');
+
+    expect(found).toEqual({
+      ...archived,
+      participants: asStored(archived).participants,
+    });
+    expect(found?.endTime).toBeInstanceOf(Date);
+  });
+
+  it('should list participants by rank', async () => {
+    const archived = quiz();
+    await repository.save({ ...archived, participants: [...archived.participants].reverse() });
+
+    const found = await repository.findById('QUIZ01');
+
+    expect(found?.participants.map((participant) => participant.userId)).toEqual([
+      'user1',
+      'user2',
+    ]);
+  });
+
+  it('should keep a quiz that never started', async () => {
+    await repository.save(quiz({ startTime: undefined, participants: [] }));
+
+    const found = await repository.findById('QUIZ01');
+
+    expect(found?.startTime).toBeUndefined();
+    expect(found?.participants).toEqual([]);
+  });
+
+  it('should replace a quiz archived again', async () => {
+    await repository.save(quiz());
+    const [winner] = quiz().participants;
+    await repository.save(quiz({ title: 'Renamed', participants: [{ ...winner, answers: {} }] }));
+
+    const found = await repository.findById('QUIZ01');
+
+    expect(found?.title).toBe('Renamed');
+    expect(found?.participants).toEqual([{ ...winner, answers: {} }]);
+  });
+
+  it('should keep quizzes apart', async () => {
+    await repository.save(quiz());
+    await repository.save(quiz({ quizId: 'QUIZ02', participants: [] }));
+
+    expect((await repository.findById('QUIZ01'))?.participants.length).toBe(2);
+    expect((await repository.findById('QUIZ02'))?.participants.length).toBe(0);
+  });
+
+  describe('findQuizzes', () => {
+    const createdAt = (day: number) =>
+      new Date(`2025-11-${String(day).padStart(2, '0')}T10:00:00.000Z`);
+
+    beforeEach(async () => {
+      await repository.save(quiz({ quizId: 'QUIZ01', createdBy: 'anna', createdAt: createdAt(1) }));
+      await repository.save(
+        quiz({ quizId: 'QUIZ02', createdBy: 'ben', createdAt: createdAt(2), participants: [] }),
+      );
+      await repository.save(quiz({ quizId: 'QUIZ03', createdBy: 'anna', createdAt: createdAt(3) }));
+    });
+
+    it('should list quizzes newest first with their counts', async () => {
+      const page = await repository.findQuizzes({}, 0, 10);
+
+      expect(page.total).toBe(3);
+      expect(page.items.map((summary) => summary.quizId)).toEqual(['QUIZ03', 'QUIZ02', 'QUIZ01']);
+      expect(page.items[0]).toEqual({
+        quizId: 'QUIZ03',
+        title: 'Vocabulary',
+        createdBy: 'anna',
+        createdAt: createdAt(3),
+        startTime: quiz().startTime,
+        endTime: quiz().endTime,
+        questionCount: 2,
+        participantCount: 2,
+      });
+      expect(page.items[1].participantCount).toBe(0);
+    });
+
+    it('should filter by creator and creation date', async () => {
+      const byAnna = await repository.findQuizzes({ createdBy: 'anna' }, 0, 10);
+      const inRange = await repository.findQuizzes({ from: createdAt(2), to: createdAt(3) }, 0, 10);
+
+      expect(byAnna.items.map((summary) => summary.quizId)).toEqual(['QUIZ03', 'QUIZ01']);
+      expect(inRange.items.map((summary) => summary.quizId)).toEqual(['QUIZ03', 'QUIZ02']);
+    });
+
+    it('should page through the matches and count them all', async () => {
+      const page = await repository.findQuizzes({}, 1, 1);
+
+      expect(page.total).toBe(3);
+      expect(page.items.map((summary) => summary.quizId)).toEqual(['QUIZ02']);
+    });
+  });
+
+  describe('findResultsByPlayer', () => {
+    // Players get a new participant ID in every quiz they join
+    const rejoined = (quizId: string, createdAt: Date) =>
+      quiz({
+        quizId,
+        createdAt,
+        participants: quiz().participants.map((p) => ({ ...p, userId: `${p.userId}-${quizId}` })),
+      });
+
+    it("should list a player's standing in each quiz, newest first", async () => {
+      await repository.save(rejoined('QUIZ01', new Date('2025-11-01')));
+      await repository.save(rejoined('QUIZ02', new Date('2025-11-02')));
+      await repository.save(quiz({ quizId: 'QUIZ03', participants: [] }));
+
+      const results = await repository.findResultsByPlayer('player-bob', 0, 10);
+
+      expect(results.total).toBe(2);
+      expect(results.items).toEqual([
+        {
+          quizId: 'QUIZ02',
+          userId: 'user2-QUIZ02',
+          title: 'Vocabulary',
+          createdAt: new Date('2025-11-02'),
+          endTime: quiz().endTime,
+          score: 0,
+          rank: 2,
+          correctAnswers: 0,
+          totalAnswers: 1,
+          questionCount: 2,
+          participantCount: 2,
+        },
+        expect.objectContaining({ quizId: 'QUIZ01' }),
+      ]);
+      expect((await repository.findResultsByPlayer('player-bob', 1, 10)).items.length).toBe(1);
+      expect((await repository.findResultsByPlayer('user2-QUIZ01', 0, 10)).total).toBe(0);
+    });
+
+    it('should keep a player who gave no player ID out of every listing', async () => {
+      const archived = quiz({
+        participants: quiz().participants.map((p) => ({ ...p, playerId: null })),
+      });
+      await repository.save(archived);
+
+      const found = await repository.findById(archived.quizId);
+      expect(found?.participants.map((participant) => participant.playerId)).toEqual([null, null]);
+      expect((await repository.findResultsByPlayer('user1', 0, 10)).total).toBe(0);
+    });
+  });
+
+  describe('on disk', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'quiz-archive-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep archived quizzes across instances', async () => {
+      const filePath = path.join(dir, 'nested', 'quiz-archive.db');
+      const archived = quiz();
+      const writer = new SqliteQuizArchiveRepository(filePath);
+      await writer.save(archived);
+      writer.onModuleDestroy();
+
+      const reader = new SqliteQuizArchiveRepository(filePath);
+      const found = await reader.findById('QUIZ01');
+      reader.onModuleDestroy();
+
+      expect(found).toEqual({ ...archived, participants: asStored(archived).participants });
+    });
+  });
+});
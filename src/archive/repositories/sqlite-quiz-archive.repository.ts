@@ -0,0 +1,350 @@
+/**
+ * SQLite backed quiz archive
+ *
+ * One row per quiz, per participant and per answer, so results can be queried
+ * by quiz or by player. Questions, scoring and the answer records themselves
+ * are stored as JSON. The schema is created on first use; QUIZ_ARCHIVE_FILE
+ * set to :memory: keeps the archive in memory (tests, throwaway instances).
+ */
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ArchivePage,
+  ArchivedParticipant,
+  ArchivedQuiz,
+  ArchivedQuizFilter,
+  ArchivedQuizSummary,
+  ArchivedResult,
+} from '../interfaces/archive.interface';
+import { QuizArchiveRepository } from './quiz-archive.repository';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS quizzes (
+  quiz_id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  start_time TEXT,
+  end_time TEXT,
+  archived_at TEXT NOT NULL,
+  time_per_question INTEGER NOT NULL,
+  scoring TEXT NOT NULL,
+  questions TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quizzes_by_created_at ON quizzes (created_at);
+
+CREATE TABLE IF NOT EXISTS quiz_participants (
+  quiz_id TEXT NOT NULL REFERENCES quizzes (quiz_id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  player_id TEXT,
+  username TEXT NOT NULL,
+  score REAL NOT NULL,
+  rank INTEGER NOT NULL,
+  correct_answers INTEGER NOT NULL,
+  total_answers INTEGER NOT NULL,
+  PRIMARY KEY (quiz_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS quiz_participants_by_player ON quiz_participants (player_id);
+
+CREATE TABLE IF NOT EXISTS quiz_answers (
+  quiz_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  question_id TEXT NOT NULL,
+  correct INTEGER NOT NULL,
+  earned_points REAL NOT NULL,
+  submitted_at TEXT NOT NULL,
+  record TEXT NOT NULL,
+  PRIMARY KEY (quiz_id, user_id, question_id),
+  FOREIGN KEY (quiz_id, user_id) REFERENCES quiz_participants (quiz_id, user_id) ON DELETE CASCADE
+);
+`;
+
+interface QuizRow {
+  quiz_id: string;
+  title: string;
+  created_by: string | null;
+  created_at: string;
+  start_time: string | null;
+  end_time: string | null;
+  archived_at: string;
+  time_per_question: number;
+  scoring: string;
+  questions: string;
+}
+
+interface ParticipantRow {
+  user_id: string;
+  player_id: string | null;
+  username: string;
+  score: number;
+  rank: number;
+  correct_answers: number;
+  total_answers: number;
+}
+
+interface SummaryRow {
+  quiz_id: string;
+  title: string;
+  created_by: string | null;
+  created_at: string;
+  start_time: string | null;
+  end_time: string | null;
+  question_count: number;
+  participant_count: number;
+}
+
+interface ResultRow {
+  quiz_id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  end_time: string | null;
+  score: number;
+  rank: number;
+  correct_answers: number;
+  total_answers: number;
+  question_count: number;
+  participant_count: number;
+}
+
+interface AnswerRow {
+  user_id: string;
+  question_id: string;
+  record: string;
+}
+
+export class SqliteQuizArchiveRepository extends QuizArchiveRepository implements OnModuleDestroy {
+  private readonly logger = new Logger(SqliteQuizArchiveRepository.name);
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+
+    this.logger.log(`Quiz archive opened at ${filePath}`);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  async save(quiz: ArchivedQuiz): Promise<void> {
+    const insertQuiz = this.db.prepare(`
+      INSERT INTO quizzes (quiz_id, title, created_by, created_at, start_time, end_time,
+        archived_at, time_per_question, scoring, questions)
+      VALUES (@quizId, @title, @createdBy, @createdAt, @startTime, @endTime,
+        @archivedAt, @timePerQuestion, @scoring, @questions)
+    `);
+    const insertParticipant = this.db.prepare(`
+      INSERT INTO quiz_participants (quiz_id, user_id, player_id, username, score, rank,
+        correct_answers, total_answers)
+      VALUES (@quizId, @userId, @playerId, @username, @score, @rank, @correctAnswers,
+        @totalAnswers)
+    `);
+    const insertAnswer = this.db.prepare(`
+      INSERT INTO quiz_answers (quiz_id, user_id, question_id, correct, earned_points,
+        submitted_at, record)
+      VALUES (@quizId, @userId, @questionId, @correct, @earnedPoints, @submittedAt, @record)
+    `);
+
+    // Replace as a whole: the cascade drops the participants and answers archived before
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM quizzes WHERE quiz_id = ?').run(quiz.quizId);
+
+      insertQuiz.run({
+        quizId: quiz.quizId,
+        title: quiz.title,
+        createdBy: quiz.createdBy ?? null,
+        createdAt: toIsoString(quiz.createdAt),
+        startTime: quiz.startTime ? toIsoString(quiz.startTime) : null,
+        endTime: quiz.endTime ? toIsoString(quiz.endTime) : null,
+        archivedAt: toIsoString(quiz.archivedAt),
+        timePerQuestion: quiz.timePerQuestion,
+        scoring: JSON.stringify(quiz.scoring),
+        questions: JSON.stringify(quiz.questions),
+      });
+
+      for (const participant of quiz.participants) {
+        insertParticipant.run({
+          quizId: quiz.quizId,
+          userId: participant.userId,
+          playerId: participant.playerId,
+          username: participant.username,
+          score: participant.score,
+          rank: participant.rank,
+          correctAnswers: participant.correctAnswers ?? 0,
+          totalAnswers: participant.totalAnswers ?? 0,
+        });
+
+        for (const [questionId, answer] of Object.entries(participant.answers)) {
+          insertAnswer.run({
+            quizId: quiz.quizId,
+            userId: participant.userId,
+            questionId,
+            correct: answer.correct ? 1 : 0,
+            earnedPoints: answer.earnedPoints,
+            submittedAt: toIsoString(answer.submittedAt),
+            record: JSON.stringify(answer),
+          });
+        }
+      }
+    })();
+  }
+
+  async findById(quizId: string): Promise<ArchivedQuiz | undefined> {
+    const row = this.db.prepare('SELECT * FROM quizzes WHERE quiz_id = ?').get(quizId) as
+      | QuizRow
+      | undefined;
+    if (!row) return undefined;
+
+    const participants = this.db
+      .prepare('SELECT * FROM quiz_participants WHERE quiz_id = ? ORDER BY rank')
+      .all(quizId) as ParticipantRow[];
+    const answers = this.db
+      .prepare('SELECT user_id, question_id, record FROM quiz_answers WHERE quiz_id = ?')
+      .all(quizId) as AnswerRow[];
+
+    const byUser = new Map<string, ArchivedParticipant>(
+      participants.map((participant) => [
+        participant.user_id,
+        {
+          userId: participant.user_id,
+          playerId: participant.player_id,
+          username: participant.username,
+          score: participant.score,
+          rank: participant.rank,
+          correctAnswers: participant.correct_answers,
+          totalAnswers: participant.total_answers,
+          answers: {},
+        },
+      ]),
+    );
+    for (const answer of answers) {
+      const participant = byUser.get(answer.user_id);
+      if (participant) {
+        participant.answers[answer.question_id] = JSON.parse(answer.record);
+      }
+    }
+
+    return {
+      quizId: row.quiz_id,
+      title: row.title,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      startTime: row.start_time ? new Date(row.start_time) : undefined,
+      endTime: row.end_time ? new Date(row.end_time) : undefined,
+      archivedAt: new Date(row.archived_at),
+      timePerQuestion: row.time_per_question,
+      scoring: JSON.parse(row.scoring),
+      questions: JSON.parse(row.questions),
+      participants: [...byUser.values()],
+    };
+  }
+
+  async findQuizzes(
+    filter: ArchivedQuizFilter,
+    offset: number,
+    limit: number,
+  ): Promise<ArchivePage<ArchivedQuizSummary>> {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+    if (filter.createdBy !== undefined) {
+      conditions.push('created_by = @createdBy');
+      params.createdBy = filter.createdBy;
+    }
+    if (filter.from) {
+      conditions.push('created_at >= @from');
+      params.from = filter.from.toISOString();
+    }
+    if (filter.to) {
+      conditions.push('created_at <= @to');
+      params.to = filter.to.toISOString();
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM quizzes ${where}`)
+      .get(params) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT quiz_id, title, created_by, created_at, start_time, end_time,
+          json_array_length(questions) AS question_count,
+          (SELECT COUNT(*) FROM quiz_participants p WHERE p.quiz_id = q.quiz_id) AS participant_count
+        FROM quizzes q ${where}
+        ORDER BY created_at DESC, quiz_id DESC
+        LIMIT @limit OFFSET @offset`,
+      )
+      .all({ ...params, limit, offset }) as SummaryRow[];
+
+    return {
+      items: rows.map((row) => ({
+        quizId: row.quiz_id,
+        title: row.title,
+        createdBy: row.created_by ?? undefined,
+        createdAt: new Date(row.created_at),
+        startTime: row.start_time ? new Date(row.start_time) : undefined,
+        endTime: row.end_time ? new Date(row.end_time) : undefined,
+        questionCount: row.question_count,
+        participantCount: row.participant_count,
+      })),
+      total,
+    };
+  }
+
+  async findResultsByPlayer(
+    playerId: string,
+    offset: number,
+    limit: number,
+  ): Promise<ArchivePage<ArchivedResult>> {
+    const { total } = this.db
+      .prepare('SELECT COUNT(*) AS total FROM quiz_participants WHERE player_id = ?')
+      .get(playerId) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT q.quiz_id, p.user_id, q.title, q.created_at, q.end_time,
+          p.score, p.rank, p.correct_answers, p.total_answers,
+          json_array_length(q.questions) AS question_count,
+          (SELECT COUNT(*) FROM quiz_participants o WHERE o.quiz_id = q.quiz_id) AS participant_count
+        FROM quiz_participants p
+        JOIN quizzes q ON q.quiz_id = p.quiz_id
+        WHERE p.player_id = ?
+        ORDER BY q.created_at DESC, q.quiz_id DESC
+        LIMIT ? OFFSET ?`,
+      )
+      .all(playerId, limit, offset) as ResultRow[];
+
+    return {
+      items: rows.map((row) => ({
+        quizId: row.quiz_id,
+        userId: row.user_id,
+        title: row.title,
+        createdAt: new Date(row.created_at),
+        endTime: row.end_time ? new Date(row.end_time) : undefined,
+        score: row.score,
+        rank: row.rank,
+        correctAnswers: row.correct_answers,
+        totalAnswers: row.total_answers,
+        questionCount: row.question_count,
+        participantCount: row.participant_count,
+      })),
+      total,
+    };
+  }
+}
+
+// Dates read back from the quiz store are ISO strings already
+function toIsoString(date: Date | string): string {
+  return new Date(date).toISOString();
+}
@@ -0,0 +1,71 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { IsString } from 'class-validator';
+import { describeError } from './error-body';
+import { ErrorCode } from './error-codes';
+
+describe('describeError', () => {
+  it('should report the code an exception carries', () => {
+    const error = new BadRequestException({ code: ErrorCode.QUIZ_FULL, message: 'Quiz is full' });
+
+    expect(describeError(error)).toEqual({
+      statusCode: 400,
+      code: ErrorCode.QUIZ_FULL,
+      message: 'Quiz is full',
+    });
+  });
+
+  it('should fall back to a code for the status', () => {
+    expect(describeError(new NotFoundException('Nothing here'))).toEqual({
+      statusCode: 404,
+      code: ErrorCode.NOT_FOUND,
+      message: 'Nothing here',
+    });
+    expect(describeError(new ForbiddenException()).code).toBe(ErrorCode.FORBIDDEN);
+  });
+
+  it('should ignore codes outside the catalog', () => {
+    const error = new BadRequestException({ code: 'SOMETHING_ELSE', message: 'Nope' });
+
+    expect(describeError(error).code).toBe(ErrorCode.BAD_REQUEST);
+  });
+
+  it('should join validation failures into one message', async () => {
+    class NameDto {
+      @IsString()
+      name: string;
+    }
+    const pipe = new ValidationPipe();
+
+    const error = await pipe
+      .transform({ name: 1 }, { type: 'body', metatype: NameDto })
+      .catch((caught: unknown) => caught);
+
+    expect(describeError(error)).toEqual({
+      statusCode: 400,
+      code: ErrorCode.VALIDATION_FAILED,
+      message: 'name must be a string',
+    });
+  });
+
+  it('should describe WsExceptions as bad requests', () => {
+    expect(describeError(new WsException('Bad payload'))).toEqual({
+      statusCode: 400,
+      code: ErrorCode.BAD_REQUEST,
+      message: 'Bad payload',
+    });
+  });
+
+  it('should not pass on the message of an unexpected error', () => {
+    expect(describeError(new Error('connect ECONNREFUSED 127.0.0.1:6379'))).toEqual({
+      statusCode: 500,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: 'Internal server error',
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Error Body - What clients are told about a failed request
+ *
+ * Shared by the WebSocket and REST error paths, so both report the same
+ * status, code and message for the same exception.
+ */
+
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { ErrorCode } from './error-codes';
+
+export interface ErrorBody {
+  statusCode: number;
+  code: ErrorCode;
+  message: string;
+}
+
+const ERROR_CODES = new Set<string>(Object.values(ErrorCode));
+
+// Codes for exceptions thrown without one
+const STATUS_CODES: Partial<Record<number, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: ErrorCode.BAD_REQUEST,
+  [HttpStatus.UNAUTHORIZED]: ErrorCode.UNAUTHORIZED,
+  [HttpStatus.FORBIDDEN]: ErrorCode.FORBIDDEN,
+  [HttpStatus.NOT_FOUND]: ErrorCode.NOT_FOUND,
+};
+
+/**
+ * Status, code and message of an exception. Anything that isn't an
+ * HttpException or WsException is an internal error, and its message is not
+ * passed on.
+ */
+export function describeError(exception: unknown): ErrorBody {
+  if (exception instanceof HttpException) {
+    const statusCode = exception.getStatus();
+    const response = exception.getResponse();
+    const body = typeof response === 'object' ? (response as Record<string, unknown>) : {};
+
+    // ValidationPipe lists every failed constraint
+    if (Array.isArray(body.message)) {
+      return {
+        statusCode,
+        code: codeOf(body) ?? ErrorCode.VALIDATION_FAILED,
+        message: body.message.join('; '),
+      };
+    }
+
+    return {
+      statusCode,
+      code: codeOf(body) ?? fallbackCode(statusCode),
+      message: exception.message,
+    };
+  }
+
+  if (exception instanceof WsException) {
+    const error = exception.getError();
+    const body = typeof error === 'object' ? (error as Record<string, unknown>) : {};
+
+    return {
+      statusCode: HttpStatus.BAD_REQUEST,
+      code: codeOf(body) ?? ErrorCode.BAD_REQUEST,
+      message: exception.message,
+    };
+  }
+
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    code: ErrorCode.INTERNAL_ERROR,
+    message: 'Internal server error',
+  };
+}
+
+function codeOf(body: Record<string, unknown>): ErrorCode | undefined {
+  return typeof body.code === 'string' && ERROR_CODES.has(body.code)
+    ? (body.code as ErrorCode)
+    : undefined;
+}
+
+function fallbackCode(statusCode: number): ErrorCode {
+  if (statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+    return ErrorCode.INTERNAL_ERROR;
+  }
+  return STATUS_CODES[statusCode] ?? ErrorCode.BAD_REQUEST;
+}
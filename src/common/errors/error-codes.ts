@@ -0,0 +1,51 @@
+/**
+ * Error Codes - The catalog of reasons a request can fail
+ *
+ * Exceptions carry one of these as `code` next to their message, e.g.
+ * `new BadRequestException({ code: ErrorCode.QUIZ_FULL, message: 'Quiz is full' })`.
+ * Codes are part of the API: add new ones, but don't rename or reuse them.
+ */
+
+/**
+ * Why a request failed; WebSocket errors and REST error responses both carry
+ * it, so clients don't have to match on messages
+ */
+export enum ErrorCode {
+  // General, for exceptions thrown without a code
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+
+  // Quizzes
+  QUIZ_NOT_FOUND = 'QUIZ_NOT_FOUND',
+  QUIZ_FULL = 'QUIZ_FULL',
+  QUIZ_ALREADY_STARTED = 'QUIZ_ALREADY_STARTED',
+  QUIZ_NOT_IN_PROGRESS = 'QUIZ_NOT_IN_PROGRESS',
+  QUIZ_COMPLETED = 'QUIZ_COMPLETED',
+  QUIZ_NOT_COMPLETED = 'QUIZ_NOT_COMPLETED',
+  NO_PARTICIPANTS = 'NO_PARTICIPANTS',
+  NO_MORE_QUESTIONS = 'NO_MORE_QUESTIONS',
+  ALREADY_ADVANCED = 'ALREADY_ADVANCED',
+  INVALID_QUIZ_SETTINGS = 'INVALID_QUIZ_SETTINGS',
+  NOT_ENOUGH_QUESTIONS = 'NOT_ENOUGH_QUESTIONS',
+
+  // Participants and hosts
+  PARTICIPANT_NOT_FOUND = 'PARTICIPANT_NOT_FOUND',
+  NOT_JOINED = 'NOT_JOINED',
+  INVALID_RESUME_TOKEN = 'INVALID_RESUME_TOKEN',
+  NOT_HOST = 'NOT_HOST',
+
+  // Answers
+  QUESTION_NOT_FOUND = 'QUESTION_NOT_FOUND',
+  QUESTION_CLOSED = 'QUESTION_CLOSED',
+  TIME_UP = 'TIME_UP',
+  INVALID_ANSWER = 'INVALID_ANSWER',
+  ALREADY_ANSWERED = 'ALREADY_ANSWERED',
+
+  // Question bank
+  INVALID_QUESTION = 'INVALID_QUESTION',
+  INVALID_IMPORT = 'INVALID_IMPORT',
+}
@@ -0,0 +1,71 @@
+import { ArgumentsHost, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ErrorCode } from '../errors/error-codes';
+import { HttpExceptionFilter } from './http-exception.filter';
+
+describe('HttpExceptionFilter', () => {
+  const filter = new HttpExceptionFilter();
+  let response: { headersSent: boolean; status: jest.Mock; json: jest.Mock; end: jest.Mock };
+  let host: ArgumentsHost;
+
+  beforeEach(() => {
+    response = { headersSent: false, status: jest.fn(), json: jest.fn(), end: jest.fn() };
+    response.status.mockReturnValue(response);
+    host = {
+      switchToHttp: () => ({ getResponse: () => response }),
+    } as unknown as ArgumentsHost;
+  });
+
+  it('should answer with the status, code and message', () => {
+    filter.catch(
+      new ForbiddenException({
+        code: ErrorCode.NOT_HOST,
+        message: 'Only the quiz host can perform this action',
+      }),
+      host,
+    );
+
+    expect(response.status).toHaveBeenCalledWith(403);
+    expect(response.json).toHaveBeenCalledWith({
+      statusCode: 403,
+      code: ErrorCode.NOT_HOST,
+      message: 'Only the quiz host can perform this action',
+    });
+  });
+
+  it('should pass on the extra fields of an exception', () => {
+    const errors = [{ row: 2, message: 'text is required' }];
+
+    filter.catch(
+      new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: '1 row(s) failed validation; nothing was imported',
+        errors,
+      }),
+      host,
+    );
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: ErrorCode.INVALID_IMPORT, errors }),
+    );
+  });
+
+  it('should hide the details of unexpected errors', () => {
+    filter.catch(new Error('SQLITE_BUSY: database is locked'), host);
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(response.json).toHaveBeenCalledWith({
+      statusCode: 500,
+      code: ErrorCode.INTERNAL_ERROR,
+      message: 'Internal server error',
+    });
+  });
+
+  it('should only end a response that has already started streaming', () => {
+    response.headersSent = true;
+
+    filter.catch(new BadRequestException('Too late'), host);
+
+    expect(response.end).toHaveBeenCalled();
+    expect(response.json).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * HTTP Exception Filter
+ * Gives every failed REST request the same body: status, error code and message
+ *
+ * Fields an exception adds to its body besides those (e.g. `errors` on a
+ * rejected question import) are passed through.
+ */
+
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { describeError } from '../errors/error-body';
+
+// What Nest and the services put in an exception body that describeError already covers
+const DESCRIBED_FIELDS = ['statusCode', 'code', 'message', 'error'];
+
+@Catch()
+export class HttpExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(HttpExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const error = describeError(exception);
+
+    if (error.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `HTTP error: ${exception instanceof Error ? exception.message : String(exception)}`,
+        exception instanceof Error ? exception.stack : '',
+      );
+    }
+
+    // A streamed response (SSE) can only be cut short
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+
+    response.status(error.statusCode).json({ ...error, ...this.detailsOf(exception) });
+  }
+
+  private detailsOf(exception: unknown): Record<string, unknown> {
+    const body = exception instanceof HttpException ? exception.getResponse() : undefined;
+    if (typeof body !== 'object' || body === null) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      Object.entries(body).filter(([field]) => !DESCRIBED_FIELDS.includes(field)),
+    );
+  }
+}
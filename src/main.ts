@@ -12,6 +12,10 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import { RedisService } from './redis/redis.service';
+import { RedisIoAdapter } from './redis/redis-io.adapter';
+import { QuizStore } from './storage/quiz.store';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -26,6 +30,15 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Relay room broadcasts through Redis so several instances can serve one quiz
+  // (the in-memory store only ever runs as a single instance)
+  const store = app.get(QuizStore);
+  if (store instanceof RedisService) {
+    const redisIoAdapter = new RedisIoAdapter(app, store);
+    await redisIoAdapter.connectToRedis();
+    app.useWebSocketAdapter(redisIoAdapter);
+  }
+
   // Global validation pipe for DTO validation
   app.useGlobalPipes(
     new ValidationPipe({
@@ -38,6 +51,9 @@ async function bootstrap() {
     }),
   );
 
+  // Same error body, with an error code, for every failed REST request
+  app.useGlobalFilters(new HttpExceptionFilter());
+
   // Swagger/OpenAPI Documentation Setup
   const config = new DocumentBuilder()
     .setTitle('Real-Time Vocabulary Quiz API')
@@ -51,6 +67,7 @@ async function bootstrap() {
     .addTag('quiz', 'Quiz management and session operations')
     .addTag('leaderboard', 'Leaderboard and scoring endpoints')
     .addTag('participants', 'Participant management endpoints')
+    .addTag('history', "Quiz listings and players' past results")
     .addServer('http://localhost:3000', 'Local development server')
     .addServer('https://api.quiz.example.com', 'Production server')
     .build();
@@ -0,0 +1,35 @@
+import { normalizeAnswer, editDistance, defaultTypoTolerance } from './answer-matching';
+
+describe('answer matching', () => {
+  describe('normalizeAnswer', () => {
+    it('should ignore case, accents and extra whitespace', () => {
+      expect(normalizeAnswer('  Café  Crème ')).toBe('cafe creme');
+      expect(normalizeAnswer('NAÏVE')).toBe('naive');
+      expect(normalizeAnswer('résumé')).toBe(normalizeAnswer('resume'));
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('enormous', 'enormous')).toBe(0);
+      expect(editDistance('enormous', 'enormus')).toBe(1);
+      expect(editDistance('enormous', 'enormouss')).toBe(1);
+      expect(editDistance('enormous', 'enarmous')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+
+    it('should count an adjacent transposition as one edit', () => {
+      expect(editDistance('receive', 'recieve')).toBe(1);
+      expect(editDistance('ab', 'ba')).toBe(1);
+    });
+  });
+
+  describe('defaultTypoTolerance', () => {
+    it('should allow more typos for longer answers', () => {
+      expect(defaultTypoTolerance('cat')).toBe(0);
+      expect(defaultTypoTolerance('brave')).toBe(1);
+      expect(defaultTypoTolerance('ephemeral')).toBe(2);
+    });
+  });
+});
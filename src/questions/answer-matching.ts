@@ -0,0 +1,49 @@
+/**
+ * Text helpers for comparing typed answers
+ */
+
+// Credit lost per typo when a text answer is accepted as a near-miss
+export const TYPO_PENALTY = 0.25;
+
+/**
+ * Normalize an answer for comparison: case, surrounding and repeated
+ * whitespace, and accents/diacritics ("Café" matches "cafe")
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Typos allowed when a question doesn't set its own tolerance:
+ * none for short words, where one edit often makes a different word
+ */
+export function defaultTypoTolerance(answer: string): number {
+  const length = normalizeAnswer(answer).length;
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+/**
+ * Number of single-character insertions, deletions, substitutions or
+ * adjacent transpositions needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  // rows[i][j] = distance between the first i chars of a and the first j chars of b
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
@@ -8,7 +8,7 @@
  * - Refinement: Adjusted difficulty distribution and added more diverse vocabulary
  */
 
-import { Question } from '../interfaces/quiz.interface';
+import { Question } from '../interfaces/question.interface';
 
 export const QUESTION_BANK: Question[] = [
   // Easy Questions
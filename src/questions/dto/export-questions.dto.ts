@@ -0,0 +1,35 @@
+/**
+ * Query parameters for exporting bank questions
+ */
+
+import { IsString, IsNotEmpty, IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Difficulty, QuestionFormat } from '../interfaces/question.interface';
+
+export class ExportQuestionsDto {
+  @ApiPropertyOptional({
+    description: 'File format',
+    enum: ['csv', 'json', 'anki'],
+    default: 'json',
+  })
+  @IsIn(['csv', 'json', 'anki'])
+  @IsOptional()
+  format?: QuestionFormat;
+
+  @ApiPropertyOptional({
+    description: 'Only questions in this category (case-insensitive)',
+    example: 'emotions',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only questions of this difficulty',
+    enum: ['easy', 'medium', 'hard'],
+  })
+  @IsIn(['easy', 'medium', 'hard'])
+  @IsOptional()
+  difficulty?: Difficulty;
+}
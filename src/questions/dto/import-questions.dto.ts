@@ -0,0 +1,27 @@
+/**
+ * Query parameters for importing questions from a file
+ */
+
+import { IsIn, IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { QuestionFormat } from '../interfaces/question.interface';
+
+export class ImportQuestionsDto {
+  @ApiPropertyOptional({
+    description: 'File format (detected from the file extension when omitted)',
+    enum: ['csv', 'json', 'anki'],
+  })
+  @IsIn(['csv', 'json', 'anki'])
+  @IsOptional()
+  format?: QuestionFormat;
+
+  @ApiPropertyOptional({
+    description: 'Validate the file and report what would change without importing',
+    default: false,
+  })
+  @Transform(({ obj }) => obj.dryRun === true || obj.dryRun === 'true')
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
@@ -0,0 +1,42 @@
+/**
+ * Query parameters for listing bank questions
+ */
+
+import { IsString, IsNotEmpty, IsIn, IsInt, Min, Max, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Difficulty } from '../interfaces/question.interface';
+
+export class ListQuestionsDto {
+  @ApiPropertyOptional({
+    description: 'Only questions in this category (case-insensitive)',
+    example: 'emotions',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only questions of this difficulty',
+    enum: ['easy', 'medium', 'hard'],
+  })
+  @IsIn(['easy', 'medium', 'hard'])
+  @IsOptional()
+  difficulty?: Difficulty;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Questions per page', minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
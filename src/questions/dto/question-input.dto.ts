@@ -0,0 +1,157 @@
+/**
+ * DTO for question content, used to add bank questions and for custom
+ * questions posted inline with a create-quiz request
+ */
+
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsNumber,
+  IsInt,
+  IsIn,
+  Min,
+  Max,
+  IsOptional,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { QuestionType, LIST_QUESTION_TYPES } from '../interfaces/question.interface';
+
+const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'text', ...LIST_QUESTION_TYPES];
+
+export class QuestionInputDto {
+  @ApiPropertyOptional({
+    description:
+      'multiple_choice: pick one option; text: type the answer, matched with typo tolerance; ' +
+      'multi_select: pick every correct option; matching: pick the option for each prompt; ' +
+      'ordering: put the options in order',
+    enum: QUESTION_TYPES,
+    default: 'multiple_choice',
+  })
+  @IsIn(QUESTION_TYPES)
+  @IsOptional()
+  type?: QuestionType;
+
+  @ApiProperty({
+    description: 'Question text',
+    example: 'What does "brave" mean?',
+  })
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Answer options shown to participants, required except for text questions. ' +
+      'For ordering questions, the items in the order they are shown.',
+    type: [String],
+    example: ['Scared', 'Courageous', 'Lazy', 'Quiet'],
+  })
+  @ValidateIf((o) => o.type !== 'text')
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Matching questions: the items to match, each to one of the options',
+    type: [String],
+    example: ['rapid', 'ancient'],
+  })
+  @ValidateIf((o) => o.type === 'matching')
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  prompts?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Correct answer, required for multiple choice (one of the options) and text questions',
+    example: 'Courageous',
+  })
+  @ValidateIf((o) => !LIST_QUESTION_TYPES.includes(o.type))
+  @IsString()
+  @IsNotEmpty()
+  correctAnswer?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Required for multi_select (the options to pick), matching (the option for each prompt, ' +
+      'in prompt order) and ordering (every option in the correct order)',
+    type: [String],
+    example: ['Fast', 'Quick'],
+  })
+  @ValidateIf((o) => LIST_QUESTION_TYPES.includes(o.type))
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  answerKey?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Text questions: other answers that also count as correct',
+    type: [String],
+    example: ['Bold', 'Fearless'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  acceptedAnswers?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Text questions: typos (edits) accepted per answer, each costing 25% of the points. ' +
+      'Defaults to 0 for answers up to 4 characters, 1 up to 8 and 2 beyond.',
+    minimum: 0,
+    maximum: 3,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  @IsOptional()
+  typoTolerance?: number;
+
+  @ApiPropertyOptional({
+    description: 'Question difficulty',
+    enum: ['easy', 'medium', 'hard'],
+    default: 'medium',
+  })
+  @IsIn(['easy', 'medium', 'hard'])
+  @IsOptional()
+  difficulty?: 'easy' | 'medium' | 'hard';
+
+  @ApiPropertyOptional({
+    description: 'Question category',
+    example: 'adjectives',
+    default: 'custom',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Base points for a correct answer (defaults by difficulty)',
+    example: 15,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  points?: number;
+}
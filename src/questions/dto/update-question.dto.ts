@@ -0,0 +1,8 @@
+/**
+ * DTO for updating a bank question (all fields optional)
+ */
+
+import { PartialType } from '@nestjs/swagger';
+import { QuestionInputDto } from './question-input.dto';
+
+export class UpdateQuestionDto extends PartialType(QuestionInputDto) {}
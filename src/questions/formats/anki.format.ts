@@ -0,0 +1,198 @@
+/**
+ * Anki "Notes in Plain Text" format
+ *
+ * Each note is Front, Back and an optional Distractors field ("|"-separated).
+ * The front becomes the question text and the back the correct answer. Notes
+ * without distractors borrow the backs of other notes in the same file as wrong
+ * options. File headers written by Anki are honoured:
+ *
+ *   #separator:tab        field separator (tab, comma, semicolon, pipe, space)
+ *   #html:true            strip HTML markup from fields
+ *   #guid column:1        note GUID, used as the question ID
+ *   #tags column:5        tags; easy/medium/hard set the difficulty, the first
+ *                         other tag the category
+ *   #notetype/#deck column:N   ignored
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ErrorCode } from '../../common/errors/error-codes';
+import {
+  Question,
+  QuestionFormatHandler,
+  ParsedQuestions,
+  ParsedQuestionRow,
+  Difficulty,
+  LIST_QUESTION_TYPES,
+} from '../interfaces/question.interface';
+import { parseDelimited, formatDelimited } from './delimited';
+import { OPTION_SEPARATOR } from './csv.format';
+
+const SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const MAX_BORROWED_DISTRACTORS = 3;
+
+interface AnkiHeaders {
+  separator: string;
+  html: boolean;
+  columns: Record<string, number>; // special column name -> 0-based index
+}
+
+export const ankiFormat: QuestionFormatHandler = {
+  contentType: 'text/tab-separated-values',
+  extension: 'txt',
+
+  parse(content: string): ParsedQuestions {
+    const headers = readHeaders(content);
+    // Blank out header lines so record line numbers still match the file
+    const body = content
+      .split('\n')
+      .map((line) => (line.startsWith('#') ? '' : line))
+      .join('\n');
+
+    const specialColumns = new Set(Object.values(headers.columns));
+    const clean = (value: string) => (headers.html ? stripHtml(value) : value).trim();
+
+    const result: ParsedQuestions = { rows: [], errors: [] };
+    const notes: Array<{ row: ParsedQuestionRow; distractors: string[]; back: string }> = [];
+
+    for (const record of parseDelimited(body, headers.separator)) {
+      const fields = record.fields
+        .filter((_, index) => !specialColumns.has(index))
+        .map((value) => clean(value));
+      const [front, back, distractors] = fields;
+
+      if (!front || !back) {
+        result.errors.push({
+          row: record.line,
+          message: 'Expected at least Front and Back fields',
+        });
+        continue;
+      }
+
+      const input: Record<string, unknown> = { text: front, correctAnswer: back };
+      const tagsColumn = headers.columns.tags;
+      if (tagsColumn !== undefined && record.fields[tagsColumn]) {
+        Object.assign(input, readTags(clean(record.fields[tagsColumn])));
+      }
+
+      const guidColumn = headers.columns.guid;
+      const id = guidColumn !== undefined ? clean(record.fields[guidColumn] ?? '') : '';
+
+      notes.push({
+        row: { row: record.line, id: id || undefined, input },
+        back,
+        distractors: (distractors ?? '')
+          .split(OPTION_SEPARATOR)
+          .map((option) => option.trim())
+          .filter((option) => option !== ''),
+      });
+    }
+
+    const backs = [...new Set(notes.map((note) => note.back))];
+
+    notes.forEach((note, index) => {
+      const wrongOptions =
+        note.distractors.length > 0 ? note.distractors : borrowDistractors(backs, note.back);
+
+      // Keep the correct answer's position stable between dry runs and imports
+      const options = [...wrongOptions];
+      options.splice(index % (options.length + 1), 0, note.back);
+
+      result.rows.push({ ...note.row, input: { ...note.row.input, options } });
+    });
+
+    return result;
+  },
+
+  serialize(questions: Question[]): string {
+    const headers = ['#separator:tab', '#html:false', '#guid column:1', '#tags column:5'];
+    // Notes have one answer, so list question types can't be exported
+    const rows = questions
+      .filter((q) => !LIST_QUESTION_TYPES.includes(q.type ?? 'multiple_choice'))
+      .map((q) => [
+        q.id,
+        q.text,
+        q.correctAnswer,
+        q.options.filter((option) => option !== q.correctAnswer).join(OPTION_SEPARATOR),
+        `${q.difficulty} ${q.category.replace(/\s+/g, '_')}`,
+      ]);
+
+    return headers.join('\n') + '\n' + formatDelimited(rows, '\t');
+  },
+};
+
+function readHeaders(content: string): AnkiHeaders {
+  const headers: AnkiHeaders = { separator: '\t', html: false, columns: {} };
+
+  for (const line of content.split('\n')) {
+    if (!line.startsWith('#')) continue;
+
+    const [key, value = ''] = line.slice(1).trim().split(':');
+    const column = key.match(/^(guid|tags|notetype|deck) column$/);
+
+    if (column) {
+      headers.columns[column[1]] = parseInt(value, 10) - 1;
+    } else if (key === 'separator') {
+      const separator = SEPARATORS[value.trim().toLowerCase()];
+      if (!separator) {
+        throw new BadRequestException({
+          code: ErrorCode.INVALID_IMPORT,
+          message: `Unsupported Anki separator "${value.trim()}"`,
+        });
+      }
+      headers.separator = separator;
+    } else if (key === 'html') {
+      headers.html = value.trim() === 'true';
+    }
+  }
+
+  return headers;
+}
+
+function readTags(tags: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const tag of tags.split(/\s+/).filter(Boolean)) {
+    // Hierarchical tags (e.g. level::easy) are matched on their last part
+    const name = tag.split('::').pop() as string;
+    const difficulty = DIFFICULTIES.find((d) => d === name.toLowerCase());
+
+    if (difficulty && !result.difficulty) {
+      result.difficulty = difficulty;
+    } else if (!difficulty && !result.category) {
+      result.category = name.replace(/_/g, ' ');
+    }
+  }
+
+  return result;
+}
+
+function borrowDistractors(backs: string[], answer: string): string[] {
+  const start = backs.indexOf(answer);
+  const others: string[] = [];
+
+  for (let i = 1; i < backs.length && others.length < MAX_BORROWED_DISTRACTORS; i++) {
+    others.push(backs[(start + i) % backs.length]);
+  }
+
+  return others;
+}
+
+function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,136 @@
+/**
+ * CSV question format
+ *
+ * One question per row with a header row. List columns (prompts, options,
+ * answerKey, acceptedAnswers) are separated by "|"; only text is required as a
+ * column, the other fields are checked per question type on import.
+ *
+ *   id,type,text,prompts,options,correctAnswer,answerKey,acceptedAnswers,typoTolerance,difficulty,category,points
+ *   q1,,"What does ""happy"" mean?",,Sad|Joyful|Angry|Tired,Joyful,,,,easy,emotions,10
+ *   q2,text,Spell the word for 'very big',,,enormous,,huge|gigantic,1,medium,spelling,15
+ *   q3,multi_select,Pick the synonyms of 'rapid',,Fast|Slow|Quick,,Fast|Quick,,,hard,synonyms,20
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { Question, QuestionFormatHandler, ParsedQuestions } from '../interfaces/question.interface';
+import { parseDelimited, formatDelimited } from './delimited';
+
+const COLUMNS = [
+  'id',
+  'type',
+  'text',
+  'prompts',
+  'options',
+  'correctAnswer',
+  'answerKey',
+  'acceptedAnswers',
+  'typoTolerance',
+  'difficulty',
+  'category',
+  'points',
+];
+const REQUIRED_COLUMNS = ['text'];
+
+export const OPTION_SEPARATOR = '|';
+
+export const csvFormat: QuestionFormatHandler = {
+  contentType: 'text/csv',
+  extension: 'csv',
+
+  parse(content: string): ParsedQuestions {
+    const [header, ...records] = parseDelimited(content, ',');
+    if (!header) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: 'The CSV file is empty',
+      });
+    }
+
+    const columns = header.fields.map((name) => {
+      const column = COLUMNS.find((c) => c.toLowerCase() === name.trim().toLowerCase());
+      if (!column) {
+        throw new BadRequestException({
+          code: ErrorCode.INVALID_IMPORT,
+          message: `Unknown CSV column "${name}". Expected: ${COLUMNS.join(', ')}`,
+        });
+      }
+      return column;
+    });
+
+    const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+    if (missing.length > 0) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: `Missing CSV columns: ${missing.join(', ')}`,
+      });
+    }
+
+    const result: ParsedQuestions = { rows: [], errors: [] };
+
+    for (const record of records) {
+      if (record.fields.length !== columns.length) {
+        result.errors.push({
+          row: record.line,
+          message: `Expected ${columns.length} columns, found ${record.fields.length}`,
+        });
+        continue;
+      }
+
+      const values: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        values[column] = record.fields[index].trim();
+      });
+
+      const input: Record<string, unknown> = {
+        text: values.text,
+        options: splitList(values.options),
+      };
+      if (values.type) input.type = values.type;
+      if (values.prompts) input.prompts = splitList(values.prompts);
+      if (values.correctAnswer) input.correctAnswer = values.correctAnswer;
+      if (values.answerKey) input.answerKey = splitList(values.answerKey);
+      if (values.acceptedAnswers) input.acceptedAnswers = splitList(values.acceptedAnswers);
+      if (values.typoTolerance) input.typoTolerance = toNumber(values.typoTolerance);
+      if (values.difficulty) input.difficulty = values.difficulty;
+      if (values.category) input.category = values.category;
+      if (values.points) input.points = toNumber(values.points);
+
+      result.rows.push({ row: record.line, id: values.id || undefined, input });
+    }
+
+    return result;
+  },
+
+  serialize(questions: Question[]): string {
+    const rows = questions.map((q) => [
+      q.id,
+      q.type ?? '',
+      q.text,
+      (q.prompts ?? []).join(OPTION_SEPARATOR),
+      q.options.join(OPTION_SEPARATOR),
+      q.correctAnswer,
+      (q.answerKey ?? []).join(OPTION_SEPARATOR),
+      (q.acceptedAnswers ?? []).join(OPTION_SEPARATOR),
+      q.typoTolerance?.toString() ?? '',
+      q.difficulty,
+      q.category,
+      String(q.points),
+    ]);
+
+    return formatDelimited([COLUMNS, ...rows], ',');
+  },
+};
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(OPTION_SEPARATOR)
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+// Leave unparseable numbers as text so validation reports them
+function toNumber(value: string): number | string {
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
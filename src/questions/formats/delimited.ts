@@ -0,0 +1,86 @@
+/**
+ * Minimal reader/writer for delimiter-separated text (CSV, TSV)
+ *
+ * Follows RFC 4180 quoting: fields containing the delimiter, quotes or line
+ * breaks are wrapped in double quotes and embedded quotes are doubled.
+ */
+
+export interface DelimitedRecord {
+  line: number; // 1-based line the record starts on
+  fields: string[];
+}
+
+/**
+ * Split text into records, skipping blank lines
+ */
+export function parseDelimited(content: string, delimiter: string): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  const text = content.replace(/^\uFEFF/, '');
+
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Join rows into delimiter-separated text, quoting fields where needed
+ */
+export function formatDelimited(rows: string[][], delimiter: string): string {
+  const needsQuotes = (value: string) =>
+    value.includes(delimiter) || value.includes('"') || /[\r\n]/.test(value);
+
+  return (
+    rows
+      .map((row) =>
+        row
+          .map((value) => (needsQuotes(value) ? `"${value.replace(/"/g, '""')}"` : value))
+          .join(delimiter),
+      )
+      .join('\n') + '\n'
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * JSON question format: an array of question objects (or { "questions": [...] })
+ * using the same fields as the REST API. Rows are numbered from 1.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { Question, QuestionFormatHandler, ParsedQuestions } from '../interfaces/question.interface';
+
+export const jsonFormat: QuestionFormatHandler = {
+  contentType: 'application/json',
+  extension: 'json',
+
+  parse(content: string): ParsedQuestions {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: `Invalid JSON: ${error.message}`,
+      });
+    }
+
+    const items = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: 'Expected a JSON array of questions',
+      });
+    }
+
+    const result: ParsedQuestions = { rows: [], errors: [] };
+
+    items.forEach((item, index) => {
+      const row = index + 1;
+
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        result.errors.push({ row, message: 'Expected a question object' });
+        return;
+      }
+
+      const { id, ...input } = item as Record<string, unknown>;
+      if (id !== undefined && typeof id !== 'string') {
+        result.errors.push({ row, field: 'id', message: 'id must be a string' });
+        return;
+      }
+
+      result.rows.push({ row, id: id || undefined, input });
+    });
+
+    return result;
+  },
+
+  serialize(questions: Question[]): string {
+    return JSON.stringify(questions, null, 2) + '\n';
+  },
+};
@@ -0,0 +1,233 @@
+import { BadRequestException } from '@nestjs/common';
+import { Question } from '../interfaces/question.interface';
+import { parseDelimited, formatDelimited } from './delimited';
+import { QUESTION_FORMATS, detectQuestionFormat } from './question-formats';
+
+describe('question formats', () => {
+  const questions: Question[] = [
+    {
+      id: 'q1',
+      text: 'What does "happy" mean?',
+      options: ['Sad', 'Joyful', 'Angry', 'Tired'],
+      correctAnswer: 'Joyful',
+      difficulty: 'easy',
+      category: 'emotions',
+      points: 10,
+    },
+    {
+      id: 'q2',
+      text: 'Choose the synonym of "big", please',
+      options: ['Large', 'Small, tiny', 'Thin'],
+      correctAnswer: 'Large',
+      difficulty: 'hard',
+      category: 'word pairs',
+      points: 20,
+    },
+  ];
+
+  describe('delimited text', () => {
+    it('should handle quoted fields, embedded quotes and line breaks', () => {
+      const content = 'a,"b ""quoted"", here"\n\n"multi\nline",c\r\nd,e';
+
+      expect(parseDelimited(content, ',')).toEqual([
+        { line: 1, fields: ['a', 'b "quoted", here'] },
+        { line: 3, fields: ['multi\nline', 'c'] },
+        { line: 5, fields: ['d', 'e'] },
+      ]);
+    });
+
+    it('should strip a byte order mark', () => {
+      expect(parseDelimited('\uFEFFa,b', ',')).toEqual([{ line: 1, fields: ['a', 'b'] }]);
+    });
+
+    it('should round-trip values that need quoting', () => {
+      const rows = [['plain', 'with,comma', 'with "quote"', 'with\nbreak']];
+      expect(parseDelimited(formatDelimited(rows, ','), ',')[0].fields).toEqual(rows[0]);
+    });
+  });
+
+  describe('detectQuestionFormat', () => {
+    it('should map file extensions to formats', () => {
+      expect(detectQuestionFormat('bank.CSV')).toBe('csv');
+      expect(detectQuestionFormat('bank.json')).toBe('json');
+      expect(detectQuestionFormat('deck.txt')).toBe('anki');
+      expect(detectQuestionFormat('deck.tsv')).toBe('anki');
+      expect(detectQuestionFormat('bank.xlsx')).toBeUndefined();
+    });
+  });
+
+  describe('csv', () => {
+    const csv = QUESTION_FORMATS.csv;
+
+    it('should round-trip questions', () => {
+      const parsed = csv.parse(csv.serialize(questions));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.rows.map(({ id, input }) => ({ id, ...input }))).toEqual(questions);
+    });
+
+    it('should round-trip text questions', () => {
+      const textQuestion: Question = {
+        id: 't1',
+        type: 'text',
+        text: 'Spell the word meaning "very large"',
+        options: [],
+        correctAnswer: 'enormous',
+        acceptedAnswers: ['huge', 'gigantic'],
+        typoTolerance: 0,
+        difficulty: 'medium',
+        category: 'spelling',
+        points: 15,
+      };
+
+      const parsed = csv.parse(csv.serialize([textQuestion]));
+
+      expect(parsed.rows.map(({ id, input }) => ({ id, ...input }))).toEqual([textQuestion]);
+    });
+
+    it('should round-trip list question types', () => {
+      const matching: Question = {
+        id: 'm1',
+        type: 'matching',
+        text: 'Match each word to its meaning',
+        options: ['Old', 'Fast', 'Unused'],
+        prompts: ['ancient', 'rapid'],
+        correctAnswer: 'ancient → Old; rapid → Fast',
+        answerKey: ['Old', 'Fast'],
+        difficulty: 'hard',
+        category: 'vocabulary',
+        points: 20,
+      };
+
+      const parsed = csv.parse(csv.serialize([matching]));
+
+      expect(parsed.rows.map(({ id, input }) => ({ id, ...input }))).toEqual([matching]);
+    });
+
+    it('should accept columns in any order and leave optional ones out', () => {
+      const parsed = csv.parse('CorrectAnswer,Text,Options\nJoyful,Happy?,Sad|Joyful\n');
+
+      expect(parsed.rows).toEqual([
+        {
+          row: 2,
+          id: undefined,
+          input: { text: 'Happy?', options: ['Sad', 'Joyful'], correctAnswer: 'Joyful' },
+        },
+      ]);
+    });
+
+    it('should report rows with the wrong number of columns', () => {
+      const parsed = csv.parse('text,options,correctAnswer\nHappy?,Sad|Joyful\n');
+
+      expect(parsed.rows).toEqual([]);
+      expect(parsed.errors).toEqual([{ row: 2, message: 'Expected 3 columns, found 2' }]);
+    });
+
+    it('should reject unknown or missing columns', () => {
+      expect(() => csv.parse('text,options,answer\n')).toThrow(BadRequestException);
+      expect(() => csv.parse('options,correctAnswer\n')).toThrow('Missing CSV columns: text');
+      expect(() => csv.parse('')).toThrow('The CSV file is empty');
+    });
+  });
+
+  describe('json', () => {
+    const json = QUESTION_FORMATS.json;
+
+    it('should round-trip questions', () => {
+      const parsed = json.parse(json.serialize(questions));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.rows.map(({ id, input }) => ({ id, ...input }))).toEqual(questions);
+    });
+
+    it('should accept a { questions } wrapper', () => {
+      const parsed = json.parse(JSON.stringify({ questions: [{ text: 'Happy?' }] }));
+      expect(parsed.rows).toEqual([{ row: 1, id: undefined, input: { text: 'Happy?' } }]);
+    });
+
+    it('should report entries that are not question objects', () => {
+      const parsed = json.parse(JSON.stringify([{ id: 5, text: 'x' }, 'text', { text: 'ok' }]));
+
+      expect(parsed.rows.map((row) => row.row)).toEqual([3]);
+      expect(parsed.errors).toEqual([
+        { row: 1, field: 'id', message: 'id must be a string' },
+        { row: 2, message: 'Expected a question object' },
+      ]);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => json.parse('[{')).toThrow(BadRequestException);
+      expect(() => json.parse('{"items": []}')).toThrow('Expected a JSON array of questions');
+    });
+  });
+
+  describe('anki', () => {
+    const anki = QUESTION_FORMATS.anki;
+
+    it('should round-trip questions (option order aside)', () => {
+      const parsed = anki.parse(anki.serialize(questions));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.rows).toHaveLength(2);
+      parsed.rows.forEach(({ id, input }, index) => {
+        const question = questions[index];
+        expect({ id, ...input, options: [...(input.options as string[])].sort() }).toEqual({
+          id: question.id,
+          text: question.text,
+          options: [...question.options].sort(),
+          correctAnswer: question.correctAnswer,
+          difficulty: question.difficulty,
+          category: question.category,
+        });
+      });
+    });
+
+    it('should borrow distractors from other notes when a note has none', () => {
+      const parsed = anki.parse('happy\tjoyful\nsad\tunhappy\nbig\tlarge\n');
+
+      expect(parsed.rows.map((row) => row.row)).toEqual([1, 2, 3]);
+      expect(parsed.rows[0].input).toEqual({
+        text: 'happy',
+        correctAnswer: 'joyful',
+        options: ['joyful', 'unhappy', 'large'],
+      });
+      expect([...(parsed.rows[2].input.options as string[])].sort()).toEqual([
+        'joyful',
+        'large',
+        'unhappy',
+      ]);
+    });
+
+    it('should honour Anki file headers', () => {
+      const content = [
+        '#separator:semicolon',
+        '#html:true',
+        '#deck column:1',
+        '#tags column:4',
+        'Vocab;"<b>Happy</b>&nbsp;means?";Joyful;vocab::level::hard phrasal_verbs',
+        'Vocab;only front',
+      ].join('\n');
+
+      const parsed = anki.parse(content);
+
+      expect(parsed.rows[0]).toEqual({
+        row: 5,
+        id: undefined,
+        input: {
+          text: 'Happy means?',
+          correctAnswer: 'Joyful',
+          difficulty: 'hard',
+          category: 'phrasal verbs',
+          options: ['Joyful'],
+        },
+      });
+      expect(parsed.errors).toEqual([
+        { row: 6, message: 'Expected at least Front and Back fields' },
+      ]);
+    });
+
+    it('should reject unsupported separators', () => {
+      expect(() => anki.parse('#separator:colon\na:b\n')).toThrow(BadRequestException);
+    });
+  });
+});
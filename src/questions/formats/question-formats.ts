@@ -0,0 +1,29 @@
+/**
+ * Registry of supported question import/export formats
+ */
+
+import { QuestionFormat, QuestionFormatHandler } from '../interfaces/question.interface';
+import { csvFormat } from './csv.format';
+import { jsonFormat } from './json.format';
+import { ankiFormat } from './anki.format';
+
+export const QUESTION_FORMATS: Record<QuestionFormat, QuestionFormatHandler> = {
+  csv: csvFormat,
+  json: jsonFormat,
+  anki: ankiFormat,
+};
+
+const EXTENSIONS: Record<string, QuestionFormat> = {
+  csv: 'csv',
+  json: 'json',
+  txt: 'anki',
+  tsv: 'anki',
+};
+
+/**
+ * Guess the format from a file name's extension
+ */
+export function detectQuestionFormat(filename: string): QuestionFormat | undefined {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension];
+}
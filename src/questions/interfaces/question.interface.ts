@@ -0,0 +1,111 @@
+/**
+ * Question bank interfaces
+ */
+
+/**
+ * - multiple_choice: pick one of the options
+ * - text: type the answer
+ * - multi_select: pick every correct option
+ * - matching: pick the option that goes with each prompt (e.g. word -> definition)
+ * - ordering: put the options in order
+ */
+export type QuestionType = 'multiple_choice' | 'text' | 'multi_select' | 'matching' | 'ordering';
+
+// Question types answered with a list and scored with partial credit
+export const LIST_QUESTION_TYPES: QuestionType[] = ['multi_select', 'matching', 'ordering'];
+
+// A single option or typed answer, or a list for multi_select, matching and ordering
+export type SubmittedAnswer = string | string[];
+
+export interface Question {
+  id: string;
+  type?: QuestionType; // defaults to multiple_choice
+  text: string;
+  options: string[]; // empty for text questions
+  prompts?: string[]; // matching: the items to match to an option
+  correctAnswer: string; // list question types: readable summary of answerKey
+  answerKey?: string[]; // multi_select: options to pick; matching: option per prompt; ordering: options in order
+  acceptedAnswers?: string[]; // text questions: other answers that also count as correct
+  typoTolerance?: number; // text questions: typos accepted, for partial credit
+  difficulty: 'easy' | 'medium' | 'hard';
+  category: string;
+  points: number;
+}
+
+export interface QuestionInput {
+  type?: QuestionType;
+  text: string;
+  options?: string[]; // required except for text questions
+  prompts?: string[]; // matching only
+  correctAnswer?: string; // required for multiple choice and text questions
+  answerKey?: string[]; // required for list question types
+  acceptedAnswers?: string[];
+  typoTolerance?: number;
+  difficulty?: Question['difficulty'];
+  category?: string;
+  points?: number;
+}
+
+export interface AnswerEvaluation {
+  correct: boolean;
+  credit: number; // share of the question's points earned, 0-1
+  typos?: number; // text questions: edits away from the closest accepted answer
+}
+
+export type Difficulty = Question['difficulty'];
+
+export interface QuestionFilter {
+  category?: string;
+  difficulty?: Difficulty;
+}
+
+// Percentage of a quiz's questions per difficulty; omitted difficulties count as 0
+export type DifficultyDistribution = Partial<Record<Difficulty, number>>;
+
+export interface QuestionSelection {
+  categories?: string[]; // matched case-insensitively
+  distribution?: DifficultyDistribution;
+}
+
+export interface QuestionPage {
+  items: Question[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export type QuestionFormat = 'csv' | 'json' | 'anki';
+
+export interface ParsedQuestionRow {
+  row: number; // position in the source file, used in error reports
+  id?: string;
+  input: Record<string, unknown>;
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ParsedQuestions {
+  rows: ParsedQuestionRow[];
+  errors: ImportRowError[];
+}
+
+export interface QuestionFormatHandler {
+  contentType: string;
+  extension: string;
+  parse(content: string): ParsedQuestions;
+  serialize(questions: Question[]): string;
+}
+
+export interface ImportReport {
+  format: QuestionFormat;
+  dryRun: boolean;
+  total: number; // rows found in the file
+  valid: number;
+  created: number; // created, or would be created on a dry run
+  updated: number; // replaced an existing question with the same ID
+  errors: ImportRowError[];
+}
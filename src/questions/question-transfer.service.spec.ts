@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { QuestionTransferService } from './question-transfer.service';
+import { QuestionService } from './question.service';
+import { QuestionRepository } from './repositories/question.repository';
+import { InMemoryQuestionRepository } from './repositories/in-memory-question.repository';
+import { QUESTION_BANK } from './data/question-bank.data';
+
+describe('QuestionTransferService', () => {
+  let service: QuestionTransferService;
+  let questionService: QuestionService;
+  let repository: InMemoryQuestionRepository;
+
+  const csv = [
+    'id,text,options,correctAnswer,difficulty,category,points',
+    'q1,What does "glad" mean?,Sad|Joyful|Angry,joyful,easy,emotions,10',
+    ',What does "vast" mean?,Huge|Tiny,Huge,,,',
+  ].join('\n');
+
+  beforeEach(async () => {
+    repository = new InMemoryQuestionRepository();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionTransferService,
+        QuestionService,
+        { provide: QuestionRepository, useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<QuestionTransferService>(QuestionTransferService);
+    questionService = module.get<QuestionService>(QuestionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('importQuestions', () => {
+    it('should create new questions and replace ones with a known id', async () => {
+      const report = await service.importQuestions('csv', csv);
+
+      expect(report).toEqual({
+        format: 'csv',
+        dryRun: false,
+        total: 2,
+        valid: 2,
+        created: 1,
+        updated: 1,
+        errors: [],
+      });
+
+      const replaced = await questionService.getQuestion('q1');
+      expect(replaced.text).toBe('What does "glad" mean?');
+      expect(replaced.correctAnswer).toBe('Joyful');
+
+      const { items } = await questionService.listQuestions({ category: 'custom' });
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ text: 'What does "vast" mean?', difficulty: 'medium' });
+      expect(await questionService.getAllQuestions()).toHaveLength(QUESTION_BANK.length + 1);
+    });
+
+    it('should store every row in one write', async () => {
+      const saveMany = jest.spyOn(repository, 'saveMany');
+      const save = jest.spyOn(repository, 'save');
+
+      await service.importQuestions('csv', csv);
+
+      expect(saveMany).toHaveBeenCalledTimes(1);
+      expect(saveMany.mock.calls[0][0]).toHaveLength(2);
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything on a dry run', async () => {
+      const report = await service.importQuestions('csv', csv, true);
+
+      expect(report).toMatchObject({ dryRun: true, valid: 2, created: 1, updated: 1 });
+      expect(await questionService.getQuestion('q1')).toEqual(QUESTION_BANK[0]);
+      expect(await questionService.getAllQuestions()).toHaveLength(QUESTION_BANK.length);
+    });
+
+    it('should report row-level validation errors', async () => {
+      const content = JSON.stringify([
+        { text: 'ok?', options: ['a', 'b'], correctAnswer: 'a' },
+        { text: 'one option?', options: ['a'], correctAnswer: 'a', difficulty: 'extreme' },
+        { text: 'wrong answer?', options: ['a', 'b'], correctAnswer: 'c' },
+        { id: 'dup', text: 'first?', options: ['a', 'b'], correctAnswer: 'a' },
+        { id: 'dup', text: 'second?', options: ['a', 'b'], correctAnswer: 'a', extra: 1 },
+      ]);
+
+      const report = await service.importQuestions('json', content, true);
+
+      expect(report.total).toBe(5);
+      expect(report.valid).toBe(2);
+      expect(report.errors.map(({ row, field }) => ({ row, field }))).toEqual([
+        { row: 2, field: 'options' },
+        { row: 2, field: 'difficulty' },
+        { row: 3, field: 'correctAnswer' },
+        { row: 5, field: 'extra' },
+        { row: 5, field: 'id' },
+      ]);
+      expect(report.errors[2].message).toBe(
+        'correctAnswer "c" is not one of the question\'s options',
+      );
+    });
+
+    it('should include parse errors in the report', async () => {
+      const report = await service.importQuestions(
+        'csv',
+        'text,options,correctAnswer\nonly\n',
+        true,
+      );
+
+      expect(report).toMatchObject({ total: 1, valid: 0 });
+      expect(report.errors).toEqual([{ row: 2, message: 'Expected 3 columns, found 1' }]);
+    });
+
+    it('should import nothing when any row is invalid', async () => {
+      const content = `${csv}\n,Broken?,Only,Only,,,\n`;
+
+      await expect(service.importQuestions('csv', content)).rejects.toThrow(BadRequestException);
+      await expect(service.importQuestions('csv', content)).rejects.toMatchObject({
+        response: { errors: [{ row: 4, field: 'options' }] },
+      });
+      expect(await questionService.getQuestion('q1')).toEqual(QUESTION_BANK[0]);
+      expect(await questionService.getAllQuestions()).toHaveLength(QUESTION_BANK.length);
+    });
+  });
+
+  describe('exportQuestions', () => {
+    it('should serialize the filtered bank', async () => {
+      const content = await service.exportQuestions('json', { difficulty: 'hard' });
+      const exported = JSON.parse(content);
+
+      expect(exported.length).toBeGreaterThan(0);
+      expect(exported.every((q: { difficulty: string }) => q.difficulty === 'hard')).toBe(true);
+    });
+
+    it.each(['csv', 'json', 'anki'] as const)(
+      'should export a %s file that imports back unchanged',
+      async (format) => {
+        const content = await service.exportQuestions(format);
+        const report = await service.importQuestions(format, content);
+
+        expect(report).toMatchObject({
+          total: QUESTION_BANK.length,
+          valid: QUESTION_BANK.length,
+          created: 0,
+          updated: QUESTION_BANK.length,
+          errors: [],
+        });
+        expect(await questionService.getAllQuestions()).toHaveLength(QUESTION_BANK.length);
+      },
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Question Transfer Service - Bulk import and export of the question bank
+ *
+ * Imports are all-or-nothing: every row is validated first and nothing is
+ * written unless all rows are valid. A dry run returns the same report
+ * without writing anything.
+ */
+
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode } from '../common/errors/error-codes';
+import {
+  QuestionFormat,
+  QuestionFilter,
+  QuestionInput,
+  ImportReport,
+  ImportRowError,
+  ParsedQuestionRow,
+} from './interfaces/question.interface';
+import { QuestionInputDto } from './dto/question-input.dto';
+import { QuestionService } from './question.service';
+import { QUESTION_FORMATS } from './formats/question-formats';
+
+interface ValidRow {
+  id?: string;
+  input: QuestionInput;
+}
+
+@Injectable()
+export class QuestionTransferService {
+  private readonly logger = new Logger(QuestionTransferService.name);
+
+  constructor(private readonly questionService: QuestionService) {}
+
+  /**
+   * Validate and (unless dryRun) import questions from file content
+   */
+  async importQuestions(
+    format: QuestionFormat,
+    content: string,
+    dryRun: boolean = false,
+  ): Promise<ImportReport> {
+    const parsed = QUESTION_FORMATS[format].parse(content);
+    const errors: ImportRowError[] = [...parsed.errors];
+    const validRows: ValidRow[] = [];
+    const seenIds = new Set<string>();
+
+    for (const row of parsed.rows) {
+      const rowErrors = await this.validateRow(row, seenIds);
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+      } else {
+        validRows.push({ id: row.id, input: row.input as unknown as QuestionInput });
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    const report: ImportReport = {
+      format,
+      dryRun,
+      total: parsed.rows.length + parsed.errors.length,
+      valid: validRows.length,
+      created: 0,
+      updated: 0,
+      errors,
+    };
+
+    for (const { id } of validRows) {
+      const exists = id !== undefined && (await this.questionService.getQuestionById(id));
+      if (exists) {
+        report.updated++;
+      } else {
+        report.created++;
+      }
+    }
+
+    if (dryRun) {
+      return report;
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: `${errors.length} row(s) failed validation; nothing was imported`,
+        errors,
+      });
+    }
+
+    await this.questionService.saveQuestions(
+      validRows.map(({ id, input }) => ({ id: id ?? uuidv4(), input })),
+    );
+
+    this.logger.log(
+      `Imported ${validRows.length} questions from ${format} (${report.created} created, ${report.updated} updated)`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Serialize the (optionally filtered) question bank
+   */
+  async exportQuestions(format: QuestionFormat, filter: QuestionFilter = {}): Promise<string> {
+    const { items } = await this.questionService.listQuestions(filter, 1, Number.MAX_SAFE_INTEGER);
+    return QUESTION_FORMATS[format].serialize(items);
+  }
+
+  private async validateRow(
+    row: ParsedQuestionRow,
+    seenIds: Set<string>,
+  ): Promise<ImportRowError[]> {
+    const dto = plainToInstance(QuestionInputDto, row.input);
+    const validationErrors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+
+    const errors: ImportRowError[] = validationErrors.map((error) => ({
+      row: row.row,
+      field: error.property,
+      message: Object.values(error.constraints ?? {}).join('; '),
+    }));
+
+    if (errors.length === 0) {
+      try {
+        this.questionService.resolveAnswerKey(dto);
+      } catch (error) {
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+        const { field } = error.getResponse() as { field?: string };
+        errors.push({ row: row.row, field, message: error.message });
+      }
+    }
+
+    if (row.id !== undefined) {
+      if (seenIds.has(row.id)) {
+        errors.push({ row: row.row, field: 'id', message: `Duplicate id "${row.id}" in file` });
+      }
+      seenIds.add(row.id);
+    }
+
+    return errors;
+  }
+}
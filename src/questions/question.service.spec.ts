@@ -0,0 +1,738 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ErrorCode } from '../common/errors/error-codes';
+import { QuestionService } from './question.service';
+import { QuestionRepository } from './repositories/question.repository';
+import { InMemoryQuestionRepository } from './repositories/in-memory-question.repository';
+import { QUESTION_BANK } from './data/question-bank.data';
+import { Question, QuestionInput } from './interfaces/question.interface';
+
+describe('QuestionService', () => {
+  let service: QuestionService;
+  const q1 = QUESTION_BANK[0];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionService,
+        { provide: QuestionRepository, useValue: new InMemoryQuestionRepository() },
+      ],
+    }).compile();
+
+    service = module.get<QuestionService>(QuestionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getAllQuestions', () => {
+    it('should return all questions from question bank', async () => {
+      const questions = await service.getAllQuestions();
+      expect(questions).toBeDefined();
+      expect(questions.length).toBe(20);
+      expect(questions[0]).toHaveProperty('id');
+      expect(questions[0]).toHaveProperty('text');
+      expect(questions[0]).toHaveProperty('options');
+      expect(questions[0]).toHaveProperty('correctAnswer');
+      expect(questions[0]).toHaveProperty('difficulty');
+    });
+
+    it('should return a copy of question bank (immutability)', async () => {
+      const questions1 = await service.getAllQuestions();
+      const questions2 = await service.getAllQuestions();
+      expect(questions1).not.toBe(questions2);
+      expect(questions1).toEqual(questions2);
+    });
+  });
+
+  describe('getQuestionsByDifficulty', () => {
+    it('should return only easy questions', async () => {
+      const easyQuestions = await service.getQuestionsByDifficulty('easy');
+      expect(easyQuestions.length).toBe(5);
+      easyQuestions.forEach((q) => {
+        expect(q.difficulty).toBe('easy');
+      });
+    });
+
+    it('should return only medium questions', async () => {
+      const mediumQuestions = await service.getQuestionsByDifficulty('medium');
+      expect(mediumQuestions.length).toBe(5);
+      mediumQuestions.forEach((q) => {
+        expect(q.difficulty).toBe('medium');
+      });
+    });
+
+    it('should return only hard questions', async () => {
+      const hardQuestions = await service.getQuestionsByDifficulty('hard');
+      expect(hardQuestions.length).toBe(10);
+      hardQuestions.forEach((q) => {
+        expect(q.difficulty).toBe('hard');
+      });
+    });
+
+    it('should return empty array for invalid difficulty', async () => {
+      const questions = await service.getQuestionsByDifficulty('invalid' as any);
+      expect(questions).toEqual([]);
+    });
+  });
+
+  describe('getRandomQuestions', () => {
+    it('should return requested number of questions', async () => {
+      const questions = await service.getRandomQuestions(5);
+      expect(questions.length).toBe(5);
+    });
+
+    it('should return all questions if requested count is larger than available', async () => {
+      const questions = await service.getRandomQuestions(100);
+      expect(questions.length).toBe(20);
+    });
+
+    it('should return different questions on multiple calls (randomness)', async () => {
+      const questions1 = await service.getRandomQuestions(10);
+      const questions2 = await service.getRandomQuestions(10);
+
+      // While it's possible they're the same, it's very unlikely
+      const areIdentical = JSON.stringify(questions1) === JSON.stringify(questions2);
+      // Note: This test might occasionally fail due to randomness, but it's rare
+      expect(areIdentical).toBe(false);
+    });
+
+    it('should handle edge case of 0 questions', async () => {
+      const questions = await service.getRandomQuestions(0);
+      expect(questions.length).toBe(0);
+    });
+  });
+
+  describe('getBalancedQuestions', () => {
+    it('should return 10 questions with balanced difficulty distribution', async () => {
+      const questions = await service.getBalancedQuestions(10);
+      expect(questions.length).toBe(10);
+
+      const difficulties = questions.map((q) => q.difficulty);
+      const easyCount = difficulties.filter((d) => d === 'easy').length;
+      const mediumCount = difficulties.filter((d) => d === 'medium').length;
+      const hardCount = difficulties.filter((d) => d === 'hard').length;
+
+      // 40% easy (4), 40% medium (4), 20% hard (2)
+      expect(easyCount).toBe(4);
+      expect(mediumCount).toBe(4);
+      expect(hardCount).toBe(2);
+    });
+
+    it('should return 5 questions with balanced distribution', async () => {
+      const questions = await service.getBalancedQuestions(5);
+      expect(questions.length).toBe(5);
+
+      const difficulties = questions.map((q) => q.difficulty);
+      const easyCount = difficulties.filter((d) => d === 'easy').length;
+      const mediumCount = difficulties.filter((d) => d === 'medium').length;
+      const hardCount = difficulties.filter((d) => d === 'hard').length;
+
+      // 40% easy (2), 40% medium (2), 20% hard (1)
+      expect(easyCount).toBe(2);
+      expect(mediumCount).toBe(2);
+      expect(hardCount).toBe(1);
+    });
+  });
+
+  describe('getBalancedQuestions with a selection', () => {
+    const countBy = (questions: { difficulty: string }[], difficulty: string) =>
+      questions.filter((q) => q.difficulty === difficulty).length;
+
+    it('should only pick from the requested categories (case-insensitive)', async () => {
+      const questions = await service.getBalancedQuestions(6, { categories: ['Verbs', 'nouns'] });
+
+      expect(questions).toHaveLength(6);
+      expect(questions.every((q) => ['verbs', 'nouns'].includes(q.category))).toBe(true);
+      expect(new Set(questions.map((q) => q.id)).size).toBe(6);
+    });
+
+    it('should follow an explicit difficulty distribution', async () => {
+      const questions = await service.getBalancedQuestions(10, {
+        distribution: { easy: 30, hard: 70 },
+      });
+
+      expect(countBy(questions, 'easy')).toBe(3);
+      expect(countBy(questions, 'medium')).toBe(0);
+      expect(countBy(questions, 'hard')).toBe(7);
+    });
+
+    it('should round the distribution to the requested count', async () => {
+      const questions = await service.getBalancedQuestions(3, {
+        distribution: { easy: 50, medium: 25, hard: 25 },
+      });
+
+      // 1.5 / 0.75 / 0.75: the spare questions go to the largest remainders
+      expect(questions).toHaveLength(3);
+      expect(countBy(questions, 'easy')).toBe(1);
+      expect(countBy(questions, 'medium')).toBe(1);
+      expect(countBy(questions, 'hard')).toBe(1);
+    });
+
+    it('should top up the default mix from other difficulties', async () => {
+      // The bank has only 5 easy and 5 medium questions, short of 40/40/20 of 20
+      const questions = await service.getBalancedQuestions(20);
+
+      expect(questions).toHaveLength(20);
+      expect(countBy(questions, 'easy')).toBe(5);
+      expect(countBy(questions, 'hard')).toBe(10);
+    });
+
+    it('should reject unknown categories', async () => {
+      await expect(
+        service.getBalancedQuestions(5, { categories: ['verbs', 'maths'] }),
+      ).rejects.toThrow(/^Unknown categories: maths\. Available: adjectives, advanced,/);
+    });
+
+    it('should reject requests larger than the matching questions', async () => {
+      await expect(service.getBalancedQuestions(21)).rejects.toThrow(
+        'Requested 21 questions but only 20 are available in the question bank',
+      );
+      await expect(service.getBalancedQuestions(6, { categories: ['verbs'] })).rejects.toThrow(
+        'Requested 6 questions but only 5 are available in categories verbs',
+      );
+    });
+
+    it('should reject a distribution the bank cannot satisfy', async () => {
+      await expect(
+        service.getBalancedQuestions(10, { distribution: { easy: 80, medium: 20 } }),
+      ).rejects.toThrow(
+        'Not enough questions in the question bank for the requested difficulty distribution: ' +
+          'needed 8 easy (only 5 available)',
+      );
+    });
+
+    it('should reject a distribution that does not add up to 100', async () => {
+      await expect(
+        service.getBalancedQuestions(10, { distribution: { easy: 50, hard: 30 } }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getQuestionById', () => {
+    it('should return question with matching ID', async () => {
+      const question = await service.getQuestionById('q1');
+      expect(question).toBeDefined();
+      expect(question?.id).toBe('q1');
+      expect(question?.text).toBe('What does "happy" mean?');
+    });
+
+    it('should return undefined for non-existent ID', async () => {
+      const question = await service.getQuestionById('invalid-id');
+      expect(question).toBeUndefined();
+    });
+  });
+
+  describe('getQuestionsByIds', () => {
+    it('should return questions in the requested order', async () => {
+      const questions = await service.getQuestionsByIds(['q3', 'q1', 'q2']);
+      expect(questions.map((q) => q.id)).toEqual(['q3', 'q1', 'q2']);
+    });
+
+    it('should skip unknown IDs', async () => {
+      const questions = await service.getQuestionsByIds(['q1', 'invalid-id']);
+      expect(questions.map((q) => q.id)).toEqual(['q1']);
+    });
+  });
+
+  describe('buildQuestion', () => {
+    const input = {
+      text: 'What does "brave" mean?',
+      options: ['Scared', 'Courageous', 'Lazy', 'Quiet'],
+      correctAnswer: 'Courageous',
+    };
+
+    it('should fill in bank defaults', () => {
+      const question = service.buildQuestion('ABC123-c1', input);
+
+      expect(question).toEqual({
+        id: 'ABC123-c1',
+        ...input,
+        difficulty: 'medium',
+        category: 'custom',
+        points: 15,
+      });
+    });
+
+    it('should keep explicit difficulty, category and points', () => {
+      const question = service.buildQuestion('ABC123-c1', {
+        ...input,
+        difficulty: 'hard',
+        category: 'adjectives',
+        points: 50,
+      });
+
+      expect(question).toMatchObject({ difficulty: 'hard', category: 'adjectives', points: 50 });
+    });
+
+    it('should default points by difficulty', () => {
+      const question = service.buildQuestion('ABC123-c1', { ...input, difficulty: 'easy' });
+      expect(question.points).toBe(10);
+    });
+
+    it('should keep text question settings and drop options', () => {
+      const question = service.buildQuestion('ABC123-c1', {
+        ...input,
+        type: 'text',
+        acceptedAnswers: ['Bold'],
+        typoTolerance: 2,
+      });
+
+      expect(question).toMatchObject({
+        type: 'text',
+        options: [],
+        acceptedAnswers: ['Bold'],
+        typoTolerance: 2,
+      });
+    });
+
+    it('should drop text question settings from multiple choice questions', () => {
+      const question = service.buildQuestion('ABC123-c1', { ...input, typoTolerance: 2 });
+
+      expect(question.type).toBeUndefined();
+      expect(question.typoTolerance).toBeUndefined();
+    });
+  });
+
+  describe('listQuestions', () => {
+    it('should return the first page with the total count', async () => {
+      const page = await service.listQuestions({}, 1, 5);
+
+      expect(page.items.map((q) => q.id)).toEqual(['q1', 'q2', 'q3', 'q4', 'q5']);
+      expect(page).toMatchObject({ total: 20, page: 1, limit: 5 });
+    });
+
+    it('should return later pages', async () => {
+      const page = await service.listQuestions({}, 4, 6);
+
+      expect(page.items.map((q) => q.id)).toEqual(['q19', 'q20']);
+    });
+
+    it('should filter by difficulty and category', async () => {
+      const page = await service.listQuestions({ difficulty: 'easy', category: 'EMOTIONS' });
+
+      expect(page.total).toBeGreaterThan(0);
+      page.items.forEach((q) => {
+        expect(q.difficulty).toBe('easy');
+        expect(q.category).toBe('emotions');
+      });
+    });
+  });
+
+  describe('createQuestion', () => {
+    const input = {
+      text: 'What does "brave" mean?',
+      options: ['Scared', 'Courageous', 'Lazy', 'Quiet'],
+      correctAnswer: 'courageous',
+      difficulty: 'easy' as const,
+      category: 'adjectives',
+    };
+
+    it('should store the question with a generated ID', async () => {
+      const question = await service.createQuestion(input);
+
+      expect(question.id).toBeDefined();
+      expect(question.correctAnswer).toBe('Courageous');
+      expect(question.points).toBe(10);
+      expect(await service.getQuestionById(question.id)).toEqual(question);
+    });
+
+    it('should reject a correctAnswer that is not among the options', async () => {
+      await expect(service.createQuestion({ ...input, correctAnswer: 'Bold' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should store a matching question', async () => {
+      const question = await service.createQuestion({
+        type: 'matching',
+        text: 'Match each word to its meaning',
+        prompts: ['rapid', 'ancient'],
+        options: ['Old', 'Fast'],
+        answerKey: ['fast', 'old'],
+      });
+
+      expect(question).toMatchObject({
+        type: 'matching',
+        prompts: ['rapid', 'ancient'],
+        answerKey: ['Fast', 'Old'],
+        correctAnswer: 'rapid → Fast; ancient → Old',
+      });
+      expect(await service.getQuestionById(question.id)).toEqual(question);
+    });
+
+    it('should store a text question without options', async () => {
+      const question = await service.createQuestion({
+        type: 'text',
+        text: 'Give a synonym of "brave"',
+        correctAnswer: ' courageous ',
+      });
+
+      expect(question).toMatchObject({ type: 'text', options: [], correctAnswer: 'courageous' });
+    });
+  });
+
+  describe('updateQuestion', () => {
+    it('should update only the given fields', async () => {
+      const question = await service.updateQuestion('q1', { category: 'feelings', points: 12 });
+
+      expect(question).toEqual({ ...q1, category: 'feelings', points: 12 });
+      expect(await service.getQuestionById('q1')).toEqual(question);
+    });
+
+    it('should turn a multiple choice question into a text question', async () => {
+      const question = await service.updateQuestion('q1', { type: 'text' });
+
+      expect(question).toEqual({ ...q1, type: 'text', options: [] });
+    });
+
+    it('should reject options that no longer contain the correct answer', async () => {
+      await expect(
+        service.updateQuestion('q1', { options: ['Sad', 'Angry', 'Tired', 'Calm'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown question', async () => {
+      await expect(service.updateQuestion('invalid-id', { points: 5 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('deleteQuestion', () => {
+    it('should remove the question from the bank', async () => {
+      await service.deleteQuestion('q1');
+
+      expect(await service.getQuestionById('q1')).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for an unknown question', async () => {
+      await expect(service.deleteQuestion('invalid-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resolveAnswerKey', () => {
+    const base = { text: 'Pick', options: ['Fast', 'Slow', 'Quick', 'Old'] };
+
+    it('should spell multi_select answers exactly as the options', () => {
+      const input = service.resolveAnswerKey({
+        ...base,
+        type: 'multi_select',
+        answerKey: ['fast', ' QUICK '],
+      });
+
+      expect(input.answerKey).toEqual(['Fast', 'Quick']);
+    });
+
+    it('should reject answer key entries that are not options', () => {
+      expect(() =>
+        service.resolveAnswerKey({ ...base, type: 'multi_select', answerKey: ['Fast', 'Rapid'] }),
+      ).toThrow("answerKey entries are not among the question's options: Rapid");
+    });
+
+    it('should reject an empty or repeating multi_select key', () => {
+      expect(() =>
+        service.resolveAnswerKey({ ...base, type: 'multi_select', answerKey: [] }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.resolveAnswerKey({ ...base, type: 'multi_select', answerKey: ['Fast', 'fast'] }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should require one matching answer per prompt', () => {
+      const matching = { ...base, type: 'matching' as const, prompts: ['rapid', 'ancient'] };
+
+      expect(
+        service.resolveAnswerKey({ ...matching, answerKey: ['fast', 'old'] }).answerKey,
+      ).toEqual(['Fast', 'Old']);
+      expect(() => service.resolveAnswerKey({ ...matching, answerKey: ['Fast'] })).toThrow(
+        'answerKey must give one option for each of the 2 prompts',
+      );
+    });
+
+    it('should require an ordering key to use every option once', () => {
+      const ordering = { ...base, type: 'ordering' as const };
+
+      expect(() =>
+        service.resolveAnswerKey({ ...ordering, answerKey: ['Old', 'Slow', 'Fast'] }),
+      ).toThrow('answerKey must list every option exactly once, in the correct order');
+    });
+
+    it('should report the offending field', () => {
+      let error: BadRequestException | undefined;
+      try {
+        service.resolveAnswerKey({ ...base, correctAnswer: 'Rapid' });
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      expect(error?.getResponse()).toEqual({
+        code: ErrorCode.INVALID_QUESTION,
+        message: `correctAnswer "Rapid" is not one of the question's options`,
+        field: 'correctAnswer',
+      });
+    });
+  });
+
+  describe('findOption', () => {
+    it('should return the matching option ignoring case and whitespace', () => {
+      expect(service.findOption(q1, '  joyful ')).toBe('Joyful');
+    });
+
+    it('should return undefined when no option matches', () => {
+      expect(service.findOption(q1, 'Ecstatic')).toBeUndefined();
+    });
+  });
+
+  describe('validateAnswer', () => {
+    it('should return true for correct answer (case insensitive)', () => {
+      const isCorrect1 = service.validateAnswer(q1, 'Joyful');
+      const isCorrect2 = service.validateAnswer(q1, 'joyful');
+      const isCorrect3 = service.validateAnswer(q1, 'JOYFUL');
+
+      expect(isCorrect1).toBe(true);
+      expect(isCorrect2).toBe(true);
+      expect(isCorrect3).toBe(true);
+    });
+
+    it('should return false for incorrect answer', () => {
+      const isCorrect = service.validateAnswer(q1, 'Sad');
+      expect(isCorrect).toBe(false);
+    });
+
+    it('should trim whitespace from answers', () => {
+      const isCorrect = service.validateAnswer(q1, '  Joyful  ');
+      expect(isCorrect).toBe(true);
+    });
+  });
+
+  describe('evaluateAnswer', () => {
+    const textQuestion: Question = {
+      id: 't1',
+      type: 'text',
+      text: 'Give a word meaning "very large"',
+      options: [],
+      correctAnswer: 'enormous',
+      acceptedAnswers: ['huge', 'gigantic'],
+      difficulty: 'medium',
+      category: 'synonyms',
+      points: 20,
+    };
+
+    it('should give full credit to an exact multiple choice answer', () => {
+      expect(service.evaluateAnswer(q1, ' JOYFUL ')).toEqual({ correct: true, credit: 1 });
+      expect(service.evaluateAnswer(q1, 'Sad')).toEqual({ correct: false, credit: 0 });
+    });
+
+    it('should not accept typos in multiple choice answers', () => {
+      expect(service.evaluateAnswer(q1, 'Joyfull').correct).toBe(false);
+    });
+
+    it('should accept any accepted text answer, ignoring case and accents', () => {
+      expect(service.evaluateAnswer(textQuestion, 'Énormous')).toEqual({
+        correct: true,
+        credit: 1,
+        typos: 0,
+      });
+      expect(service.evaluateAnswer(textQuestion, 'GIGANTIC').credit).toBe(1);
+    });
+
+    it('should give partial credit for typos within the tolerance', () => {
+      expect(service.evaluateAnswer(textQuestion, 'enormus')).toEqual({
+        correct: true,
+        credit: 0.75,
+        typos: 1,
+      });
+      expect(service.evaluateAnswer(textQuestion, 'gignatic')).toEqual({
+        correct: true,
+        credit: 0.75,
+        typos: 1,
+      });
+    });
+
+    it('should match the closest accepted answer', () => {
+      expect(service.evaluateAnswer(textQuestion, 'enormos').typos).toBe(1);
+    });
+
+    it('should reject answers beyond the tolerance', () => {
+      // "huge" is short, so the default tolerance requires an exact match
+      expect(service.evaluateAnswer(textQuestion, 'hugh')).toEqual({ correct: false, credit: 0 });
+      expect(service.evaluateAnswer(textQuestion, 'enrmus')).toEqual({ correct: false, credit: 0 });
+      expect(service.evaluateAnswer(textQuestion, '  ')).toEqual({ correct: false, credit: 0 });
+    });
+
+    it('should use the question typo tolerance when set', () => {
+      const strict = { ...textQuestion, typoTolerance: 0 };
+      const lenient = { ...textQuestion, typoTolerance: 2 };
+
+      expect(service.evaluateAnswer(strict, 'enormus').correct).toBe(false);
+      expect(service.evaluateAnswer(lenient, 'enrmus')).toEqual({
+        correct: true,
+        credit: 0.5,
+        typos: 2,
+      });
+    });
+  });
+
+  describe('evaluateAnswer with list question types', () => {
+    let multiSelect: Question;
+    let matching: Question;
+    let ordering: Question;
+
+    const build = (input: QuestionInput) =>
+      service.buildQuestion('l1', service.resolveAnswerKey(input));
+
+    beforeEach(() => {
+      multiSelect = build({
+        type: 'multi_select',
+        text: 'Select all synonyms of "rapid"',
+        options: ['Fast', 'Slow', 'Quick', 'Swift', 'Old'],
+        answerKey: ['Fast', 'Quick', 'Swift'],
+      });
+      matching = build({
+        type: 'matching',
+        text: 'Match each word to its definition',
+        prompts: ['rapid', 'ancient', 'huge'],
+        options: ['Very old', 'Very big', 'Very fast', 'Very small'],
+        answerKey: ['Very fast', 'Very old', 'Very big'],
+      });
+      ordering = build({
+        type: 'ordering',
+        text: 'Order from smallest to largest',
+        options: ['huge', 'tiny', 'big', 'small'],
+        answerKey: ['tiny', 'small', 'big', 'huge'],
+      });
+    });
+
+    it('should describe the answer key as the correct answer', () => {
+      expect(multiSelect.correctAnswer).toBe('Fast, Quick, Swift');
+      expect(matching.correctAnswer).toBe('rapid → Very fast; ancient → Very old; huge → Very big');
+      expect(ordering.correctAnswer).toBe('tiny → small → big → huge');
+    });
+
+    it('should give multi_select credit for correct picks minus wrong picks', () => {
+      expect(service.evaluateAnswer(multiSelect, ['swift', 'Fast', 'quick'])).toEqual({
+        correct: true,
+        credit: 1,
+      });
+      expect(service.evaluateAnswer(multiSelect, ['Fast', 'Quick'])).toEqual({
+        correct: false,
+        credit: 0.67,
+      });
+      expect(service.evaluateAnswer(multiSelect, ['Fast', 'Quick', 'Old']).credit).toBe(0.33);
+      expect(service.evaluateAnswer(multiSelect, ['Fast', 'Slow', 'Old']).credit).toBe(0);
+      expect(service.evaluateAnswer(multiSelect, []).credit).toBe(0);
+    });
+
+    it('should give matching credit per prompt matched', () => {
+      expect(service.evaluateAnswer(matching, ['Very fast', 'Very old', 'Very big']).correct).toBe(
+        true,
+      );
+      expect(service.evaluateAnswer(matching, ['Very fast', 'Very big', 'Very old'])).toEqual({
+        correct: false,
+        credit: 0.33,
+      });
+    });
+
+    it('should give ordering credit for options in the right relative order', () => {
+      expect(service.evaluateAnswer(ordering, ['tiny', 'small', 'big', 'huge']).credit).toBe(1);
+      // Moving one option costs one step
+      expect(service.evaluateAnswer(ordering, ['huge', 'tiny', 'small', 'big']).credit).toBe(0.67);
+      expect(service.evaluateAnswer(ordering, ['huge', 'big', 'small', 'tiny']).credit).toBe(0);
+    });
+
+    it('should reject answers that do not fit the question type', () => {
+      expect(() => service.evaluateAnswer(multiSelect, 'Fast')).toThrow(
+        'This question expects a list of answers',
+      );
+      expect(() => service.evaluateAnswer(q1, ['Joyful'])).toThrow(
+        'This question expects a single answer',
+      );
+      expect(() => service.evaluateAnswer(multiSelect, ['Rapid'])).toThrow(
+        '"Rapid" is not one of the options',
+      );
+      expect(() => service.evaluateAnswer(multiSelect, ['Fast', 'fast'])).toThrow(
+        'Each option can only be picked once',
+      );
+      expect(() => service.evaluateAnswer(matching, ['Very fast'])).toThrow(
+        'Expected one option for each of the 3 prompts',
+      );
+      expect(() => service.evaluateAnswer(ordering, ['tiny', 'small', 'big'])).toThrow(
+        'Expected every option exactly once',
+      );
+    });
+  });
+
+  describe('scrambleOptions', () => {
+    const build = (input: QuestionInput) =>
+      service.buildQuestion('s1', service.resolveAnswerKey(input));
+
+    it('should never present ordering options in answer order', () => {
+      const answerKey = ['tiny', 'small', 'big', 'huge'];
+      const ordering = build({
+        type: 'ordering',
+        text: 'Order from smallest to largest',
+        options: [...answerKey],
+        answerKey,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const { options } = service.scrambleOptions(ordering);
+
+        expect(options).not.toEqual(answerKey);
+        expect([...options].sort()).toEqual([...answerKey].sort());
+      }
+      expect(ordering.options).toEqual(answerKey);
+    });
+
+    it('should not start matching options with the answer key', () => {
+      const matching = build({
+        type: 'matching',
+        text: 'Match each word to its definition',
+        prompts: ['rapid', 'ancient'],
+        options: ['Very fast', 'Very old', 'Very big'],
+        answerKey: ['Very fast', 'Very old'],
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const { options } = service.scrambleOptions(matching);
+
+        expect(options.slice(0, 2)).not.toEqual(['Very fast', 'Very old']);
+        expect(options).toHaveLength(3);
+      }
+    });
+
+    it('should leave other question types as they are', () => {
+      const question = build({
+        text: 'What does "brave" mean?',
+        options: ['Courageous', 'Scared', 'Lazy', 'Quiet'],
+        correctAnswer: 'Courageous',
+      });
+
+      expect(service.scrambleOptions(question)).toBe(question);
+    });
+  });
+
+  describe('getQuestionStats', () => {
+    it('should return correct question statistics', async () => {
+      const stats = await service.getQuestionStats();
+
+      expect(stats.total).toBe(20);
+      expect(stats.byDifficulty.easy).toBe(5);
+      expect(stats.byDifficulty.medium).toBe(5);
+      expect(stats.byDifficulty.hard).toBe(10);
+      expect(stats.categories).toBeDefined();
+      expect(stats.categories.length).toBeGreaterThan(0);
+    });
+
+    it('should include all unique categories', async () => {
+      const stats = await service.getQuestionStats();
+
+      expect(stats.categories).toContain('emotions');
+      expect(stats.categories).toContain('adjectives');
+      expect(stats.categories).toContain('verbs');
+      expect(stats.categories).toContain('advanced');
+    });
+  });
+});
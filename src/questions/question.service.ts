@@ -0,0 +1,611 @@
+/**
+ * Question Service - Manages the question bank, question selection and answer checking
+ *
+ * AI Collaboration Note:
+ * - Question structure and service methods assisted by GitHub Copilot
+ * - Verification: Reviewed all questions for accuracy and difficulty levels
+ * - Refinement: Adjusted difficulty distribution and added more diverse vocabulary
+ */
+
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode } from '../common/errors/error-codes';
+import {
+  Question,
+  QuestionInput,
+  QuestionFilter,
+  QuestionPage,
+  QuestionSelection,
+  Difficulty,
+  DifficultyDistribution,
+  AnswerEvaluation,
+  QuestionType,
+  SubmittedAnswer,
+  LIST_QUESTION_TYPES,
+} from './interfaces/question.interface';
+import { QuestionRepository } from './repositories/question.repository';
+import {
+  normalizeAnswer,
+  editDistance,
+  defaultTypoTolerance,
+  TYPO_PENALTY,
+} from './answer-matching';
+
+// Base points for questions that don't set their own, matching the built-in bank
+const DEFAULT_POINTS: Record<Difficulty, number> = {
+  easy: 10,
+  medium: 15,
+  hard: 20,
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Used when a quiz doesn't ask for a specific difficulty mix
+const DEFAULT_DISTRIBUTION: Record<Difficulty, number> = {
+  easy: 40,
+  medium: 40,
+  hard: 20,
+};
+
+@Injectable()
+export class QuestionService {
+  private readonly logger = new Logger(QuestionService.name);
+
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  /**
+   * Get all questions
+   */
+  async getAllQuestions(): Promise<Question[]> {
+    return this.questionRepository.findAll();
+  }
+
+  /**
+   * Get questions by difficulty
+   */
+  async getQuestionsByDifficulty(difficulty: Difficulty): Promise<Question[]> {
+    return this.questionRepository.findAll({ difficulty });
+  }
+
+  /**
+   * Get a random selection of questions
+   */
+  async getRandomQuestions(count: number): Promise<Question[]> {
+    const shuffled = this.shuffle(await this.getAllQuestions());
+    return shuffled.slice(0, Math.min(count, shuffled.length));
+  }
+
+  /**
+   * Get a mix of questions by difficulty, optionally limited to some categories.
+   *
+   * With an explicit distribution every difficulty must have enough questions;
+   * the default 40/40/20 mix makes up any shortfall from the other difficulties.
+   * Throws BadRequestException rather than returning fewer questions than asked.
+   */
+  async getBalancedQuestions(
+    count: number,
+    selection: QuestionSelection = {},
+  ): Promise<Question[]> {
+    const pool = this.filterByCategories(await this.getAllQuestions(), selection.categories);
+    const scope = selection.categories?.length
+      ? `in categories ${selection.categories.join(', ')}`
+      : 'in the question bank';
+
+    if (pool.length < count) {
+      throw new BadRequestException({
+        code: ErrorCode.NOT_ENOUGH_QUESTIONS,
+        message: `Requested ${count} questions but only ${pool.length} are available ${scope}`,
+      });
+    }
+
+    const targets = this.allocateByDifficulty(
+      count,
+      selection.distribution ?? DEFAULT_DISTRIBUTION,
+    );
+    const shuffled = this.shuffle(pool);
+    const selected: Question[] = [];
+    const shortfalls: string[] = [];
+
+    for (const difficulty of DIFFICULTIES) {
+      const available = shuffled.filter((q) => q.difficulty === difficulty);
+      if (available.length < targets[difficulty]) {
+        shortfalls.push(
+          `${targets[difficulty]} ${difficulty} (only ${available.length} available)`,
+        );
+      }
+      selected.push(...available.slice(0, targets[difficulty]));
+    }
+
+    if (shortfalls.length > 0 && selection.distribution) {
+      throw new BadRequestException({
+        code: ErrorCode.NOT_ENOUGH_QUESTIONS,
+        message:
+          `Not enough questions ${scope} for the requested difficulty distribution: ` +
+          `needed ${shortfalls.join(', ')}`,
+      });
+    }
+
+    // Default mix: top up from whatever is left, whatever its difficulty
+    const remaining = shuffled.filter((q) => !selected.includes(q));
+    selected.push(...remaining.slice(0, count - selected.length));
+
+    return this.shuffle(selected);
+  }
+
+  /**
+   * Get question by ID
+   */
+  async getQuestionById(id: string): Promise<Question | undefined> {
+    return this.questionRepository.findById(id);
+  }
+
+  /**
+   * Get questions by ID in the requested order (unknown IDs are skipped)
+   */
+  async getQuestionsByIds(ids: string[]): Promise<Question[]> {
+    const questions = await Promise.all(ids.map((id) => this.getQuestionById(id)));
+    return questions.filter((question): question is Question => question !== undefined);
+  }
+
+  /**
+   * Get a page of questions, optionally filtered by category and difficulty
+   */
+  async listQuestions(
+    filter: QuestionFilter = {},
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<QuestionPage> {
+    const questions = await this.questionRepository.findAll(filter);
+    const offset = (page - 1) * limit;
+
+    return {
+      items: questions.slice(offset, offset + limit),
+      total: questions.length,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a question by ID or throw if it does not exist
+   */
+  async getQuestion(id: string): Promise<Question> {
+    const question = await this.getQuestionById(id);
+    if (!question) {
+      throw new NotFoundException({
+        code: ErrorCode.QUESTION_NOT_FOUND,
+        message: `Question ${id} not found`,
+      });
+    }
+    return question;
+  }
+
+  /**
+   * Add a question to the bank
+   */
+  async createQuestion(input: QuestionInput): Promise<Question> {
+    const question = await this.saveQuestion(uuidv4(), input);
+
+    this.logger.log(`Created question ${question.id}`);
+    return question;
+  }
+
+  /**
+   * Store a question under the given ID, replacing any existing one
+   */
+  async saveQuestion(id: string, input: QuestionInput): Promise<Question> {
+    const question = this.buildQuestion(id, this.resolveAnswerKey(input));
+    return this.questionRepository.save(question);
+  }
+
+  /**
+   * Store several questions at once, replacing existing ones with the same ID.
+   * Every question is built before any is stored, so a bad one stores none.
+   */
+  async saveQuestions(entries: Array<{ id: string; input: QuestionInput }>): Promise<Question[]> {
+    const questions = entries.map(({ id, input }) =>
+      this.buildQuestion(id, this.resolveAnswerKey(input)),
+    );
+    return this.questionRepository.saveMany(questions);
+  }
+
+  /**
+   * Update some or all fields of a bank question
+   */
+  async updateQuestion(id: string, changes: Partial<QuestionInput>): Promise<Question> {
+    const existing = await this.getQuestion(id);
+    const question = this.buildQuestion(id, this.resolveAnswerKey({ ...existing, ...changes }));
+
+    await this.questionRepository.save(question);
+
+    this.logger.log(`Updated question ${id}`);
+    return question;
+  }
+
+  /**
+   * Remove a question from the bank. Quizzes already created keep their own copy.
+   */
+  async deleteQuestion(id: string): Promise<void> {
+    const deleted = await this.questionRepository.delete(id);
+    if (!deleted) {
+      throw new NotFoundException({
+        code: ErrorCode.QUESTION_NOT_FOUND,
+        message: `Question ${id} not found`,
+      });
+    }
+
+    this.logger.log(`Deleted question ${id}`);
+  }
+
+  /**
+   * Build a question from input, filling in bank defaults. Expects an input
+   * already checked by resolveAnswerKey.
+   */
+  buildQuestion(id: string, input: QuestionInput): Question {
+    const type = input.type ?? 'multiple_choice';
+    const difficulty = input.difficulty ?? 'medium';
+    const question: Question = {
+      id,
+      text: input.text,
+      options: type === 'text' ? [] : [...(input.options ?? [])],
+      correctAnswer: input.correctAnswer ?? '',
+      difficulty,
+      category: input.category ?? 'custom',
+      points: input.points ?? DEFAULT_POINTS[difficulty],
+    };
+
+    if (type !== 'multiple_choice') {
+      question.type = type;
+    }
+
+    if (type === 'text') {
+      if (input.acceptedAnswers?.length) question.acceptedAnswers = [...input.acceptedAnswers];
+      if (input.typoTolerance !== undefined) question.typoTolerance = input.typoTolerance;
+    }
+
+    if (LIST_QUESTION_TYPES.includes(type)) {
+      const answerKey = [...(input.answerKey ?? [])];
+      const prompts = type === 'matching' ? [...(input.prompts ?? [])] : undefined;
+
+      question.answerKey = answerKey;
+      question.correctAnswer = this.describeListAnswer(type, answerKey, prompts);
+      if (prompts) question.prompts = prompts;
+    }
+
+    return question;
+  }
+
+  /**
+   * Copy of a question to put in a quiz. Authors tend to list the options of
+   * ordering and matching questions in answer order, so those are shuffled
+   * until they no longer start with the answer key.
+   */
+  scrambleOptions(question: Question): Question {
+    const answerKey = question.answerKey ?? [];
+    if (question.type !== 'ordering' && question.type !== 'matching') {
+      return question;
+    }
+
+    const options = this.shuffle(question.options);
+    const inAnswerOrder = answerKey.every((option, index) => options[index] === option);
+    if (inAnswerOrder && options.length > 1) {
+      options.push(options.shift()!);
+    }
+
+    return { ...question, options };
+  }
+
+  /**
+   * Check a question's answer against its options and return the input with
+   * answers spelled exactly as the options. Throws BadRequestException with
+   * the offending field.
+   */
+  resolveAnswerKey<T extends QuestionInput>(input: T): T {
+    const type = input.type ?? 'multiple_choice';
+    const options = input.options ?? [];
+
+    if (!LIST_QUESTION_TYPES.includes(type)) {
+      const correctAnswer =
+        type === 'text'
+          ? input.correctAnswer?.trim()
+          : this.findOption({ options }, input.correctAnswer ?? '');
+
+      if (!correctAnswer) {
+        throw this.invalidAnswer(
+          'correctAnswer',
+          input.correctAnswer?.trim()
+            ? `correctAnswer "${input.correctAnswer}" is not one of the question's options`
+            : 'correctAnswer is required',
+        );
+      }
+      return { ...input, correctAnswer };
+    }
+
+    const given = input.answerKey ?? [];
+    const answerKey = given.map((answer) => this.findOption({ options }, answer));
+    const unknown = given.filter((_, index) => !answerKey[index]);
+    if (unknown.length > 0) {
+      throw this.invalidAnswer(
+        'answerKey',
+        `answerKey entries are not among the question's options: ${unknown.join(', ')}`,
+      );
+    }
+
+    const resolved = answerKey as string[];
+    const prompts = input.prompts ?? [];
+
+    if (
+      type === 'multi_select' &&
+      (resolved.length === 0 || new Set(resolved).size < resolved.length)
+    ) {
+      throw this.invalidAnswer(
+        'answerKey',
+        'answerKey must list at least one option, each only once',
+      );
+    }
+    if (type === 'matching' && prompts.length < 2) {
+      throw this.invalidAnswer('prompts', 'Matching questions need at least 2 prompts');
+    }
+    if (type === 'matching' && resolved.length !== prompts.length) {
+      throw this.invalidAnswer(
+        'answerKey',
+        `answerKey must give one option for each of the ${prompts.length} prompts`,
+      );
+    }
+    if (type === 'ordering' && !this.isPermutation(resolved, options)) {
+      throw this.invalidAnswer(
+        'answerKey',
+        'answerKey must list every option exactly once, in the correct order',
+      );
+    }
+
+    return { ...input, answerKey: resolved };
+  }
+
+  /**
+   * Find the option matching an answer, ignoring case, accents and surrounding whitespace
+   */
+  findOption(question: Pick<Question, 'options'>, answer: string): string | undefined {
+    const normalized = normalizeAnswer(answer);
+    return question.options.find((option) => normalizeAnswer(option) === normalized);
+  }
+
+  /**
+   * Readable form of a list answer; for an answer key this is reported as the correct answer
+   */
+  describeListAnswer(type: QuestionType, answer: string[], prompts: string[] = []): string {
+    switch (type) {
+      case 'matching':
+        return prompts.map((prompt, index) => `${prompt} → ${answer[index]}`).join('; ');
+      case 'ordering':
+        return answer.join(' → ');
+      default:
+        return answer.join(', ');
+    }
+  }
+
+  /**
+   * Check an answer. Text answers within the question's typo tolerance of the
+   * correct or an accepted answer count as correct, losing credit per typo;
+   * list answers earn credit for each part they get right. Throws
+   * BadRequestException when the answer doesn't fit the question's type.
+   */
+  evaluateAnswer(question: Question, answer: SubmittedAnswer): AnswerEvaluation {
+    const type = question.type ?? 'multiple_choice';
+
+    if (LIST_QUESTION_TYPES.includes(type)) {
+      if (!Array.isArray(answer)) {
+        throw new BadRequestException({
+          code: ErrorCode.INVALID_ANSWER,
+          message: 'This question expects a list of answers',
+        });
+      }
+
+      const picks = answer.map((pick) => {
+        const option = this.findOption(question, pick);
+        if (!option) {
+          throw new BadRequestException({
+            code: ErrorCode.INVALID_ANSWER,
+            message: `"${pick}" is not one of the options`,
+          });
+        }
+        return option;
+      });
+      const credit = this.listCredit(question, picks);
+
+      return { correct: credit === 1, credit };
+    }
+
+    if (Array.isArray(answer)) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_ANSWER,
+        message: 'This question expects a single answer',
+      });
+    }
+
+    const given = normalizeAnswer(answer);
+
+    if (type === 'multiple_choice') {
+      const correct = normalizeAnswer(question.correctAnswer) === given;
+      return { correct, credit: correct ? 1 : 0 };
+    }
+
+    if (given === '') {
+      return { correct: false, credit: 0 };
+    }
+
+    let typos: number | undefined;
+    for (const accepted of [question.correctAnswer, ...(question.acceptedAnswers ?? [])]) {
+      const distance = editDistance(normalizeAnswer(accepted), given);
+      const tolerance = question.typoTolerance ?? defaultTypoTolerance(accepted);
+
+      if (distance <= tolerance && (typos === undefined || distance < typos)) {
+        typos = distance;
+      }
+    }
+
+    if (typos === undefined) {
+      return { correct: false, credit: 0 };
+    }
+
+    return { correct: true, credit: this.roundCredit(1 - typos * TYPO_PENALTY), typos };
+  }
+
+  /**
+   * Validate answer
+   */
+  validateAnswer(question: Question, answer: SubmittedAnswer): boolean {
+    return this.evaluateAnswer(question, answer).correct;
+  }
+
+  /**
+   * Get question statistics
+   */
+  async getQuestionStats() {
+    const questions = await this.getAllQuestions();
+    const byDifficulty = {
+      easy: questions.filter((q) => q.difficulty === 'easy').length,
+      medium: questions.filter((q) => q.difficulty === 'medium').length,
+      hard: questions.filter((q) => q.difficulty === 'hard').length,
+    };
+
+    const categories = [...new Set(questions.map((q) => q.category))];
+
+    return {
+      total: questions.length,
+      byDifficulty,
+      categories,
+    };
+  }
+
+  /**
+   * Credit for a list answer (picks are exact option texts):
+   * - multi_select: correct picks minus wrong picks, out of the options to pick
+   * - matching: prompts matched correctly
+   * - ordering: longest run of options in the right relative order, so moving
+   *   one option costs one step rather than every position it shifted
+   */
+  private listCredit(question: Question, picks: string[]): number {
+    const answerKey = question.answerKey ?? [];
+
+    switch (question.type) {
+      case 'multi_select': {
+        if (new Set(picks).size !== picks.length) {
+          throw new BadRequestException({
+            code: ErrorCode.INVALID_ANSWER,
+            message: 'Each option can only be picked once',
+          });
+        }
+        const hits = picks.filter((pick) => answerKey.includes(pick)).length;
+        return this.roundCredit((hits - (picks.length - hits)) / answerKey.length);
+      }
+
+      case 'matching': {
+        if (picks.length !== answerKey.length) {
+          throw new BadRequestException({
+            code: ErrorCode.INVALID_ANSWER,
+            message: `Expected one option for each of the ${answerKey.length} prompts`,
+          });
+        }
+        const hits = picks.filter((pick, index) => pick === answerKey[index]).length;
+        return this.roundCredit(hits / answerKey.length);
+      }
+
+      default: {
+        if (!this.isPermutation(picks, question.options)) {
+          throw new BadRequestException({
+            code: ErrorCode.INVALID_ANSWER,
+            message: 'Expected every option exactly once',
+          });
+        }
+        if (answerKey.length < 2) return 1;
+
+        const inOrder = this.longestIncreasingRun(picks.map((pick) => answerKey.indexOf(pick)));
+        return this.roundCredit((inOrder - 1) / (answerKey.length - 1));
+      }
+    }
+  }
+
+  private invalidAnswer(field: string, message: string): BadRequestException {
+    return new BadRequestException({ code: ErrorCode.INVALID_QUESTION, message, field });
+  }
+
+  private isPermutation(items: string[], options: string[]): boolean {
+    return (
+      items.length === options.length &&
+      new Set(items).size === items.length &&
+      items.every((item) => options.includes(item))
+    );
+  }
+
+  // Length of the longest strictly increasing subsequence
+  private longestIncreasingRun(values: number[]): number {
+    const lengths = values.map(() => 1);
+
+    values.forEach((value, i) => {
+      for (let j = 0; j < i; j++) {
+        if (values[j] < value) lengths[i] = Math.max(lengths[i], lengths[j] + 1);
+      }
+    });
+
+    return Math.max(0, ...lengths);
+  }
+
+  private roundCredit(credit: number): number {
+    return Math.max(Math.round(credit * 100) / 100, 0);
+  }
+
+  /**
+   * Keep questions in any of the given categories, rejecting categories with no questions
+   */
+  private filterByCategories(questions: Question[], categories?: string[]): Question[] {
+    if (!categories?.length) return questions;
+
+    const wanted = new Set(categories.map((c) => c.toLowerCase()));
+    const known = new Set(questions.map((q) => q.category.toLowerCase()));
+    const unknown = categories.filter((c) => !known.has(c.toLowerCase()));
+
+    if (unknown.length > 0) {
+      const available = [...new Set(questions.map((q) => q.category))].sort();
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_QUIZ_SETTINGS,
+        message: `Unknown categories: ${unknown.join(', ')}. Available: ${available.join(', ')}`,
+      });
+    }
+
+    return questions.filter((q) => wanted.has(q.category.toLowerCase()));
+  }
+
+  /**
+   * Split a question count across difficulties by percentage (largest remainder)
+   */
+  private allocateByDifficulty(
+    count: number,
+    distribution: DifficultyDistribution,
+  ): Record<Difficulty, number> {
+    const total = DIFFICULTIES.reduce((sum, d) => sum + (distribution[d] ?? 0), 0);
+    if (total !== 100) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_QUIZ_SETTINGS,
+        message: `Difficulty distribution must add up to 100, got ${total}`,
+      });
+    }
+
+    const exact = DIFFICULTIES.map((d) => ((distribution[d] ?? 0) * count) / 100);
+    const counts = exact.map(Math.floor);
+    const byRemainder = DIFFICULTIES.map((_, i) => i).sort(
+      (a, b) => exact[b] - counts[b] - (exact[a] - counts[a]),
+    );
+
+    const unallocated = count - counts.reduce((sum, c) => sum + c, 0);
+    for (let i = 0; i < unallocated; i++) {
+      counts[byRemainder[i]]++;
+    }
+
+    return { easy: counts[0], medium: counts[1], hard: counts[2] };
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    return [...items].sort(() => 0.5 - Math.random());
+  }
+}
@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { Response } from 'express';
+import { QuestionsController } from './questions.controller';
+import { QuestionService } from './question.service';
+import { QuestionTransferService } from './question-transfer.service';
+
+describe('QuestionsController', () => {
+  let controller: QuestionsController;
+  let questionService: jest.Mocked<QuestionService>;
+  let questionTransferService: jest.Mocked<QuestionTransferService>;
+
+  const mockQuestion = {
+    id: 'q1',
+    text: 'What does "happy" mean?',
+    options: ['Sad', 'Joyful', 'Angry', 'Tired'],
+    correctAnswer: 'Joyful',
+    difficulty: 'easy' as const,
+    category: 'emotions',
+    points: 10,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [QuestionsController],
+      providers: [
+        {
+          provide: QuestionService,
+          useValue: {
+            listQuestions: jest.fn(),
+            getQuestion: jest.fn(),
+            createQuestion: jest.fn(),
+            updateQuestion: jest.fn(),
+            deleteQuestion: jest.fn(),
+          },
+        },
+        {
+          provide: QuestionTransferService,
+          useValue: {
+            importQuestions: jest.fn(),
+            exportQuestions: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<QuestionsController>(QuestionsController);
+    questionService = module.get(QuestionService);
+    questionTransferService = module.get(QuestionTransferService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('listQuestions', () => {
+    it('should pass filters and pagination to the service', async () => {
+      const page = { items: [mockQuestion], total: 1, page: 2, limit: 5 };
+      questionService.listQuestions.mockResolvedValue(page);
+
+      const result = await controller.listQuestions({
+        category: 'emotions',
+        difficulty: 'easy',
+        page: 2,
+        limit: 5,
+      });
+
+      expect(questionService.listQuestions).toHaveBeenCalledWith(
+        { category: 'emotions', difficulty: 'easy' },
+        2,
+        5,
+      );
+      expect(result).toEqual({ success: true, data: page });
+    });
+
+    it('should default to the first page of 20', async () => {
+      questionService.listQuestions.mockResolvedValue({ items: [], total: 0, page: 1, limit: 20 });
+
+      await controller.listQuestions({});
+
+      expect(questionService.listQuestions).toHaveBeenCalledWith(
+        { category: undefined, difficulty: undefined },
+        1,
+        20,
+      );
+    });
+  });
+
+  describe('getQuestion', () => {
+    it('should return the question', async () => {
+      questionService.getQuestion.mockResolvedValue(mockQuestion);
+
+      const result = await controller.getQuestion('q1');
+
+      expect(result).toEqual({ success: true, data: mockQuestion });
+    });
+
+    it('should propagate NotFoundException', async () => {
+      questionService.getQuestion.mockRejectedValue(new NotFoundException());
+
+      await expect(controller.getQuestion('invalid')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createQuestion', () => {
+    it('should create the question', async () => {
+      questionService.createQuestion.mockResolvedValue(mockQuestion);
+      const input = {
+        text: mockQuestion.text,
+        options: mockQuestion.options,
+        correctAnswer: mockQuestion.correctAnswer,
+      };
+
+      const result = await controller.createQuestion(input);
+
+      expect(questionService.createQuestion).toHaveBeenCalledWith(input);
+      expect(result).toEqual({ success: true, data: mockQuestion });
+    });
+  });
+
+  describe('updateQuestion', () => {
+    it('should update the question', async () => {
+      const updated = { ...mockQuestion, points: 12 };
+      questionService.updateQuestion.mockResolvedValue(updated);
+
+      const result = await controller.updateQuestion('q1', { points: 12 });
+
+      expect(questionService.updateQuestion).toHaveBeenCalledWith('q1', { points: 12 });
+      expect(result).toEqual({ success: true, data: updated });
+    });
+  });
+
+  describe('deleteQuestion', () => {
+    it('should delete the question', async () => {
+      questionService.deleteQuestion.mockResolvedValue(undefined);
+
+      const result = await controller.deleteQuestion('q1');
+
+      expect(questionService.deleteQuestion).toHaveBeenCalledWith('q1');
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('exportQuestions', () => {
+    it('should send the file with download headers', async () => {
+      questionTransferService.exportQuestions.mockResolvedValue('id,text\n');
+      const res = { set: jest.fn() } as unknown as Response;
+
+      const result = await controller.exportQuestions({ format: 'csv', category: 'emotions' }, res);
+
+      expect(questionTransferService.exportQuestions).toHaveBeenCalledWith('csv', {
+        category: 'emotions',
+        difficulty: undefined,
+      });
+      expect(res.set).toHaveBeenCalledWith({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="questions.csv"',
+      });
+      expect(result).toBe('id,text\n');
+    });
+
+    it('should default to JSON', async () => {
+      questionTransferService.exportQuestions.mockResolvedValue('[]\n');
+      const res = { set: jest.fn() } as unknown as Response;
+
+      await controller.exportQuestions({}, res);
+
+      expect(questionTransferService.exportQuestions).toHaveBeenCalledWith('json', {
+        category: undefined,
+        difficulty: undefined,
+      });
+    });
+  });
+
+  describe('importQuestions', () => {
+    const report = {
+      format: 'anki' as const,
+      dryRun: true,
+      total: 1,
+      valid: 1,
+      created: 1,
+      updated: 0,
+      errors: [],
+    };
+    const upload = (originalname: string) =>
+      ({ originalname, buffer: Buffer.from('happy\tjoyful\n') }) as Express.Multer.File;
+
+    it('should detect the format from the file name', async () => {
+      questionTransferService.importQuestions.mockResolvedValue(report);
+
+      const result = await controller.importQuestions(upload('deck.txt'), { dryRun: true });
+
+      expect(questionTransferService.importQuestions).toHaveBeenCalledWith(
+        'anki',
+        'happy\tjoyful\n',
+        true,
+      );
+      expect(result).toEqual({ success: true, data: report });
+    });
+
+    it('should prefer an explicit format', async () => {
+      questionTransferService.importQuestions.mockResolvedValue(report);
+
+      await controller.importQuestions(upload('upload.bin'), { format: 'csv' });
+
+      expect(questionTransferService.importQuestions).toHaveBeenCalledWith(
+        'csv',
+        'happy\tjoyful\n',
+        false,
+      );
+    });
+
+    it('should reject a missing file or unknown format', async () => {
+      await expect(controller.importQuestions(undefined, {})).rejects.toThrow(BadRequestException);
+      await expect(controller.importQuestions(upload('bank.xlsx'), {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(questionTransferService.importQuestions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Questions Controller - HTTP REST endpoints for maintaining the question bank
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiQuery,
+  ApiConsumes,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { ErrorCode } from '../common/errors/error-codes';
+import { QuestionService } from './question.service';
+import { QuestionTransferService } from './question-transfer.service';
+import { QUESTION_FORMATS, detectQuestionFormat } from './formats/question-formats';
+import { QuestionInputDto } from './dto/question-input.dto';
+import { UpdateQuestionDto } from './dto/update-question.dto';
+import { ListQuestionsDto } from './dto/list-questions.dto';
+import { ImportQuestionsDto } from './dto/import-questions.dto';
+import { ExportQuestionsDto } from './dto/export-questions.dto';
+
+// Largest file accepted by the import endpoint
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+const QUESTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', example: 'q1' },
+    text: { type: 'string', example: 'What does "happy" mean?' },
+    options: { type: 'array', items: { type: 'string' }, example: ['Sad', 'Joyful'] },
+    correctAnswer: { type: 'string', example: 'Joyful' },
+    difficulty: { type: 'string', example: 'easy' },
+    category: { type: 'string', example: 'emotions' },
+    points: { type: 'number', example: 10 },
+  },
+};
+
+@ApiTags('questions')
+@Controller('questions')
+export class QuestionsController {
+  private readonly logger = new Logger(QuestionsController.name);
+
+  constructor(
+    private readonly questionService: QuestionService,
+    private readonly questionTransferService: QuestionTransferService,
+  ) {}
+
+  /**
+   * List bank questions
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List questions',
+    description:
+      'Returns a page of bank questions, optionally filtered by category and difficulty.',
+  })
+  @ApiQuery({ type: ListQuestionsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Questions retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: QUESTION_SCHEMA },
+            total: { type: 'number', example: 20 },
+            page: { type: 'number', example: 1 },
+            limit: { type: 'number', example: 20 },
+          },
+        },
+      },
+    },
+  })
+  async listQuestions(@Query() query: ListQuestionsDto) {
+    const page = await this.questionService.listQuestions(
+      { category: query.category, difficulty: query.difficulty },
+      query.page ?? 1,
+      query.limit ?? 20,
+    );
+
+    return {
+      success: true,
+      data: page,
+    };
+  }
+
+  /**
+   * Download the question bank as a file
+   */
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export questions',
+    description:
+      'Downloads bank questions as CSV, JSON or an Anki tab-separated notes file that can be imported again.',
+  })
+  @ApiQuery({ type: ExportQuestionsDto })
+  @ApiProduces('application/json', 'text/csv', 'text/tab-separated-values')
+  @ApiResponse({ status: 200, description: 'Question file' })
+  async exportQuestions(
+    @Query() query: ExportQuestionsDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const format = query.format ?? 'json';
+    const handler = QUESTION_FORMATS[format];
+    const content = await this.questionTransferService.exportQuestions(format, {
+      category: query.category,
+      difficulty: query.difficulty,
+    });
+
+    res.set({
+      'Content-Type': `${handler.contentType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="questions.${handler.extension}"`,
+    });
+    return content;
+  }
+
+  /**
+   * Import questions from an uploaded file
+   */
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }))
+  @ApiOperation({
+    summary: 'Import questions',
+    description:
+      'Adds questions from a CSV, JSON or Anki notes file. Rows with an id replace the existing question. ' +
+      'The import is all-or-nothing; use dryRun=true to get the validation report without importing.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @ApiQuery({ type: ImportQuestionsDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Questions imported (or validated, for a dry run)',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', example: 'csv' },
+            dryRun: { type: 'boolean', example: false },
+            total: { type: 'number', example: 12 },
+            valid: { type: 'number', example: 12 },
+            created: { type: 'number', example: 10 },
+            updated: { type: 'number', example: 2 },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  row: { type: 'number', example: 4 },
+                  field: { type: 'string', example: 'options' },
+                  message: { type: 'string', example: 'options must contain at least 2 elements' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or unreadable file, unknown format, or rows that failed validation',
+  })
+  async importQuestions(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query() query: ImportQuestionsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: 'A file upload named "file" is required',
+      });
+    }
+
+    const format = query.format ?? detectQuestionFormat(file.originalname);
+    if (!format) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_IMPORT,
+        message: `Cannot detect the format of "${file.originalname}"; pass format=csv, json or anki`,
+      });
+    }
+
+    this.logger.log(`Importing ${format} questions from ${file.originalname}`);
+
+    return {
+      success: true,
+      data: await this.questionTransferService.importQuestions(
+        format,
+        file.buffer.toString('utf8'),
+        query.dryRun ?? false,
+      ),
+    };
+  }
+
+  /**
+   * Get a single question
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a question' })
+  @ApiParam({ name: 'id', description: 'Question ID', example: 'q1' })
+  @ApiResponse({
+    status: 200,
+    description: 'Question retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: { success: { type: 'boolean', example: true }, data: QUESTION_SCHEMA },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Question not found' })
+  async getQuestion(@Param('id') id: string) {
+    return {
+      success: true,
+      data: await this.questionService.getQuestion(id),
+    };
+  }
+
+  /**
+   * Add a question to the bank
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a question',
+    description:
+      'Adds a question to the bank. Difficulty defaults to medium, category to "custom" and points by difficulty.',
+  })
+  @ApiBody({ type: QuestionInputDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Question created successfully',
+    schema: {
+      type: 'object',
+      properties: { success: { type: 'boolean', example: true }, data: QUESTION_SCHEMA },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or correctAnswer not among the options',
+  })
+  async createQuestion(@Body() questionDto: QuestionInputDto) {
+    this.logger.log('Creating question via HTTP');
+
+    return {
+      success: true,
+      data: await this.questionService.createQuestion(questionDto),
+    };
+  }
+
+  /**
+   * Update a question
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a question',
+    description: 'Updates the given fields of a bank question. Existing quizzes are not affected.',
+  })
+  @ApiParam({ name: 'id', description: 'Question ID', example: 'q1' })
+  @ApiBody({ type: UpdateQuestionDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Question updated successfully',
+    schema: {
+      type: 'object',
+      properties: { success: { type: 'boolean', example: true }, data: QUESTION_SCHEMA },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or correctAnswer not among the options',
+  })
+  @ApiResponse({ status: 404, description: 'Question not found' })
+  async updateQuestion(@Param('id') id: string, @Body() questionDto: UpdateQuestionDto) {
+    return {
+      success: true,
+      data: await this.questionService.updateQuestion(id, questionDto),
+    };
+  }
+
+  /**
+   * Delete a question
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a question',
+    description: 'Removes a question from the bank. Existing quizzes keep their copy.',
+  })
+  @ApiParam({ name: 'id', description: 'Question ID', example: 'q1' })
+  @ApiResponse({
+    status: 200,
+    description: 'Question deleted successfully',
+    schema: { type: 'object', properties: { success: { type: 'boolean', example: true } } },
+  })
+  @ApiResponse({ status: 404, description: 'Question not found' })
+  async deleteQuestion(@Param('id') id: string) {
+    await this.questionService.deleteQuestion(id);
+
+    return {
+      success: true,
+    };
+  }
+}
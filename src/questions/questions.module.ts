@@ -0,0 +1,44 @@
+/**
+ * Questions Module - Question bank storage, maintenance and import/export API, answer checking
+ *
+ * The storage backend is chosen with QUESTION_REPOSITORY:
+ * - file (default): JSON file at QUESTION_BANK_FILE, survives restarts
+ * - memory: built-in questions only, changes are lost on restart
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuestionService } from './question.service';
+import { QuestionTransferService } from './question-transfer.service';
+import { QuestionsController } from './questions.controller';
+import { QuestionRepository } from './repositories/question.repository';
+import { InMemoryQuestionRepository } from './repositories/in-memory-question.repository';
+import { FileQuestionRepository } from './repositories/file-question.repository';
+
+@Module({
+  controllers: [QuestionsController],
+  providers: [
+    QuestionService,
+    QuestionTransferService,
+    {
+      provide: QuestionRepository,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): QuestionRepository => {
+        const driver = configService.get<string>('QUESTION_REPOSITORY', 'file');
+
+        switch (driver) {
+          case 'memory':
+            return new InMemoryQuestionRepository();
+          case 'file':
+            return new FileQuestionRepository(
+              configService.get<string>('QUESTION_BANK_FILE', 'data/questions.json'),
+            );
+          default:
+            throw new Error(`Unknown QUESTION_REPOSITORY "${driver}" (expected file or memory)`);
+        }
+      },
+    },
+  ],
+  exports: [QuestionService],
+})
+export class QuestionsModule {}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQuestionRepository } from './file-question.repository';
+
+describe('FileQuestionRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  const question = {
+    id: 'custom1',
+    text: 'What does "brave" mean?',
+    options: ['Scared', 'Courageous'],
+    correctAnswer: 'Courageous',
+    difficulty: 'easy' as const,
+    category: 'adjectives',
+    points: 10,
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'questions-'));
+    filePath = path.join(dir, 'nested', 'questions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create the file from the built-in bank when missing', async () => {
+    const repository = new FileQuestionRepository(filePath);
+
+    const questions = await repository.findAll();
+
+    expect(questions.length).toBe(20);
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(stored.length).toBe(20);
+  });
+
+  it('should load questions from an existing file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify([question]));
+
+    const repository = new FileQuestionRepository(filePath);
+
+    expect(await repository.findAll()).toEqual([question]);
+  });
+
+  it('should persist changes across instances', async () => {
+    const repository = new FileQuestionRepository(filePath);
+    await repository.save(question);
+    await repository.delete('q1');
+
+    const reloaded = new FileQuestionRepository(filePath);
+
+    expect(await reloaded.findById('custom1')).toEqual(question);
+    expect(await reloaded.findById('q1')).toBeUndefined();
+    expect((await reloaded.findAll()).length).toBe(20);
+  });
+
+  it('should write concurrent changes without losing any', async () => {
+    const repository = new FileQuestionRepository(filePath);
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => repository.save({ ...question, id: `custom${i}` })),
+    );
+
+    const reloaded = new FileQuestionRepository(filePath);
+    expect((await reloaded.findAll()).length).toBe(25);
+  });
+
+  it('should write a bulk save to the file once', async () => {
+    const repository = new FileQuestionRepository(filePath);
+    await repository.findAll();
+    const writeFile = jest.spyOn(fs, 'writeFile');
+
+    await repository.saveMany(
+      Array.from({ length: 50 }, (_, i) => ({ ...question, id: `custom${i}` })),
+    );
+
+    expect(writeFile).toHaveBeenCalledTimes(1);
+    writeFile.mockRestore();
+    const reloaded = new FileQuestionRepository(filePath);
+    expect((await reloaded.findAll()).length).toBe(70);
+  });
+
+  it('should keep none of a bulk save when the write fails', async () => {
+    const repository = new FileQuestionRepository(filePath);
+    await repository.findAll();
+    const writeFile = jest.spyOn(fs, 'writeFile').mockRejectedValueOnce(new Error('ENOSPC'));
+
+    await expect(repository.saveMany([question, { ...question, id: 'custom2' }])).rejects.toThrow(
+      'ENOSPC',
+    );
+
+    writeFile.mockRestore();
+    expect(await repository.findById('custom1')).toBeUndefined();
+    expect((await repository.findAll()).length).toBe(20);
+  });
+
+  it('should fail loudly on a corrupt file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{ not json');
+
+    const repository = new FileQuestionRepository(filePath);
+
+    await expect(repository.findAll()).rejects.toThrow(SyntaxError);
+  });
+});
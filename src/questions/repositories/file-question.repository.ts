@@ -0,0 +1,104 @@
+/**
+ * JSON file backed question repository
+ *
+ * The whole bank is kept in memory and the file is rewritten after every change
+ * (write to a temp file, then rename, so a crash never leaves a half-written bank).
+ * A missing file is created from the built-in question bank on first use.
+ */
+
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Question, QuestionFilter } from '../interfaces/question.interface';
+import { QUESTION_BANK } from '../data/question-bank.data';
+import { InMemoryQuestionRepository } from './in-memory-question.repository';
+
+export class FileQuestionRepository extends InMemoryQuestionRepository {
+  private readonly logger = new Logger(FileQuestionRepository.name);
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super([]);
+  }
+
+  async findAll(filter?: QuestionFilter): Promise<Question[]> {
+    await this.load();
+    return super.findAll(filter);
+  }
+
+  async findById(id: string): Promise<Question | undefined> {
+    await this.load();
+    return super.findById(id);
+  }
+
+  async save(question: Question): Promise<Question> {
+    await this.load();
+    const saved = await super.save(question);
+    await this.persist();
+    return saved;
+  }
+
+  async saveMany(questions: Question[]): Promise<Question[]> {
+    await this.load();
+    const previous = [...this.questions.values()];
+    const saved = await super.saveMany(questions);
+
+    try {
+      await this.persist();
+    } catch (error) {
+      // Nothing reached the file, so nothing is kept in memory either
+      this.replaceAll(previous);
+      throw error;
+    }
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf8');
+      this.replaceAll(JSON.parse(data));
+      this.logger.log(`Loaded ${this.questions.size} questions from ${this.filePath}`);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+
+      this.replaceAll(QUESTION_BANK);
+      await this.persist();
+      this.logger.log(`Created question bank ${this.filePath} from the built-in questions`);
+    }
+  }
+
+  /**
+   * Queue a rewrite of the file so concurrent changes are written in order
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.questions.values()], null, 2);
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writing;
+  }
+}
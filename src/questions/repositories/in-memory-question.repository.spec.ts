@@ -0,0 +1,74 @@
+import { InMemoryQuestionRepository } from './in-memory-question.repository';
+import { Question } from '../interfaces/question.interface';
+
+describe('InMemoryQuestionRepository', () => {
+  const seed: Question[] = [
+    {
+      id: 'q1',
+      text: 'What does "happy" mean?',
+      options: ['Sad', 'Joyful'],
+      correctAnswer: 'Joyful',
+      difficulty: 'easy',
+      category: 'emotions',
+      points: 10,
+    },
+    {
+      id: 'q2',
+      text: 'What does "ubiquitous" mean?',
+      options: ['Rare', 'Everywhere'],
+      correctAnswer: 'Everywhere',
+      difficulty: 'hard',
+      category: 'advanced',
+      points: 20,
+    },
+  ];
+
+  let repository: InMemoryQuestionRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryQuestionRepository(seed);
+  });
+
+  it('should seed from the built-in bank by default', async () => {
+    const questions = await new InMemoryQuestionRepository().findAll();
+    expect(questions.length).toBe(20);
+  });
+
+  describe('findAll', () => {
+    it('should return questions in insertion order', async () => {
+      const questions = await repository.findAll();
+      expect(questions.map((q) => q.id)).toEqual(['q1', 'q2']);
+    });
+
+    it('should filter by difficulty and case-insensitive category', async () => {
+      expect(await repository.findAll({ difficulty: 'hard' })).toEqual([seed[1]]);
+      expect(await repository.findAll({ category: 'Emotions' })).toEqual([seed[0]]);
+      expect(await repository.findAll({ difficulty: 'hard', category: 'emotions' })).toEqual([]);
+    });
+  });
+
+  describe('save', () => {
+    it('should insert new questions and replace existing ones', async () => {
+      await repository.save({ ...seed[0], id: 'q3' });
+      await repository.save({ ...seed[0], points: 99 });
+
+      expect((await repository.findAll()).map((q) => q.id)).toEqual(['q1', 'q2', 'q3']);
+      expect((await repository.findById('q1'))?.points).toBe(99);
+    });
+  });
+
+  describe('delete', () => {
+    it('should report whether the question existed', async () => {
+      expect(await repository.delete('q1')).toBe(true);
+      expect(await repository.delete('q1')).toBe(false);
+      expect(await repository.findById('q1')).toBeUndefined();
+    });
+  });
+
+  it('should not let callers mutate stored questions', async () => {
+    const question = await repository.findById('q1');
+    question!.options.push('Angry');
+
+    expect((await repository.findById('q1'))?.options).toEqual(['Sad', 'Joyful']);
+  });
+});
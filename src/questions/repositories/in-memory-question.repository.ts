@@ -0,0 +1,59 @@
+/**
+ * In-memory question repository, seeded with the built-in question bank.
+ * Changes are lost on restart; used for tests and QUESTION_REPOSITORY=memory.
+ */
+
+import { Question, QuestionFilter } from '../interfaces/question.interface';
+import { QUESTION_BANK } from '../data/question-bank.data';
+import { QuestionRepository } from './question.repository';
+
+export class InMemoryQuestionRepository extends QuestionRepository {
+  protected readonly questions = new Map<string, Question>();
+
+  constructor(seed: Question[] = QUESTION_BANK) {
+    super();
+    this.replaceAll(seed);
+  }
+
+  async findAll(filter: QuestionFilter = {}): Promise<Question[]> {
+    const category = filter.category?.toLowerCase();
+
+    return [...this.questions.values()]
+      .filter((q) => !filter.difficulty || q.difficulty === filter.difficulty)
+      .filter((q) => !category || q.category.toLowerCase() === category)
+      .map((q) => this.copy(q));
+  }
+
+  async findById(id: string): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    return question ? this.copy(question) : undefined;
+  }
+
+  async save(question: Question): Promise<Question> {
+    this.questions.set(question.id, this.copy(question));
+    return this.copy(question);
+  }
+
+  async saveMany(questions: Question[]): Promise<Question[]> {
+    for (const question of questions) {
+      this.questions.set(question.id, this.copy(question));
+    }
+    return questions.map((question) => this.copy(question));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.questions.delete(id);
+  }
+
+  protected replaceAll(questions: Question[]): void {
+    this.questions.clear();
+    for (const question of questions) {
+      this.questions.set(question.id, this.copy(question));
+    }
+  }
+
+  // Callers get their own copies so they can't mutate stored questions
+  private copy(question: Question): Question {
+    return { ...question, options: [...question.options] };
+  }
+}
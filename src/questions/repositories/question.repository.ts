@@ -0,0 +1,34 @@
+/**
+ * Question Repository - Storage abstraction for the question bank
+ *
+ * Implementations are selected with QUESTION_REPOSITORY (see QuestionsModule).
+ */
+
+import { Question, QuestionFilter } from '../interfaces/question.interface';
+
+export abstract class QuestionRepository {
+  /**
+   * Get all questions matching the filter, in insertion order
+   */
+  abstract findAll(filter?: QuestionFilter): Promise<Question[]>;
+
+  /**
+   * Get a question by ID
+   */
+  abstract findById(id: string): Promise<Question | undefined>;
+
+  /**
+   * Insert a question, or replace the one with the same ID
+   */
+  abstract save(question: Question): Promise<Question>;
+
+  /**
+   * Insert or replace several questions in one write: either all are stored or none
+   */
+  abstract saveMany(questions: Question[]): Promise<Question[]>;
+
+  /**
+   * Delete a question, returning false if it did not exist
+   */
+  abstract delete(id: string): Promise<boolean>;
+}
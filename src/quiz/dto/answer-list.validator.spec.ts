@@ -0,0 +1,27 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { SubmitAnswerDto } from './submit-answer.dto';
+
+describe('IsAnswerList', () => {
+  const errorsFor = async (answer: unknown) =>
+    validate(plainToInstance(SubmitAnswerDto, { quizId: 'ABC123', questionId: 'q1', answer }));
+
+  it('should accept a single answer and a list of answers', async () => {
+    expect(await errorsFor('Joyful')).toEqual([]);
+    expect(await errorsFor(['a', 'b', 'c'])).toEqual([]);
+  });
+
+  it('should reject an empty list', async () => {
+    const [error] = await errorsFor([]);
+
+    expect(error.constraints).toEqual({
+      isAnswerList: 'answer must list between 1 and 10 items',
+    });
+  });
+
+  it('should reject a list longer than any question', async () => {
+    const [error] = await errorsFor(Array.from({ length: 11 }, (_, index) => `option ${index}`));
+
+    expect(error.constraints).toHaveProperty('isAnswerList');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Validation for the list form of a submitted answer (multi-select, matching
+ * and ordering questions). A single string answer passes untouched.
+ */
+
+import {
+  ValidateBy,
+  ValidationOptions,
+  arrayMaxSize,
+  arrayNotEmpty,
+  buildMessage,
+} from 'class-validator';
+
+// As many items as a question can have options or prompts
+export const MAX_ANSWER_ITEMS = 10;
+
+/**
+ * A list answer holds at least one and at most MAX_ANSWER_ITEMS items
+ */
+export function IsAnswerList(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isAnswerList',
+      validator: {
+        validate: (value: unknown) =>
+          !Array.isArray(value) || (arrayNotEmpty(value) && arrayMaxSize(value, MAX_ANSWER_ITEMS)),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must list between 1 and ${MAX_ANSWER_ITEMS} items`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
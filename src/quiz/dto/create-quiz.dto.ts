@@ -2,8 +2,29 @@
  * DTO for creating a quiz session
  */
 
-import { IsString, IsNotEmpty, IsArray, IsNumber, Min, Max, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsNumber,
+  IsBoolean,
+  Min,
+  Max,
+  IsOptional,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  ValidateNested,
+  IsIn,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { QuestionInputDto } from '../../questions/dto/question-input.dto';
+import { DifficultyDistributionDto } from './difficulty-distribution.dto';
+import { ScoringRulesDto } from './scoring-rules.dto';
+import { TIE_BREAKERS } from '../ranking/tie-breakers';
+import { TieBreaker } from '../interfaces/quiz.interface';
 
 export class CreateQuizDto {
   @ApiProperty({
@@ -15,6 +36,17 @@ export class CreateQuizDto {
   @IsNotEmpty()
   title: string;
 
+  @ApiPropertyOptional({
+    description: 'Who is creating the quiz, e.g. a username; quizzes can be listed by creator',
+    example: 'teacher_anna',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  createdBy?: string;
+
   @ApiPropertyOptional({
     description: 'Number of questions to include in the quiz',
     example: 10,
@@ -41,11 +73,88 @@ export class CreateQuizDto {
   timePerQuestion?: number; // seconds
 
   @ApiPropertyOptional({
-    description: 'Specific question IDs to use (optional)',
+    description: 'Automatically move to the next question when the timer runs out',
+    example: true,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  autoAdvance?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'How answers are scored (default: time_bonus)',
+    type: ScoringRulesDto,
+  })
+  @ValidateNested()
+  @Type(() => ScoringRulesDto)
+  @IsOptional()
+  scoring?: ScoringRulesDto;
+
+  @ApiPropertyOptional({
+    description:
+      'How players with equal points are ordered, most significant first: correct_answers (most ' +
+      'fully correct answers), answer_time (least total answer time), last_correct (earliest ' +
+      'last correct answer). Remaining ties are ordered by user ID.',
+    enum: TIE_BREAKERS,
+    isArray: true,
+    example: ['correct_answers', 'answer_time', 'last_correct'],
+    default: ['correct_answers', 'answer_time', 'last_correct'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(TIE_BREAKERS, { each: true })
+  @IsOptional()
+  tieBreakers?: TieBreaker[];
+
+  @ApiPropertyOptional({
+    description:
+      'Only pick bank questions from these categories (case-insensitive). Cannot be combined with questionIds or questions.',
+    type: [String],
+    example: ['verbs', 'emotions'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  categories?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Percentage of questions per difficulty, adding up to 100 (default 40/40/20 easy/medium/hard). ' +
+      'Cannot be combined with questionIds or questions.',
+    type: DifficultyDistributionDto,
+  })
+  @ValidateNested()
+  @Type(() => DifficultyDistributionDto)
+  @IsOptional()
+  difficultyDistribution?: DifficultyDistributionDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Specific question bank IDs to use, in order. Overrides questionCount when provided.',
     type: [String],
     example: ['q1', 'q2', 'q3'],
   })
   @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ArrayUnique()
+  @IsString({ each: true })
   @IsOptional()
   questionIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Custom questions to include, asked after any questionIds. Overrides questionCount when provided.',
+    type: [QuestionInputDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => QuestionInputDto)
+  @IsOptional()
+  questions?: QuestionInputDto[];
 }
@@ -0,0 +1,30 @@
+/**
+ * Percentage of quiz questions per difficulty. Values must add up to 100;
+ * omitted difficulties count as 0.
+ */
+
+import { IsInt, Min, Max, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class DifficultyDistributionDto {
+  @ApiPropertyOptional({ description: 'Percentage of easy questions', example: 20 })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  easy?: number;
+
+  @ApiPropertyOptional({ description: 'Percentage of medium questions', example: 50 })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  medium?: number;
+
+  @ApiPropertyOptional({ description: 'Percentage of hard questions', example: 30 })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  hard?: number;
+}
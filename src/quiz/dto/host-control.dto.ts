@@ -0,0 +1,30 @@
+/**
+ * DTOs for host-only quiz control events
+ */
+
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+
+export class HostControlDto {
+  @IsString()
+  @IsNotEmpty()
+  quizId: string;
+
+  // Omitted by co-hosts, who are authorized by their participant identity
+  @IsString()
+  @IsOptional()
+  hostToken?: string;
+}
+
+export class CoHostDto {
+  @IsString()
+  @IsNotEmpty()
+  quizId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  hostToken: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+}
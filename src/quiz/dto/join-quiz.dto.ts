@@ -6,7 +6,7 @@
  * - Validation rules refined based on business requirements
  */
 
-import { IsString, IsNotEmpty, MinLength, MaxLength, Matches } from 'class-validator';
+import { IsString, IsNotEmpty, MinLength, MaxLength, Matches, IsOptional } from 'class-validator';
 
 export class JoinQuizDto {
   @IsString()
@@ -23,4 +23,12 @@ export class JoinQuizDto {
   @MinLength(2)
   @MaxLength(30)
   username: string;
+
+  // The player's own ID, the same in every quiz, that their results are listed under.
+  // Not verified: anyone who sends it shares that listing
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @IsOptional()
+  playerId?: string;
 }
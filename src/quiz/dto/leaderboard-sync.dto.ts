@@ -0,0 +1,11 @@
+/**
+ * DTO for requesting a full leaderboard snapshot after a missed delta
+ */
+
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class LeaderboardSyncDto {
+  @IsString()
+  @IsNotEmpty()
+  quizId: string;
+}
@@ -0,0 +1,57 @@
+/**
+ * Query parameters for listing quizzes
+ */
+
+import { IsString, IsNotEmpty, IsEnum, IsDate, IsInt, Min, Max, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { QuizStatus } from '../interfaces/quiz.interface';
+
+export class ListQuizzesDto {
+  @ApiPropertyOptional({ description: 'Only quizzes in this status', enum: QuizStatus })
+  @IsEnum(QuizStatus)
+  @IsOptional()
+  status?: QuizStatus;
+
+  @ApiPropertyOptional({
+    description: 'Only quizzes created by this creator (createdBy at creation)',
+    example: 'teacher_anna',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  createdBy?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only quizzes created at or after this time (ISO 8601)',
+    example: '2025-11-01T00:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Only quizzes created at or before this time (ISO 8601)',
+    example: '2025-11-30T23:59:59.999Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Quizzes per page', minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
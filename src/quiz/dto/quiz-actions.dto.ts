@@ -0,0 +1,105 @@
+/**
+ * DTOs for playing and hosting a quiz over HTTP, for clients that cannot keep
+ * a socket open. The quiz ID comes from the path; participants identify
+ * themselves with the resume token they got when joining.
+ */
+
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  Min,
+  MinLength,
+  MaxLength,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SubmittedAnswer } from '../../questions/interfaces/question.interface';
+import { IsAnswerList } from './answer-list.validator';
+
+export class JoinQuizBodyDto {
+  @ApiProperty({ description: 'Name shown to the other players', example: 'Alice', minLength: 2 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(30)
+  username: string;
+
+  @ApiPropertyOptional({
+    description:
+      "The player's own ID, the same in every quiz; their results are listed under it. " +
+      'Not verified: anyone who sends it shares that listing',
+    example: 'player-alice',
+    maxLength: 64,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @IsOptional()
+  playerId?: string;
+}
+
+export class HostCredentialsDto {
+  @ApiPropertyOptional({
+    description: 'Host token returned when the quiz was created',
+    example: '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d',
+  })
+  @IsString()
+  @IsOptional()
+  hostToken?: string;
+
+  @ApiPropertyOptional({
+    description: 'Resume token of a participant made co-host, instead of the host token',
+    example: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed',
+  })
+  @IsString()
+  @IsOptional()
+  resumeToken?: string;
+}
+
+export class ParticipantCredentialsDto {
+  @ApiProperty({
+    description: 'Resume token returned when joining',
+    example: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  resumeToken: string;
+}
+
+export class SubmitAnswerBodyDto {
+  @ApiProperty({
+    description: 'Resume token returned when joining',
+    example: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  resumeToken: string;
+
+  @ApiProperty({ description: 'ID of the question being answered', example: 'q1' })
+  @IsString()
+  @IsNotEmpty()
+  questionId: string;
+
+  @ApiProperty({
+    description:
+      'A single option or typed answer, or a list for multi-select, matching (one option per ' +
+      'prompt, in prompt order) and ordering questions',
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    example: 'Joyful',
+  })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsAnswerList()
+  answer: SubmittedAnswer;
+
+  @ApiPropertyOptional({
+    description: 'Client-measured time in seconds, for diagnostics and clock skew compensation',
+    example: 4.2,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  timeTaken?: number;
+}
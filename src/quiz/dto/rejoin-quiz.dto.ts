@@ -0,0 +1,20 @@
+/**
+ * DTO for rejoining a quiz session after a reconnect
+ */
+
+import { IsString, IsNotEmpty, MinLength, MaxLength, Matches } from 'class-validator';
+
+export class RejoinQuizDto {
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(6)
+  @Matches(/^[A-Z0-9]+$/, {
+    message: 'Quiz ID must contain only uppercase letters and numbers',
+  })
+  quizId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  resumeToken: string;
+}
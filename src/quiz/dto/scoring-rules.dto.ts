@@ -0,0 +1,73 @@
+/**
+ * Scoring strategy for a quiz. Only the settings of the chosen strategy may be
+ * given; the others are rejected.
+ */
+
+import { IsIn, IsNumber, Min, Max, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SCORING_STRATEGY_NAMES } from '../scoring/scoring-strategies';
+import { ScoringStrategyName } from '../interfaces/quiz.interface';
+
+export class ScoringRulesDto {
+  @ApiProperty({
+    description:
+      'flat: points only; time_bonus: extra points for fast answers; streak: multiplier for ' +
+      'correct answers in a row; negative_marking: wrong answers cost points; decay: points ' +
+      'shrink towards the deadline',
+    enum: SCORING_STRATEGY_NAMES,
+    example: 'streak',
+  })
+  @IsIn(SCORING_STRATEGY_NAMES)
+  strategy: ScoringStrategyName;
+
+  @ApiPropertyOptional({
+    description: 'time_bonus: extra share of the points for an instant answer',
+    example: 0.5,
+    default: 0.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  @IsOptional()
+  maxTimeBonus?: number;
+
+  @ApiPropertyOptional({
+    description: 'streak: multiplier added per correct answer in a row',
+    example: 0.25,
+    default: 0.25,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  streakStep?: number;
+
+  @ApiPropertyOptional({ description: 'streak: highest multiplier', example: 2, default: 2 })
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  @IsOptional()
+  maxMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: 'negative_marking: share of the points lost for a wrong answer',
+    example: 0.25,
+    default: 0.25,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  penalty?: number;
+
+  @ApiPropertyOptional({
+    description: 'decay: share of the points left for a correct answer at the deadline',
+    example: 0.5,
+    default: 0.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  minShare?: number;
+}
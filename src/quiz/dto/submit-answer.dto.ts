@@ -6,7 +6,9 @@
  * - Validation rules customized for quiz requirements
  */
 
-import { IsString, IsNotEmpty, IsNumber, Min } from 'class-validator';
+import { IsString, IsNotEmpty, IsNumber, Min, IsOptional } from 'class-validator';
+import { SubmittedAnswer } from '../../questions/interfaces/question.interface';
+import { IsAnswerList } from './answer-list.validator';
 
 export class SubmitAnswerDto {
   @IsString()
@@ -17,11 +19,17 @@ export class SubmitAnswerDto {
   @IsNotEmpty()
   questionId: string;
 
-  @IsString()
-  @IsNotEmpty()
-  answer: string;
+  // A single option or typed answer, or a list for multi-select, matching
+  // (one option per prompt, in prompt order) and ordering questions
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsAnswerList()
+  answer: SubmittedAnswer;
 
+  // Client-measured time in seconds. Only used for diagnostics and clock skew
+  // compensation; scoring relies on the server's own measurement.
   @IsNumber()
   @Min(0)
-  timeTaken: number; // Time taken to answer in seconds
+  @IsOptional()
+  timeTaken?: number;
 }
@@ -7,39 +7,38 @@
  * - Error formatting assisted by GitHub Copilot
  */
 
-import { Catch, ArgumentsHost, Logger, HttpException } from '@nestjs/common';
-import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
-import { Socket } from 'socket.io';
+import { Catch, ArgumentsHost, Logger } from '@nestjs/common';
+import { BaseWsExceptionFilter } from '@nestjs/websockets';
+import { describeError } from '../../common/errors/error-body';
+import { getAcknowledge } from '../interceptors/ws-acknowledgement.interceptor';
+import { ErrorPayload, QuizSocket } from '../protocol/quiz-protocol';
 
 @Catch()
 export class WebSocketExceptionFilter extends BaseWsExceptionFilter {
   private readonly logger = new Logger(WebSocketExceptionFilter.name);
 
   catch(exception: unknown, host: ArgumentsHost) {
-    const client = host.switchToWs().getClient<Socket>();
+    const ws = host.switchToWs();
+    const client = ws.getClient<QuizSocket>();
+    const event = ws.getPattern();
 
-    let errorMessage = 'Internal server error';
-    let statusCode = 500;
-
-    if (exception instanceof WsException) {
-      errorMessage = exception.message;
-      statusCode = 400;
-    } else if (exception instanceof HttpException) {
-      errorMessage = exception.message;
-      statusCode = exception.getStatus();
-    } else if (exception instanceof Error) {
-      errorMessage = exception.message;
-    }
+    const error: ErrorPayload = {
+      ...describeError(exception),
+      ...(event && { event }),
+      timestamp: new Date().toISOString(),
+    };
 
     this.logger.error(
-      `WebSocket error: ${errorMessage}`,
+      `WebSocket error: ${exception instanceof Error ? exception.message : error.message}`,
       exception instanceof Error ? exception.stack : '',
     );
 
-    client.emit('error', {
-      statusCode,
-      message: errorMessage,
-      timestamp: new Date().toISOString(),
-    });
+    // Answer through the acknowledgement when the client sent one, as handlers do
+    const ack = getAcknowledge(host);
+    if (ack) {
+      ack({ ok: false, error });
+    } else {
+      client.emit('error', error);
+    }
   }
 }
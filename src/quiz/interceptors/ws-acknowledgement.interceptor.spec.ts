@@ -0,0 +1,52 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of } from 'rxjs';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { ServerReply } from '../protocol/quiz-protocol';
+import { WsAcknowledgementInterceptor } from './ws-acknowledgement.interceptor';
+
+describe('WsAcknowledgementInterceptor', () => {
+  const interceptor = new WsAcknowledgementInterceptor();
+
+  // Handler arguments in the WebSocket context: client, data, ack, pattern
+  const contextWith = (ack?: jest.Mock) =>
+    ({
+      getArgByIndex: (index: number) => [{ id: 'socket-1' }, {}, ack, 'host_claimed'][index],
+    }) as unknown as ExecutionContext;
+  const handle = (reply: ServerReply): CallHandler<ServerReply> => ({ handle: () => of(reply) });
+
+  const hostClaimed: ServerReply = { event: 'host_claimed', data: { quizId: 'ABC123' } };
+
+  it('should leave replies to events sent without an acknowledgement alone', async () => {
+    const result = await lastValueFrom(interceptor.intercept(contextWith(), handle(hostClaimed)));
+
+    expect(result).toBe(hostClaimed);
+  });
+
+  it('should acknowledge a reply instead of emitting it', async () => {
+    const ack = jest.fn();
+
+    const result = await lastValueFrom(
+      interceptor.intercept(contextWith(ack), handle(hostClaimed)),
+    );
+
+    expect(ack).toHaveBeenCalledWith({ ok: true, ...hostClaimed });
+    expect(result).toBeUndefined();
+  });
+
+  it('should acknowledge an error reply with ok: false', async () => {
+    const ack = jest.fn();
+    const error = {
+      code: ErrorCode.NOT_HOST,
+      message: 'Only the quiz host can perform this action',
+      statusCode: 403,
+      event: 'claim_host',
+      timestamp: new Date().toISOString(),
+    };
+
+    await lastValueFrom(
+      interceptor.intercept(contextWith(ack), handle({ event: 'error', data: error })),
+    );
+
+    expect(ack).toHaveBeenCalledWith({ ok: false, error });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * WebSocket Acknowledgement Interceptor
+ * Answers client events sent with an acknowledgement callback through it
+ *
+ * A handler's `{ event, data }` reply is turned into `{ ok: true, event, data }`,
+ * an error reply into `{ ok: false, error }`, and nothing is emitted. Events
+ * sent without a callback are answered with their reply event as before.
+ * Exceptions a handler doesn't catch are acknowledged by WebSocketExceptionFilter.
+ */
+
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { ClientEventAck, ClientEventName, ServerReply } from '../protocol/quiz-protocol';
+
+// Handler arguments are (client, data, ack) in the WebSocket context
+const ACK_ARGUMENT = 2;
+
+export type Acknowledge = (response: ClientEventAck<ClientEventName>) => void;
+
+/**
+ * The acknowledgement callback the client sent with the event, if any
+ */
+export function getAcknowledge(context: {
+  getArgByIndex<T>(index: number): T;
+}): Acknowledge | undefined {
+  const ack = context.getArgByIndex<unknown>(ACK_ARGUMENT);
+  return typeof ack === 'function' ? (ack as Acknowledge) : undefined;
+}
+
+export function toAcknowledgement(reply: ServerReply): ClientEventAck<ClientEventName> {
+  if (reply.event === 'error') {
+    return { ok: false, error: reply.data };
+  }
+  return { ok: true, ...reply } as ClientEventAck<ClientEventName>;
+}
+
+@Injectable()
+export class WsAcknowledgementInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler<ServerReply>): Observable<unknown> {
+    const ack = getAcknowledge(context);
+    if (!ack) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      map((reply) => {
+        if (reply) {
+          ack(toAcknowledgement(reply));
+        }
+        return undefined;
+      }),
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Quiz history: listings and post-quiz reviews over live and archived quizzes
+ */
+
+import { Question } from '../../questions/interfaces/question.interface';
+import { AnswerRecord, QuizStatus } from './quiz.interface';
+
+export interface QuizListFilter {
+  status?: QuizStatus;
+  createdBy?: string;
+  from?: Date; // created at or after
+  to?: Date; // created at or before
+}
+
+export interface QuizSummary {
+  quizId: string;
+  title: string;
+  status: QuizStatus;
+  createdBy?: string;
+  createdAt: Date;
+  startTime?: Date;
+  endTime?: Date;
+  questionCount: number;
+  participantCount: number;
+  archived: boolean; // read from the archive rather than the live store
+}
+
+export interface QuizResult {
+  quizId: string;
+  userId: string; // the player's participant ID in the quiz, for reviewing their answers
+  title: string;
+  createdAt: Date;
+  endTime?: Date;
+  score: number;
+  rank: number;
+  participantCount: number;
+  questionCount: number;
+  correctAnswers: number;
+  totalAnswers: number;
+  accuracy: number; // percentage of the quiz's questions answered correctly
+}
+
+export interface AnswerReview {
+  question: Question; // with its answer
+  answer: AnswerRecord | null; // null if the question went unanswered
+}
+
+export interface ParticipantAnswers {
+  quizId: string;
+  userId: string;
+  username: string;
+  score: number;
+  rank: number;
+  correctAnswers: number;
+  totalAnswers: number;
+  answers: AnswerReview[]; // in question order
+}
+
+export interface HistoryPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -6,25 +6,92 @@
  * - Properties refined based on system requirements
  */
 
+import {
+  Question,
+  QuestionInput,
+  DifficultyDistribution,
+  SubmittedAnswer,
+} from '../../questions/interfaces/question.interface';
+
 export enum QuizStatus {
   WAITING = 'waiting',
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
 }
 
-export interface Question {
-  id: string;
-  text: string;
-  options: string[];
-  correctAnswer: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  category: string;
-  points: number;
+/**
+ * Lifecycle of the current question: answers are accepted while open, and the
+ * correct answer and everyone's points are only shared once it is revealed
+ */
+export enum QuestionPhase {
+  OPEN = 'open',
+  CLOSED = 'closed',
+  REVEALED = 'revealed',
+}
+
+export type ScoringStrategyName = 'flat' | 'time_bonus' | 'streak' | 'negative_marking' | 'decay';
+
+/**
+ * How a quiz awards points. Only the settings of the chosen strategy apply;
+ * missing ones take the strategy's defaults.
+ */
+export interface ScoringRules {
+  strategy: ScoringStrategyName;
+  maxTimeBonus?: number; // time_bonus: extra share of the points for an instant answer
+  streakStep?: number; // streak: multiplier added per consecutive fully correct answer
+  maxMultiplier?: number; // streak: highest multiplier
+  penalty?: number; // negative_marking: share of the points lost for a wrong answer
+  minShare?: number; // decay: share of the points left for an answer at the deadline
+}
+
+export type ScoringSetting = Exclude<keyof ScoringRules, 'strategy'>;
+
+/**
+ * Scoring rules together with a plain-language summary for players
+ */
+export interface ScoringSummary extends ScoringRules {
+  description: string;
+}
+
+export interface ScoringContext {
+  question: Question;
+  credit: number; // share of the answer that was right, 0-1
+  timeTaken: number; // seconds
+  timeLimit: number; // seconds
+  streak: number; // fully correct answers in a row just before this question
+}
+
+export interface ScoringStrategy {
+  defaults: Partial<Record<ScoringSetting, number>>; // also lists the settings that apply
+  usesStreak?: boolean;
+  describe(rules: ScoringRules): string;
+  score(context: ScoringContext, rules: ScoringRules): number; // unrounded
+}
+
+/**
+ * Ways to order players with equal points: most fully correct answers, least
+ * total answer time (unanswered questions count as the full time limit), or
+ * the earliest last correct answer
+ */
+export type TieBreaker = 'correct_answers' | 'answer_time' | 'last_correct';
+
+/**
+ * How points and tie-breaker stats combine into one sorted-set rank score:
+ * points × scoreRadix + Σ stat × weight, kept below 2^53 so it stays exact
+ */
+export interface RankEncoding {
+  tieBreakers: TieBreaker[]; // most significant first
+  timeUnitMs: number; // resolution of the time-based tie-breakers
+  ticksPerQuestion: number; // time units in one question's time limit
+  questionCount: number;
+  scoreRadix: number;
+  weights: Record<TieBreaker, number>; // 0 for tie-breakers the quiz doesn't use
 }
 
 export interface QuizSession {
   quizId: string;
   title: string;
+  createdBy?: string; // whoever created the quiz, as they named themselves
   status: QuizStatus;
   questions: Question[];
   currentQuestionIndex: number;
@@ -32,12 +99,44 @@ export interface QuizSession {
   endTime?: Date;
   createdAt: Date;
   maxParticipants: number;
+  timePerQuestion: number; // seconds
+  autoAdvance: boolean;
+  scoring?: ScoringRules; // absent on sessions created before scoring strategies
+  ranking?: RankEncoding; // absent on sessions created before tie-breakers
+  questionStartedAt?: number; // epoch ms when the current question was broadcast
+  questionDeadline?: number; // epoch ms after which answers are rejected
+  questionPhase?: QuestionPhase; // phase of the current question
+  hostToken: string; // secret handed to the creator, required for control events
+  hostSocketId?: string; // socket currently acting as host
+  hostUserId?: string; // participant promoted to host after a handover
+  coHostIds: string[]; // participants delegated to control the quiz
+}
+
+export interface CreateQuizOptions {
+  createdBy?: string;
+  timePerQuestion?: number;
+  autoAdvance?: boolean;
+  hostSocketId?: string;
+  questionIds?: string[]; // explicit bank questions, in order
+  questions?: QuestionInput[]; // custom questions asked after questionIds
+  categories?: string[]; // bank categories to pick from
+  difficultyDistribution?: DifficultyDistribution; // percentages adding up to 100
+  scoring?: ScoringRules;
+  tieBreakers?: TieBreaker[]; // applied in order to players with equal points
+}
+
+export type HostRole = 'host' | 'co_host';
+
+export interface HostCredentials {
+  hostToken?: string;
+  userId?: string;
 }
 
 export interface Participant {
   userId: string;
   username: string;
-  socketId: string;
+  socketId?: string; // absent for participants who joined over HTTP
+  playerId?: string; // the player's own ID, the same in every quiz they join
   joinedAt: Date;
   score: number;
   answersSubmitted: number;
@@ -52,10 +151,111 @@ export interface LeaderboardEntry {
   totalAnswers?: number;
 }
 
-export interface AnswerResult {
+/**
+ * Changes to the full leaderboard since the previous broadcast (seq - 1)
+ */
+export interface LeaderboardDelta {
+  seq: number;
+  changes: LeaderboardEntry[]; // new players and players whose score or rank changed
+  removed: string[]; // user IDs no longer on the leaderboard
+  participantCount: number;
+}
+
+export interface LeaderboardSnapshot {
+  seq: number; // the last delta this snapshot includes
+  leaderboard: LeaderboardEntry[];
+}
+
+/**
+ * What a connected socket is attached to, shared by every app instance
+ */
+export interface SocketPresence {
+  userId?: string; // set while the socket speaks for a participant
+  quizId?: string;
+  hostQuizId?: string; // set while the socket holds a quiz's host role
+}
+
+/**
+ * Acknowledges a submission while the question is open, without its outcome
+ */
+export interface AnswerReceipt {
+  questionId: string;
+  answer: SubmittedAnswer; // as recorded
+  submittedAt: Date;
+}
+
+export interface PlayerQuestionResult {
+  userId: string;
+  username: string;
+  answered: boolean;
+  answer?: SubmittedAnswer;
   correct: boolean;
-  correctAnswer: string;
+  credit: number; // share of the question's points earned, 0-1 (below 1 for near-misses)
+  typos?: number; // text questions: typos in an accepted answer
   earnedPoints: number;
-  currentScore: number;
+  score: number;
   rank: number;
 }
+
+export interface QuestionReveal {
+  questionId: string;
+  questionNumber: number;
+  correctAnswer: string;
+  answerKey?: string[]; // list question types: the full answer, see Question.answerKey
+  acceptedAnswers?: string[]; // text questions
+  distribution: Record<string, number>; // how many players gave each answer
+  unanswered: number;
+  results: PlayerQuestionResult[]; // by rank
+}
+
+export interface AnswerRecord {
+  answer: SubmittedAnswer;
+  correct: boolean;
+  correctAnswer: string;
+  answerKey?: string[];
+  credit?: number; // absent on answers recorded before partial credit
+  typos?: number;
+  earnedPoints: number;
+  timeTaken: number; // seconds, as used for scoring
+  clientTimeTaken?: number; // seconds, as reported by the client
+  submittedAt: Date;
+}
+
+export interface SessionSnapshot {
+  quiz: {
+    quizId: string;
+    title: string;
+    status: QuizStatus;
+    currentQuestion: number;
+    totalQuestions: number;
+    timePerQuestion: number;
+    scoring: ScoringSummary;
+  };
+  question: Question | null;
+  questionNumber: number | null;
+  remainingSeconds: number | null;
+  score: number;
+  rank: number | null;
+  questionPhase: QuestionPhase | null;
+  answers: Record<string, AnswerRecord | AnswerReceipt>; // receipt only while the question is unrevealed
+  leaderboard: LeaderboardEntry[];
+}
+
+/**
+ * Room broadcasts that are also recorded for the SSE stream
+ */
+export type QuizEventName =
+  | 'quiz_started'
+  | 'question_next'
+  | 'score_update'
+  | 'leaderboard_update'
+  | 'quiz_completed';
+
+/**
+ * A recorded broadcast, numbered per quiz so SSE clients can resume after the last one they saw
+ */
+export interface QuizEvent {
+  id: number;
+  event: QuizEventName;
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,86 @@
+import { readFileSync } from 'fs';
+import { MESSAGE_METADATA } from '@nestjs/websockets/constants';
+import {
+  ASYNCAPI_FILE,
+  CLIENT_TYPES_FILE,
+  generateProtocolFiles,
+  ProtocolModel,
+  readProtocol,
+} from './protocol-generator';
+import { QuizGateway } from '../quiz.gateway';
+
+// Compiling the protocol takes a few seconds
+jest.setTimeout(60000);
+
+describe('protocol generator', () => {
+  let model: ProtocolModel;
+
+  beforeAll(() => {
+    model = readProtocol();
+  });
+
+  it('should match the committed client types and AsyncAPI document (run npm run protocol:generate)', () => {
+    const files = generateProtocolFiles();
+
+    expect(files[CLIENT_TYPES_FILE]).toBe(readFileSync(CLIENT_TYPES_FILE, 'utf8'));
+    expect(files[ASYNCAPI_FILE]).toBe(readFileSync(ASYNCAPI_FILE, 'utf8'));
+  });
+
+  it('should describe every event the gateway handles', () => {
+    const prototype: Record<string, unknown> = QuizGateway.prototype as never;
+    const handled = Object.getOwnPropertyNames(prototype)
+      .map((method) => prototype[method])
+      .filter((handler) => typeof handler === 'function')
+      .map((handler) => Reflect.getMetadata(MESSAGE_METADATA, handler as object))
+      .filter(Boolean);
+
+    expect(model.clientEvents.map((event) => event.name).sort()).toEqual(handled.sort());
+  });
+
+  it('should answer every client event with server events', () => {
+    const serverEvents = model.serverEvents.map((event) => event.name);
+
+    expect(Object.keys(model.replies).sort()).toEqual(
+      model.clientEvents.map((event) => event.name).sort(),
+    );
+    for (const replies of Object.values(model.replies)) {
+      expect(serverEvents).toEqual(expect.arrayContaining(replies));
+    }
+  });
+
+  it('should describe Dates as date-time strings and enums by their values', () => {
+    const type = (name: string) => model.types.find((candidate) => candidate.name === name);
+
+    expect(type('AnswerReceipt')?.shape).toMatchObject({
+      properties: expect.arrayContaining([
+        { name: 'submittedAt', shape: { kind: 'string', format: 'date-time' }, optional: false },
+      ]),
+    });
+    expect(type('QuizStatus')?.shape).toEqual({
+      kind: 'union',
+      members: [
+        { kind: 'literal', value: 'waiting' },
+        { kind: 'literal', value: 'in_progress' },
+        { kind: 'literal', value: 'completed' },
+      ],
+    });
+  });
+
+  it('should follow DTOs with their validation descriptions', () => {
+    const createQuiz = model.clientEvents.find((event) => event.name === 'create_quiz');
+    const dto = model.types.find((type) => type.name === 'CreateQuizDto');
+
+    expect(createQuiz?.payload).toEqual({ kind: 'ref', name: 'CreateQuizDto' });
+    expect(dto?.shape).toMatchObject({
+      properties: expect.arrayContaining([
+        {
+          name: 'title',
+          shape: { kind: 'string' },
+          optional: false,
+          description: 'Title of the quiz',
+        },
+        expect.objectContaining({ name: 'questionCount', optional: true }),
+      ]),
+    });
+  });
+});
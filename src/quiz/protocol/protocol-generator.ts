@@ -0,0 +1,687 @@
+/**
+ * Protocol Generator - Client types and AsyncAPI document from the quiz protocol
+ *
+ * Reads quiz-protocol.ts with the TypeScript compiler and follows its event
+ * maps through every DTO and interface they use, into JSON-shaped types. Both
+ * outputs are written from that one model:
+ * - clients/quiz-client/src/protocol.ts: the wire types for the client package
+ * - docs/asyncapi.json: an AsyncAPI 3.0 description of the Socket.IO API
+ *
+ * Run with `npm run protocol:generate`. protocol-generator.spec.ts fails when
+ * the committed files are out of date.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import * as ts from 'typescript';
+
+const ROOT = join(__dirname, '..', '..', '..');
+const PROTOCOL_FILE = join(__dirname, 'quiz-protocol.ts');
+
+export const CLIENT_TYPES_FILE = join(ROOT, 'clients', 'quiz-client', 'src', 'protocol.ts');
+export const ASYNCAPI_FILE = join(ROOT, 'docs', 'asyncapi.json');
+
+// ==================== Model ====================
+
+export type Shape =
+  | { kind: 'string'; format?: 'date-time' }
+  | { kind: 'number' | 'boolean' | 'null' | 'unknown' }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'ref'; name: string }
+  | { kind: 'array'; items: Shape }
+  | { kind: 'union'; members: Shape[] }
+  | { kind: 'object'; properties: Property[]; additionalProperties?: Shape };
+
+export interface Property {
+  name: string;
+  shape: Shape;
+  optional: boolean;
+  description?: string;
+}
+
+export interface NamedType {
+  name: string;
+  shape: Shape;
+  description?: string;
+}
+
+export interface ProtocolEvent {
+  name: string;
+  payload: Shape;
+  description?: string;
+}
+
+export interface ProtocolModel {
+  types: NamedType[]; // in the order they are first reached from the events
+  clientEvents: ProtocolEvent[];
+  serverEvents: ProtocolEvent[];
+  replies: Record<string, string[]>; // client event -> the events the server answers with
+}
+
+/**
+ * Walk quiz-protocol.ts into a ProtocolModel
+ */
+export function readProtocol(): ProtocolModel {
+  const { config } = ts.readConfigFile(join(ROOT, 'tsconfig.json'), ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, ROOT);
+  const program = ts.createProgram([PROTOCOL_FILE], { ...options, noEmit: true });
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(PROTOCOL_FILE)!;
+
+  return new ProtocolReader(checker, source).read();
+}
+
+class ProtocolReader {
+  private readonly types = new Map<string, NamedType>();
+  private readonly declarations = new Map<string, ts.Declaration>();
+
+  constructor(
+    private readonly checker: ts.TypeChecker,
+    private readonly source: ts.SourceFile,
+  ) {}
+
+  read(): ProtocolModel {
+    const clientEvents = this.readEvents('ClientToServerEvents');
+    const serverEvents = this.readEvents('ServerToClientEvents');
+
+    const replies: Record<string, string[]> = {};
+    for (const property of this.interfaceProperties('ClientEventReplies')) {
+      const shape = this.shapeOfNode(property.type!);
+      const members = shape.kind === 'union' ? shape.members : [shape];
+      replies[property.name.getText()] = members.map((member) => {
+        if (member.kind !== 'literal' || typeof member.value !== 'string') {
+          throw new Error(`ClientEventReplies.${property.name.getText()} must name events`);
+        }
+        return member.value;
+      });
+    }
+
+    return { types: [...this.types.values()], clientEvents, serverEvents, replies };
+  }
+
+  private readEvents(mapName: string): ProtocolEvent[] {
+    return this.interfaceProperties(mapName).map((property) => {
+      const listener = property.type;
+      if (!listener || !ts.isFunctionTypeNode(listener) || listener.parameters.length !== 1) {
+        throw new Error(`${mapName}.${property.name.getText()} must take a single payload`);
+      }
+      return {
+        name: property.name.getText(),
+        payload: this.shapeOfNode(listener.parameters[0].type!),
+        description: this.describe(property),
+      };
+    });
+  }
+
+  private interfaceProperties(name: string): ts.PropertySignature[] {
+    const declaration = this.source.statements.find(
+      (statement): statement is ts.InterfaceDeclaration =>
+        ts.isInterfaceDeclaration(statement) && statement.name.text === name,
+    );
+    if (!declaration) {
+      throw new Error(`quiz-protocol.ts does not declare ${name}`);
+    }
+    return declaration.members.filter(ts.isPropertySignature);
+  }
+
+  /**
+   * Types are read from the annotation where there is one, so that unions and
+   * aliases keep the structure they were written with
+   */
+  private shapeOfNode(node: ts.TypeNode): Shape {
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.shapeOfNode(node.type);
+    }
+    if (ts.isUnionTypeNode(node)) {
+      return this.union(node.types.map((member) => this.shapeOfNode(member)));
+    }
+    if (ts.isArrayTypeNode(node)) {
+      return { kind: 'array', items: this.shapeOfNode(node.elementType) };
+    }
+    return this.shapeOfType(this.checker.getTypeFromTypeNode(node));
+  }
+
+  private shapeOfType(type: ts.Type): Shape {
+    const alias = type.aliasSymbol;
+    if (
+      alias &&
+      alias.flags & ts.SymbolFlags.TypeAlias &&
+      !type.aliasTypeArguments &&
+      this.isOwn(alias)
+    ) {
+      return this.named(alias, (declaration) =>
+        this.shapeOfNode((declaration as ts.TypeAliasDeclaration).type),
+      );
+    }
+
+    // An enum is its own alias
+    const enumSymbol = [alias, type.getSymbol()].find(
+      (candidate) => candidate && candidate.flags & ts.SymbolFlags.Enum,
+    );
+    if (enumSymbol && this.isOwn(enumSymbol)) {
+      return this.named(enumSymbol, (declaration) =>
+        this.union(
+          (declaration as ts.EnumDeclaration).members.map((member) => ({
+            kind: 'literal' as const,
+            value: this.checker.getConstantValue(member)!,
+          })),
+        ),
+      );
+    }
+
+    if (type.flags & ts.TypeFlags.StringLiteral) {
+      return { kind: 'literal', value: (type as ts.StringLiteralType).value };
+    }
+    if (type.flags & ts.TypeFlags.NumberLiteral) {
+      return { kind: 'literal', value: (type as ts.NumberLiteralType).value };
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { kind: 'literal', value: this.checker.typeToString(type) === 'true' };
+    }
+    if (type.flags & ts.TypeFlags.String) return { kind: 'string' };
+    if (type.flags & ts.TypeFlags.Number) return { kind: 'number' };
+    if (type.flags & ts.TypeFlags.Boolean) return { kind: 'boolean' };
+    if (type.flags & ts.TypeFlags.Null) return { kind: 'null' };
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return { kind: 'unknown' };
+
+    if (type.isUnion()) {
+      return this.union(type.types.map((member) => this.shapeOfType(member)));
+    }
+    const symbol = type.getSymbol();
+    if (this.checker.isArrayType(type)) {
+      return {
+        kind: 'array',
+        items: this.shapeOfType(this.checker.getTypeArguments(type as ts.TypeReference)[0]),
+      };
+    }
+    if (symbol?.name === 'Date' && !this.isOwn(symbol)) {
+      // Serialized with toJSON
+      return { kind: 'string', format: 'date-time' };
+    }
+    if (type.flags & ts.TypeFlags.Object) {
+      if (
+        symbol &&
+        symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Class) &&
+        this.isOwn(symbol)
+      ) {
+        return this.named(symbol, () => this.objectShape(type));
+      }
+      return this.objectShape(type);
+    }
+
+    throw new Error(`Cannot describe type ${this.checker.typeToString(type)} on the wire`);
+  }
+
+  private objectShape(type: ts.Type): Shape {
+    // Inherited properties first, as they are in the base type
+    const declarations: ts.Node[] = type.getSymbol()?.declarations ?? [];
+    const members = this.checker
+      .getPropertiesOfType(type)
+      .filter((property) => !(property.flags & ts.SymbolFlags.Method));
+    const isOwn = (property: ts.Symbol) =>
+      declarations.includes(property.valueDeclaration?.parent as ts.Node);
+
+    const properties = [
+      ...members.filter((property) => !isOwn(property)),
+      ...members.filter(isOwn),
+    ].map((property): Property => {
+      const declaration = property.valueDeclaration;
+      const annotation =
+        declaration &&
+        (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration))
+          ? declaration.type
+          : undefined;
+
+      return {
+        name: property.name,
+        shape: annotation
+          ? this.shapeOfNode(annotation)
+          : this.shapeOfType(
+              this.checker.getNonNullableType(this.checker.getTypeOfSymbol(property)),
+            ),
+        optional: (property.flags & ts.SymbolFlags.Optional) !== 0,
+        description: declaration ? this.describe(declaration) : undefined,
+      };
+    });
+
+    const index = this.checker
+      .getIndexInfosOfType(type)
+      .find((info) => info.keyType.flags & ts.TypeFlags.String);
+
+    return {
+      kind: 'object',
+      properties,
+      ...(index && { additionalProperties: this.shapeOfType(index.type) }),
+    };
+  }
+
+  /**
+   * Drops undefined, which JSON can't carry, and merges true | false back into boolean
+   */
+  private union(members: Shape[]): Shape {
+    const flattened = members.flatMap((member) =>
+      member.kind === 'union' ? member.members : [member],
+    );
+    const hasTrue = flattened.some((member) => member.kind === 'literal' && member.value === true);
+    const hasFalse = flattened.some(
+      (member) => member.kind === 'literal' && member.value === false,
+    );
+
+    const merged: Shape[] = [];
+    for (const member of flattened) {
+      if (hasTrue && hasFalse && member.kind === 'literal' && typeof member.value === 'boolean') {
+        if (!merged.some((other) => other.kind === 'boolean')) merged.push({ kind: 'boolean' });
+        continue;
+      }
+      merged.push(member);
+    }
+
+    return merged.length === 1 ? merged[0] : { kind: 'union', members: merged };
+  }
+
+  /**
+   * A reference to a type declared in this repo, read the first time it is reached
+   */
+  private named(symbol: ts.Symbol, read: (declaration: ts.Declaration) => Shape): Shape {
+    const name = symbol.name;
+    const declaration = symbol.declarations![0];
+
+    const known = this.declarations.get(name);
+    if (known && known !== declaration) {
+      throw new Error(`Two protocol types are named ${name}; rename one of them`);
+    }
+    if (!known) {
+      this.declarations.set(name, declaration);
+      const type: NamedType = {
+        name,
+        shape: { kind: 'unknown' },
+        description: this.describe(declaration),
+      };
+      this.types.set(name, type);
+      type.shape = read(declaration);
+    }
+
+    return { kind: 'ref', name };
+  }
+
+  private isOwn(symbol: ts.Symbol): boolean {
+    return (symbol.declarations ?? []).some((declaration) => {
+      const file = declaration.getSourceFile();
+      return !file.isDeclarationFile && !file.fileName.includes('/node_modules/');
+    });
+  }
+
+  /**
+   * The declaration's doc comment, else its @ApiProperty description, else the
+   * comment at the end of its line
+   */
+  private describe(declaration: ts.Node): string | undefined {
+    const name = (declaration as ts.NamedDeclaration).name;
+    const symbol = name && this.checker.getSymbolAtLocation(name);
+    const documentation =
+      symbol && ts.displayPartsToString(symbol.getDocumentationComment(this.checker));
+    if (documentation) return unwrap(documentation);
+
+    const decorated = ts.canHaveDecorators(declaration)
+      ? (ts.getDecorators(declaration) ?? [])
+      : [];
+    for (const decorator of decorated) {
+      const call = decorator.expression;
+      if (
+        ts.isCallExpression(call) &&
+        /^ApiProperty(Optional)?$/.test(call.expression.getText()) &&
+        call.arguments[0] &&
+        ts.isObjectLiteralExpression(call.arguments[0])
+      ) {
+        const property = call.arguments[0].properties.find(
+          (candidate): candidate is ts.PropertyAssignment =>
+            ts.isPropertyAssignment(candidate) && candidate.name.getText() === 'description',
+        );
+        const text = property && this.stringValue(property.initializer);
+        if (text) return text;
+      }
+    }
+
+    const text = declaration.getSourceFile().text;
+    const comment = ts
+      .getTrailingCommentRanges(text, declaration.end)
+      ?.find((range) => range.kind === ts.SyntaxKind.SingleLineCommentTrivia);
+    return comment ? text.slice(comment.pos + 2, comment.end).trim() : undefined;
+  }
+
+  // A string literal, or literals joined with +
+  private stringValue(expression: ts.Expression): string | undefined {
+    if (ts.isStringLiteralLike(expression)) return expression.text;
+    if (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.PlusToken
+    ) {
+      const left = this.stringValue(expression.left);
+      const right = this.stringValue(expression.right);
+      return left !== undefined && right !== undefined ? left + right : undefined;
+    }
+    return undefined;
+  }
+}
+
+// ==================== Client Types ====================
+
+/**
+ * The client package's protocol.ts, laid out the way Prettier would
+ */
+export function renderClientTypes(model: ProtocolModel): string {
+  const lines: string[] = [
+    '/**',
+    ' * Quiz Protocol - The Socket.IO events clients and server exchange',
+    ' *',
+    ` * Generated from ${relativeToRoot(PROTOCOL_FILE)} by \`npm run protocol:generate\`;`,
+    ' * do not edit. Dates are ISO 8601 strings.',
+    ' */',
+    '',
+  ];
+
+  for (const type of model.types) {
+    lines.push(...docComment(type.description));
+    lines.push(renderDeclaration(type), '');
+  }
+
+  const renderEvents = (name: string, events: ProtocolEvent[]) => {
+    lines.push(`export interface ${name} {`);
+    for (const event of events) {
+      lines.push(...docComment(event.description, '  '));
+      lines.push(`  ${event.name}: (payload: ${renderType(event.payload, '  ')}) => void;`);
+    }
+    lines.push('}', '');
+  };
+  renderEvents('ClientToServerEvents', model.clientEvents);
+  renderEvents('ServerToClientEvents', model.serverEvents);
+
+  const replies = Object.entries(model.replies);
+  const quoted = (names: string[], separator: string) =>
+    names.map((name) => `'${name}'`).join(separator);
+  lines.push(
+    '/**',
+    ' * The events the server answers each client event with, besides error',
+    ' */',
+    'export interface ClientEventReplies {',
+    ...replies.map(([event, names]) => `  ${event}: ${quoted(names, ' | ')};`),
+    '}',
+    '',
+    'export const CLIENT_EVENT_REPLIES: {',
+    '  [E in keyof ClientEventReplies]: ClientEventReplies[E][];',
+    '} = {',
+    ...replies.map(([event, names]) => `  ${event}: [${quoted(names, ', ')}],`),
+    '};',
+    '',
+    'export type ClientEventName = keyof ClientToServerEvents;',
+    'export type ServerEventName = keyof ServerToClientEvents;',
+    '',
+    'export type ClientEventPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];',
+    'export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];',
+    '',
+    '/**',
+    " * What a client event's acknowledgement callback is called with, when the",
+    ' * client sends one: the reply it would otherwise have been emitted, or the error',
+    ' */',
+    'export type ClientEventAck<E extends ClientEventName> =',
+    '  | {',
+    '      [R in ClientEventReplies[E]]: { ok: true; event: R; data: ServerEventPayload<R> };',
+    '    }[ClientEventReplies[E]]',
+    '  | { ok: false; error: ErrorPayload };',
+    '',
+  );
+
+  return lines.join('\n');
+}
+
+function renderDeclaration({ name, shape }: NamedType): string {
+  if (shape.kind === 'object' && !shape.additionalProperties) {
+    return `export interface ${name} ${renderType(shape)}`;
+  }
+
+  const declaration = `export type ${name} = ${renderType(shape)};`;
+  if (shape.kind !== 'union' || declaration.length <= PRINT_WIDTH) {
+    return declaration;
+  }
+  // One member per line once the union is too long for one
+  const members = shape.members.map((member) => `\n  | ${renderType(member, '  ')}`);
+  return `export type ${name} =${members.join('')};`;
+}
+
+function renderType(shape: Shape, indent = ''): string {
+  switch (shape.kind) {
+    case 'literal':
+      return typeof shape.value === 'string' ? `'${shape.value}'` : String(shape.value);
+    case 'ref':
+      return shape.name;
+    case 'array':
+      return shape.items.kind === 'union'
+        ? `(${renderType(shape.items, indent)})[]`
+        : `${renderType(shape.items, indent)}[]`;
+    case 'union':
+      return shape.members.map((member) => renderType(member, indent)).join(' | ');
+    case 'object': {
+      const inner = `${indent}  `;
+      const members = shape.properties.flatMap((property) => [
+        ...docComment(property.description, inner),
+        `${inner}${property.name}${property.optional ? '?' : ''}: ${renderType(property.shape, inner)};`,
+      ]);
+      if (shape.additionalProperties) {
+        members.push(`${inner}[key: string]: ${renderType(shape.additionalProperties, inner)};`);
+      }
+      return `{\n${members.join('\n')}\n${indent}}`;
+    }
+    default:
+      return shape.kind;
+  }
+}
+
+const PRINT_WIDTH = 100;
+const DOC_WIDTH = 80;
+
+function docComment(description: string | undefined, indent = ''): string[] {
+  if (!description) return [];
+
+  const text = description.replace(/\*\//g, '*\\/');
+  if (!text.includes('\n') && text.length <= DOC_WIDTH) return [`${indent}/** ${text} */`];
+
+  const lines = text.split('\n').flatMap((paragraph) => {
+    const wrapped: string[] = [];
+    for (const word of paragraph.split(' ')) {
+      const last = wrapped.length - 1;
+      if (last >= 0 && wrapped[last].length + word.length < DOC_WIDTH) {
+        wrapped[last] += ` ${word}`;
+      } else {
+        wrapped.push(word);
+      }
+    }
+    return wrapped;
+  });
+  return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`), `${indent} */`];
+}
+
+/**
+ * Joins a doc comment's lines into paragraphs, keeping list items on lines of their own
+ */
+function unwrap(documentation: string): string {
+  const paragraphs: string[] = [];
+  for (const line of documentation.split('\n').map((text) => text.trim())) {
+    if (!line) continue;
+    if (paragraphs.length === 0 || line.startsWith('- ')) {
+      paragraphs.push(line);
+    } else {
+      paragraphs[paragraphs.length - 1] += ` ${line}`;
+    }
+  }
+  return paragraphs.join('\n');
+}
+
+// ==================== AsyncAPI ====================
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * An AsyncAPI 3.0 document for the Socket.IO API, from the server's point of view:
+ * it receives the client events and sends the server events
+ */
+export function renderAsyncApi(model: ProtocolModel): string {
+  const { version } = JSON.parse(readFileSync(join(ROOT, 'package.json'), 'utf8'));
+
+  const messageId = (side: 'client' | 'server', event: string) => `${side}_${event}`;
+  const messageRef = (side: 'client' | 'server', event: string) => ({
+    $ref: `#/channels/quiz/messages/${messageId(side, event)}`,
+  });
+
+  const messages: Record<string, unknown> = {};
+  const addMessages = (side: 'client' | 'server', events: ProtocolEvent[]) => {
+    for (const event of events) {
+      messages[messageId(side, event.name)] = {
+        name: event.name,
+        ...(event.description && { summary: event.description }),
+        payload: toJsonSchema(event.payload),
+      };
+    }
+  };
+  addMessages('client', model.clientEvents);
+  addMessages('server', model.serverEvents);
+
+  const operations: Record<string, unknown> = {};
+  for (const event of model.clientEvents) {
+    operations[`receive_${event.name}`] = {
+      action: 'receive',
+      channel: { $ref: '#/channels/quiz' },
+      ...(event.description && { summary: event.description }),
+      messages: [messageRef('client', event.name)],
+      reply: {
+        channel: { $ref: '#/channels/quiz' },
+        messages: [...(model.replies[event.name] ?? []), 'error'].map((reply) =>
+          messageRef('server', reply),
+        ),
+      },
+    };
+  }
+  for (const event of model.serverEvents) {
+    operations[`send_${event.name}`] = {
+      action: 'send',
+      channel: { $ref: '#/channels/quiz' },
+      ...(event.description && { summary: event.description }),
+      messages: [messageRef('server', event.name)],
+    };
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const type of model.types) {
+    schemas[type.name] = {
+      ...(type.description && { description: type.description }),
+      ...toJsonSchema(type.shape),
+    };
+  }
+
+  const document = {
+    asyncapi: '3.0.0',
+    info: {
+      title: 'Vocab Quiz real-time API',
+      version,
+      description:
+        `Socket.IO events of the quiz server. Generated from ${relativeToRoot(PROTOCOL_FILE)} ` +
+        'by `npm run protocol:generate`; do not edit.',
+    },
+    servers: {
+      local: {
+        host: 'localhost:3000',
+        protocol: 'ws',
+        description: 'Socket.IO v4, default namespace',
+      },
+    },
+    defaultContentType: 'application/json',
+    channels: {
+      quiz: {
+        address: '/',
+        description:
+          'The Socket.IO connection; quiz broadcasts go to the rooms the socket joined. ' +
+          'A client event sent with an acknowledgement callback is answered through it ' +
+          'instead of with its reply: `{ ok: true, event, data }` with the reply event and ' +
+          'its payload, or `{ ok: false, error }` with an ErrorPayload.',
+        messages,
+      },
+    },
+    operations,
+    components: { schemas },
+  };
+
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function toJsonSchema(shape: Shape): JsonSchema {
+  switch (shape.kind) {
+    case 'string':
+      return shape.format ? { type: 'string', format: shape.format } : { type: 'string' };
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return { type: shape.kind };
+    case 'unknown':
+      return {};
+    case 'literal':
+      return { const: shape.value };
+    case 'ref':
+      return { $ref: `#/components/schemas/${shape.name}` };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(shape.items) };
+    case 'union': {
+      const literals = shape.members.filter((member) => member.kind === 'literal');
+      if (literals.length === shape.members.length) {
+        const values = literals.map((member) => member.value);
+        return values.every((value) => typeof value === 'string')
+          ? { type: 'string', enum: values }
+          : { enum: values };
+      }
+      return { oneOf: shape.members.map(toJsonSchema) };
+    }
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      for (const property of shape.properties) {
+        properties[property.name] = {
+          ...(property.description && { description: property.description }),
+          ...toJsonSchema(property.shape),
+        };
+      }
+      const required = shape.properties
+        .filter((property) => !property.optional)
+        .map((property) => property.name);
+
+      return {
+        type: 'object',
+        properties,
+        ...(required.length > 0 && { required }),
+        ...(shape.additionalProperties && {
+          additionalProperties: toJsonSchema(shape.additionalProperties),
+        }),
+      };
+    }
+  }
+}
+
+function relativeToRoot(file: string): string {
+  return relative(ROOT, file).split('\\').join('/');
+}
+
+// ==================== Entry Point ====================
+
+/**
+ * Everything the generator writes, by file
+ */
+export function generateProtocolFiles(): Record<string, string> {
+  const model = readProtocol();
+  return {
+    [CLIENT_TYPES_FILE]: renderClientTypes(model),
+    [ASYNCAPI_FILE]: renderAsyncApi(model),
+  };
+}
+
+if (require.main === module) {
+  for (const [file, content] of Object.entries(generateProtocolFiles())) {
+    writeFileSync(file, content);
+    console.log(`Wrote ${relativeToRoot(file)}`);
+  }
+}
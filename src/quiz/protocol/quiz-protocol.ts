@@ -0,0 +1,349 @@
+/**
+ * Quiz Protocol - The Socket.IO events clients and server exchange
+ *
+ * The one place event names and payloads are defined. QuizGateway's server is
+ * typed with these maps, so every emit is checked against them, and
+ * protocol-generator.ts turns them into the client package's types
+ * (clients/quiz-client) and the AsyncAPI document (docs/asyncapi.json).
+ * Run `npm run protocol:generate` after changing anything reachable from here.
+ *
+ * Payloads are typed as the server builds them; on the wire Dates arrive as
+ * ISO 8601 strings, which is how the generated types describe them.
+ *
+ * A client event sent with an acknowledgement callback is answered through it,
+ * as a ClientEventAck, instead of with its reply event or error.
+ */
+
+import { Server, Socket } from 'socket.io';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { CreateQuizDto } from '../dto/create-quiz.dto';
+import { JoinQuizDto } from '../dto/join-quiz.dto';
+import { RejoinQuizDto } from '../dto/rejoin-quiz.dto';
+import { SubmitAnswerDto } from '../dto/submit-answer.dto';
+import { HostControlDto, CoHostDto } from '../dto/host-control.dto';
+import { LeaderboardSyncDto } from '../dto/leaderboard-sync.dto';
+import { Question } from '../../questions/interfaces/question.interface';
+import {
+  AnswerReceipt,
+  LeaderboardDelta,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  QuestionReveal,
+  QuizStatus,
+  ScoringSummary,
+  SessionSnapshot,
+} from '../interfaces/quiz.interface';
+
+// ==================== Server → Client Payloads ====================
+
+export interface ConnectedPayload {
+  message: string;
+  socketId: string;
+  timestamp: string;
+}
+
+export interface QuizCreatedPayload {
+  quizId: string;
+  title: string;
+  questionCount: number;
+  status: QuizStatus;
+  timePerQuestion: number; // seconds
+  autoAdvance: boolean;
+  scoring: ScoringSummary;
+  hostToken: string; // secret that authorizes start_quiz, next_question and co-host changes
+}
+
+export interface ParticipantSummary {
+  userId: string;
+  username: string;
+  score: number;
+}
+
+export interface JoinedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    status: QuizStatus;
+    currentQuestion: number;
+    totalQuestions: number;
+    scoring: ScoringSummary;
+  };
+  userId: string;
+  resumeToken: string; // send with rejoin_quiz to continue as this participant
+  participants: ParticipantSummary[];
+  leaderboard: LeaderboardEntry[];
+  leaderboardSeq: number; // leaderboard_update sequence the leaderboard is current as of
+}
+
+export interface RejoinedPayload extends SessionSnapshot {
+  userId: string;
+  username: string;
+  leaderboardSeq: number;
+}
+
+export interface UserJoinedPayload {
+  userId: string;
+  username: string;
+  participantCount: number;
+  timestamp: string;
+}
+
+export interface UserReconnectedPayload {
+  userId: string;
+  username: string;
+  timestamp: string;
+}
+
+export interface UserDisconnectedPayload {
+  userId: string;
+  timestamp: string;
+}
+
+export interface QuizStartSuccessPayload {
+  quizId: string;
+  status: 'started';
+}
+
+export interface QuizStartedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    totalQuestions: number;
+    startTime?: Date;
+  };
+  question: Question; // without its answer
+  questionNumber: number;
+  timeLimit: number; // seconds
+  deadline?: number; // epoch ms after which answers are rejected
+  timestamp: string;
+}
+
+export interface QuestionNextPayload {
+  question: Question; // without its answer
+  questionNumber: number;
+  totalQuestions: number;
+  timeLimit: number; // seconds
+  deadline?: number; // epoch ms after which answers are rejected
+  timestamp: string;
+}
+
+export interface NextQuestionSuccessPayload {
+  question: Question;
+  questionNumber: number;
+}
+
+export interface QuestionTickPayload {
+  questionId: string;
+  remainingSeconds: number;
+  timestamp: string;
+}
+
+export interface QuestionClosedPayload {
+  questionId: string;
+  questionNumber: number;
+  autoAdvance: boolean;
+  timestamp: string;
+}
+
+export interface QuestionRevealedPayload extends QuestionReveal {
+  timestamp: string;
+}
+
+export interface AnswerResultPayload extends AnswerReceipt {
+  timestamp: string;
+}
+
+export interface ScoreUpdatePayload {
+  userId: string;
+  username: string;
+  score: number;
+  rank: number;
+  timestamp: string;
+}
+
+export interface LeaderboardUpdatePayload extends LeaderboardDelta {
+  timestamp: string;
+}
+
+export interface LeaderboardSyncPayload extends LeaderboardSnapshot {
+  quizId: string;
+  timestamp: string;
+}
+
+export interface QuizCompletedPayload {
+  quiz: {
+    quizId: string;
+    title: string;
+    endTime?: Date;
+  };
+  leaderboard: LeaderboardEntry[]; // the full final leaderboard
+  timestamp: string;
+}
+
+export interface HostClaimedPayload {
+  quizId: string;
+}
+
+export interface CoHostUpdatedPayload {
+  quizId: string;
+  coHostIds: string[];
+}
+
+export interface CoHostChangedPayload {
+  userId: string;
+  coHostIds: string[];
+  timestamp: string;
+}
+
+export interface HostAssignedPayload {
+  quizId: string;
+  hostToken: string;
+  timestamp: string;
+}
+
+export interface HostChangedPayload {
+  userId: string;
+  username: string;
+  timestamp: string;
+}
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  statusCode: number; // the HTTP status the same failure gets from the REST API
+  event?: string; // the client event that failed
+  timestamp: string;
+}
+
+// ==================== Event Maps ====================
+
+export interface ClientToServerEvents {
+  /** Create a quiz; the sender becomes its host */
+  create_quiz: (payload: CreateQuizDto) => void;
+  /** Join a quiz as a new participant */
+  join_quiz: (payload: JoinQuizDto) => void;
+  /** Continue as the same participant after a reconnect */
+  rejoin_quiz: (payload: RejoinQuizDto) => void;
+  /** Start the quiz (host or co-host) */
+  start_quiz: (payload: HostControlDto) => void;
+  /** Answer the current question */
+  submit_answer: (payload: SubmitAnswerDto) => void;
+  /** Ask for the full leaderboard after missing a leaderboard_update */
+  leaderboard_sync: (payload: LeaderboardSyncDto) => void;
+  /** Reveal the current question and move on, or complete the quiz after the last one (host or co-host) */
+  next_question: (payload: HostControlDto) => void;
+  /** Re-attach the host role to a new socket */
+  claim_host: (payload: HostControlDto) => void;
+  /** Delegate quiz control to a participant (host) */
+  add_cohost: (payload: CoHostDto) => void;
+  /** Revoke a co-host (host) */
+  remove_cohost: (payload: CoHostDto) => void;
+}
+
+export interface ServerToClientEvents {
+  /** Welcome message on connection */
+  connected: (payload: ConnectedPayload) => void;
+  /** The quiz was created (reply to create_quiz) */
+  quiz_created: (payload: QuizCreatedPayload) => void;
+  /** Joined the quiz, with its current state (reply to join_quiz) */
+  joined_successfully: (payload: JoinedPayload) => void;
+  /** Resumed, with a snapshot of the quiz (reply to rejoin_quiz) */
+  rejoined_successfully: (payload: RejoinedPayload) => void;
+  /** Another participant joined (room) */
+  user_joined: (payload: UserJoinedPayload) => void;
+  /** A participant resumed on a new connection (room) */
+  user_reconnected: (payload: UserReconnectedPayload) => void;
+  /** A participant's connection dropped; they stay in the quiz (room) */
+  user_disconnected: (payload: UserDisconnectedPayload) => void;
+  /** The quiz was started (reply to start_quiz) */
+  quiz_start_success: (payload: QuizStartSuccessPayload) => void;
+  /** The quiz started, with its first question (room) */
+  quiz_started: (payload: QuizStartedPayload) => void;
+  /** The next question (room) */
+  question_next: (payload: QuestionNextPayload) => void;
+  /** Moved to the next question (reply to next_question) */
+  next_question_success: (payload: NextQuestionSuccessPayload) => void;
+  /** Seconds left on the current question, every second (room) */
+  question_tick: (payload: QuestionTickPayload) => void;
+  /** The question stopped accepting answers (room) */
+  question_closed: (payload: QuestionClosedPayload) => void;
+  /** Correct answer, answer distribution and everyone's points (room) */
+  question_revealed: (payload: QuestionRevealedPayload) => void;
+  /** Your answer was received; its outcome comes with the reveal (personal) */
+  answer_result: (payload: AnswerResultPayload) => void;
+  /** Your answer was received (reply to submit_answer) */
+  answer_submitted: (payload: AnswerReceipt) => void;
+  /** Your score and rank after a reveal (personal) */
+  score_update: (payload: ScoreUpdatePayload) => void;
+  /** Leaderboard changes since the previous update (room) */
+  leaderboard_update: (payload: LeaderboardUpdatePayload) => void;
+  /** Full leaderboard and its sequence (reply to leaderboard_sync) */
+  leaderboard_sync: (payload: LeaderboardSyncPayload) => void;
+  /** The quiz is over, with the final leaderboard (room, and reply to the last next_question) */
+  quiz_completed: (payload: QuizCompletedPayload) => void;
+  /** The host role is attached to this socket (reply to claim_host) */
+  host_claimed: (payload: HostClaimedPayload) => void;
+  /** The quiz's co-hosts after a change (reply to add_cohost and remove_cohost) */
+  cohost_updated: (payload: CoHostUpdatedPayload) => void;
+  /** A participant became co-host (room) */
+  cohost_added: (payload: CoHostChangedPayload) => void;
+  /** A participant is no longer co-host (room) */
+  cohost_removed: (payload: CoHostChangedPayload) => void;
+  /** You were made host after the host left, with a fresh host token (personal) */
+  host_assigned: (payload: HostAssignedPayload) => void;
+  /** Someone else became host (room) */
+  host_changed: (payload: HostChangedPayload) => void;
+  /** A request failed (reply to any client event sent without an acknowledgement) */
+  error: (payload: ErrorPayload) => void;
+}
+
+/**
+ * The events the server answers each client event with, besides error
+ */
+export interface ClientEventReplies {
+  create_quiz: 'quiz_created';
+  join_quiz: 'joined_successfully';
+  rejoin_quiz: 'rejoined_successfully';
+  start_quiz: 'quiz_start_success';
+  submit_answer: 'answer_submitted';
+  leaderboard_sync: 'leaderboard_sync';
+  next_question: 'next_question_success' | 'quiz_completed';
+  claim_host: 'host_claimed';
+  add_cohost: 'cohost_updated';
+  remove_cohost: 'cohost_updated';
+}
+
+// ==================== Helpers ====================
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ClientEventPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+/**
+ * What a gateway handler returns to have Nest emit it back to the sender
+ */
+export type ServerReply<E extends ServerEventName = ServerEventName> = {
+  [K in E]: { event: K; data: ServerEventPayload<K> };
+}[E];
+
+/**
+ * What the handler of a client event returns: its reply, or an error
+ */
+export type ClientEventResponse<E extends ClientEventName> = ServerReply<
+  ClientEventReplies[E] | 'error'
+>;
+
+/**
+ * What a client event's acknowledgement callback is called with, when the
+ * client sends one: the reply it would otherwise have been emitted, or the error
+ */
+export type ClientEventAck<E extends ClientEventName> =
+  | {
+      [R in ClientEventReplies[E]]: { ok: true; event: R; data: ServerEventPayload<R> };
+    }[ClientEventReplies[E]]
+  | { ok: false; error: ErrorPayload };
+
+export type QuizServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type QuizSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
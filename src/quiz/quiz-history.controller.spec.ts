@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuizHistoryController } from './quiz-history.controller';
+import { QuizHistoryService } from './services/quiz-history.service';
+import { QuizStatus } from './interfaces/quiz.interface';
+
+describe('QuizHistoryController', () => {
+  let controller: QuizHistoryController;
+  let quizHistoryService: jest.Mocked<QuizHistoryService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [QuizHistoryController],
+      providers: [
+        {
+          provide: QuizHistoryService,
+          useValue: {
+            listQuizzes: jest.fn(),
+            getPlayerResults: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<QuizHistoryController>(QuizHistoryController);
+    quizHistoryService = module.get(QuizHistoryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listQuizzes', () => {
+    it('should pass the filter and pagination on', async () => {
+      const page = { items: [], total: 0, page: 2, limit: 5 };
+      quizHistoryService.listQuizzes.mockResolvedValue(page);
+      const from = new Date('2025-11-01T00:00:00.000Z');
+
+      const result = await controller.listQuizzes({
+        status: QuizStatus.COMPLETED,
+        createdBy: 'anna',
+        from,
+        page: 2,
+        limit: 5,
+      });
+
+      expect(quizHistoryService.listQuizzes).toHaveBeenCalledWith(
+        { status: QuizStatus.COMPLETED, createdBy: 'anna', from, to: undefined },
+        2,
+        5,
+      );
+      expect(result).toEqual({ success: true, data: page });
+    });
+
+    it('should default to the first page of 20', async () => {
+      quizHistoryService.listQuizzes.mockResolvedValue({ items: [], total: 0, page: 1, limit: 20 });
+
+      await controller.listQuizzes({});
+
+      expect(quizHistoryService.listQuizzes).toHaveBeenCalledWith(expect.any(Object), 1, 20);
+    });
+  });
+
+  describe('getUserResults', () => {
+    it("should return a page of the player's results", async () => {
+      const page = { items: [], total: 0, page: 1, limit: 20 };
+      quizHistoryService.getPlayerResults.mockResolvedValue(page);
+
+      const result = await controller.getUserResults('player-alice', {});
+
+      expect(quizHistoryService.getPlayerResults).toHaveBeenCalledWith('player-alice', 1, 20);
+      expect(result).toEqual({ success: true, data: page });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Quiz History Controller - HTTP endpoints for past and running quizzes
+ * and for players' results across quizzes
+ */
+
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { QuizHistoryService } from './services/quiz-history.service';
+import { ListQuizzesDto } from './dto/list-quizzes.dto';
+import { ListResultsDto } from './dto/list-results.dto';
+
+@ApiTags('history')
+@Controller()
+export class QuizHistoryController {
+  constructor(private readonly quizHistoryService: QuizHistoryService) {}
+
+  /**
+   * List quizzes
+   */
+  @Get('quizzes')
+  @ApiOperation({
+    summary: 'List quizzes',
+    description:
+      'Returns a page of quizzes, newest first, optionally filtered by status, creator and creation ' +
+      'date. Waiting and running quizzes come from the live store, completed ones from the archive.',
+  })
+  @ApiQuery({ type: ListQuizzesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Quizzes retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  quizId: { type: 'string', example: 'ABC123' },
+                  title: { type: 'string', example: 'English Vocabulary Challenge' },
+                  status: { type: 'string', example: 'completed' },
+                  createdBy: { type: 'string', nullable: true, example: 'teacher_anna' },
+                  createdAt: { type: 'string', example: '2025-11-10T09:55:00.000Z' },
+                  startTime: { type: 'string', nullable: true },
+                  endTime: { type: 'string', nullable: true },
+                  questionCount: { type: 'number', example: 10 },
+                  participantCount: { type: 'number', example: 15 },
+                  archived: { type: 'boolean', example: true },
+                },
+              },
+            },
+            total: { type: 'number', example: 42 },
+            page: { type: 'number', example: 1 },
+            limit: { type: 'number', example: 20 },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or pagination' })
+  async listQuizzes(@Query() query: ListQuizzesDto) {
+    const page = await this.quizHistoryService.listQuizzes(
+      { status: query.status, createdBy: query.createdBy, from: query.from, to: query.to },
+      query.page ?? 1,
+      query.limit ?? 20,
+    );
+
+    return {
+      success: true,
+      data: page,
+    };
+  }
+
+  /**
+   * A player's results in completed quizzes
+   */
+  @Get('users/:userId/results')
+  @ApiOperation({
+    summary: "Get a player's results",
+    description:
+      'Returns a page of the completed quizzes a player took part in, newest first, with their ' +
+      'score, rank and accuracy (percentage of the questions answered correctly). Players are ' +
+      'found by the playerId they joined with, which is not verified; one who gave none is not listed.',
+  })
+  @ApiParam({ name: 'userId', description: 'Player ID given on join', example: 'player-alice' })
+  @ApiQuery({ type: ListResultsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Results retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  quizId: { type: 'string', example: 'ABC123' },
+                  userId: { type: 'string', example: 'c56a4180-65aa-42ec-a945-5fd21dec0538' },
+                  title: { type: 'string', example: 'English Vocabulary Challenge' },
+                  createdAt: { type: 'string', example: '2025-11-10T09:55:00.000Z' },
+                  endTime: { type: 'string', example: '2025-11-10T10:05:00.000Z' },
+                  score: { type: 'number', example: 85 },
+                  rank: { type: 'number', example: 2 },
+                  participantCount: { type: 'number', example: 15 },
+                  questionCount: { type: 'number', example: 10 },
+                  correctAnswers: { type: 'number', example: 8 },
+                  totalAnswers: { type: 'number', example: 9 },
+                  accuracy: { type: 'number', example: 80 },
+                },
+              },
+            },
+            total: { type: 'number', example: 3 },
+            page: { type: 'number', example: 1 },
+            limit: { type: 'number', example: 20 },
+          },
+        },
+      },
+    },
+  })
+  async getUserResults(@Param('userId') userId: string, @Query() query: ListResultsDto) {
+    const page = await this.quizHistoryService.getPlayerResults(
+      userId,
+      query.page ?? 1,
+      query.limit ?? 20,
+    );
+
+    return {
+      success: true,
+      data: page,
+    };
+  }
+}
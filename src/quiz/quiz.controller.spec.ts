@@ -1,12 +1,33 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ErrorCode } from '../common/errors/error-codes';
 import { QuizController } from './quiz.controller';
 import { QuizService } from './services/quiz.service';
-import { QuestionService } from './services/question.service';
+import { QuizHistoryService } from './services/quiz-history.service';
+import { QuizGateway } from './quiz.gateway';
+import { QuizEventsService } from './services/quiz-events.service';
+import { firstValueFrom, of, toArray } from 'rxjs';
+import { QuestionService } from '../questions/question.service';
 import { QuizStatus } from './interfaces/quiz.interface';
 
 describe('QuizController', () => {
   let controller: QuizController;
   let quizService: jest.Mocked<QuizService>;
+  let quizHistoryService: jest.Mocked<QuizHistoryService>;
+  let quizGateway: jest.Mocked<QuizGateway>;
+  let quizEvents: jest.Mocked<QuizEventsService>;
+
+  const mockScoring = {
+    strategy: 'time_bonus' as const,
+    maxTimeBonus: 0.5,
+    description:
+      "Correct answers earn the question's points plus up to 50% extra for answering quickly.",
+  };
 
   const mockQuizSession = {
     quizId: 'ABC123',
@@ -26,6 +47,10 @@ describe('QuizController', () => {
     currentQuestionIndex: 0,
     createdAt: new Date(),
     maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: false,
+    hostToken: 'host-token',
+    coHostIds: [],
   };
 
   beforeEach(async () => {
@@ -37,8 +62,34 @@ describe('QuizController', () => {
           useValue: {
             createQuiz: jest.fn(),
             getQuizSession: jest.fn(),
+            getArchivedQuiz: jest.fn(),
             getParticipants: jest.fn(),
             getLeaderboard: jest.fn(),
+            getScoring: jest.fn().mockReturnValue(mockScoring),
+            authenticateParticipant: jest.fn(),
+            getSessionSnapshot: jest.fn(),
+            authorizeHost: jest.fn().mockResolvedValue('host'),
+            submitAnswer: jest.fn(),
+          },
+        },
+        {
+          provide: QuizGateway,
+          useValue: {
+            joinParticipant: jest.fn(),
+            startQuiz: jest.fn(),
+            advanceQuiz: jest.fn(),
+          },
+        },
+        {
+          provide: QuizEventsService,
+          useValue: {
+            stream: jest.fn(),
+          },
+        },
+        {
+          provide: QuizHistoryService,
+          useValue: {
+            getParticipantAnswers: jest.fn(),
           },
         },
         {
@@ -50,6 +101,9 @@ describe('QuizController', () => {
 
     controller = module.get<QuizController>(QuizController);
     quizService = module.get(QuizService);
+    quizHistoryService = module.get(QuizHistoryService);
+    quizGateway = module.get(QuizGateway);
+    quizEvents = module.get(QuizEventsService);
   });
 
   afterEach(() => {
@@ -67,11 +121,16 @@ describe('QuizController', () => {
       const createQuizDto = {
         title: 'Test Quiz',
         questionCount: 10,
+        timePerQuestion: 30,
+        autoAdvance: false,
       };
 
       const result = await controller.createQuiz(createQuizDto);
 
-      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10);
+      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10, {
+        timePerQuestion: 30,
+        autoAdvance: false,
+      });
       expect(result).toEqual({
         success: true,
         data: {
@@ -79,6 +138,10 @@ describe('QuizController', () => {
           title: 'Test Quiz',
           status: QuizStatus.WAITING,
           questionCount: 1,
+          timePerQuestion: 30,
+          autoAdvance: false,
+          hostToken: 'host-token',
+          scoring: mockScoring,
         },
       });
     });
@@ -92,9 +155,54 @@ describe('QuizController', () => {
 
       const result = await controller.createQuiz(createQuizDto);
 
-      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10);
+      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10, {
+        timePerQuestion: undefined,
+        autoAdvance: undefined,
+      });
       expect(result.success).toBe(true);
     });
+
+    it('should pass explicit question IDs and custom questions through', async () => {
+      quizService.createQuiz.mockResolvedValue(mockQuizSession);
+
+      const customQuestion = {
+        text: 'What does "brave" mean?',
+        options: ['Scared', 'Courageous'],
+        correctAnswer: 'Courageous',
+      };
+
+      await controller.createQuiz({
+        title: 'Test Quiz',
+        questionIds: ['q1', 'q2'],
+        questions: [customQuestion],
+      });
+
+      expect(quizService.createQuiz).toHaveBeenCalledWith(
+        'Test Quiz',
+        10,
+        expect.objectContaining({
+          questionIds: ['q1', 'q2'],
+          questions: [customQuestion],
+        }),
+      );
+    });
+    it('should pass the scoring rules through', async () => {
+      quizService.createQuiz.mockResolvedValue(mockQuizSession);
+
+      await controller.createQuiz({
+        title: 'Test Quiz',
+        scoring: { strategy: 'streak', maxMultiplier: 3 },
+      });
+
+      expect(quizService.createQuiz).toHaveBeenCalledWith(
+        'Test Quiz',
+        10,
+        expect.objectContaining({
+          scoring: { strategy: 'streak', maxMultiplier: 3 },
+        }),
+      );
+      expect(quizService.getScoring).toHaveBeenCalledWith(mockQuizSession);
+    });
   });
 
   describe('getQuiz', () => {
@@ -156,13 +264,335 @@ describe('QuizController', () => {
             status: QuizStatus.WAITING,
             currentQuestion: 1,
             totalQuestions: 1,
+            timePerQuestion: 30,
+            questionDeadline: undefined,
             startTime: undefined,
             endTime: undefined,
+            scoring: mockScoring,
           },
           participantCount: 2,
+          archived: false,
           leaderboard: mockLeaderboard,
         },
       });
     });
+
+    it('should fall back to the archive once the live session is gone', async () => {
+      const startTime = new Date('2025-11-10T10:00:00.000Z');
+      const endTime = new Date('2025-11-10T10:05:00.000Z');
+      quizService.getQuizSession.mockRejectedValue(
+        new NotFoundException('Quiz session ABC123 not found'),
+      );
+      quizService.getArchivedQuiz.mockResolvedValue({
+        quizId: 'ABC123',
+        title: 'Test Quiz',
+        createdAt: new Date('2025-11-10T09:55:00.000Z'),
+        startTime,
+        endTime,
+        archivedAt: endTime,
+        timePerQuestion: 30,
+        scoring: mockScoring,
+        questions: mockQuizSession.questions,
+        participants: [
+          {
+            userId: 'user1',
+            playerId: 'user1',
+            username: 'Alice',
+            score: 10,
+            rank: 1,
+            correctAnswers: 1,
+            totalAnswers: 1,
+            answers: {
+              q1: {
+                answer: 'A',
+                correct: true,
+                correctAnswer: 'A',
+                earnedPoints: 10,
+                timeTaken: 1.2,
+                submittedAt: endTime,
+              },
+            },
+          },
+        ],
+      });
+
+      const result = await controller.getQuiz('ABC123');
+
+      expect(quizService.getArchivedQuiz).toHaveBeenCalledWith('ABC123');
+      expect(quizService.getParticipants).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        data: {
+          quiz: {
+            quizId: 'ABC123',
+            title: 'Test Quiz',
+            status: QuizStatus.COMPLETED,
+            currentQuestion: 1,
+            totalQuestions: 1,
+            timePerQuestion: 30,
+            questionDeadline: null,
+            startTime,
+            endTime,
+            scoring: mockScoring,
+          },
+          participantCount: 1,
+          archived: true,
+          leaderboard: [
+            {
+              userId: 'user1',
+              username: 'Alice',
+              score: 10,
+              rank: 1,
+              correctAnswers: 1,
+              totalAnswers: 1,
+            },
+          ],
+        },
+      });
+    });
+
+    it('should not hide errors other than a missing session', async () => {
+      quizService.getQuizSession.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(controller.getQuiz('ABC123')).rejects.toThrow('Redis unavailable');
+      expect(quizService.getArchivedQuiz).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getParticipantAnswers', () => {
+    it("should return the participant's answer review", async () => {
+      const review = {
+        quizId: 'ABC123',
+        userId: 'user1',
+        username: 'Alice',
+        score: 0,
+        rank: 1,
+        correctAnswers: 0,
+        totalAnswers: 0,
+        answers: [{ question: mockQuizSession.questions[0], answer: null }],
+      };
+      quizHistoryService.getParticipantAnswers.mockResolvedValue(review);
+
+      const result = await controller.getParticipantAnswers('ABC123', 'user1');
+
+      expect(quizHistoryService.getParticipantAnswers).toHaveBeenCalledWith('ABC123', 'user1');
+      expect(result).toEqual({ success: true, data: review });
+    });
+  });
+
+  describe('playing over HTTP', () => {
+    const participant = {
+      userId: 'user1',
+      username: 'Alice',
+      score: 0,
+      answersSubmitted: 0,
+      joinedAt: new Date(),
+    };
+
+    it('should join through the gateway so the room hears about it', async () => {
+      const joined = {
+        quiz: {
+          quizId: 'ABC123',
+          title: 'Test Quiz',
+          status: QuizStatus.WAITING,
+          currentQuestion: 0,
+          totalQuestions: 1,
+          scoring: mockScoring,
+        },
+        userId: 'user1',
+        resumeToken: 'resume-token',
+        participants: [],
+        leaderboard: [],
+        leaderboardSeq: 0,
+      };
+      quizGateway.joinParticipant.mockResolvedValue(joined);
+
+      const result = await controller.joinQuiz('ABC123', {
+        username: 'Alice',
+        playerId: 'player-alice',
+      });
+
+      expect(quizGateway.joinParticipant).toHaveBeenCalledWith('ABC123', 'Alice', 'player-alice');
+      expect(result).toEqual({ success: true, data: joined });
+    });
+
+    it('should start the quiz for the host', async () => {
+      quizGateway.startQuiz.mockResolvedValue({ quizId: 'ABC123', status: 'started' });
+
+      const result = await controller.startQuiz('ABC123', { hostToken: 'host-token' });
+
+      expect(quizService.authorizeHost).toHaveBeenCalledWith('ABC123', {
+        hostToken: 'host-token',
+        userId: undefined,
+      });
+      expect(quizGateway.startQuiz).toHaveBeenCalledWith('ABC123');
+      expect(result).toEqual({ success: true, data: { quizId: 'ABC123', status: 'started' } });
+    });
+
+    it('should authorize a co-host by their resume token', async () => {
+      quizService.authenticateParticipant.mockResolvedValue(participant);
+      quizService.authorizeHost.mockResolvedValue('co_host');
+      quizGateway.advanceQuiz.mockResolvedValue({
+        event: 'next_question_success',
+        data: { question: mockQuizSession.questions[0], questionNumber: 2 },
+      });
+
+      const result = await controller.nextQuestion('ABC123', { resumeToken: 'resume-token' });
+
+      expect(quizService.authenticateParticipant).toHaveBeenCalledWith('ABC123', 'resume-token');
+      expect(quizService.authorizeHost).toHaveBeenCalledWith('ABC123', {
+        hostToken: undefined,
+        userId: 'user1',
+      });
+      expect(result).toEqual({
+        success: true,
+        data: { completed: false, question: mockQuizSession.questions[0], questionNumber: 2 },
+      });
+    });
+
+    it('should report the completion after the last question', async () => {
+      quizGateway.advanceQuiz.mockResolvedValue({
+        event: 'quiz_completed',
+        data: {
+          quiz: { quizId: 'ABC123', title: 'Test Quiz' },
+          leaderboard: [],
+          timestamp: '2024-01-01T00:10:00.000Z',
+        },
+      });
+
+      const result = await controller.nextQuestion('ABC123', { hostToken: 'host-token' });
+
+      expect(result.data).toEqual({
+        completed: true,
+        quiz: { quizId: 'ABC123', title: 'Test Quiz' },
+        leaderboard: [],
+        timestamp: '2024-01-01T00:10:00.000Z',
+      });
+    });
+
+    it('should not control the quiz for anyone else', async () => {
+      quizService.authorizeHost.mockRejectedValue(new ForbiddenException());
+
+      await expect(controller.startQuiz('ABC123', { hostToken: 'wrong' })).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(controller.nextQuestion('ABC123', {})).rejects.toThrow(ForbiddenException);
+      expect(quizGateway.startQuiz).not.toHaveBeenCalled();
+      expect(quizGateway.advanceQuiz).not.toHaveBeenCalled();
+    });
+
+    it('should submit an answer as the participant the resume token belongs to', async () => {
+      const receipt = { questionId: 'q1', answer: 'A', submittedAt: new Date() };
+      quizService.authenticateParticipant.mockResolvedValue(participant);
+      quizService.submitAnswer.mockResolvedValue(receipt);
+
+      const result = await controller.submitAnswer('ABC123', {
+        resumeToken: 'resume-token',
+        questionId: 'q1',
+        answer: 'A',
+        timeTaken: 3,
+      });
+
+      expect(quizService.submitAnswer).toHaveBeenCalledWith('ABC123', 'user1', 'q1', 'A', 3);
+      expect(result).toEqual({ success: true, data: receipt });
+    });
+
+    it("should return the participant's view of the quiz for polling", async () => {
+      const snapshot = {
+        quiz: {
+          quizId: 'ABC123',
+          title: 'Test Quiz',
+          status: QuizStatus.WAITING,
+          currentQuestion: 0,
+          totalQuestions: 1,
+          timePerQuestion: 30,
+          scoring: mockScoring,
+        },
+        question: null,
+        questionNumber: null,
+        remainingSeconds: null,
+        score: 0,
+        rank: null,
+        questionPhase: null,
+        answers: {},
+        leaderboard: [],
+      };
+      quizService.authenticateParticipant.mockResolvedValue(participant);
+      quizService.getSessionSnapshot.mockResolvedValue(snapshot);
+
+      const result = await controller.getSession('ABC123', { resumeToken: 'resume-token' });
+
+      expect(quizService.getSessionSnapshot).toHaveBeenCalledWith('ABC123', 'user1');
+      expect(result).toEqual({ success: true, data: snapshot });
+    });
+
+    it('should reject an answer with an unknown resume token', async () => {
+      quizService.authenticateParticipant.mockRejectedValue(new UnauthorizedException());
+
+      await expect(
+        controller.submitAnswer('ABC123', { resumeToken: 'nope', questionId: 'q1', answer: 'A' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(quizService.submitAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second answer with ALREADY_ANSWERED', async () => {
+      quizService.authenticateParticipant.mockResolvedValue(participant);
+      quizService.submitAnswer.mockRejectedValue(
+        new ConflictException({
+          code: ErrorCode.ALREADY_ANSWERED,
+          message: 'Question q1 has already been answered',
+        }),
+      );
+
+      await expect(
+        controller.submitAnswer('ABC123', {
+          resumeToken: 'resume-token',
+          questionId: 'q1',
+          answer: 'B',
+        }),
+      ).rejects.toMatchObject({ response: { code: ErrorCode.ALREADY_ANSWERED } });
+    });
+  });
+
+  describe('streamEvents', () => {
+    const events = [
+      { id: 7, event: 'question_next' as const, data: { questionNumber: 2 } },
+      { id: 8, event: 'leaderboard_update' as const, data: { seq: 4 } },
+    ];
+
+    it('should stream the quiz events as SSE messages', async () => {
+      quizService.getQuizSession.mockResolvedValue(mockQuizSession);
+      quizEvents.stream.mockReturnValue(of(...events));
+
+      const stream = await controller.streamEvents('ABC123');
+
+      expect(quizEvents.stream).toHaveBeenCalledWith('ABC123', undefined);
+      expect(await firstValueFrom(stream.pipe(toArray()))).toEqual([
+        { id: '7', type: 'question_next', data: { questionNumber: 2 } },
+        { id: '8', type: 'leaderboard_update', data: { seq: 4 } },
+      ]);
+    });
+
+    it('should resume after Last-Event-ID, or the lastEventId query parameter', async () => {
+      quizService.getQuizSession.mockResolvedValue(mockQuizSession);
+      quizEvents.stream.mockReturnValue(of());
+
+      await controller.streamEvents('ABC123', '6');
+      await controller.streamEvents('ABC123', undefined, '3');
+      await controller.streamEvents('ABC123', 'not-an-id');
+
+      expect(quizEvents.stream.mock.calls).toEqual([
+        ['ABC123', 6],
+        ['ABC123', 3],
+        ['ABC123', undefined],
+      ]);
+    });
+
+    it('should throw NotFoundException for an unknown quiz', async () => {
+      quizService.getQuizSession.mockRejectedValue(new NotFoundException('Quiz NOPE12 not found'));
+
+      await expect(controller.streamEvents('NOPE12')).rejects.toThrow(NotFoundException);
+      expect(quizEvents.stream).not.toHaveBeenCalled();
+    });
   });
 });
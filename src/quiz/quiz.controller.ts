@@ -8,11 +8,56 @@
  * - Standard CRUD patterns for quiz management
  */
 
-import { Controller, Get, Post, Body, Param, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Logger,
+  NotFoundException,
+  HttpCode,
+  Sse,
+  Headers,
+  Query,
+  MessageEvent,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiHeader,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { Observable, map } from 'rxjs';
 import { QuizService } from './services/quiz.service';
-import { QuestionService } from './services/question.service';
+import { QuizHistoryService } from './services/quiz-history.service';
+import { QuizEventsService } from './services/quiz-events.service';
+import { QuizGateway } from './quiz.gateway';
+import { QuestionService } from '../questions/question.service';
 import { CreateQuizDto } from './dto/create-quiz.dto';
+import {
+  JoinQuizBodyDto,
+  HostCredentialsDto,
+  ParticipantCredentialsDto,
+  SubmitAnswerBodyDto,
+} from './dto/quiz-actions.dto';
+import { QuizStatus } from './interfaces/quiz.interface';
+
+const SCORING_SCHEMA = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', example: 'time_bonus' },
+    maxTimeBonus: { type: 'number', example: 0.5 },
+    description: {
+      type: 'string',
+      example:
+        "Correct answers earn the question's points plus up to 50% extra for answering quickly.",
+    },
+  },
+};
 
 @ApiTags('quiz')
 @Controller('quiz')
@@ -21,6 +66,9 @@ export class QuizController {
 
   constructor(
     private readonly quizService: QuizService,
+    private readonly quizHistoryService: QuizHistoryService,
+    private readonly quizGateway: QuizGateway,
+    private readonly quizEvents: QuizEventsService,
     private readonly questionService: QuestionService,
   ) {}
 
@@ -31,7 +79,7 @@ export class QuizController {
   @ApiOperation({
     summary: 'Create a new quiz session',
     description:
-      'Creates a new quiz with specified title and number of questions. Returns a unique quiz ID that participants can use to join.',
+      'Creates a new quiz with specified title and number of questions, or from explicit question bank IDs and/or custom inline questions. Returns a unique quiz ID that participants can use to join, and a host token that authorizes the creator to start and advance the quiz.',
   })
   @ApiBody({ type: CreateQuizDto })
   @ApiResponse({
@@ -48,17 +96,41 @@ export class QuizController {
             title: { type: 'string', example: 'English Vocabulary Challenge' },
             status: { type: 'string', example: 'waiting' },
             questionCount: { type: 'number', example: 10 },
+            timePerQuestion: { type: 'number', example: 30 },
+            autoAdvance: { type: 'boolean', example: false },
+            scoring: SCORING_SCHEMA,
+            hostToken: {
+              type: 'string',
+              description: 'Secret required for host-only WebSocket events',
+              example: '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d',
+            },
           },
         },
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input data, unknown question IDs or categories, a correctAnswer not among its options, ' +
+      'or not enough bank questions for the requested categories and difficulty distribution',
+  })
   async createQuiz(@Body() createQuizDto: CreateQuizDto) {
     this.logger.log('Creating new quiz via HTTP');
     const quiz = await this.quizService.createQuiz(
       createQuizDto.title,
       createQuizDto.questionCount || 10,
+      {
+        createdBy: createQuizDto.createdBy,
+        timePerQuestion: createQuizDto.timePerQuestion,
+        autoAdvance: createQuizDto.autoAdvance,
+        questionIds: createQuizDto.questionIds,
+        questions: createQuizDto.questions,
+        categories: createQuizDto.categories,
+        difficultyDistribution: createQuizDto.difficultyDistribution,
+        scoring: createQuizDto.scoring,
+        tieBreakers: createQuizDto.tieBreakers,
+      },
     );
 
     return {
@@ -68,6 +140,10 @@ export class QuizController {
         title: quiz.title,
         status: quiz.status,
         questionCount: quiz.questions.length,
+        timePerQuestion: quiz.timePerQuestion,
+        autoAdvance: quiz.autoAdvance,
+        scoring: this.quizService.getScoring(quiz),
+        hostToken: quiz.hostToken,
       },
     };
   }
@@ -79,7 +155,8 @@ export class QuizController {
   @ApiOperation({
     summary: 'Get quiz session details',
     description:
-      'Retrieves complete information about a quiz session including status, participants, and leaderboard.',
+      'Retrieves complete information about a quiz session including status, participants, and leaderboard. ' +
+      'Once a completed quiz has been purged from the live store it is served from the archive, flagged with archived: true.',
   })
   @ApiParam({
     name: 'quizId',
@@ -104,11 +181,19 @@ export class QuizController {
                 status: { type: 'string', example: 'in_progress' },
                 currentQuestion: { type: 'number', example: 5 },
                 totalQuestions: { type: 'number', example: 10 },
+                timePerQuestion: { type: 'number', example: 30 },
+                questionDeadline: { type: 'number', nullable: true, example: 1762768830000 },
+                scoring: SCORING_SCHEMA,
                 startTime: { type: 'string', example: '2025-11-10T10:00:00.000Z' },
                 endTime: { type: 'string', nullable: true },
               },
             },
             participantCount: { type: 'number', example: 15 },
+            archived: {
+              type: 'boolean',
+              example: false,
+              description: 'Whether the quiz was read from the archive of completed quizzes',
+            },
             leaderboard: {
               type: 'array',
               items: {
@@ -128,7 +213,15 @@ export class QuizController {
   })
   @ApiResponse({ status: 404, description: 'Quiz not found' })
   async getQuiz(@Param('quizId') quizId: string) {
-    const quiz = await this.quizService.getQuizSession(quizId);
+    let quiz;
+    try {
+      quiz = await this.quizService.getQuizSession(quizId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return await this.getArchivedQuiz(quizId);
+      }
+      throw error;
+    }
     const participants = await this.quizService.getParticipants(quizId);
     const leaderboard = await this.quizService.getLeaderboard(quizId, 10);
 
@@ -141,12 +234,438 @@ export class QuizController {
           status: quiz.status,
           currentQuestion: quiz.currentQuestionIndex + 1,
           totalQuestions: quiz.questions.length,
+          timePerQuestion: quiz.timePerQuestion,
+          questionDeadline: quiz.questionDeadline,
+          scoring: this.quizService.getScoring(quiz),
           startTime: quiz.startTime,
           endTime: quiz.endTime,
         },
         participantCount: participants.length,
+        archived: false,
         leaderboard,
       },
     };
   }
+
+  /**
+   * Server-Sent Events stream of the quiz's room broadcasts
+   */
+  @Sse(':quizId/events')
+  @ApiOperation({
+    summary: 'Follow a quiz as Server-Sent Events',
+    description:
+      'Streams quiz_started, question_next, score_update, leaderboard_update and quiz_completed ' +
+      'with the same payloads as the Socket.IO events, for displays that can only consume HTTP. ' +
+      'Questions never carry their answers; scores are only sent once the question is revealed. ' +
+      'Every event has an ID: reconnect with Last-Event-ID (EventSource does this by itself) to get ' +
+      'the events you missed. The stream ends after quiz_completed.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'ID of the last event received, to resume after it',
+  })
+  @ApiQuery({
+    name: 'lastEventId',
+    required: false,
+    description: 'Same as Last-Event-ID, for clients that cannot set headers',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream of quiz events' })
+  @ApiResponse({ status: 404, description: 'Quiz not found' })
+  async streamEvents(
+    @Param('quizId') quizId: string,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+    @Query('lastEventId') lastEventIdQuery?: string,
+  ): Promise<Observable<MessageEvent>> {
+    await this.quizService.getQuizSession(quizId);
+
+    // An ID we did not hand out just means starting from now
+    const lastEventId = parseInt(lastEventIdHeader ?? lastEventIdQuery ?? '', 10);
+
+    return this.quizEvents
+      .stream(quizId, Number.isNaN(lastEventId) ? undefined : lastEventId)
+      .pipe(map((event) => ({ id: String(event.id), type: event.event, data: event.data })));
+  }
+
+  // ==================== Playing over HTTP ====================
+  // Same QuizService calls and room broadcasts as the Socket.IO events
+
+  /**
+   * Join a quiz without a socket
+   */
+  @Post(':quizId/join')
+  @ApiOperation({
+    summary: 'Join a quiz',
+    description:
+      'Adds a participant, like the join_quiz event, and announces them to the room with user_joined. ' +
+      'Keep the returned resume token: it identifies the participant in later requests, and can ' +
+      'attach a socket later with rejoin_quiz.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiBody({ type: JoinQuizBodyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined; same data as the joined_successfully event',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            quiz: { type: 'object' },
+            userId: { type: 'string', example: 'c56a4180-65aa-42ec-a945-5fd21dec0538' },
+            resumeToken: { type: 'string', example: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed' },
+            participants: { type: 'array', items: { type: 'object' } },
+            leaderboard: { type: 'array', items: { type: 'object' } },
+            leaderboardSeq: { type: 'number', example: 0 },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Quiz is full or has already completed' })
+  @ApiResponse({ status: 404, description: 'Quiz not found' })
+  async joinQuiz(@Param('quizId') quizId: string, @Body() body: JoinQuizBodyDto) {
+    return {
+      success: true,
+      data: await this.quizGateway.joinParticipant(quizId, body.username, body.playerId),
+    };
+  }
+
+  /**
+   * Start a quiz (host or co-host)
+   */
+  @Post(':quizId/start')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Start a quiz',
+    description:
+      'Starts the quiz like the start_quiz event: the room receives quiz_started with the first ' +
+      'question and the question timer runs. Requires the host token, or a co-host resume token.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiBody({ type: HostCredentialsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Quiz started',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            quizId: { type: 'string', example: 'ABC123' },
+            status: { type: 'string', example: 'started' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Quiz has already started or has no participants' })
+  @ApiResponse({ status: 403, description: 'Not the host or a co-host' })
+  async startQuiz(@Param('quizId') quizId: string, @Body() credentials: HostCredentialsDto) {
+    await this.authorizeHost(quizId, credentials);
+
+    return {
+      success: true,
+      data: await this.quizGateway.startQuiz(quizId),
+    };
+  }
+
+  /**
+   * Move to the next question (host or co-host)
+   */
+  @Post(':quizId/next')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Move to the next question',
+    description:
+      'Advances the quiz like the next_question event: the current question is closed and revealed ' +
+      'if it is still open, then the room receives question_next, or quiz_completed after the last ' +
+      'question. Requires the host token, or a co-host resume token.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiBody({ type: HostCredentialsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'The next question and its number, or completed: true with the final leaderboard',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            completed: { type: 'boolean', example: false },
+            question: { type: 'object' },
+            questionNumber: { type: 'number', example: 2 },
+            leaderboard: { type: 'array', items: { type: 'object' } },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Quiz is not in progress' })
+  @ApiResponse({ status: 403, description: 'Not the host or a co-host' })
+  async nextQuestion(@Param('quizId') quizId: string, @Body() credentials: HostCredentialsDto) {
+    await this.authorizeHost(quizId, credentials);
+    const result = await this.quizGateway.advanceQuiz(quizId);
+
+    return {
+      success: true,
+      data: {
+        completed: result.event === 'quiz_completed',
+        ...result.data,
+      },
+    };
+  }
+
+  /**
+   * The participant's view of the quiz, in place of the socket events
+   */
+  @Post(':quizId/session')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: "Get a participant's view of the quiz",
+    description:
+      'Returns the same snapshot as the rejoined_successfully event: the current question without ' +
+      "its answer, the seconds left on it, and the participant's score, rank and answers. " +
+      'Participants playing over HTTP poll this instead of receiving events.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiBody({ type: ParticipantCredentialsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Snapshot retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            quiz: {
+              type: 'object',
+              properties: {
+                quizId: { type: 'string', example: 'ABC123' },
+                status: { type: 'string', example: 'in_progress' },
+                currentQuestion: { type: 'number', example: 3 },
+                totalQuestions: { type: 'number', example: 10 },
+              },
+            },
+            question: { type: 'object', nullable: true, description: 'Without its correct answer' },
+            questionNumber: { type: 'number', nullable: true, example: 3 },
+            remainingSeconds: { type: 'number', nullable: true, example: 12 },
+            questionPhase: { type: 'string', nullable: true, example: 'open' },
+            score: { type: 'number', example: 40 },
+            rank: { type: 'number', nullable: true, example: 2 },
+            answers: { type: 'object', description: 'Answers so far, by question ID' },
+            leaderboard: { type: 'array', items: { type: 'object' } },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid resume token' })
+  async getSession(@Param('quizId') quizId: string, @Body() body: ParticipantCredentialsDto) {
+    const participant = await this.quizService.authenticateParticipant(quizId, body.resumeToken);
+
+    return {
+      success: true,
+      data: await this.quizService.getSessionSnapshot(quizId, participant.userId),
+    };
+  }
+
+  /**
+   * Submit an answer to the current question
+   */
+  @Post(':quizId/answers')
+  @ApiOperation({
+    summary: 'Submit an answer',
+    description:
+      'Submits an answer like the submit_answer event. Only receipt is acknowledged; whether it was ' +
+      'correct is revealed to everyone when the question closes.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiBody({ type: SubmitAnswerBodyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Answer received',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            questionId: { type: 'string', example: 'q1' },
+            answer: { example: 'Joyful' },
+            submittedAt: { type: 'string', example: '2025-11-10T10:00:04.200Z' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Not the current question, or time is up' })
+  @ApiResponse({ status: 401, description: 'Invalid resume token' })
+  @ApiResponse({ status: 409, description: 'The question has already been answered' })
+  async submitAnswer(@Param('quizId') quizId: string, @Body() body: SubmitAnswerBodyDto) {
+    const participant = await this.quizService.authenticateParticipant(quizId, body.resumeToken);
+    const receipt = await this.quizService.submitAnswer(
+      quizId,
+      participant.userId,
+      body.questionId,
+      body.answer,
+      body.timeTaken,
+    );
+
+    return {
+      success: true,
+      data: receipt,
+    };
+  }
+
+  /**
+   * Post-quiz review of a participant's answers
+   */
+  @Get(':quizId/participants/:userId/answers')
+  @ApiOperation({
+    summary: "Review a participant's answers",
+    description:
+      'Returns every question of a completed quiz, with its correct answer, alongside the answer the ' +
+      'participant gave (null if they did not answer), its points and timing. Works for live and ' +
+      'archived quizzes; answers stay hidden until the quiz has completed.',
+  })
+  @ApiParam({
+    name: 'quizId',
+    description: 'Quiz ID (6-character alphanumeric)',
+    example: 'ABC123',
+  })
+  @ApiParam({ name: 'userId', description: 'Participant ID', example: 'user1' })
+  @ApiResponse({
+    status: 200,
+    description: 'Answers retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            quizId: { type: 'string', example: 'ABC123' },
+            userId: { type: 'string', example: 'user1' },
+            username: { type: 'string', example: 'Alice' },
+            score: { type: 'number', example: 85 },
+            rank: { type: 'number', example: 2 },
+            correctAnswers: { type: 'number', example: 8 },
+            totalAnswers: { type: 'number', example: 9 },
+            answers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  question: { type: 'object', description: 'The question with its answer key' },
+                  answer: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      answer: { example: 'Joyful' },
+                      correct: { type: 'boolean', example: true },
+                      credit: { type: 'number', example: 1 },
+                      earnedPoints: { type: 'number', example: 12 },
+                      timeTaken: { type: 'number', example: 4.2 },
+                      submittedAt: { type: 'string', example: '2025-11-10T10:00:04.200Z' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Quiz has not completed yet' })
+  @ApiResponse({ status: 404, description: 'Quiz or participant not found' })
+  async getParticipantAnswers(@Param('quizId') quizId: string, @Param('userId') userId: string) {
+    return {
+      success: true,
+      data: await this.quizHistoryService.getParticipantAnswers(quizId, userId),
+    };
+  }
+
+  /**
+   * Reject control requests unless they carry the host token or a co-host's resume token
+   */
+  private async authorizeHost(quizId: string, credentials: HostCredentialsDto): Promise<void> {
+    const userId = credentials.resumeToken
+      ? (await this.quizService.authenticateParticipant(quizId, credentials.resumeToken)).userId
+      : undefined;
+
+    await this.quizService.authorizeHost(quizId, { hostToken: credentials.hostToken, userId });
+  }
+
+  /**
+   * Quiz details of a completed quiz whose live session is gone
+   */
+  private async getArchivedQuiz(quizId: string) {
+    const quiz = await this.quizService.getArchivedQuiz(quizId);
+
+    return {
+      success: true,
+      data: {
+        quiz: {
+          quizId: quiz.quizId,
+          title: quiz.title,
+          status: QuizStatus.COMPLETED,
+          currentQuestion: quiz.questions.length,
+          totalQuestions: quiz.questions.length,
+          timePerQuestion: quiz.timePerQuestion,
+          questionDeadline: null,
+          scoring: quiz.scoring,
+          startTime: quiz.startTime,
+          endTime: quiz.endTime,
+        },
+        participantCount: quiz.participants.length,
+        archived: true,
+        leaderboard: quiz.participants
+          .slice(0, 10)
+          .map(({ userId, username, score, rank, correctAnswers, totalAnswers }) => ({
+            userId,
+            username,
+            score,
+            rank,
+            correctAnswers,
+            totalAnswers,
+          })),
+      },
+    };
+  }
 }
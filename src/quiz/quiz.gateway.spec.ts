@@ -1,15 +1,40 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ErrorCode } from '../common/errors/error-codes';
+import { toAcknowledgement } from './interceptors/ws-acknowledgement.interceptor';
 import { QuizGateway } from './quiz.gateway';
 import { QuizService } from './services/quiz.service';
+import { QuestionTimerService } from './services/question-timer.service';
+import { LeaderboardBroadcastService } from './services/leaderboard-broadcast.service';
+import { PresenceService } from './services/presence.service';
+import { QuizEventsService } from './services/quiz-events.service';
 import { Server, Socket } from 'socket.io';
-import { QuizStatus } from './interfaces/quiz.interface';
+import { QuizStatus, QuestionPhase, SocketPresence } from './interfaces/quiz.interface';
 
 describe('QuizGateway', () => {
   let gateway: QuizGateway;
   let quizService: jest.Mocked<QuizService>;
+  let questionTimer: jest.Mocked<QuestionTimerService>;
+  let leaderboardBroadcast: jest.Mocked<LeaderboardBroadcastService>;
+  let presence: jest.Mocked<PresenceService>;
+  let quizEvents: jest.Mocked<QuizEventsService>;
   let mockServer: jest.Mocked<Server>;
   let mockClient: jest.Mocked<Socket>;
 
+  const mockScoring = {
+    strategy: 'time_bonus' as const,
+    maxTimeBonus: 0.5,
+    description:
+      "Correct answers earn the question's points plus up to 50% extra for answering quickly.",
+  };
+
   const mockQuizSession = {
     quizId: 'ABC123',
     title: 'Test Quiz',
@@ -28,6 +53,48 @@ describe('QuizGateway', () => {
     currentQuestionIndex: 0,
     createdAt: new Date(),
     maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: false,
+    hostToken: 'host-token',
+    coHostIds: [],
+  };
+
+  // In-memory stand-in for the presence mappings PresenceService keeps in Redis
+  const createPresence = () => {
+    const sockets = new Map<string, SocketPresence>(); // socketId -> presence
+    const users = new Map<string, Map<string, string>>(); // quizId -> userId -> socketId
+    const usersOf = (quizId: string) =>
+      users.get(quizId) ?? users.set(quizId, new Map()).get(quizId)!;
+
+    return {
+      attach: jest.fn(async (quizId: string, userId: string, socketId: string) => {
+        const previous = usersOf(quizId).get(userId) ?? null;
+        usersOf(quizId).set(userId, socketId);
+        sockets.set(socketId, { ...sockets.get(socketId), userId, quizId });
+        if (previous && previous !== socketId) {
+          sockets.set(previous, { hostQuizId: sockets.get(previous)?.hostQuizId });
+          return previous;
+        }
+        return null;
+      }),
+      getUser: jest.fn(async (socketId: string) => {
+        const { userId, quizId } = sockets.get(socketId) ?? {};
+        return userId && quizId ? { userId, quizId } : null;
+      }),
+      getConnected: jest.fn(async (quizId: string) => new Map(usersOf(quizId))),
+      trackHost: jest.fn(async (socketId: string, quizId: string) => {
+        sockets.set(socketId, { ...sockets.get(socketId), hostQuizId: quizId });
+      }),
+      release: jest.fn(async (socketId: string) => {
+        const released = sockets.get(socketId) ?? null;
+        sockets.delete(socketId);
+        if (released?.userId && released.quizId) {
+          const quizUsers = usersOf(released.quizId);
+          if (quizUsers.get(released.userId) === socketId) quizUsers.delete(released.userId);
+        }
+        return released;
+      }),
+    };
   };
 
   beforeEach(async () => {
@@ -42,13 +109,57 @@ describe('QuizGateway', () => {
             startQuiz: jest.fn(),
             getCurrentQuestion: jest.fn(),
             submitAnswer: jest.fn(),
-            getLeaderboard: jest.fn(),
+            getVisibleLeaderboard: jest.fn(),
+            scoresRevealed: jest.fn().mockReturnValue(true),
             nextQuestion: jest.fn(),
+            closeQuestion: jest.fn(),
+            revealQuestion: jest.fn(),
             getQuizSession: jest.fn(),
             getFullLeaderboard: jest.fn(),
             removeParticipant: jest.fn(),
             getParticipants: jest.fn(),
             getParticipant: jest.fn(),
+            authorizeHost: jest.fn().mockResolvedValue('host'),
+            setHostSocket: jest.fn(),
+            addCoHost: jest.fn(),
+            removeCoHost: jest.fn(),
+            transferHost: jest.fn(),
+            issueResumeToken: jest.fn().mockResolvedValue('resume-token'),
+            resumeParticipant: jest.fn(),
+            getSessionSnapshot: jest.fn(),
+            getScoring: jest.fn().mockReturnValue(mockScoring),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+        {
+          provide: QuestionTimerService,
+          useValue: {
+            start: jest.fn(),
+            clear: jest.fn(),
+          },
+        },
+        {
+          provide: LeaderboardBroadcastService,
+          useValue: {
+            schedule: jest.fn(),
+            getSnapshot: jest.fn(),
+            getSeq: jest.fn().mockResolvedValue(0),
+            clear: jest.fn(),
+          },
+        },
+        {
+          provide: PresenceService,
+          useFactory: createPresence,
+        },
+        {
+          provide: QuizEventsService,
+          useValue: {
+            publish: jest.fn(),
           },
         },
       ],
@@ -56,6 +167,10 @@ describe('QuizGateway', () => {
 
     gateway = module.get<QuizGateway>(QuizGateway);
     quizService = module.get(QuizService);
+    questionTimer = module.get(QuestionTimerService);
+    leaderboardBroadcast = module.get(LeaderboardBroadcastService);
+    presence = module.get(PresenceService);
+    quizEvents = module.get(QuizEventsService);
 
     // Mock Server
     mockServer = {
@@ -67,6 +182,7 @@ describe('QuizGateway', () => {
     mockClient = {
       id: 'socket123',
       join: jest.fn(),
+      leave: jest.fn(),
       emit: jest.fn(),
       data: {},
     } as any;
@@ -78,6 +194,16 @@ describe('QuizGateway', () => {
     jest.clearAllMocks();
   });
 
+  // Join the quiz as `client` and return the userId the gateway assigned
+  const joinAs = async (client: Socket, username: string): Promise<string> => {
+    quizService.joinQuiz.mockResolvedValue(mockQuizSession);
+    quizService.getParticipants.mockResolvedValue([]);
+    quizService.getVisibleLeaderboard.mockResolvedValue([]);
+
+    const result = await gateway.handleJoinQuiz({ quizId: 'ABC123', username }, client);
+    return ('userId' in result.data && result.data.userId) || '';
+  };
+
   it('should be defined', () => {
     expect(gateway).toBeDefined();
   });
@@ -112,6 +238,31 @@ describe('QuizGateway', () => {
 
       expect(mockClient.id).toBe('socket123');
     });
+
+    it('should release the socket and tell the room', async () => {
+      const userId = await joinAs(mockClient, 'Alice');
+      mockServer.emit.mockClear();
+
+      await gateway.handleDisconnect(mockClient);
+
+      expect(presence.release).toHaveBeenCalledWith('socket123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'user_disconnected',
+        expect.objectContaining({ userId }),
+      );
+      expect(await presence.getConnected('ABC123')).toEqual(new Map());
+    });
+
+    it('should keep the participant connected when they already rejoined elsewhere', async () => {
+      const userId = await joinAs(mockClient, 'Alice');
+      await presence.attach('ABC123', userId, 'socket-on-other-instance');
+      mockServer.emit.mockClear();
+
+      await gateway.handleDisconnect(mockClient);
+
+      expect(mockServer.emit).not.toHaveBeenCalled();
+      expect((await presence.getConnected('ABC123')).get(userId)).toBe('socket-on-other-instance');
+    });
   });
 
   describe('handleCreateQuiz', () => {
@@ -125,9 +276,13 @@ describe('QuizGateway', () => {
 
       const result = await gateway.handleCreateQuiz(createQuizDto, mockClient);
 
-      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10);
+      expect(quizService.createQuiz).toHaveBeenCalledWith('Test Quiz', 10, {
+        timePerQuestion: undefined,
+        autoAdvance: undefined,
+        hostSocketId: 'socket123',
+      });
       expect(result.event).toBe('quiz_created');
-      expect(result.data.quizId).toBe('ABC123');
+      expect(result.data).toMatchObject({ quizId: 'ABC123', hostToken: 'host-token' });
     });
   });
 
@@ -135,8 +290,8 @@ describe('QuizGateway', () => {
     it('should allow user to join quiz', async () => {
       const joinQuizDto = {
         quizId: 'ABC123',
-        userId: 'user1',
         username: 'Alice',
+        playerId: 'player-alice',
       };
 
       const mockParticipants = [
@@ -152,21 +307,88 @@ describe('QuizGateway', () => {
 
       quizService.joinQuiz.mockResolvedValue(mockQuizSession);
       quizService.getParticipants.mockResolvedValue(mockParticipants);
-      quizService.getLeaderboard.mockResolvedValue([]);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
 
       const result = await gateway.handleJoinQuiz(joinQuizDto, mockClient);
 
       expect(quizService.joinQuiz).toHaveBeenCalledWith(
         'ABC123',
-        'socket123',
+        expect.any(String),
         'Alice',
         'socket123',
+        'player-alice',
       );
       expect(mockClient.join).toHaveBeenCalledWith('ABC123');
       expect(mockServer.to).toHaveBeenCalledWith('ABC123');
       expect(result.event).toBe('joined_successfully');
     });
 
+    it('should assign a stable userId independent of the socket and a resume token', async () => {
+      quizService.joinQuiz.mockResolvedValue(mockQuizSession);
+      quizService.getParticipants.mockResolvedValue([]);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+
+      const result = await gateway.handleJoinQuiz(
+        { quizId: 'ABC123', username: 'Alice' },
+        mockClient,
+      );
+
+      if ('userId' in result.data) {
+        expect(result.data.userId).not.toBe('socket123');
+        expect(result.data.resumeToken).toBe('resume-token');
+        expect(quizService.issueResumeToken).toHaveBeenCalledWith('ABC123', result.data.userId);
+      }
+    });
+
+    it('should queue a leaderboard delta for the room and report the current sequence', async () => {
+      quizService.joinQuiz.mockResolvedValue(mockQuizSession);
+      quizService.getParticipants.mockResolvedValue([]);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+      leaderboardBroadcast.getSeq.mockResolvedValue(7);
+
+      const result = await gateway.handleJoinQuiz(
+        { quizId: 'ABC123', username: 'Alice' },
+        mockClient,
+      );
+
+      expect(leaderboardBroadcast.schedule).toHaveBeenCalledWith('ABC123', expect.any(Function));
+      if ('leaderboardSeq' in result.data) {
+        expect(result.data.leaderboardSeq).toBe(7);
+      }
+    });
+
+    it('should give a player joining mid-question the scores as of the last reveal', async () => {
+      const revealed = [{ userId: 'user1', username: 'Alice', score: 10, rank: 1 }];
+      quizService.joinQuiz.mockResolvedValue({
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+      });
+      quizService.scoresRevealed.mockReturnValue(false);
+      quizService.getParticipants.mockResolvedValue([
+        {
+          userId: 'user1',
+          username: 'Alice',
+          score: 25,
+          answersSubmitted: 2,
+          joinedAt: new Date(),
+        },
+        { userId: 'user2', username: 'Bob', score: 0, answersSubmitted: 0, joinedAt: new Date() },
+      ]);
+      quizService.getVisibleLeaderboard.mockResolvedValue(revealed);
+
+      const result = await gateway.handleJoinQuiz(
+        { quizId: 'ABC123', username: 'Bob' },
+        mockClient,
+      );
+
+      expect(result.event).toBe('joined_successfully');
+      if ('participants' in result.data) {
+        expect(result.data.participants.map((p) => p.score)).toEqual([10, 0]);
+        expect(result.data.leaderboard).toEqual(revealed);
+      }
+      expect(leaderboardBroadcast.schedule).not.toHaveBeenCalled();
+    });
+
     it('should handle join errors', async () => {
       const joinQuizDto = {
         quizId: 'ABC123',
@@ -174,12 +396,161 @@ describe('QuizGateway', () => {
         username: 'Alice',
       };
 
-      quizService.joinQuiz.mockRejectedValue(new Error('Quiz not found'));
+      quizService.joinQuiz.mockRejectedValue(
+        new NotFoundException({
+          code: ErrorCode.QUIZ_NOT_FOUND,
+          message: 'Quiz session ABC123 not found',
+        }),
+      );
 
       const result = await gateway.handleJoinQuiz(joinQuizDto, mockClient);
 
+      expect(result).toEqual({
+        event: 'error',
+        data: {
+          code: ErrorCode.QUIZ_NOT_FOUND,
+          message: 'Quiz session ABC123 not found',
+          statusCode: 404,
+          event: 'join_quiz',
+          timestamp: expect.any(String),
+        },
+      });
+    });
+  });
+
+  describe('joinParticipant', () => {
+    it('should join without a socket and still tell the room', async () => {
+      quizService.joinQuiz.mockResolvedValue(mockQuizSession);
+      quizService.getParticipants.mockResolvedValue([]);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+
+      const data = await gateway.joinParticipant('ABC123', 'Kiosk');
+
+      expect(quizService.joinQuiz).toHaveBeenCalledWith(
+        'ABC123',
+        data.userId,
+        'Kiosk',
+        undefined,
+        undefined,
+      );
+      expect(presence.attach).not.toHaveBeenCalled();
+      expect(mockServer.to).toHaveBeenCalledWith('ABC123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'user_joined',
+        expect.objectContaining({ userId: data.userId, username: 'Kiosk' }),
+      );
+      expect(data.resumeToken).toBe('resume-token');
+    });
+
+    it('should let errors through to the caller', async () => {
+      quizService.joinQuiz.mockRejectedValue(new Error('Quiz is full'));
+
+      await expect(gateway.joinParticipant('ABC123', 'Kiosk')).rejects.toThrow('Quiz is full');
+    });
+  });
+
+  describe('handleRejoinQuiz', () => {
+    const snapshot = {
+      quiz: {
+        quizId: 'ABC123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        currentQuestion: 0,
+        totalQuestions: 1,
+        timePerQuestion: 30,
+        scoring: mockScoring,
+      },
+      question: { ...mockQuizSession.questions[0], correctAnswer: '' },
+      questionNumber: 1,
+      remainingSeconds: 12,
+      score: 40,
+      rank: 2,
+      questionPhase: QuestionPhase.OPEN,
+      answers: {},
+      leaderboard: [],
+    };
+
+    it('should reattach the new socket to the existing participant', async () => {
+      const reconnected = { ...mockClient, id: 'socket999' } as unknown as Socket;
+      quizService.resumeParticipant.mockResolvedValue({
+        userId: 'user1',
+        username: 'Alice',
+        socketId: 'socket999',
+        score: 40,
+        answersSubmitted: 2,
+        joinedAt: new Date(),
+      });
+      quizService.getSessionSnapshot.mockResolvedValue(snapshot);
+
+      const result = await gateway.handleRejoinQuiz(
+        { quizId: 'ABC123', resumeToken: 'resume-token' },
+        reconnected,
+      );
+
+      expect(quizService.resumeParticipant).toHaveBeenCalledWith(
+        'ABC123',
+        'resume-token',
+        'socket999',
+      );
+      expect(reconnected.join).toHaveBeenCalledWith('ABC123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'user_reconnected',
+        expect.objectContaining({ userId: 'user1' }),
+      );
+      expect(result.event).toBe('rejoined_successfully');
+      expect(result.data).toMatchObject({ userId: 'user1', remainingSeconds: 12, score: 40 });
+    });
+
+    it('should submit answers as the resumed participant', async () => {
+      const reconnected = { ...mockClient, id: 'socket999' } as unknown as Socket;
+      quizService.resumeParticipant.mockResolvedValue({
+        userId: 'user1',
+        username: 'Alice',
+        socketId: 'socket999',
+        score: 40,
+        answersSubmitted: 2,
+        joinedAt: new Date(),
+      });
+      quizService.getSessionSnapshot.mockResolvedValue(snapshot);
+      quizService.submitAnswer.mockResolvedValue({
+        questionId: 'q1',
+        answer: 'A',
+        submittedAt: new Date(),
+      });
+
+      await gateway.handleRejoinQuiz(
+        { quizId: 'ABC123', resumeToken: 'resume-token' },
+        reconnected,
+      );
+      await gateway.handleSubmitAnswer(
+        { quizId: 'ABC123', questionId: 'q1', answer: 'A' },
+        reconnected,
+      );
+
+      expect(quizService.submitAnswer).toHaveBeenCalledWith(
+        'ABC123',
+        'user1',
+        'q1',
+        'A',
+        undefined,
+      );
+    });
+
+    it('should reject an invalid resume token', async () => {
+      quizService.resumeParticipant.mockRejectedValue(
+        new UnauthorizedException({
+          code: 'INVALID_RESUME_TOKEN',
+          message: 'Resume token is invalid or has expired',
+        }),
+      );
+
+      const result = await gateway.handleRejoinQuiz(
+        { quizId: 'ABC123', resumeToken: 'bogus' },
+        mockClient,
+      );
+
       expect(result.event).toBe('error');
-      expect(result.data.message).toContain('Failed to join quiz');
+      expect(result.data).toMatchObject({ code: 'INVALID_RESUME_TOKEN' });
     });
   });
 
@@ -204,12 +575,222 @@ describe('QuizGateway', () => {
       quizService.startQuiz.mockResolvedValue(startedSession);
       quizService.getCurrentQuestion.mockResolvedValue(mockQuestion);
 
-      const result = await gateway.handleStartQuiz({ quizId: 'ABC123' });
+      const result = await gateway.handleStartQuiz(
+        { quizId: 'ABC123', hostToken: 'host-token' },
+        mockClient,
+      );
 
       expect(quizService.startQuiz).toHaveBeenCalledWith('ABC123');
       expect(mockServer.to).toHaveBeenCalledWith('ABC123');
       expect(result.event).toBe('quiz_start_success');
     });
+
+    it('should start the question timer with the session deadline', async () => {
+      const deadline = Date.now() + 30000;
+      quizService.startQuiz.mockResolvedValue({
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionDeadline: deadline,
+      });
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'quiz_started',
+        expect.objectContaining({ timeLimit: 30, deadline }),
+      );
+      expect(questionTimer.start).toHaveBeenCalledWith('ABC123', deadline, expect.any(Object));
+    });
+
+    it('should publish quiz_started for the SSE stream without the answer', async () => {
+      quizService.startQuiz.mockResolvedValue({
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+      });
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+
+      await gateway.startQuiz('ABC123');
+
+      const started = mockServer.emit.mock.calls.find(([event]) => event === 'quiz_started')?.[1];
+      expect(quizEvents.publish).toHaveBeenCalledWith('ABC123', 'quiz_started', started);
+      expect(started).toMatchObject({ question: { id: 'q1', correctAnswer: '' } });
+    });
+
+    it('should broadcast ticks, then close and reveal the question from the timer', async () => {
+      const startedSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionDeadline: Date.now() + 30000,
+      };
+      const reveal = {
+        questionId: 'q1',
+        questionNumber: 1,
+        correctAnswer: 'A',
+        distribution: { A: 1, B: 0, C: 0, D: 0 },
+        unanswered: 0,
+        results: [],
+      };
+      quizService.startQuiz.mockResolvedValue(startedSession);
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+      quizService.closeQuestion.mockResolvedValue({
+        ...startedSession,
+        questionPhase: QuestionPhase.CLOSED,
+      });
+      quizService.revealQuestion.mockResolvedValue(reveal);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+      const handlers = questionTimer.start.mock.calls[0][2];
+
+      handlers.onTick(12);
+      await handlers.onClose();
+
+      expect(quizService.closeQuestion).toHaveBeenCalledWith('ABC123', 0);
+      expect(quizService.revealQuestion).toHaveBeenCalledWith('ABC123', 0);
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'question_tick',
+        expect.objectContaining({ questionId: 'q1', remainingSeconds: 12 }),
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'question_closed',
+        expect.objectContaining({ questionId: 'q1', questionNumber: 1 }),
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'question_revealed',
+        expect.objectContaining(reveal),
+      );
+      expect(leaderboardBroadcast.schedule).toHaveBeenCalledWith('ABC123', expect.any(Function));
+      expect(handlers.onAdvance).toBeUndefined();
+    });
+
+    it('should leave a question the quiz moved past to its own timer', async () => {
+      quizService.startQuiz.mockResolvedValue({
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionDeadline: Date.now() + 30000,
+      });
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+      // The host moved on while this timer ran
+      quizService.closeQuestion.mockResolvedValue(null);
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+      const handlers = questionTimer.start.mock.calls[0][2];
+      mockServer.emit.mockClear();
+
+      await handlers.onClose();
+
+      expect(quizService.revealQuestion).not.toHaveBeenCalled();
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reveal a question once when the host skips ahead as the timer closes it', async () => {
+      const openSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionPhase: QuestionPhase.OPEN,
+        questionDeadline: Date.now() + 30000,
+      };
+      quizService.startQuiz.mockResolvedValue(openSession);
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+      quizService.getQuizSession.mockResolvedValue(openSession);
+      // The timer gets to close the question first; the host's close finds it closed
+      quizService.closeQuestion
+        .mockResolvedValueOnce({ ...openSession, questionPhase: QuestionPhase.CLOSED })
+        .mockResolvedValueOnce(null);
+      quizService.revealQuestion.mockResolvedValue({
+        questionId: 'q1',
+        questionNumber: 1,
+        correctAnswer: 'A',
+        distribution: { A: 0, B: 0, C: 0, D: 0 },
+        unanswered: 0,
+        results: [],
+      });
+      quizService.nextQuestion.mockResolvedValue(null);
+      quizService.getFullLeaderboard.mockResolvedValue([]);
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+      const handlers = questionTimer.start.mock.calls[0][2];
+      mockServer.emit.mockClear();
+
+      await Promise.all([
+        handlers.onClose(),
+        gateway.handleNextQuestion({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient),
+      ]);
+
+      const events = mockServer.emit.mock.calls.map(([event]) => event);
+      expect(events.filter((event) => event === 'question_closed')).toHaveLength(1);
+      expect(events.filter((event) => event === 'question_revealed')).toHaveLength(1);
+      expect(quizService.revealQuestion).toHaveBeenCalledTimes(1);
+      expect(events).toContain('quiz_completed');
+    });
+
+    it('should auto-advance when the quiz is configured for it', async () => {
+      const startedSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionPhase: QuestionPhase.REVEALED,
+        autoAdvance: true,
+        questionDeadline: Date.now() + 30000,
+      };
+      quizService.startQuiz.mockResolvedValue(startedSession);
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+      quizService.nextQuestion.mockResolvedValue(null);
+      quizService.getQuizSession.mockResolvedValue(startedSession);
+      quizService.getFullLeaderboard.mockResolvedValue([]);
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+      const handlers = questionTimer.start.mock.calls[0][2];
+
+      await handlers.onAdvance?.();
+
+      expect(quizService.nextQuestion).toHaveBeenCalledWith('ABC123', 0);
+      expect(mockServer.emit).toHaveBeenCalledWith('quiz_completed', expect.any(Object));
+    });
+
+    it('should not auto-advance a quiz another instance has moved on', async () => {
+      const startedSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        autoAdvance: true,
+        questionDeadline: Date.now() + 30000,
+      };
+      quizService.startQuiz.mockResolvedValue(startedSession);
+      quizService.getCurrentQuestion.mockResolvedValue({
+        ...mockQuizSession.questions[0],
+        correctAnswer: '',
+      });
+      // The host's next_question reached another instance, which now runs the timer
+      quizService.getQuizSession.mockResolvedValue({ ...startedSession, currentQuestionIndex: 1 });
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+      const handlers = questionTimer.start.mock.calls[0][2];
+      mockServer.emit.mockClear();
+
+      await handlers.onAdvance?.();
+
+      expect(quizService.nextQuestion).not.toHaveBeenCalled();
+      expect(questionTimer.clear).not.toHaveBeenCalled();
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
   });
 
   describe('handleSubmitAnswer', () => {
@@ -222,36 +803,48 @@ describe('QuizGateway', () => {
         timeTaken: 10,
       };
 
-      const mockAnswerResult = {
-        correct: true,
-        correctAnswer: 'A',
-        earnedPoints: 15,
-        currentScore: 15,
-        rank: 1,
-      };
-
-      const mockLeaderboard = [{ userId: 'user1', username: 'Alice', score: 15, rank: 1 }];
-      const mockParticipant = {
-        userId: 'socket123',
-        username: 'Alice',
-        socketId: 'socket123',
-        score: 15,
-        answersSubmitted: 1,
-        joinedAt: new Date(),
-      };
-
-      quizService.submitAnswer.mockResolvedValue(mockAnswerResult);
-      quizService.getParticipant.mockResolvedValue(mockParticipant);
-      quizService.getLeaderboard.mockResolvedValue(mockLeaderboard);
+      const receipt = { questionId: 'q1', answer: 'A', submittedAt: new Date() };
+      quizService.submitAnswer.mockResolvedValue(receipt);
 
+      const userId = await joinAs(mockClient, 'Alice');
+      mockServer.emit.mockClear();
       const result = await gateway.handleSubmitAnswer(submitAnswerDto, mockClient);
 
-      expect(quizService.submitAnswer).toHaveBeenCalledWith('ABC123', 'socket123', 'q1', 'A', 10);
+      expect(quizService.submitAnswer).toHaveBeenCalledWith('ABC123', userId, 'q1', 'A', 10);
       expect(result.event).toBe('answer_submitted');
-      if ('correct' in result.data) {
-        expect(result.data.correct).toBe(true);
-        expect(result.data.earnedPoints).toBe(15);
-      }
+      expect(result.data).toEqual(receipt);
+      expect(mockClient.emit).toHaveBeenCalledWith(
+        'answer_result',
+        expect.objectContaining(receipt),
+      );
+    });
+
+    it('should not broadcast scores while the question is open', async () => {
+      quizService.submitAnswer.mockResolvedValue({
+        questionId: 'q1',
+        answer: 'A',
+        submittedAt: new Date(),
+      });
+
+      await joinAs(mockClient, 'Alice');
+      mockServer.emit.mockClear();
+      await gateway.handleSubmitAnswer(
+        { quizId: 'ABC123', questionId: 'q1', answer: 'A', timeTaken: 10 },
+        mockClient,
+      );
+
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reject answers from sockets that have not joined the quiz', async () => {
+      const result = await gateway.handleSubmitAnswer(
+        { quizId: 'ABC123', questionId: 'q1', answer: 'A', timeTaken: 10 },
+        mockClient,
+      );
+
+      expect(quizService.submitAnswer).not.toHaveBeenCalled();
+      expect(result.event).toBe('error');
+      expect(result.data).toMatchObject({ code: ErrorCode.NOT_JOINED, statusCode: 403 });
     });
 
     it('should handle submission errors', async () => {
@@ -263,14 +856,102 @@ describe('QuizGateway', () => {
         timeTaken: 10,
       };
 
-      quizService.submitAnswer.mockRejectedValue(new Error('Quiz not in progress'));
+      quizService.submitAnswer.mockRejectedValue(
+        new BadRequestException({
+          code: ErrorCode.QUIZ_NOT_IN_PROGRESS,
+          message: 'Quiz is not in progress',
+        }),
+      );
 
+      await joinAs(mockClient, 'Alice');
       const result = await gateway.handleSubmitAnswer(submitAnswerDto, mockClient);
 
       expect(result.event).toBe('error');
-      if ('message' in result.data) {
-        expect(result.data.message).toContain('Failed to submit answer');
-      }
+      expect(result.data).toMatchObject({
+        code: ErrorCode.QUIZ_NOT_IN_PROGRESS,
+        message: 'Quiz is not in progress',
+        event: 'submit_answer',
+      });
+    });
+
+    it('should acknowledge a second answer with ALREADY_ANSWERED', async () => {
+      quizService.submitAnswer.mockRejectedValue(
+        new ConflictException({
+          code: ErrorCode.ALREADY_ANSWERED,
+          message: 'Question q1 has already been answered',
+        }),
+      );
+
+      await joinAs(mockClient, 'Alice');
+      const result = await gateway.handleSubmitAnswer(
+        { quizId: 'ABC123', questionId: 'q1', answer: 'B', timeTaken: 12 },
+        mockClient,
+      );
+
+      expect(result.data).toMatchObject({ code: ErrorCode.ALREADY_ANSWERED, statusCode: 409 });
+      expect(toAcknowledgement(result)).toMatchObject({
+        ok: false,
+        error: { code: ErrorCode.ALREADY_ANSWERED },
+      });
+      expect(mockClient.emit).not.toHaveBeenCalledWith('answer_result', expect.anything());
+    });
+  });
+
+  describe('leaderboard broadcasts', () => {
+    it('should broadcast the deltas it is handed as leaderboard_update', async () => {
+      quizService.joinQuiz.mockResolvedValue(mockQuizSession);
+      quizService.getParticipants.mockResolvedValue([]);
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+      await gateway.handleJoinQuiz({ quizId: 'ABC123', username: 'Alice' }, mockClient);
+      const publish = leaderboardBroadcast.schedule.mock.calls[0][1];
+
+      const delta = {
+        seq: 3,
+        changes: [{ userId: 'user1', username: 'Alice', score: 10, rank: 1 }],
+        removed: [],
+        participantCount: 1,
+      };
+      publish(delta);
+
+      expect(mockServer.to).toHaveBeenLastCalledWith('ABC123');
+      expect(mockServer.emit).toHaveBeenLastCalledWith(
+        'leaderboard_update',
+        expect.objectContaining(delta),
+      );
+      expect(quizEvents.publish).toHaveBeenCalledWith(
+        'ABC123',
+        'leaderboard_update',
+        expect.objectContaining(delta),
+      );
+    });
+
+    it('should answer leaderboard_sync with the full snapshot and its sequence', async () => {
+      const snapshot = {
+        seq: 4,
+        leaderboard: [{ userId: 'user1', username: 'Alice', score: 10, rank: 1 }],
+      };
+      leaderboardBroadcast.getSnapshot.mockResolvedValue(snapshot);
+
+      const result = await gateway.handleLeaderboardSync({ quizId: 'ABC123' });
+
+      expect(leaderboardBroadcast.getSnapshot).toHaveBeenCalledWith('ABC123');
+      expect(result.event).toBe('leaderboard_sync');
+      expect(result.data).toMatchObject({ quizId: 'ABC123', ...snapshot });
+    });
+
+    it('should report leaderboard_sync errors', async () => {
+      leaderboardBroadcast.getSnapshot.mockRejectedValue(new Error('Redis connection lost'));
+
+      const result = await gateway.handleLeaderboardSync({ quizId: 'NOPE' });
+
+      // Unexpected errors are reported without their details
+      expect(result.event).toBe('error');
+      expect(result.data).toMatchObject({
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Internal server error',
+        statusCode: 500,
+        event: 'leaderboard_sync',
+      });
     });
   });
 
@@ -289,11 +970,138 @@ describe('QuizGateway', () => {
       quizService.nextQuestion.mockResolvedValue(mockNextQuestion);
       quizService.getQuizSession.mockResolvedValue(mockQuizSession);
 
-      const result = await gateway.handleNextQuestion({ quizId: 'ABC123' });
+      const result = await gateway.handleNextQuestion(
+        { quizId: 'ABC123', hostToken: 'host-token' },
+        mockClient,
+      );
 
-      expect(quizService.nextQuestion).toHaveBeenCalledWith('ABC123');
+      expect(quizService.nextQuestion).toHaveBeenCalledWith('ABC123', 0);
+      expect(questionTimer.clear).toHaveBeenCalledWith('ABC123');
       expect(mockServer.to).toHaveBeenCalledWith('ABC123');
       expect(result.event).toBe('next_question_success');
+      expect(quizService.revealQuestion).not.toHaveBeenCalled();
+      expect(quizEvents.publish).toHaveBeenCalledWith(
+        'ABC123',
+        'question_next',
+        expect.objectContaining({ question: mockNextQuestion, questionNumber: 1 }),
+      );
+    });
+
+    it('should reveal the current question before moving on early', async () => {
+      const userId = await joinAs(mockClient, 'Alice');
+      const openSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionPhase: QuestionPhase.OPEN,
+      };
+      quizService.getQuizSession.mockResolvedValue(openSession);
+      quizService.closeQuestion.mockResolvedValue({
+        ...openSession,
+        questionPhase: QuestionPhase.CLOSED,
+      });
+      quizService.revealQuestion.mockResolvedValue({
+        questionId: 'q1',
+        questionNumber: 1,
+        correctAnswer: 'A',
+        distribution: { A: 0, B: 1, C: 0, D: 0 },
+        unanswered: 1,
+        results: [
+          {
+            userId,
+            username: 'Alice',
+            answered: true,
+            answer: 'B',
+            correct: false,
+            credit: 0,
+            earnedPoints: 0,
+            score: 0,
+            rank: 1,
+          },
+          {
+            userId: 'user2',
+            username: 'Bob',
+            answered: false,
+            correct: false,
+            credit: 0,
+            earnedPoints: 0,
+            score: 0,
+            rank: 2,
+          },
+        ],
+      });
+      quizService.getVisibleLeaderboard.mockResolvedValue([]);
+      quizService.nextQuestion.mockResolvedValue(null);
+      quizService.getFullLeaderboard.mockResolvedValue([]);
+
+      mockServer.emit.mockClear();
+      await gateway.handleNextQuestion({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+
+      const events = mockServer.emit.mock.calls.map(([event]) => event);
+      expect(events).toEqual([
+        'question_closed',
+        'question_revealed',
+        'score_update',
+        'quiz_completed',
+      ]);
+      // Only the player who answered hears their score; the room gets the leaderboard delta
+      expect(mockServer.to).toHaveBeenCalledWith('socket123');
+      expect(quizEvents.publish.mock.calls.map(([, event]) => event)).toEqual([
+        'score_update',
+        'quiz_completed',
+      ]);
+    });
+
+    it('should send scores to players connected to other instances', async () => {
+      const closedSession = {
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+        questionPhase: QuestionPhase.CLOSED,
+      };
+      quizService.getQuizSession.mockResolvedValue(closedSession);
+      quizService.closeQuestion.mockResolvedValue(closedSession);
+      quizService.revealQuestion.mockResolvedValue({
+        questionId: 'q1',
+        questionNumber: 1,
+        correctAnswer: 'A',
+        distribution: { A: 1, B: 0, C: 0, D: 0 },
+        unanswered: 0,
+        results: [
+          {
+            userId: 'remote-user',
+            username: 'Carol',
+            answered: true,
+            answer: 'A',
+            correct: true,
+            credit: 1,
+            earnedPoints: 10,
+            score: 10,
+            rank: 1,
+          },
+        ],
+      });
+      quizService.nextQuestion.mockResolvedValue(null);
+      quizService.getFullLeaderboard.mockResolvedValue([]);
+      // Joined through another instance, so only the shared presence knows the socket
+      await presence.attach('ABC123', 'remote-user', 'remote-socket');
+      quizService.getQuizSession.mockResolvedValueOnce({
+        ...closedSession,
+        questionPhase: QuestionPhase.OPEN,
+      });
+
+      await gateway.handleNextQuestion({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+
+      expect(mockServer.to).toHaveBeenCalledWith('remote-socket');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'score_update',
+        expect.objectContaining({ userId: 'remote-user', score: 10 }),
+      );
+      expect(quizEvents.publish).toHaveBeenCalledWith(
+        'ABC123',
+        'score_update',
+        expect.objectContaining({ userId: 'remote-user', score: 10 }),
+      );
+      expect(leaderboardBroadcast.schedule).toHaveBeenCalledWith('ABC123', expect.any(Function));
+      expect(leaderboardBroadcast.clear).toHaveBeenCalledWith('ABC123');
     });
 
     it('should handle quiz completion', async () => {
@@ -309,28 +1117,215 @@ describe('QuizGateway', () => {
       quizService.getQuizSession.mockResolvedValue(mockSession);
       quizService.getFullLeaderboard.mockResolvedValue(mockLeaderboard);
 
-      const result = await gateway.handleNextQuestion({ quizId: 'ABC123' });
+      const result = await gateway.handleNextQuestion(
+        { quizId: 'ABC123', hostToken: 'host-token' },
+        mockClient,
+      );
 
       expect(mockServer.to).toHaveBeenCalledWith('ABC123');
       expect(result.event).toBe('quiz_completed');
-      expect(result.data.leaderboard).toEqual(mockLeaderboard);
+      if ('leaderboard' in result.data) {
+        expect(result.data.leaderboard).toEqual(mockLeaderboard);
+      }
+      // The host gets the same payload as the room
+      expect(mockServer.emit).toHaveBeenCalledWith('quiz_completed', result.data);
+    });
+  });
+
+  describe('host authorization', () => {
+    it('should reject start_quiz from a client without host rights', async () => {
+      quizService.authorizeHost.mockRejectedValue(
+        new ForbiddenException({ code: 'NOT_HOST', message: 'Only the quiz host can do this' }),
+      );
+
+      const result = await gateway.handleStartQuiz({ quizId: 'ABC123' }, mockClient);
+
+      expect(quizService.startQuiz).not.toHaveBeenCalled();
+      expect(result.event).toBe('error');
+      expect(result.data).toMatchObject({ code: ErrorCode.NOT_HOST, statusCode: 403 });
+    });
+
+    it('should reject next_question from a client without host rights', async () => {
+      quizService.authorizeHost.mockRejectedValue(
+        new ForbiddenException({ code: 'NOT_HOST', message: 'Only the quiz host can do this' }),
+      );
+
+      const result = await gateway.handleNextQuestion(
+        { quizId: 'ABC123', hostToken: 'wrong' },
+        mockClient,
+      );
+
+      expect(quizService.nextQuestion).not.toHaveBeenCalled();
+      expect(result.event).toBe('error');
+    });
+
+    it('should authorize co-hosts by their participant identity', async () => {
+      const userId = await joinAs(mockClient, 'Alice');
+
+      quizService.authorizeHost.mockResolvedValue('co_host');
+      quizService.nextQuestion.mockResolvedValue(null);
+      quizService.getQuizSession.mockResolvedValue(mockQuizSession);
+      quizService.getFullLeaderboard.mockResolvedValue([]);
+
+      await gateway.handleNextQuestion({ quizId: 'ABC123' }, mockClient);
+
+      expect(quizService.authorizeHost).toHaveBeenCalledWith('ABC123', {
+        hostToken: undefined,
+        userId,
+      });
+      expect(quizService.setHostSocket).not.toHaveBeenCalled();
+      expect(quizService.nextQuestion).toHaveBeenCalledWith('ABC123', 0);
+    });
+
+    it('should remember the host socket when the host token is used', async () => {
+      quizService.startQuiz.mockResolvedValue({
+        ...mockQuizSession,
+        status: QuizStatus.IN_PROGRESS,
+      });
+      quizService.getCurrentQuestion.mockResolvedValue(mockQuizSession.questions[0]);
+
+      await gateway.handleStartQuiz({ quizId: 'ABC123', hostToken: 'host-token' }, mockClient);
+
+      expect(quizService.setHostSocket).toHaveBeenCalledWith('ABC123', 'host-token', 'socket123');
+    });
+  });
+
+  describe('handleClaimHost', () => {
+    it('should register the socket as host and join the room', async () => {
+      const result = await gateway.handleClaimHost(
+        { quizId: 'ABC123', hostToken: 'host-token' },
+        mockClient,
+      );
+
+      expect(quizService.setHostSocket).toHaveBeenCalledWith('ABC123', 'host-token', 'socket123');
+      expect(mockClient.join).toHaveBeenCalledWith('ABC123');
+      expect(result.event).toBe('host_claimed');
+    });
+  });
+
+  describe('handleAddCoHost', () => {
+    it('should delegate control and notify the room', async () => {
+      quizService.addCoHost.mockResolvedValue({ ...mockQuizSession, coHostIds: ['user2'] });
+
+      const result = await gateway.handleAddCoHost({
+        quizId: 'ABC123',
+        hostToken: 'host-token',
+        userId: 'user2',
+      });
+
+      expect(quizService.addCoHost).toHaveBeenCalledWith('ABC123', 'host-token', 'user2');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'cohost_added',
+        expect.objectContaining({ userId: 'user2', coHostIds: ['user2'] }),
+      );
+      expect(result.event).toBe('cohost_updated');
+    });
+  });
+
+  describe('host handover', () => {
+    let participantSocket: Socket;
+    let participantId: string;
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      participantSocket = { ...mockClient, id: 'socket456' } as unknown as Socket;
+
+      quizService.createQuiz.mockResolvedValue(mockQuizSession);
+      await gateway.handleCreateQuiz({ title: 'Test Quiz' }, mockClient);
+
+      participantId = await joinAs(participantSocket, 'Bob');
+
+      quizService.getQuizSession.mockResolvedValue({
+        ...mockQuizSession,
+        hostSocketId: 'socket123',
+      });
+      quizService.getParticipants.mockResolvedValue([
+        {
+          userId: participantId,
+          username: 'Bob',
+          socketId: 'socket456',
+          score: 0,
+          answersSubmitted: 0,
+          joinedAt: new Date(),
+        },
+      ]);
+      quizService.transferHost.mockResolvedValue({
+        ...mockQuizSession,
+        hostToken: 'new-token',
+        hostUserId: participantId,
+      });
+    });
+
+    afterEach(() => {
+      gateway.onModuleDestroy();
+      jest.useRealTimers();
+    });
+
+    it('should hand the host role to a connected participant after the grace period', async () => {
+      await gateway.handleDisconnect(mockClient);
+      expect(quizService.transferHost).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(quizService.transferHost).toHaveBeenCalledWith('ABC123', participantId, 'socket456');
+      expect(mockServer.to).toHaveBeenCalledWith('socket456');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'host_assigned',
+        expect.objectContaining({ quizId: 'ABC123', hostToken: 'new-token' }),
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'host_changed',
+        expect.objectContaining({ userId: participantId, username: 'Bob' }),
+      );
+    });
+
+    it('should hand over to a participant connected to another instance', async () => {
+      await presence.release('socket456');
+      await presence.attach('ABC123', participantId, 'remote-socket');
+
+      await gateway.handleDisconnect(mockClient);
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(quizService.transferHost).toHaveBeenCalledWith(
+        'ABC123',
+        participantId,
+        'remote-socket',
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('remote-socket');
+      expect((await presence.release('remote-socket'))?.hostQuizId).toBe('ABC123');
+    });
+
+    it('should not hand over to participants that are no longer connected anywhere', async () => {
+      await presence.release('socket456');
+
+      await gateway.handleDisconnect(mockClient);
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(quizService.transferHost).not.toHaveBeenCalled();
+    });
+
+    it('should keep the host if they reclaim within the grace period', async () => {
+      await gateway.handleDisconnect(mockClient);
+
+      const reconnected = { ...mockClient, id: 'socket789' } as unknown as Socket;
+      await gateway.handleClaimHost({ quizId: 'ABC123', hostToken: 'host-token' }, reconnected);
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(quizService.transferHost).not.toHaveBeenCalled();
     });
   });
 
   describe('broadcastToQuiz', () => {
     it('should broadcast message to quiz room', () => {
-      const data = { message: 'Test broadcast' };
+      const data = { questionId: 'q1', questionNumber: 1, autoAdvance: false };
 
-      gateway.broadcastToQuiz('ABC123', 'test_event', data);
+      gateway.broadcastToQuiz('ABC123', 'question_closed', data);
 
       expect(mockServer.to).toHaveBeenCalledWith('ABC123');
-      expect(mockServer.emit).toHaveBeenCalledWith(
-        'test_event',
-        expect.objectContaining({
-          message: 'Test broadcast',
-          timestamp: expect.any(String),
-        }),
-      );
+      expect(mockServer.emit).toHaveBeenCalledWith('question_closed', {
+        ...data,
+        timestamp: expect.any(String),
+      });
     });
   });
 });
@@ -27,13 +27,50 @@ import {
   OnGatewayDisconnect,
   OnGatewayInit,
 } from '@nestjs/websockets';
-import { Logger, UseFilters, UsePipes, ValidationPipe } from '@nestjs/common';
-import { Server, Socket } from 'socket.io';
+import {
+  ForbiddenException,
+  Logger,
+  OnModuleDestroy,
+  UseFilters,
+  UseInterceptors,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BroadcastOperator, DefaultEventsMap } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { describeError } from '../common/errors/error-body';
+import { ErrorCode } from '../common/errors/error-codes';
 import { QuizService } from './services/quiz.service';
+import { QuestionTimerService } from './services/question-timer.service';
+import { LeaderboardBroadcastService } from './services/leaderboard-broadcast.service';
+import { PresenceService } from './services/presence.service';
+import { QuizEventsService } from './services/quiz-events.service';
 import { JoinQuizDto } from './dto/join-quiz.dto';
+import { RejoinQuizDto } from './dto/rejoin-quiz.dto';
 import { SubmitAnswerDto } from './dto/submit-answer.dto';
 import { CreateQuizDto } from './dto/create-quiz.dto';
+import { HostControlDto, CoHostDto } from './dto/host-control.dto';
+import { LeaderboardSyncDto } from './dto/leaderboard-sync.dto';
 import { WebSocketExceptionFilter } from './filters/ws-exception.filter';
+import { WsAcknowledgementInterceptor } from './interceptors/ws-acknowledgement.interceptor';
+import {
+  QuizSession,
+  QuizStatus,
+  QuestionPhase,
+  SocketPresence,
+} from './interfaces/quiz.interface';
+import {
+  ClientEventName,
+  ClientEventResponse,
+  JoinedPayload,
+  QuizServer,
+  QuizSocket,
+  QuizStartSuccessPayload,
+  ServerEventName,
+  ServerEventPayload,
+  ServerReply,
+} from './protocol/quiz-protocol';
 
 @WebSocketGateway({
   cors: {
@@ -43,24 +80,37 @@ import { WebSocketExceptionFilter } from './filters/ws-exception.filter';
   namespace: '/',
 })
 @UseFilters(WebSocketExceptionFilter)
+@UseInterceptors(WsAcknowledgementInterceptor)
 @UsePipes(new ValidationPipe({ transform: true }))
-export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
+export class QuizGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
   @WebSocketServer()
-  server: Server;
+  server: QuizServer;
 
   private readonly logger = new Logger(QuizGateway.name);
 
-  // Track user to socket mapping for reconnection
-  private userSocketMap = new Map<string, string>(); // userId -> socketId
-  private socketUserMap = new Map<string, { userId: string; quizId: string }>(); // socketId -> user info
-
-  constructor(private readonly quizService: QuizService) {}
+  // Which socket speaks for which participant or host is kept by PresenceService,
+  // so it is shared with the other instances
+  private pendingHandovers = new Map<string, NodeJS.Timeout>(); // quizId -> handover timer
+  private readonly hostHandoverGrace: number;
+
+  constructor(
+    private readonly quizService: QuizService,
+    private readonly questionTimer: QuestionTimerService,
+    private readonly leaderboardBroadcast: LeaderboardBroadcastService,
+    private readonly presence: PresenceService,
+    private readonly quizEvents: QuizEventsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.hostHandoverGrace = this.configService.get<number>('HOST_HANDOVER_GRACE_MS', 30000);
+  }
 
   afterInit() {
     this.logger.log('🔌 WebSocket Gateway initialized');
   }
 
-  async handleConnection(client: Socket) {
+  async handleConnection(client: QuizSocket) {
     this.logger.log(`Client connected: ${client.id}`);
 
     // Send welcome message
@@ -71,14 +121,33 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     });
   }
 
-  async handleDisconnect(client: Socket) {
+  onModuleDestroy() {
+    for (const timeout of this.pendingHandovers.values()) {
+      clearTimeout(timeout);
+    }
+    this.pendingHandovers.clear();
+  }
+
+  async handleDisconnect(client: QuizSocket) {
     this.logger.log(`Client disconnected: ${client.id}`);
 
-    // Get user info from socket
-    const userInfo = this.socketUserMap.get(client.id);
+    // Clean up the socket's mappings (the user keeps a socket they already resumed on).
+    // The participant stays in the store so they can rejoin_quiz with their resume token.
+    let presence: SocketPresence | null;
+    try {
+      presence = await this.presence.release(client.id);
+    } catch (error) {
+      this.logger.error(`Error releasing socket ${client.id}: ${error.message}`);
+      return;
+    }
+
+    // Give the host a grace period to reconnect before handing the role over
+    if (presence?.hostQuizId) {
+      this.scheduleHostHandover(presence.hostQuizId, client.id);
+    }
 
-    if (userInfo) {
-      const { userId, quizId } = userInfo;
+    if (presence?.userId && presence.quizId) {
+      const { userId, quizId } = presence;
 
       // Leave quiz room
       client.leave(quizId);
@@ -89,10 +158,6 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
         timestamp: new Date().toISOString(),
       });
 
-      // Clean up mappings
-      this.userSocketMap.delete(userId);
-      this.socketUserMap.delete(client.id);
-
       this.logger.debug(`User ${userId} disconnected from quiz ${quizId}`);
     }
   }
@@ -102,17 +167,31 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
   /**
    * Create a new quiz session
    */
-  @SubscribeMessage('create_quiz')
+  @SubscribeMessage<ClientEventName>('create_quiz')
   async handleCreateQuiz(
     @MessageBody() createQuizDto: CreateQuizDto,
-    @ConnectedSocket() client: Socket,
-  ) {
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'create_quiz'>> {
     try {
       const quiz = await this.quizService.createQuiz(
         createQuizDto.title,
         createQuizDto.questionCount || 10,
+        {
+          createdBy: createQuizDto.createdBy,
+          timePerQuestion: createQuizDto.timePerQuestion,
+          autoAdvance: createQuizDto.autoAdvance,
+          hostSocketId: client.id,
+          questionIds: createQuizDto.questionIds,
+          questions: createQuizDto.questions,
+          categories: createQuizDto.categories,
+          difficultyDistribution: createQuizDto.difficultyDistribution,
+          scoring: createQuizDto.scoring,
+          tieBreakers: createQuizDto.tieBreakers,
+        },
       );
 
+      await this.presence.trackHost(client.id, quiz.quizId);
+
       this.logger.log(`Quiz created: ${quiz.quizId} by client ${client.id}`);
 
       return {
@@ -122,130 +201,101 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
           title: quiz.title,
           questionCount: quiz.questions.length,
           status: quiz.status,
+          timePerQuestion: quiz.timePerQuestion,
+          autoAdvance: quiz.autoAdvance,
+          scoring: this.quizService.getScoring(quiz),
+          hostToken: quiz.hostToken,
         },
       };
     } catch (error) {
       this.logger.error(`Error creating quiz: ${error.message}`);
-      return {
-        event: 'error',
-        data: {
-          message: 'Failed to create quiz',
-          error: error.message,
-        },
-      };
+      return this.errorReply('create_quiz', error);
     }
   }
 
   /**
    * Join a quiz session
    */
-  @SubscribeMessage('join_quiz')
-  async handleJoinQuiz(@MessageBody() joinQuizDto: JoinQuizDto, @ConnectedSocket() client: Socket) {
+  @SubscribeMessage<ClientEventName>('join_quiz')
+  async handleJoinQuiz(
+    @MessageBody() joinQuizDto: JoinQuizDto,
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'join_quiz'>> {
     try {
-      const { quizId, username } = joinQuizDto;
+      const { quizId, username, playerId } = joinQuizDto;
 
-      // Generate userId (in production, this would come from authentication)
-      const userId = client.id;
+      return {
+        event: 'joined_successfully',
+        data: await this.joinParticipant(quizId, username, playerId, client),
+      };
+    } catch (error) {
+      this.logger.error(`Error joining quiz: ${error.message}`);
+      return this.errorReply('join_quiz', error);
+    }
+  }
 
-      // Join quiz
-      const quiz = await this.quizService.joinQuiz(quizId, userId, username, client.id);
+  /**
+   * Rejoin a quiz after a reconnect, reattaching the new socket to the existing participant
+   */
+  @SubscribeMessage<ClientEventName>('rejoin_quiz')
+  async handleRejoinQuiz(
+    @MessageBody() rejoinQuizDto: RejoinQuizDto,
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'rejoin_quiz'>> {
+    try {
+      const { quizId, resumeToken } = rejoinQuizDto;
 
-      // Join Socket.IO room
-      await client.join(quizId);
+      const participant = await this.quizService.resumeParticipant(quizId, resumeToken, client.id);
+      const { userId, username } = participant;
 
-      // Store user mapping
-      this.userSocketMap.set(userId, client.id);
-      this.socketUserMap.set(client.id, { userId, quizId });
+      await client.join(quizId);
 
-      // Get updated participant list
-      const participants = await this.quizService.getParticipants(quizId);
+      // Detaches the stale socket if it is still around
+      await this.presence.attach(quizId, userId, client.id);
 
-      // Notify all participants in the room
-      this.server.to(quizId).emit('user_joined', {
+      this.server.to(quizId).emit('user_reconnected', {
         userId,
         username,
-        participantCount: participants.length,
         timestamp: new Date().toISOString(),
       });
 
-      // Get current leaderboard
-      const leaderboard = await this.quizService.getLeaderboard(quizId, 10);
+      const snapshot = await this.quizService.getSessionSnapshot(quizId, userId);
 
-      this.logger.log(`User ${username} (${userId}) joined quiz ${quizId}`);
+      this.logger.log(`User ${username} (${userId}) rejoined quiz ${quizId}`);
 
       return {
-        event: 'joined_successfully',
+        event: 'rejoined_successfully',
         data: {
-          quiz: {
-            quizId: quiz.quizId,
-            title: quiz.title,
-            status: quiz.status,
-            currentQuestion: quiz.currentQuestionIndex,
-            totalQuestions: quiz.questions.length,
-          },
           userId,
-          participants: participants.map((p) => ({
-            userId: p.userId,
-            username: p.username,
-            score: p.score,
-          })),
-          leaderboard,
+          username,
+          ...snapshot,
+          leaderboardSeq: await this.leaderboardBroadcast.getSeq(quizId),
         },
       };
     } catch (error) {
-      this.logger.error(`Error joining quiz: ${error.message}`);
-      return {
-        event: 'error',
-        data: {
-          message: 'Failed to join quiz',
-          error: error.message,
-        },
-      };
+      this.logger.error(`Error rejoining quiz: ${error.message}`);
+      return this.errorReply('rejoin_quiz', error);
     }
   }
 
   /**
    * Start quiz session (admin/creator action)
    */
-  @SubscribeMessage('start_quiz')
-  async handleStartQuiz(@MessageBody() data: { quizId: string }) {
+  @SubscribeMessage<ClientEventName>('start_quiz')
+  async handleStartQuiz(
+    @MessageBody() data: HostControlDto,
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'start_quiz'>> {
     try {
-      const { quizId } = data;
-
-      // Start quiz
-      const quiz = await this.quizService.startQuiz(quizId);
-
-      // Get first question
-      const firstQuestion = await this.quizService.getCurrentQuestion(quizId);
-
-      // Broadcast to all participants
-      this.server.to(quizId).emit('quiz_started', {
-        quiz: {
-          quizId: quiz.quizId,
-          title: quiz.title,
-          totalQuestions: quiz.questions.length,
-          startTime: quiz.startTime,
-        },
-        question: firstQuestion,
-        questionNumber: 1,
-        timestamp: new Date().toISOString(),
-      });
-
-      this.logger.log(`Quiz ${quizId} started`);
+      await this.authorizeControl(data, client);
 
       return {
         event: 'quiz_start_success',
-        data: { quizId, status: 'started' },
+        data: await this.startQuiz(data.quizId),
       };
     } catch (error) {
       this.logger.error(`Error starting quiz: ${error.message}`);
-      return {
-        event: 'error',
-        data: {
-          message: 'Failed to start quiz',
-          error: error.message,
-        },
-      };
+      return this.errorReply('start_quiz', error);
     }
   }
 
@@ -254,17 +304,25 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
   /**
    * Submit answer
    */
-  @SubscribeMessage('submit_answer')
+  @SubscribeMessage<ClientEventName>('submit_answer')
   async handleSubmitAnswer(
     @MessageBody() submitAnswerDto: SubmitAnswerDto,
-    @ConnectedSocket() client: Socket,
-  ) {
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'submit_answer'>> {
     try {
       const { quizId, questionId, answer, timeTaken } = submitAnswerDto;
-      const userId = client.id;
 
-      // Submit answer and get result
-      const result = await this.quizService.submitAnswer(
+      const userInfo = await this.presence.getUser(client.id);
+      if (!userInfo || userInfo.quizId !== quizId) {
+        throw new ForbiddenException({
+          code: ErrorCode.NOT_JOINED,
+          message: 'You must join the quiz before submitting answers',
+        });
+      }
+      const { userId } = userInfo;
+
+      // Submit answer; the outcome is only shared once the question is revealed
+      const receipt = await this.quizService.submitAnswer(
         quizId,
         userId,
         questionId,
@@ -272,51 +330,46 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
         timeTaken,
       );
 
-      // Get participant info
-      const participant = await this.quizService.getParticipant(quizId, userId);
-
-      // Send result to the user
+      // Acknowledge receipt to the user
       client.emit('answer_result', {
-        ...result,
-        questionId,
+        ...receipt,
         timestamp: new Date().toISOString(),
       });
 
-      // Get updated leaderboard
-      const leaderboard = await this.quizService.getLeaderboard(quizId, 10);
-
-      // Broadcast score update to all participants
-      this.server.to(quizId).emit('score_update', {
-        userId,
-        username: participant?.username,
-        score: result.currentScore,
-        rank: result.rank,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Broadcast leaderboard update
-      this.server.to(quizId).emit('leaderboard_update', {
-        leaderboard,
-        timestamp: new Date().toISOString(),
-      });
-
-      this.logger.debug(
-        `Answer submitted by ${userId}: ${result.correct ? 'Correct' : 'Incorrect'} (+${result.earnedPoints} points)`,
-      );
+      this.logger.debug(`Answer submitted by ${userId} for question ${questionId}`);
 
       return {
         event: 'answer_submitted',
-        data: result,
+        data: receipt,
       };
     } catch (error) {
       this.logger.error(`Error submitting answer: ${error.message}`);
+      return this.errorReply('submit_answer', error);
+    }
+  }
+
+  /**
+   * Full leaderboard for a client that missed a leaderboard_update delta
+   */
+  @SubscribeMessage<ClientEventName>('leaderboard_sync')
+  async handleLeaderboardSync(
+    @MessageBody() data: LeaderboardSyncDto,
+  ): Promise<ClientEventResponse<'leaderboard_sync'>> {
+    try {
+      const { quizId } = data;
+      const snapshot = await this.leaderboardBroadcast.getSnapshot(quizId);
+
       return {
-        event: 'error',
+        event: 'leaderboard_sync',
         data: {
-          message: 'Failed to submit answer',
-          error: error.message,
+          quizId,
+          ...snapshot,
+          timestamp: new Date().toISOString(),
         },
       };
+    } catch (error) {
+      this.logger.error(`Error syncing leaderboard: ${error.message}`);
+      return this.errorReply('leaderboard_sync', error);
     }
   }
 
@@ -325,75 +378,505 @@ export class QuizGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
   /**
    * Move to next question (admin/creator action)
    */
-  @SubscribeMessage('next_question')
-  async handleNextQuestion(@MessageBody() data: { quizId: string }) {
+  @SubscribeMessage<ClientEventName>('next_question')
+  async handleNextQuestion(
+    @MessageBody() data: HostControlDto,
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'next_question'>> {
     try {
-      const { quizId } = data;
-      const nextQuestion = await this.quizService.nextQuestion(quizId);
-
-      if (!nextQuestion) {
-        // Quiz completed
-        const session = await this.quizService.getQuizSession(quizId);
-        const finalLeaderboard = await this.quizService.getFullLeaderboard(quizId);
-
-        this.server.to(quizId).emit('quiz_completed', {
-          quiz: {
-            quizId: session.quizId,
-            title: session.title,
-            endTime: session.endTime,
-          },
-          leaderboard: finalLeaderboard,
-          timestamp: new Date().toISOString(),
-        });
+      await this.authorizeControl(data, client);
+      return await this.advanceQuiz(data.quizId);
+    } catch (error) {
+      this.logger.error(`Error moving to next question: ${error.message}`);
+      return this.errorReply('next_question', error);
+    }
+  }
 
-        this.logger.log(`Quiz ${quizId} completed`);
+  // ==================== Host Management Events ====================
 
-        return {
-          event: 'quiz_completed',
-          data: { quizId, leaderboard: finalLeaderboard },
-        };
-      }
+  /**
+   * Reclaim the host role from a new socket (e.g. after a page refresh)
+   */
+  @SubscribeMessage<ClientEventName>('claim_host')
+  async handleClaimHost(
+    @MessageBody() data: HostControlDto,
+    @ConnectedSocket() client: QuizSocket,
+  ): Promise<ClientEventResponse<'claim_host'>> {
+    try {
+      const { quizId, hostToken } = data;
 
-      const session = await this.quizService.getQuizSession(quizId);
+      await this.trackHostSocket(quizId, hostToken ?? '', client);
+      await client.join(quizId);
 
-      // Broadcast next question to all participants
-      this.server.to(quizId).emit('question_next', {
-        question: nextQuestion,
-        questionNumber: session.currentQuestionIndex + 1,
-        totalQuestions: session.questions.length,
+      this.logger.log(`Client ${client.id} claimed host of quiz ${quizId}`);
+
+      return {
+        event: 'host_claimed',
+        data: { quizId },
+      };
+    } catch (error) {
+      this.logger.error(`Error claiming host: ${error.message}`);
+      return this.errorReply('claim_host', error);
+    }
+  }
+
+  /**
+   * Delegate quiz control to a participant (host only)
+   */
+  @SubscribeMessage<ClientEventName>('add_cohost')
+  async handleAddCoHost(
+    @MessageBody() data: CoHostDto,
+  ): Promise<ClientEventResponse<'add_cohost'>> {
+    try {
+      const { quizId, hostToken, userId } = data;
+      const session = await this.quizService.addCoHost(quizId, hostToken, userId);
+
+      this.server.to(quizId).emit('cohost_added', {
+        userId,
+        coHostIds: session.coHostIds,
         timestamp: new Date().toISOString(),
       });
 
-      this.logger.debug(`Moving to next question in quiz ${quizId}`);
-
       return {
-        event: 'next_question_success',
-        data: {
-          question: nextQuestion,
-          questionNumber: session.currentQuestionIndex + 1,
-        },
+        event: 'cohost_updated',
+        data: { quizId, coHostIds: session.coHostIds },
       };
     } catch (error) {
-      this.logger.error(`Error moving to next question: ${error.message}`);
+      this.logger.error(`Error adding co-host: ${error.message}`);
+      return this.errorReply('add_cohost', error);
+    }
+  }
+
+  /**
+   * Revoke a participant's co-host role (host only)
+   */
+  @SubscribeMessage<ClientEventName>('remove_cohost')
+  async handleRemoveCoHost(
+    @MessageBody() data: CoHostDto,
+  ): Promise<ClientEventResponse<'remove_cohost'>> {
+    try {
+      const { quizId, hostToken, userId } = data;
+      const session = await this.quizService.removeCoHost(quizId, hostToken, userId);
+
+      this.server.to(quizId).emit('cohost_removed', {
+        userId,
+        coHostIds: session.coHostIds,
+        timestamp: new Date().toISOString(),
+      });
+
       return {
-        event: 'error',
-        data: {
-          message: 'Failed to move to next question',
-          error: error.message,
+        event: 'cohost_updated',
+        data: { quizId, coHostIds: session.coHostIds },
+      };
+    } catch (error) {
+      this.logger.error(`Error removing co-host: ${error.message}`);
+      return this.errorReply('remove_cohost', error);
+    }
+  }
+
+  // ==================== Quiz Progression ====================
+  // Public so that the REST endpoints reach socket clients the same way
+
+  /**
+   * Add a participant and tell the room. The participant's socket, if they
+   * have one, joins the room first so they hear about themselves too.
+   */
+  async joinParticipant(
+    quizId: string,
+    username: string,
+    playerId?: string,
+    client?: QuizSocket,
+  ): Promise<JoinedPayload> {
+    // Generate a stable userId that survives reconnects via the resume token
+    // (in production, this would come from authentication)
+    const userId = uuidv4();
+
+    // Join quiz
+    const quiz = await this.quizService.joinQuiz(quizId, userId, username, client?.id, playerId);
+    const resumeToken = await this.quizService.issueResumeToken(quizId, userId);
+
+    if (client) {
+      // Join Socket.IO room
+      await client.join(quizId);
+
+      // Store user mapping
+      await this.presence.attach(quizId, userId, client.id);
+    }
+
+    // Get updated participant list
+    const participants = await this.quizService.getParticipants(quizId);
+
+    // Notify all participants in the room
+    this.server.to(quizId).emit('user_joined', {
+      userId,
+      username,
+      participantCount: participants.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Scores as of the last reveal; the newcomer reaches everyone else's with the next delta,
+    // which waits for the reveal when they join mid-question
+    const standings = await this.quizService.getVisibleLeaderboard(quizId);
+    const scores = new Map(standings.map((entry) => [entry.userId, entry.score]));
+    if (this.quizService.scoresRevealed(quiz)) {
+      this.scheduleLeaderboardUpdate(quizId);
+    }
+
+    this.logger.log(`User ${username} (${userId}) joined quiz ${quizId}`);
+
+    return {
+      quiz: {
+        quizId: quiz.quizId,
+        title: quiz.title,
+        status: quiz.status,
+        currentQuestion: quiz.currentQuestionIndex,
+        totalQuestions: quiz.questions.length,
+        scoring: this.quizService.getScoring(quiz),
+      },
+      userId,
+      resumeToken,
+      participants: participants.map((p) => ({
+        userId: p.userId,
+        username: p.username,
+        score: scores.get(p.userId) ?? 0,
+      })),
+      leaderboard: standings.slice(0, 10),
+      leaderboardSeq: await this.leaderboardBroadcast.getSeq(quizId),
+    };
+  }
+
+  /**
+   * Start the quiz and broadcast its first question. The caller must have
+   * authorized the host.
+   */
+  async startQuiz(quizId: string): Promise<QuizStartSuccessPayload> {
+    // Start quiz
+    const quiz = await this.quizService.startQuiz(quizId);
+
+    // Get first question
+    const firstQuestion = await this.quizService.getCurrentQuestion(quizId);
+
+    // Broadcast to all participants
+    const started = {
+      quiz: {
+        quizId: quiz.quizId,
+        title: quiz.title,
+        totalQuestions: quiz.questions.length,
+        startTime: quiz.startTime,
+      },
+      question: firstQuestion,
+      questionNumber: 1,
+      timeLimit: quiz.timePerQuestion,
+      deadline: quiz.questionDeadline,
+      timestamp: new Date().toISOString(),
+    };
+    this.server.to(quizId).emit('quiz_started', started);
+    await this.quizEvents.publish(quizId, 'quiz_started', started);
+
+    this.scheduleQuestionTimer(quiz, firstQuestion.id);
+
+    this.logger.log(`Quiz ${quizId} started`);
+
+    return { quizId, status: 'started' };
+  }
+
+  /**
+   * Advance the quiz to its next question, or complete it after the last one.
+   * Shared by the host's next_question event, the timer's auto-advance and
+   * the REST API. The caller must have authorized the host. Only moves on
+   * from fromIndex (by default the current question), so advances racing
+   * each other can't skip a question.
+   */
+  async advanceQuiz(
+    quizId: string,
+    fromIndex?: number,
+  ): Promise<ClientEventResponse<'next_question'>> {
+    this.questionTimer.clear(quizId);
+
+    // Skipping ahead early still closes and reveals the current question first
+    const current = await this.quizService.getQuizSession(quizId);
+    const questionIndex = fromIndex ?? current.currentQuestionIndex;
+    if (
+      current.status === QuizStatus.IN_PROGRESS &&
+      current.questionPhase !== QuestionPhase.REVEALED
+    ) {
+      await this.closeAndRevealQuestion(quizId, questionIndex);
+    }
+
+    const nextQuestion = await this.quizService.nextQuestion(quizId, questionIndex);
+
+    if (!nextQuestion) {
+      // Quiz completed; the final leaderboard supersedes any pending delta
+      this.leaderboardBroadcast.clear(quizId);
+      const session = await this.quizService.getQuizSession(quizId);
+      const finalLeaderboard = await this.quizService.getFullLeaderboard(quizId);
+
+      const completed = {
+        quiz: {
+          quizId: session.quizId,
+          title: session.title,
+          endTime: session.endTime,
         },
+        leaderboard: finalLeaderboard,
+        timestamp: new Date().toISOString(),
       };
+      this.server.to(quizId).emit('quiz_completed', completed);
+      await this.quizEvents.publish(quizId, 'quiz_completed', completed);
+
+      this.logger.log(`Quiz ${quizId} completed`);
+
+      return { event: 'quiz_completed', data: completed };
     }
+
+    const session = await this.quizService.getQuizSession(quizId);
+
+    // Broadcast next question to all participants
+    const next = {
+      question: nextQuestion,
+      questionNumber: session.currentQuestionIndex + 1,
+      totalQuestions: session.questions.length,
+      timeLimit: session.timePerQuestion,
+      deadline: session.questionDeadline,
+      timestamp: new Date().toISOString(),
+    };
+    this.server.to(quizId).emit('question_next', next);
+    await this.quizEvents.publish(quizId, 'question_next', next);
+
+    this.scheduleQuestionTimer(session, nextQuestion.id);
+
+    this.logger.debug(`Moving to next question in quiz ${quizId}`);
+
+    return {
+      event: 'next_question_success',
+      data: {
+        question: nextQuestion,
+        questionNumber: session.currentQuestionIndex + 1,
+      },
+    };
   }
 
-  // ==================== Utility Methods ====================
+  // ==================== Question Timer ====================
 
   /**
-   * Broadcast message to all clients in a quiz room
+   * Run the countdown for the question that was just broadcast
+   */
+  private scheduleQuestionTimer(session: QuizSession, questionId: string) {
+    const { quizId, questionDeadline, autoAdvance, currentQuestionIndex } = session;
+    if (!questionDeadline) return;
+
+    this.questionTimer.start(quizId, questionDeadline, {
+      onTick: (remainingSeconds) => {
+        this.server.to(quizId).emit('question_tick', {
+          questionId,
+          remainingSeconds,
+          timestamp: new Date().toISOString(),
+        });
+      },
+      onClose: async () => {
+        await this.closeAndRevealQuestion(quizId, currentQuestionIndex);
+      },
+      onAdvance: autoAdvance
+        ? async () => {
+            await this.autoAdvance(quizId, currentQuestionIndex);
+          }
+        : undefined,
+    });
+  }
+
+  /**
+   * Move on from a question whose timer ran out. Timers run on the instance
+   * that broadcast the question, while the host's next_question may reach
+   * another one; a quiz that has moved on since stays where it is.
+   */
+  private async autoAdvance(quizId: string, questionIndex: number) {
+    const session = await this.quizService.getQuizSession(quizId);
+    if (
+      session.status !== QuizStatus.IN_PROGRESS ||
+      session.currentQuestionIndex !== questionIndex
+    ) {
+      return;
+    }
+
+    await this.advanceQuiz(quizId, questionIndex);
+  }
+
+  /**
+   * Stop accepting answers to the current question, then broadcast the
+   * correct answer, the answer distribution and everyone's points. The
+   * leaderboard follows as a coalesced delta. Only the call that closes the
+   * question reveals it, so the timer and a host skipping ahead at the
+   * deadline don't both broadcast the outcome, and nothing happens once
+   * questionIndex is no longer the current question.
+   */
+  private async closeAndRevealQuestion(quizId: string, questionIndex: number) {
+    const session = await this.quizService.closeQuestion(quizId, questionIndex);
+    if (!session) return;
+
+    const questionId = session.questions[questionIndex].id;
+
+    this.server.to(quizId).emit('question_closed', {
+      questionId,
+      questionNumber: questionIndex + 1,
+      autoAdvance: session.autoAdvance,
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.debug(`Question ${questionId} closed in quiz ${quizId}`);
+
+    const reveal = await this.quizService.revealQuestion(quizId, questionIndex);
+
+    this.server.to(quizId).emit('question_revealed', {
+      ...reveal,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Scores are only published once the answers behind them are public. Each
+    // player hears their own; everyone else's arrive with the leaderboard delta.
+    // The SSE stream, which displays follow, gets everyone's.
+    const connected = await this.presence.getConnected(quizId);
+    for (const result of reveal.results.filter((r) => r.answered)) {
+      const scoreUpdate = {
+        userId: result.userId,
+        username: result.username,
+        score: result.score,
+        rank: result.rank,
+        timestamp: new Date().toISOString(),
+      };
+
+      const socketId = connected.get(result.userId);
+      if (socketId) {
+        this.server.to(socketId).emit('score_update', scoreUpdate);
+      }
+      await this.quizEvents.publish(quizId, 'score_update', scoreUpdate);
+    }
+
+    this.scheduleLeaderboardUpdate(quizId);
+  }
+
+  /**
+   * Queue a leaderboard_update delta for the room; bursts of changes are
+   * merged into one broadcast per LEADERBOARD_BROADCAST_INTERVAL_MS
+   */
+  private scheduleLeaderboardUpdate(quizId: string) {
+    this.leaderboardBroadcast.schedule(quizId, (delta) => {
+      const update = { ...delta, timestamp: new Date().toISOString() };
+      this.server.to(quizId).emit('leaderboard_update', update);
+      this.quizEvents.publish(quizId, 'leaderboard_update', update); // logs its own failures
+    });
+  }
+
+  // ==================== Host Authorization ====================
+
+  /**
+   * Reject control events unless they come from the host or a co-host
+   */
+  private async authorizeControl(data: HostControlDto, client: QuizSocket): Promise<void> {
+    const userId = (await this.presence.getUser(client.id))?.userId;
+    const role = await this.quizService.authorizeHost(data.quizId, {
+      hostToken: data.hostToken,
+      userId,
+    });
+
+    if (role === 'host' && data.hostToken) {
+      await this.trackHostSocket(data.quizId, data.hostToken, client);
+    }
+  }
+
+  /**
+   * Remember which socket holds the host role and cancel any pending handover
+   */
+  private async trackHostSocket(quizId: string, hostToken: string, client: QuizSocket) {
+    await this.quizService.setHostSocket(quizId, hostToken, client.id);
+    await this.presence.trackHost(client.id, quizId);
+    this.cancelHostHandover(quizId);
+  }
+
+  private scheduleHostHandover(quizId: string, previousSocketId: string) {
+    this.cancelHostHandover(quizId);
+
+    const timeout = setTimeout(() => {
+      this.pendingHandovers.delete(quizId);
+      this.handoverHost(quizId, previousSocketId).catch((error) => {
+        this.logger.error(`Error handing over host of quiz ${quizId}: ${error.message}`);
+      });
+    }, this.hostHandoverGrace);
+
+    this.pendingHandovers.set(quizId, timeout);
+    this.logger.debug(
+      `Host of quiz ${quizId} disconnected, handover in ${this.hostHandoverGrace}ms`,
+    );
+  }
+
+  private cancelHostHandover(quizId: string) {
+    const timeout = this.pendingHandovers.get(quizId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.pendingHandovers.delete(quizId);
+    }
+  }
+
+  /**
+   * Promote a connected co-host, or else the longest-standing connected participant
    */
-  broadcastToQuiz(quizId: string, event: string, data: Record<string, unknown>) {
-    this.server.to(quizId).emit(event, {
-      ...data,
+  private async handoverHost(quizId: string, previousSocketId: string) {
+    const session = await this.quizService.getQuizSession(quizId);
+
+    // The host came back on another socket, or there is nothing left to host
+    if (session.hostSocketId !== previousSocketId || session.status === QuizStatus.COMPLETED) {
+      return;
+    }
+
+    const participants = await this.quizService.getParticipants(quizId);
+    const sockets = await this.presence.getConnected(quizId);
+    const connected = participants
+      .filter((p) => sockets.has(p.userId))
+      .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+    const candidate = connected.find((p) => session.coHostIds.includes(p.userId)) ?? connected[0];
+
+    if (!candidate) {
+      this.logger.warn(`No connected participant to take over as host of quiz ${quizId}`);
+      return;
+    }
+
+    const socketId = sockets.get(candidate.userId)!;
+    const updated = await this.quizService.transferHost(quizId, candidate.userId, socketId);
+    await this.presence.trackHost(socketId, quizId);
+
+    this.server.to(socketId).emit('host_assigned', {
+      quizId,
+      hostToken: updated.hostToken,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.server.to(quizId).emit('host_changed', {
+      userId: candidate.userId,
+      username: candidate.username,
       timestamp: new Date().toISOString(),
     });
   }
+
+  // ==================== Utility Methods ====================
+
+  /**
+   * The error a client event is answered with when its handler fails
+   */
+  private errorReply(event: ClientEventName, error: unknown): ServerReply<'error'> {
+    return {
+      event: 'error',
+      data: { ...describeError(error), event, timestamp: new Date().toISOString() },
+    };
+  }
+
+  /**
+   * Broadcast message to all clients in a quiz room
+   */
+  broadcastToQuiz<E extends ServerEventName>(
+    quizId: string,
+    event: E,
+    data: Omit<ServerEventPayload<E>, 'timestamp'>,
+  ) {
+    const payload = { ...data, timestamp: new Date().toISOString() } as ServerEventPayload<E>;
+    // Socket.IO can't resolve a generic event's parameters, so emit through the untyped room
+    const room: BroadcastOperator<DefaultEventsMap, unknown> = this.server.to(quizId);
+    room.emit(event, payload);
+  }
 }
@@ -9,12 +9,28 @@
 import { Module } from '@nestjs/common';
 import { QuizGateway } from './quiz.gateway';
 import { QuizService } from './services/quiz.service';
-import { QuestionService } from './services/question.service';
+import { QuestionTimerService } from './services/question-timer.service';
+import { LeaderboardBroadcastService } from './services/leaderboard-broadcast.service';
+import { PresenceService } from './services/presence.service';
+import { QuizEventsService } from './services/quiz-events.service';
 import { QuizController } from './quiz.controller';
+import { QuizHistoryController } from './quiz-history.controller';
+import { QuizHistoryService } from './services/quiz-history.service';
+import { QuestionsModule } from '../questions/questions.module';
+import { ArchiveModule } from '../archive/archive.module';
 
 @Module({
-  controllers: [QuizController],
-  providers: [QuizGateway, QuizService, QuestionService],
-  exports: [QuizService, QuestionService],
+  imports: [QuestionsModule, ArchiveModule],
+  controllers: [QuizController, QuizHistoryController],
+  providers: [
+    QuizGateway,
+    QuizService,
+    QuestionTimerService,
+    LeaderboardBroadcastService,
+    PresenceService,
+    QuizEventsService,
+    QuizHistoryService,
+  ],
+  exports: [QuizService],
 })
 export class QuizModule {}
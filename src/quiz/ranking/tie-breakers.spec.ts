@@ -0,0 +1,169 @@
+import { BadRequestException } from '@nestjs/common';
+import { Question } from '../../questions/interfaces/question.interface';
+import { RankEncoding, TieBreaker } from '../interfaces/quiz.interface';
+import { DEFAULT_TIE_BREAKERS, buildRankEncoding, tieBreakerStats } from './tie-breakers';
+
+describe('tie-breakers', () => {
+  const question: Question = {
+    id: 'q1',
+    text: 'What does "happy" mean?',
+    options: ['Sad', 'Joyful', 'Angry', 'Tired'],
+    correctAnswer: 'Joyful',
+    difficulty: 'easy',
+    category: 'emotions',
+    points: 10,
+  };
+  const questions = [1, 2, 3, 4, 5].map((n) => ({ ...question, id: `q${n}` }));
+
+  interface Answer {
+    index: number;
+    correct: boolean;
+    timeTaken: number;
+    points: number;
+  }
+
+  // Mirrors the record-answer script: stats add up, last_correct keeps the latest non-zero value
+  const rankScore = (encoding: RankEncoding, answers: Answer[]) => {
+    let points = 0;
+    const totals: Record<TieBreaker, number> = {
+      correct_answers: 0,
+      answer_time: 0,
+      last_correct: 0,
+    };
+
+    for (const answer of answers) {
+      const stats = tieBreakerStats(encoding, answer.index, answer.correct, answer.timeTaken);
+      points += answer.points;
+      totals.correct_answers += stats.correct_answers;
+      totals.answer_time += stats.answer_time;
+      totals.last_correct = stats.last_correct || totals.last_correct;
+    }
+
+    return (
+      points * encoding.scoreRadix +
+      totals.correct_answers * encoding.weights.correct_answers +
+      totals.answer_time * encoding.weights.answer_time +
+      totals.last_correct * encoding.weights.last_correct
+    );
+  };
+
+  describe('buildRankEncoding', () => {
+    it('should weight the tie-breakers in the given order below the points', () => {
+      const encoding = buildRankEncoding(['correct_answers', 'answer_time'], questions, 30);
+
+      expect(encoding.weights.answer_time).toBe(1);
+      expect(encoding.weights.correct_answers).toBe(5 * encoding.ticksPerQuestion + 1);
+      expect(encoding.weights.last_correct).toBe(0);
+      expect(encoding.scoreRadix).toBe(encoding.weights.correct_answers * 6);
+    });
+
+    it('should use millisecond resolution when it fits', () => {
+      const encoding = buildRankEncoding(DEFAULT_TIE_BREAKERS, questions, 30);
+
+      expect(encoding.timeUnitMs).toBe(1);
+      expect(encoding.ticksPerQuestion).toBe(30000);
+    });
+
+    it('should coarsen the time resolution for long quizzes to keep rank scores exact', () => {
+      const many = Array.from({ length: 100 }, (_, n) => ({
+        ...question,
+        id: `q${n}`,
+        points: 100,
+      }));
+
+      const encoding = buildRankEncoding(DEFAULT_TIE_BREAKERS, many, 300);
+
+      expect(encoding.timeUnitMs).toBeGreaterThan(1);
+      expect((100 * 100 * 5 + 1) * encoding.scoreRadix).toBeLessThanOrEqual(
+        Number.MAX_SAFE_INTEGER,
+      );
+    });
+
+    it('should rank by points alone without tie-breakers', () => {
+      const encoding = buildRankEncoding([], questions, 30);
+
+      expect(encoding.scoreRadix).toBe(1);
+      expect(encoding.weights).toEqual({ correct_answers: 0, answer_time: 0, last_correct: 0 });
+    });
+
+    it('should reject unknown and repeated tie-breakers', () => {
+      expect(() => buildRankEncoding(['fastest_typist' as TieBreaker], questions, 30)).toThrow(
+        BadRequestException,
+      );
+      expect(() => buildRankEncoding(['answer_time', 'answer_time'], questions, 30)).toThrow(
+        'Each tie-breaker can only be used once',
+      );
+    });
+  });
+
+  describe('rank scores', () => {
+    const encoding = buildRankEncoding(DEFAULT_TIE_BREAKERS, questions, 30);
+
+    it('should always put more points first', () => {
+      const more = rankScore(encoding, [{ index: 0, correct: false, timeTaken: 30, points: 1 }]);
+      const fewer = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 0, points: 0 },
+        { index: 1, correct: true, timeTaken: 0, points: 0 },
+      ]);
+
+      expect(more).toBeGreaterThan(fewer);
+    });
+
+    it('should order negative scores below zero', () => {
+      const zero = rankScore(encoding, []);
+      const negative = rankScore(encoding, [{ index: 0, correct: true, timeTaken: 0, points: -1 }]);
+
+      expect(zero).toBeGreaterThan(negative);
+    });
+
+    it('should break ties by the number of fully correct answers', () => {
+      const twoCorrect = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 20, points: 5 },
+        { index: 1, correct: true, timeTaken: 20, points: 5 },
+      ]);
+      const oneCorrect = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 1, points: 10 },
+      ]);
+
+      expect(twoCorrect).toBeGreaterThan(oneCorrect);
+    });
+
+    it('should then prefer less total answer time, counting unanswered questions as the limit', () => {
+      const quick = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 5, points: 10 },
+        { index: 1, correct: false, timeTaken: 4, points: 0 },
+      ]);
+      const slow = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 8, points: 10 },
+        { index: 1, correct: false, timeTaken: 2, points: 0 },
+      ]);
+      const unanswered = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 5, points: 10 },
+      ]);
+
+      expect(quick).toBeGreaterThan(slow);
+      expect(quick).toBeGreaterThan(unanswered);
+    });
+
+    it('should finally prefer the earliest last correct answer', () => {
+      const encoding = buildRankEncoding(['last_correct'], questions, 30);
+
+      const early = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 10, points: 10 },
+        { index: 1, correct: false, timeTaken: 1, points: 0 },
+      ]);
+      const late = rankScore(encoding, [
+        { index: 0, correct: false, timeTaken: 1, points: 0 },
+        { index: 1, correct: true, timeTaken: 10, points: 10 },
+      ]);
+      const sameQuestionSlower = rankScore(encoding, [
+        { index: 0, correct: true, timeTaken: 12, points: 10 },
+      ]);
+      const none = rankScore(encoding, [{ index: 0, correct: false, timeTaken: 1, points: 10 }]);
+
+      expect(early).toBeGreaterThan(late);
+      expect(early).toBeGreaterThan(sameQuestionSlower);
+      expect(late).toBeGreaterThan(none);
+    });
+  });
+});
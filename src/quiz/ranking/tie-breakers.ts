@@ -0,0 +1,103 @@
+/**
+ * Tie-breakers for players with equal points. Each one is turned into a
+ * "higher is better" stat and packed below the points in a single sorted-set
+ * score, so ZREVRANK and ZREVRANGE always agree on the order. Players that are
+ * still level after every tie-breaker are ordered by user ID.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { Question } from '../../questions/interfaces/question.interface';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { RankEncoding, TieBreaker } from '../interfaces/quiz.interface';
+
+// Every tie-breaker, in the order they apply unless the quiz picks its own
+export const TIE_BREAKERS: TieBreaker[] = ['correct_answers', 'answer_time', 'last_correct'];
+
+export const DEFAULT_TIE_BREAKERS = TIE_BREAKERS;
+
+// Most a player can earn per question point: the streak strategy's largest maxMultiplier
+const MAX_POINTS_MULTIPLIER = 5;
+
+// Time resolutions to try, finest first, until the rank score fits in a double exactly
+const TIME_UNITS_MS = [1, 10, 100, 1000, 10000];
+
+/**
+ * Work out how a quiz's points and tie-breaker stats are packed into rank
+ * scores. Throws BadRequestException for unknown or repeated tie-breakers.
+ */
+export function buildRankEncoding(
+  tieBreakers: TieBreaker[],
+  questions: Question[],
+  timePerQuestion: number,
+): RankEncoding {
+  const unknown = tieBreakers.filter((tieBreaker) => !TIE_BREAKERS.includes(tieBreaker));
+  if (unknown.length > 0) {
+    throw new BadRequestException({
+      code: ErrorCode.INVALID_QUIZ_SETTINGS,
+      message: `Unknown tie-breaker "${unknown[0]}". Available: ${TIE_BREAKERS.join(', ')}`,
+    });
+  }
+  if (new Set(tieBreakers).size !== tieBreakers.length) {
+    throw new BadRequestException({
+      code: ErrorCode.INVALID_QUIZ_SETTINGS,
+      message: 'Each tie-breaker can only be used once',
+    });
+  }
+
+  const questionCount = questions.length;
+  const maxPoints =
+    questions.reduce((total, question) => total + question.points, 0) * MAX_POINTS_MULTIPLIER;
+
+  for (const timeUnitMs of TIME_UNITS_MS) {
+    const ticksPerQuestion = Math.ceil((timePerQuestion * 1000) / timeUnitMs);
+    const radixes: Record<TieBreaker, number> = {
+      correct_answers: questionCount + 1,
+      answer_time: questionCount * ticksPerQuestion + 1,
+      last_correct: questionCount * (ticksPerQuestion + 1) + 1,
+    };
+
+    // The last tie-breaker is the least significant digit
+    const weights: Record<TieBreaker, number> = {
+      correct_answers: 0,
+      answer_time: 0,
+      last_correct: 0,
+    };
+    let scoreRadix = 1;
+    for (const tieBreaker of [...tieBreakers].reverse()) {
+      weights[tieBreaker] = scoreRadix;
+      scoreRadix *= radixes[tieBreaker];
+    }
+
+    if ((maxPoints + 1) * scoreRadix <= Number.MAX_SAFE_INTEGER) {
+      return { tieBreakers, timeUnitMs, ticksPerQuestion, questionCount, scoreRadix, weights };
+    }
+  }
+
+  throw new BadRequestException({
+    code: ErrorCode.INVALID_QUIZ_SETTINGS,
+    message: 'The quiz is too long to rank by these tie-breakers',
+  });
+}
+
+/**
+ * What one answer adds to the tie-breaker stats: a fully correct answer
+ * counts once, answer_time grows with the time left on the clock, and
+ * last_correct is the (higher for earlier) position of the answer if it was
+ * correct, or 0 to keep the previous one
+ */
+export function tieBreakerStats(
+  encoding: RankEncoding,
+  questionIndex: number,
+  correct: boolean,
+  timeTaken: number,
+): Record<TieBreaker, number> {
+  const { ticksPerQuestion, questionCount, timeUnitMs } = encoding;
+  const elapsed = Math.min(Math.ceil((timeTaken * 1000) / timeUnitMs), ticksPerQuestion);
+  const finishedAt = questionIndex * (ticksPerQuestion + 1) + elapsed;
+
+  return {
+    correct_answers: correct ? 1 : 0,
+    answer_time: ticksPerQuestion - elapsed,
+    last_correct: correct ? questionCount * (ticksPerQuestion + 1) - finishedAt : 0,
+  };
+}
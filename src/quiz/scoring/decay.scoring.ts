@@ -0,0 +1,23 @@
+/**
+ * Kahoot-style decay: an instant correct answer earns the full points, which
+ * shrink linearly to minShare of them at the deadline
+ */
+
+import { ScoringStrategy } from '../interfaces/quiz.interface';
+
+const DEFAULT_MIN_SHARE = 0.5;
+
+export const decayScoring: ScoringStrategy = {
+  defaults: { minShare: DEFAULT_MIN_SHARE },
+
+  describe(rules) {
+    const minShare = Math.round((rules.minShare ?? DEFAULT_MIN_SHARE) * 100);
+    return `Correct answers earn the full points when instant, dropping to ${minShare}% at the deadline.`;
+  },
+
+  score({ question, credit, timeTaken, timeLimit }, rules) {
+    const minShare = rules.minShare ?? DEFAULT_MIN_SHARE;
+    const elapsed = timeLimit > 0 ? Math.min(Math.max(timeTaken / timeLimit, 0), 1) : 1;
+    return question.points * credit * (1 - (1 - minShare) * elapsed);
+  },
+};
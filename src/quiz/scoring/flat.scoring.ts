@@ -0,0 +1,17 @@
+/**
+ * Flat scoring: every question is worth its points, however long the answer took
+ */
+
+import { ScoringStrategy } from '../interfaces/quiz.interface';
+
+export const flatScoring: ScoringStrategy = {
+  defaults: {},
+
+  describe() {
+    return "Correct answers earn the question's points, however quickly you answer.";
+  },
+
+  score({ question, credit }) {
+    return question.points * credit;
+  },
+};
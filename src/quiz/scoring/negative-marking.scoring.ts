@@ -0,0 +1,25 @@
+/**
+ * Negative marking: wrong answers cost a share of the question's points, so
+ * guessing doesn't pay. Questions left unanswered cost nothing.
+ */
+
+import { ScoringStrategy } from '../interfaces/quiz.interface';
+
+const DEFAULT_PENALTY = 0.25;
+
+export const negativeMarkingScoring: ScoringStrategy = {
+  defaults: { penalty: DEFAULT_PENALTY },
+
+  describe(rules) {
+    const penalty = Math.round((rules.penalty ?? DEFAULT_PENALTY) * 100);
+    return (
+      `Correct answers earn the question's points; wrong answers cost ${penalty}% of them. ` +
+      'Skipping a question costs nothing.'
+    );
+  },
+
+  score({ question, credit }, rules) {
+    if (credit > 0) return question.points * credit;
+    return -question.points * (rules.penalty ?? DEFAULT_PENALTY);
+  },
+};
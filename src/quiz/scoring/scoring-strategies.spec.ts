@@ -0,0 +1,176 @@
+import { BadRequestException } from '@nestjs/common';
+import { Question } from '../../questions/interfaces/question.interface';
+import { ScoringContext, ScoringRules } from '../interfaces/quiz.interface';
+import {
+  SCORING_STRATEGIES,
+  calculateScore,
+  resolveScoringRules,
+  summarizeScoring,
+} from './scoring-strategies';
+
+describe('scoring strategies', () => {
+  const easy: Question = {
+    id: 'q1',
+    text: 'What does "happy" mean?',
+    options: ['Sad', 'Joyful', 'Angry', 'Tired'],
+    correctAnswer: 'Joyful',
+    difficulty: 'easy',
+    category: 'emotions',
+    points: 10,
+  };
+  const hard: Question = { ...easy, id: 'q11', difficulty: 'hard', points: 20 };
+
+  const score = (rules: ScoringRules, context: Partial<ScoringContext> = {}) =>
+    calculateScore(resolveScoringRules(rules), {
+      question: easy,
+      credit: 1,
+      timeTaken: 30,
+      timeLimit: 30,
+      streak: 0,
+      ...context,
+    });
+
+  describe('flat', () => {
+    it('should award the question points regardless of time', () => {
+      expect(score({ strategy: 'flat' }, { timeTaken: 0 })).toBe(10);
+      expect(score({ strategy: 'flat' }, { timeTaken: 30 })).toBe(10);
+    });
+
+    it('should scale points by the answer credit', () => {
+      expect(score({ strategy: 'flat' }, { credit: 0.5 })).toBe(5);
+      expect(score({ strategy: 'flat' }, { credit: 0 })).toBe(0);
+    });
+  });
+
+  describe('time_bonus', () => {
+    const rules: ScoringRules = { strategy: 'time_bonus' };
+
+    it('should return 0 points for incorrect answer', () => {
+      expect(score(rules, { credit: 0, timeTaken: 10 })).toBe(0);
+    });
+
+    it('should return base points for correct answer with no time bonus', () => {
+      expect(score(rules, { timeTaken: 30 })).toBe(10);
+    });
+
+    it('should add time bonus for fast correct answers', () => {
+      // 10 * (1 + ((30-10)/30) * 0.5) = 13.33 -> 13
+      expect(score(rules, { timeTaken: 10 })).toBe(13);
+    });
+
+    it('should return max bonus for instant answer', () => {
+      expect(score(rules, { timeTaken: 0 })).toBe(15);
+      expect(score(rules, { question: hard, timeTaken: 0 })).toBe(30);
+    });
+
+    it('should scale points by the answer credit', () => {
+      expect(score(rules, { question: hard, credit: 0.75 })).toBe(15);
+      expect(score(rules, { credit: 0.75, timeTaken: 0 })).toBe(11);
+    });
+
+    it('should use the configured maximum bonus', () => {
+      expect(score({ strategy: 'time_bonus', maxTimeBonus: 1 }, { timeTaken: 0 })).toBe(20);
+    });
+  });
+
+  describe('streak', () => {
+    const rules: ScoringRules = { strategy: 'streak' };
+
+    it('should raise the multiplier for each correct answer in a row', () => {
+      expect(score(rules, { streak: 0 })).toBe(10);
+      expect(score(rules, { streak: 1 })).toBe(13); // ×1.25
+      expect(score(rules, { streak: 2 })).toBe(15); // ×1.5
+    });
+
+    it('should cap the multiplier', () => {
+      expect(score(rules, { streak: 10 })).toBe(20);
+      expect(score({ strategy: 'streak', maxMultiplier: 1.5 }, { streak: 10 })).toBe(15);
+    });
+
+    it('should not award points for a wrong answer', () => {
+      expect(score(rules, { credit: 0, streak: 3 })).toBe(0);
+    });
+
+    it('should ask for the streak', () => {
+      expect(SCORING_STRATEGIES.streak.usesStreak).toBe(true);
+      expect(SCORING_STRATEGIES.time_bonus.usesStreak).toBeFalsy();
+    });
+  });
+
+  describe('negative_marking', () => {
+    const rules: ScoringRules = { strategy: 'negative_marking' };
+
+    it('should take a share of the points off a wrong answer', () => {
+      expect(score(rules, { credit: 0 })).toBe(-2); // -2.5 rounds up
+      expect(score(rules, { question: hard, credit: 0 })).toBe(-5);
+      expect(score({ strategy: 'negative_marking', penalty: 1 }, { credit: 0 })).toBe(-10);
+    });
+
+    it('should award the points of a right or partly right answer', () => {
+      expect(score(rules)).toBe(10);
+      expect(score(rules, { credit: 0.5 })).toBe(5);
+    });
+
+    it('should not return negative zero without a penalty', () => {
+      expect(score({ strategy: 'negative_marking', penalty: 0 }, { credit: 0 })).toBe(0);
+    });
+  });
+
+  describe('decay', () => {
+    const rules: ScoringRules = { strategy: 'decay' };
+
+    it('should award full points for an instant answer, halving at the deadline', () => {
+      expect(score(rules, { timeTaken: 0 })).toBe(10);
+      expect(score(rules, { timeTaken: 15 })).toBe(8); // 7.5
+      expect(score(rules, { timeTaken: 30 })).toBe(5);
+    });
+
+    it('should use the configured share at the deadline', () => {
+      expect(score({ strategy: 'decay', minShare: 0 }, { timeTaken: 30 })).toBe(0);
+    });
+
+    it('should not award points for a wrong answer', () => {
+      expect(score(rules, { credit: 0, timeTaken: 0 })).toBe(0);
+    });
+  });
+
+  describe('resolveScoringRules', () => {
+    it('should fill in the strategy defaults', () => {
+      expect(resolveScoringRules({ strategy: 'streak', streakStep: 0.5 })).toEqual({
+        strategy: 'streak',
+        streakStep: 0.5,
+        maxMultiplier: 2,
+      });
+      expect(resolveScoringRules({ strategy: 'flat' })).toEqual({ strategy: 'flat' });
+    });
+
+    it('should reject settings of other strategies', () => {
+      expect(() =>
+        resolveScoringRules({ strategy: 'decay', penalty: 0.5, maxTimeBonus: 1 }),
+      ).toThrow('penalty, maxTimeBonus do not apply to decay scoring');
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => resolveScoringRules({ strategy: 'bogus' as 'flat' })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('summarizeScoring', () => {
+    it('should describe every strategy for players', () => {
+      for (const strategy of Object.keys(SCORING_STRATEGIES) as ScoringRules['strategy'][]) {
+        const summary = summarizeScoring(resolveScoringRules({ strategy }));
+        expect(summary.strategy).toBe(strategy);
+        expect(summary.description).toEqual(expect.any(String));
+      }
+    });
+
+    it('should mention the configured settings', () => {
+      expect(
+        summarizeScoring(resolveScoringRules({ strategy: 'negative_marking', penalty: 0.5 }))
+          .description,
+      ).toContain('cost 50%');
+    });
+  });
+});
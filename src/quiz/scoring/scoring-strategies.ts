@@ -0,0 +1,74 @@
+/**
+ * Registry of the scoring strategies a quiz can be created with
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ErrorCode } from '../../common/errors/error-codes';
+import {
+  ScoringContext,
+  ScoringRules,
+  ScoringSetting,
+  ScoringStrategy,
+  ScoringStrategyName,
+  ScoringSummary,
+} from '../interfaces/quiz.interface';
+import { flatScoring } from './flat.scoring';
+import { timeBonusScoring } from './time-bonus.scoring';
+import { streakScoring } from './streak.scoring';
+import { negativeMarkingScoring } from './negative-marking.scoring';
+import { decayScoring } from './decay.scoring';
+
+export const SCORING_STRATEGIES: Record<ScoringStrategyName, ScoringStrategy> = {
+  flat: flatScoring,
+  time_bonus: timeBonusScoring,
+  streak: streakScoring,
+  negative_marking: negativeMarkingScoring,
+  decay: decayScoring,
+};
+
+export const SCORING_STRATEGY_NAMES = Object.keys(SCORING_STRATEGIES) as ScoringStrategyName[];
+
+/**
+ * Complete a quiz's scoring rules with the strategy's defaults. Throws
+ * BadRequestException for settings the strategy doesn't use.
+ */
+export function resolveScoringRules(rules: ScoringRules): ScoringRules {
+  const strategy = SCORING_STRATEGIES[rules.strategy];
+  if (!strategy) {
+    throw new BadRequestException({
+      code: ErrorCode.INVALID_QUIZ_SETTINGS,
+      message: `Unknown scoring strategy "${rules.strategy}". Available: ${SCORING_STRATEGY_NAMES.join(', ')}`,
+    });
+  }
+
+  const settings = (Object.keys(rules) as Array<keyof ScoringRules>).filter(
+    (key): key is ScoringSetting => key !== 'strategy' && rules[key] !== undefined,
+  );
+  const unused = settings.filter((key) => !(key in strategy.defaults));
+  if (unused.length > 0) {
+    throw new BadRequestException({
+      code: ErrorCode.INVALID_QUIZ_SETTINGS,
+      message: `${unused.join(', ')} ${unused.length === 1 ? 'does' : 'do'} not apply to ${rules.strategy} scoring`,
+    });
+  }
+
+  const resolved: ScoringRules = { strategy: rules.strategy, ...strategy.defaults };
+  for (const key of settings) {
+    resolved[key] = rules[key];
+  }
+  return resolved;
+}
+
+/**
+ * Points for one answer, rounded to a whole number (negative for penalties)
+ */
+export function calculateScore(rules: ScoringRules, context: ScoringContext): number {
+  return Math.round(SCORING_STRATEGIES[rules.strategy].score(context, rules)) || 0;
+}
+
+/**
+ * Scoring rules with the description shown to players
+ */
+export function summarizeScoring(rules: ScoringRules): ScoringSummary {
+  return { ...rules, description: SCORING_STRATEGIES[rules.strategy].describe(rules) };
+}
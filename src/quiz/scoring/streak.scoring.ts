@@ -0,0 +1,30 @@
+/**
+ * Streak multiplier: each fully correct answer in a row raises the multiplier
+ * for the next one by streakStep, up to maxMultiplier. Any other answer, or
+ * no answer, resets the streak.
+ */
+
+import { ScoringStrategy } from '../interfaces/quiz.interface';
+
+const DEFAULT_STREAK_STEP = 0.25;
+const DEFAULT_MAX_MULTIPLIER = 2;
+
+export const streakScoring: ScoringStrategy = {
+  defaults: { streakStep: DEFAULT_STREAK_STEP, maxMultiplier: DEFAULT_MAX_MULTIPLIER },
+  usesStreak: true,
+
+  describe(rules) {
+    const step = rules.streakStep ?? DEFAULT_STREAK_STEP;
+    const max = rules.maxMultiplier ?? DEFAULT_MAX_MULTIPLIER;
+    return (
+      `Correct answers earn the question's points; each correct answer in a row adds ×${step} ` +
+      `to the next one, up to ×${max}. A wrong or missed answer resets the streak.`
+    );
+  },
+
+  score({ question, credit, streak }, rules) {
+    const step = rules.streakStep ?? DEFAULT_STREAK_STEP;
+    const max = rules.maxMultiplier ?? DEFAULT_MAX_MULTIPLIER;
+    return question.points * credit * Math.min(1 + step * streak, max);
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Linear time bonus: correct answers earn extra points the faster they come in,
+ * from maxTimeBonus extra for an instant answer down to none at the deadline
+ */
+
+import { ScoringStrategy } from '../interfaces/quiz.interface';
+
+const DEFAULT_MAX_TIME_BONUS = 0.5;
+
+export const timeBonusScoring: ScoringStrategy = {
+  defaults: { maxTimeBonus: DEFAULT_MAX_TIME_BONUS },
+
+  describe(rules) {
+    const bonus = Math.round((rules.maxTimeBonus ?? DEFAULT_MAX_TIME_BONUS) * 100);
+    return `Correct answers earn the question's points plus up to ${bonus}% extra for answering quickly.`;
+  },
+
+  score({ question, credit, timeTaken, timeLimit }, rules) {
+    const points = question.points * credit;
+    if (credit <= 0 || timeTaken >= timeLimit) return points;
+
+    const maxTimeBonus = rules.maxTimeBonus ?? DEFAULT_MAX_TIME_BONUS;
+    return points * (1 + ((timeLimit - timeTaken) / timeLimit) * maxTimeBonus);
+  },
+};
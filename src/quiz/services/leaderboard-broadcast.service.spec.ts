@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LeaderboardBroadcastService } from './leaderboard-broadcast.service';
+import { QuizService } from './quiz.service';
+import { QuizStore } from '../../storage/quiz.store';
+import { InMemoryQuizStore } from '../../storage/in-memory-quiz.store';
+import { LeaderboardEntry } from '../interfaces/quiz.interface';
+
+describe('LeaderboardBroadcastService', () => {
+  let service: LeaderboardBroadcastService;
+  let quizService: jest.Mocked<QuizService>;
+  let store: QuizStore;
+  let configService: ConfigService;
+
+  const alice = { userId: 'alice', username: 'Alice', score: 0, rank: 1 };
+  const bob = { userId: 'bob', username: 'Bob', score: 0, rank: 2 };
+  const carol = { userId: 'carol', username: 'Carol', score: 0, rank: 3 };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardBroadcastService,
+        {
+          provide: QuizService,
+          useValue: {
+            getVisibleLeaderboard: jest.fn(),
+          },
+        },
+        { provide: QuizStore, useValue: new InMemoryQuizStore() },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: number) =>
+              key === 'LEADERBOARD_BROADCAST_INTERVAL_MS' ? 1000 : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeaderboardBroadcastService>(LeaderboardBroadcastService);
+    quizService = module.get(QuizService);
+    store = module.get(QuizStore);
+    configService = module.get(ConfigService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  const standings = (...entries: LeaderboardEntry[]) =>
+    quizService.getVisibleLeaderboard.mockResolvedValue(entries);
+
+  describe('schedule', () => {
+    it('should publish the whole leaderboard as the first delta straight away', async () => {
+      const publish = jest.fn();
+      standings(alice, bob);
+
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(publish).toHaveBeenCalledWith({
+        seq: 1,
+        changes: [alice, bob],
+        removed: [],
+        participantCount: 2,
+      });
+      expect(await service.getSeq('QUIZ123')).toBe(1);
+    });
+
+    it('should coalesce changes within an interval into one delta', async () => {
+      const publish = jest.fn();
+      standings(alice, bob);
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+      publish.mockClear();
+      quizService.getVisibleLeaderboard.mockClear();
+
+      standings(alice, bob, carol);
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(400);
+      standings({ ...bob, score: 10, rank: 1 }, { ...alice, rank: 2 }, carol);
+      service.schedule('QUIZ123', publish);
+      service.schedule('QUIZ123', publish);
+
+      expect(publish).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(600);
+
+      expect(quizService.getVisibleLeaderboard).toHaveBeenCalledTimes(1);
+      expect(publish).toHaveBeenCalledTimes(1);
+      expect(publish).toHaveBeenCalledWith({
+        seq: 2,
+        changes: [{ ...bob, score: 10, rank: 1 }, { ...alice, rank: 2 }, carol],
+        removed: [],
+        participantCount: 3,
+      });
+    });
+
+    it('should only send players whose score or rank changed, and those who left', async () => {
+      const publish = jest.fn();
+      standings(alice, bob, carol);
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+
+      standings({ ...alice, score: 10 }, { ...carol, rank: 2 });
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(publish).toHaveBeenLastCalledWith({
+        seq: 2,
+        changes: [
+          { ...alice, score: 10 },
+          { ...carol, rank: 2 },
+        ],
+        removed: ['bob'],
+        participantCount: 2,
+      });
+    });
+
+    it('should not publish or advance the sequence when nothing changed', async () => {
+      const publish = jest.fn();
+      standings(alice);
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(publish).toHaveBeenCalledTimes(1);
+      expect(await service.getSeq('QUIZ123')).toBe(1);
+    });
+
+    it('should publish changes that arrive while the leaderboard is being read afterwards', async () => {
+      const publish = jest.fn();
+      let release: (entries: LeaderboardEntry[]) => void = () => undefined;
+      quizService.getVisibleLeaderboard.mockReturnValueOnce(
+        new Promise((resolve) => {
+          release = resolve;
+        }),
+      );
+
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+      service.schedule('QUIZ123', publish);
+      standings(alice, { ...bob, score: 10 });
+      release([alice, bob]);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(publish).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(publish.mock.calls.map(([delta]) => delta.seq)).toEqual([1, 2]);
+      expect(publish).toHaveBeenLastCalledWith(
+        expect.objectContaining({ changes: [{ ...bob, score: 10 }] }),
+      );
+    });
+
+    it('should keep separate sequences per quiz', async () => {
+      standings(alice);
+      service.schedule('QUIZ1', jest.fn());
+      service.schedule('QUIZ2', jest.fn());
+      await jest.advanceTimersByTimeAsync(0);
+
+      standings({ ...alice, score: 10 });
+      service.schedule('QUIZ1', jest.fn());
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await service.getSeq('QUIZ1')).toBe(2);
+      expect(await service.getSeq('QUIZ2')).toBe(1);
+    });
+
+    it('should continue one sequence across instances sharing a store', async () => {
+      const other = new LeaderboardBroadcastService(quizService, store, configService);
+      const publish = jest.fn();
+      standings(alice, bob);
+
+      service.schedule('QUIZ123', publish);
+      other.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+
+      standings({ ...alice, score: 10 }, bob);
+      other.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(1000);
+      other.onModuleDestroy();
+
+      expect(publish.mock.calls.map(([delta]) => delta.seq)).toEqual([1, 2]);
+      expect(publish).toHaveBeenLastCalledWith(
+        expect.objectContaining({ changes: [{ ...alice, score: 10 }] }),
+      );
+      expect(await service.getSnapshot('QUIZ123')).toEqual(await other.getSnapshot('QUIZ123'));
+      expect(await service.getSeq('QUIZ123')).toBe(2);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('should return the leaderboard as of the latest delta', async () => {
+      standings(alice, bob);
+      service.schedule('QUIZ123', jest.fn());
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Changed since, but not broadcast yet
+      standings({ ...bob, score: 10, rank: 1 }, { ...alice, rank: 2 });
+
+      expect(await service.getSnapshot('QUIZ123')).toEqual({
+        seq: 1,
+        leaderboard: [alice, bob],
+      });
+    });
+
+    it('should read the current leaderboard before the first delta', async () => {
+      standings(alice);
+
+      expect(await service.getSnapshot('QUIZ123')).toEqual({ seq: 0, leaderboard: [alice] });
+      expect(quizService.getVisibleLeaderboard).toHaveBeenCalledWith('QUIZ123');
+    });
+  });
+
+  describe('clear', () => {
+    it('should drop the pending delta but keep the sequence in the store', async () => {
+      const publish = jest.fn();
+      standings(alice);
+      service.schedule('QUIZ123', publish);
+      await jest.advanceTimersByTimeAsync(0);
+
+      standings({ ...alice, score: 10 });
+      service.schedule('QUIZ123', publish);
+      service.clear('QUIZ123');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(publish).toHaveBeenCalledTimes(1);
+      expect(await service.getSeq('QUIZ123')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Leaderboard Broadcast Service - Coalesced, delta-based leaderboard updates
+ *
+ * Leaderboard changes are collected per quiz and published at most once per
+ * LEADERBOARD_BROADCAST_INTERVAL_MS. Each broadcast only carries the players
+ * whose score or rank changed since the previous one, numbered with a per-quiz
+ * sequence so clients can tell when they missed one and ask for a snapshot.
+ * The sequence and the leaderboard it was diffed against are kept in the quiz
+ * store, so instances sharing a room continue one sequence between them.
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuizService } from './quiz.service';
+import { QuizStore } from '../../storage/quiz.store';
+import {
+  LeaderboardDelta,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+} from '../interfaces/quiz.interface';
+
+export type LeaderboardPublisher = (delta: LeaderboardDelta) => void;
+
+interface BroadcastState {
+  publish?: LeaderboardPublisher;
+  pending: boolean; // changes arrived that have not been published yet
+  flushing: boolean;
+  timeout?: NodeJS.Timeout;
+  lastPublishedAt: number;
+}
+
+@Injectable()
+export class LeaderboardBroadcastService implements OnModuleDestroy {
+  private readonly logger = new Logger(LeaderboardBroadcastService.name);
+  private readonly interval: number;
+
+  // quizId -> pending broadcast on this instance
+  private readonly states = new Map<string, BroadcastState>();
+
+  constructor(
+    private readonly quizService: QuizService,
+    private readonly store: QuizStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.interval = this.configService.get<number>('LEADERBOARD_BROADCAST_INTERVAL_MS', 1000);
+  }
+
+  onModuleDestroy() {
+    for (const quizId of [...this.states.keys()]) {
+      this.clear(quizId);
+    }
+  }
+
+  /**
+   * Note that a quiz's leaderboard changed. The delta is published right away
+   * when the quiz has been quiet for an interval, otherwise at the end of it,
+   * together with every other change that arrives in the meantime.
+   */
+  schedule(quizId: string, publish: LeaderboardPublisher): void {
+    const state = this.getState(quizId);
+    state.publish = publish;
+    state.pending = true;
+
+    if (!state.timeout && !state.flushing) {
+      this.arm(quizId, state);
+    }
+  }
+
+  /**
+   * The full leaderboard as of the latest published delta
+   */
+  async getSnapshot(quizId: string): Promise<LeaderboardSnapshot> {
+    const snapshot = await this.store.getLeaderboardSnapshot(quizId);
+    if (snapshot) {
+      return snapshot;
+    }
+
+    // Nothing published yet; the first delta will list every player anyway
+    return { seq: 0, leaderboard: await this.quizService.getVisibleLeaderboard(quizId) };
+  }
+
+  /**
+   * Sequence number of the latest published delta (0 before the first one)
+   */
+  async getSeq(quizId: string): Promise<number> {
+    return this.store.getLeaderboardSeq(quizId);
+  }
+
+  /**
+   * Drop a quiz's pending broadcast on this instance, e.g. once it has
+   * completed. The sequence stays in the store until the quiz is cleaned up.
+   */
+  clear(quizId: string): void {
+    const state = this.states.get(quizId);
+    if (!state) return;
+
+    clearTimeout(state.timeout);
+    this.states.delete(quizId);
+  }
+
+  private getState(quizId: string): BroadcastState {
+    let state = this.states.get(quizId);
+    if (!state) {
+      state = { pending: false, flushing: false, lastPublishedAt: 0 };
+      this.states.set(quizId, state);
+    }
+    return state;
+  }
+
+  private arm(quizId: string, state: BroadcastState) {
+    const delay = Math.max(state.lastPublishedAt + this.interval - Date.now(), 0);
+
+    state.timeout = setTimeout(() => {
+      state.timeout = undefined;
+      this.flush(quizId, state).catch((error) => {
+        this.logger.error(`Error broadcasting leaderboard of quiz ${quizId}: ${error.message}`);
+      });
+    }, delay);
+  }
+
+  private async flush(quizId: string, state: BroadcastState) {
+    state.pending = false;
+    state.flushing = true;
+
+    try {
+      // While a question awaits its reveal this is the snapshot itself, so nothing is published
+      const [previous, leaderboard] = await Promise.all([
+        this.store.getLeaderboardSnapshot(quizId),
+        this.quizService.getVisibleLeaderboard(quizId),
+      ]);
+
+      // Cleared while the leaderboard was being read
+      if (this.states.get(quizId) !== state) return;
+
+      const delta = this.diff(previous?.leaderboard ?? [], leaderboard);
+      state.lastPublishedAt = Date.now();
+      if (delta.changes.length === 0 && delta.removed.length === 0) return;
+
+      const seq = (previous?.seq ?? 0) + 1;
+      if (await this.store.saveLeaderboardSnapshot(quizId, { seq, leaderboard })) {
+        state.publish?.({ seq, ...delta, participantCount: leaderboard.length });
+      } else {
+        // Another instance published first; diff against its snapshot next time
+        state.pending = true;
+      }
+    } finally {
+      state.flushing = false;
+      if (state.pending && this.states.get(quizId) === state) {
+        this.arm(quizId, state);
+      }
+    }
+  }
+
+  private diff(previous: LeaderboardEntry[], current: LeaderboardEntry[]) {
+    const before = new Map(previous.map((entry) => [entry.userId, entry]));
+    const after = new Set(current.map((entry) => entry.userId));
+
+    const changes = current.filter((entry) => {
+      const old = before.get(entry.userId);
+      return !old || old.score !== entry.score || old.rank !== entry.rank;
+    });
+    const removed = previous
+      .filter((entry) => !after.has(entry.userId))
+      .map((entry) => entry.userId);
+
+    return { changes, removed };
+  }
+}
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { PresenceService } from './presence.service';
+import { RedisService } from '../../redis/redis.service';
+import { QuizStore } from '../../storage/quiz.store';
+
+// Run the real Redis commands (including the Lua scripts) against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+describe('PresenceService', () => {
+  let module: TestingModule;
+  let service: PresenceService;
+  let redisService: RedisService;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        RedisService,
+        { provide: QuizStore, useExisting: RedisService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PresenceService>(PresenceService);
+    redisService = module.get<RedisService>(RedisService);
+    await redisService.onModuleInit();
+    await (redisService.getClient() as Redis).flushall();
+  });
+
+  afterEach(async () => {
+    await redisService.onModuleDestroy();
+    await module.close();
+  });
+
+  it('should map sockets to participants and back', async () => {
+    expect(await service.attach('QUIZ1', 'alice', 'socket-a')).toBeNull();
+    await service.attach('QUIZ1', 'bob', 'socket-b');
+    await service.attach('QUIZ2', 'carol', 'socket-c');
+
+    expect(await service.getUser('socket-a')).toEqual({ userId: 'alice', quizId: 'QUIZ1' });
+    expect(await service.getUser('unknown')).toBeNull();
+    expect(await service.getConnected('QUIZ1')).toEqual(
+      new Map([
+        ['alice', 'socket-a'],
+        ['bob', 'socket-b'],
+      ]),
+    );
+  });
+
+  it('should be shared between instances', async () => {
+    const other = new PresenceService(redisService);
+
+    await service.attach('QUIZ1', 'alice', 'socket-a');
+
+    expect(await other.getUser('socket-a')).toEqual({ userId: 'alice', quizId: 'QUIZ1' });
+    expect((await other.getConnected('QUIZ1')).get('alice')).toBe('socket-a');
+  });
+
+  it('should move a participant to their new socket and detach the old one', async () => {
+    await service.attach('QUIZ1', 'alice', 'socket-a');
+
+    expect(await service.attach('QUIZ1', 'alice', 'socket-a2')).toBe('socket-a');
+    expect(await service.getUser('socket-a')).toBeNull();
+    expect((await service.getConnected('QUIZ1')).get('alice')).toBe('socket-a2');
+  });
+
+  it('should forget a released socket', async () => {
+    await service.attach('QUIZ1', 'alice', 'socket-a');
+
+    expect(await service.release('socket-a')).toEqual({ userId: 'alice', quizId: 'QUIZ1' });
+    expect(await service.getUser('socket-a')).toBeNull();
+    expect(await service.getConnected('QUIZ1')).toEqual(new Map());
+    expect(await service.release('socket-a')).toBeNull();
+  });
+
+  it('should keep the new socket when the old one disconnects after a rejoin', async () => {
+    await service.attach('QUIZ1', 'alice', 'socket-a');
+    await service.attach('QUIZ1', 'alice', 'socket-a2');
+
+    await service.release('socket-a');
+
+    expect((await service.getConnected('QUIZ1')).get('alice')).toBe('socket-a2');
+  });
+
+  it('should report the quiz a released socket was hosting', async () => {
+    await service.trackHost('socket-h', 'QUIZ1');
+    await service.attach('QUIZ1', 'alice', 'socket-a');
+    await service.trackHost('socket-a', 'QUIZ1');
+
+    expect(await service.getUser('socket-h')).toBeNull();
+    expect(await service.release('socket-h')).toEqual({ hostQuizId: 'QUIZ1' });
+    expect(await service.release('socket-a')).toEqual({
+      userId: 'alice',
+      quizId: 'QUIZ1',
+      hostQuizId: 'QUIZ1',
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Presence Service - Which socket speaks for which participant or host
+ *
+ * The mappings live in the quiz store rather than in the gateway so that, with
+ * Redis, every app instance behind the load balancer sees the same picture: a
+ * reveal on one instance can reach a player connected to another, and a host
+ * handover only considers players that are connected anywhere.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { QuizStore } from '../../storage/quiz.store';
+import { SocketPresence } from '../interfaces/quiz.interface';
+
+@Injectable()
+export class PresenceService {
+  constructor(private readonly store: QuizStore) {}
+
+  /**
+   * Attach a participant to a socket. A socket the participant used before is
+   * detached and its id returned.
+   */
+  async attach(quizId: string, userId: string, socketId: string): Promise<string | null> {
+    return await this.store.attachSocket(quizId, userId, socketId);
+  }
+
+  /**
+   * The participant a socket speaks for, if any
+   */
+  async getUser(socketId: string): Promise<{ userId: string; quizId: string } | null> {
+    const presence = await this.store.getSocketPresence(socketId);
+    if (!presence?.userId || !presence.quizId) return null;
+
+    return { userId: presence.userId, quizId: presence.quizId };
+  }
+
+  /**
+   * Connected participants of a quiz: userId -> socketId
+   */
+  async getConnected(quizId: string): Promise<Map<string, string>> {
+    return new Map(Object.entries(await this.store.getQuizSockets(quizId)));
+  }
+
+  /**
+   * Note that a socket holds the host role of a quiz
+   */
+  async trackHost(socketId: string, quizId: string): Promise<void> {
+    await this.store.setSocketHost(socketId, quizId);
+  }
+
+  /**
+   * Forget a disconnected socket, returning what it was attached to. The
+   * participant keeps the socket they moved to if they already rejoined.
+   */
+  async release(socketId: string): Promise<SocketPresence | null> {
+    return await this.store.releaseSocket(socketId);
+  }
+}
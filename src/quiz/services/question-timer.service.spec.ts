@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QuestionTimerService } from './question-timer.service';
+
+describe('QuestionTimerService', () => {
+  let service: QuestionTimerService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionTimerService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => {
+              const config: Record<string, any> = {
+                QUESTION_TICK_INTERVAL_MS: 1000,
+                AUTO_ADVANCE_DELAY_MS: 3000,
+                LATE_ANSWER_GRACE_MS: 0,
+              };
+              return config[key] ?? defaultValue;
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuestionTimerService>(QuestionTimerService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('start', () => {
+    it('should tick with the remaining seconds until the deadline', () => {
+      const onTick = jest.fn();
+
+      service.start('QUIZ123', Date.now() + 5000, { onTick, onClose: jest.fn() });
+      jest.advanceTimersByTime(2000);
+
+      expect(onTick).toHaveBeenCalledTimes(2);
+      expect(onTick).toHaveBeenLastCalledWith(3);
+    });
+
+    it('should close the question when the deadline passes', async () => {
+      const onTick = jest.fn();
+      const onClose = jest.fn();
+
+      service.start('QUIZ123', Date.now() + 5000, { onTick, onClose });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(service.isRunning('QUIZ123')).toBe(false);
+
+      onTick.mockClear();
+      jest.advanceTimersByTime(5000);
+      expect(onTick).not.toHaveBeenCalled();
+    });
+
+    it('should wait out the late-answer grace before closing', async () => {
+      const graceful = new QuestionTimerService({
+        get: jest.fn((key: string, defaultValue?: number) =>
+          key === 'LATE_ANSWER_GRACE_MS' ? 500 : defaultValue,
+        ),
+      } as unknown as ConfigService);
+      const onTick = jest.fn();
+      const onClose = jest.fn();
+
+      graceful.start('QUIZ123', Date.now() + 5000, { onTick, onClose });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(onTick).toHaveBeenLastCalledWith(0);
+      expect(onClose).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(onClose).toHaveBeenCalledTimes(1);
+
+      graceful.onModuleDestroy();
+    });
+
+    it('should auto-advance after the configured delay', async () => {
+      const onAdvance = jest.fn();
+
+      service.start('QUIZ123', Date.now() + 5000, {
+        onTick: jest.fn(),
+        onClose: jest.fn(),
+        onAdvance,
+      });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(onAdvance).not.toHaveBeenCalled();
+      expect(service.isRunning('QUIZ123')).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(onAdvance).toHaveBeenCalledTimes(1);
+      expect(service.isRunning('QUIZ123')).toBe(false);
+    });
+
+    it('should replace an existing timer for the same quiz', async () => {
+      const firstClose = jest.fn();
+      const secondClose = jest.fn();
+
+      service.start('QUIZ123', Date.now() + 5000, { onTick: jest.fn(), onClose: firstClose });
+      service.start('QUIZ123', Date.now() + 10000, { onTick: jest.fn(), onClose: secondClose });
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(firstClose).not.toHaveBeenCalled();
+      expect(secondClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a timer started while the previous question was closing', async () => {
+      const secondClose = jest.fn();
+      const firstAdvance = jest.fn();
+      const onClose = () => {
+        // The host skips ahead while the close is in flight
+        service.start('QUIZ123', Date.now() + 10000, { onTick: jest.fn(), onClose: secondClose });
+      };
+
+      service.start('QUIZ123', Date.now() + 5000, {
+        onTick: jest.fn(),
+        onClose,
+        onAdvance: firstAdvance,
+      });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(service.isRunning('QUIZ123')).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(firstAdvance).not.toHaveBeenCalled();
+      expect(secondClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('clear', () => {
+    it('should cancel a pending close and auto-advance', async () => {
+      const onClose = jest.fn();
+      const onAdvance = jest.fn();
+
+      service.start('QUIZ123', Date.now() + 5000, { onTick: jest.fn(), onClose, onAdvance });
+      service.clear('QUIZ123');
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(onClose).not.toHaveBeenCalled();
+      expect(onAdvance).not.toHaveBeenCalled();
+      expect(service.isRunning('QUIZ123')).toBe(false);
+    });
+  });
+
+  describe('getRemainingSeconds', () => {
+    it('should never return a negative value', () => {
+      expect(service.getRemainingSeconds(Date.now() - 1000)).toBe(0);
+      expect(service.getRemainingSeconds(Date.now() + 1500)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Question Timer Service - Server-side countdown for the active question of each quiz
+ *
+ * The deadline itself lives on the QuizSession; this service only drives the
+ * periodic ticks, the close notification and the optional auto-advance. The
+ * question closes once the late-answer grace after the deadline has passed.
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export interface QuestionTimerHandlers {
+  onTick: (remainingSeconds: number) => void;
+  onClose: () => void | Promise<void>;
+  onAdvance?: () => void | Promise<void>;
+}
+
+interface ActiveTimer {
+  interval?: NodeJS.Timeout;
+  closeTimeout?: NodeJS.Timeout;
+  advanceTimeout?: NodeJS.Timeout;
+}
+
+@Injectable()
+export class QuestionTimerService implements OnModuleDestroy {
+  private readonly logger = new Logger(QuestionTimerService.name);
+  private readonly tickInterval: number;
+  private readonly autoAdvanceDelay: number;
+  private readonly lateAnswerGrace: number;
+
+  // quizId -> running timers for the current question
+  private readonly timers = new Map<string, ActiveTimer>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.tickInterval = this.configService.get<number>('QUESTION_TICK_INTERVAL_MS', 1000);
+    this.autoAdvanceDelay = this.configService.get<number>('AUTO_ADVANCE_DELAY_MS', 3000);
+    this.lateAnswerGrace = this.configService.get<number>('LATE_ANSWER_GRACE_MS', 500);
+  }
+
+  onModuleDestroy() {
+    for (const quizId of [...this.timers.keys()]) {
+      this.clear(quizId);
+    }
+  }
+
+  /**
+   * Start the countdown for the current question, replacing any previous timer
+   */
+  start(quizId: string, deadline: number, handlers: QuestionTimerHandlers): void {
+    this.clear(quizId);
+
+    const timer: ActiveTimer = {};
+    this.timers.set(quizId, timer);
+
+    timer.interval = setInterval(() => {
+      handlers.onTick(this.getRemainingSeconds(deadline));
+    }, this.tickInterval);
+
+    timer.closeTimeout = setTimeout(
+      async () => {
+        clearInterval(timer.interval);
+        timer.interval = undefined;
+
+        try {
+          await handlers.onClose();
+        } catch (error) {
+          this.logger.error(`Error closing question for quiz ${quizId}: ${error.message}`);
+        }
+
+        // A newer timer may have replaced this one while the question closed
+        if (this.timers.get(quizId) !== timer) return;
+        if (!handlers.onAdvance) {
+          this.timers.delete(quizId);
+          return;
+        }
+
+        timer.advanceTimeout = setTimeout(async () => {
+          if (this.timers.get(quizId) === timer) this.timers.delete(quizId);
+          try {
+            await handlers.onAdvance?.();
+          } catch (error) {
+            this.logger.error(`Error auto-advancing quiz ${quizId}: ${error.message}`);
+          }
+        }, this.autoAdvanceDelay);
+      },
+      Math.max(deadline + this.lateAnswerGrace - Date.now(), 0),
+    );
+
+    this.logger.debug(`Started question timer for quiz ${quizId}`);
+  }
+
+  /**
+   * Stop all pending timers for a quiz
+   */
+  clear(quizId: string): void {
+    const timer = this.timers.get(quizId);
+    if (!timer) return;
+
+    clearInterval(timer.interval);
+    clearTimeout(timer.closeTimeout);
+    clearTimeout(timer.advanceTimeout);
+    this.timers.delete(quizId);
+  }
+
+  /**
+   * Check if a quiz has a running timer
+   */
+  isRunning(quizId: string): boolean {
+    return this.timers.has(quizId);
+  }
+
+  /**
+   * Whole seconds left until the deadline (never negative)
+   */
+  getRemainingSeconds(deadline: number): number {
+    return Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+  }
+}
@@ -0,0 +1,186 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Subscription } from 'rxjs';
+import { QuizEventsService } from './quiz-events.service';
+import { InMemoryQuizStore } from '../../storage/in-memory-quiz.store';
+import { RedisService } from '../../redis/redis.service';
+import { QuizEvent, QuizSession, QuizStatus } from '../interfaces/quiz.interface';
+
+// Run the Redis relay against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+describe('QuizEventsService', () => {
+  let store: InMemoryQuizStore;
+  let service: QuizEventsService;
+  let subscriptions: Subscription[];
+
+  const config = (values: Record<string, unknown> = {}) =>
+    ({
+      get: (key: string, defaultValue?: unknown) => values[key] ?? defaultValue,
+    }) as ConfigService;
+
+  const session = (status: QuizStatus): QuizSession => ({
+    quizId: 'QUIZ01',
+    title: 'Vocabulary',
+    status,
+    questions: [],
+    currentQuestionIndex: 0,
+    createdAt: new Date(),
+    maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: false,
+    hostToken: 'host-token',
+    coHostIds: [],
+  });
+
+  // Collects what a stream emits and whether it ended
+  const follow = (lastEventId?: number, events = service) => {
+    const received: QuizEvent[] = [];
+    const state = { received, completed: false };
+    subscriptions.push(
+      events.stream('QUIZ01', lastEventId).subscribe({
+        next: (event) => received.push(event),
+        complete: () => (state.completed = true),
+      }),
+    );
+    return state;
+  };
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    store = new InMemoryQuizStore();
+    service = new QuizEventsService(store, config());
+    subscriptions = [];
+    await store.createQuizSession('QUIZ01', session(QuizStatus.IN_PROGRESS));
+  });
+
+  afterEach(async () => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    await service.onModuleDestroy();
+  });
+
+  it('should deliver published events to open streams, numbered per quiz', async () => {
+    const stream = follow();
+    await settle();
+
+    await service.publish('QUIZ01', 'question_next', { questionNumber: 2 });
+    await service.publish('QUIZ02', 'question_next', { questionNumber: 5 });
+    await service.publish('QUIZ01', 'leaderboard_update', { seq: 3 });
+
+    expect(stream.received).toEqual([
+      { id: 1, event: 'question_next', data: { questionNumber: 2 } },
+      { id: 2, event: 'leaderboard_update', data: { seq: 3 } },
+    ]);
+  });
+
+  it('should only send new events to a stream opened without Last-Event-ID', async () => {
+    await service.publish('QUIZ01', 'quiz_started', { questionNumber: 1 });
+
+    const stream = follow();
+    await settle();
+    await service.publish('QUIZ01', 'question_next', { questionNumber: 2 });
+
+    expect(stream.received.map((event) => event.id)).toEqual([2]);
+  });
+
+  it('should replay the events after Last-Event-ID before the live ones', async () => {
+    await service.publish('QUIZ01', 'quiz_started', { questionNumber: 1 });
+    await service.publish('QUIZ01', 'score_update', { userId: 'alice', score: 10 });
+    await service.publish('QUIZ01', 'leaderboard_update', { seq: 1 });
+
+    const stream = follow(1);
+    // Published while the replay is being read; still sent once, in order
+    await service.publish('QUIZ01', 'question_next', { questionNumber: 2 });
+    await settle();
+
+    expect(stream.received.map((event) => event.id)).toEqual([2, 3, 4]);
+  });
+
+  it('should end the stream after quiz_completed', async () => {
+    const stream = follow();
+    await settle();
+
+    await service.publish('QUIZ01', 'quiz_completed', { leaderboard: [] });
+    await service.publish('QUIZ01', 'leaderboard_update', { seq: 9 });
+
+    expect(stream.received.map((event) => event.event)).toEqual(['quiz_completed']);
+    expect(stream.completed).toBe(true);
+  });
+
+  it('should end the stream after the replay when the quiz has already completed', async () => {
+    await service.publish('QUIZ01', 'leaderboard_update', { seq: 1 });
+    await store.updateQuizSession('QUIZ01', session(QuizStatus.COMPLETED));
+
+    const stream = follow(0);
+    await settle();
+
+    expect(stream.received.map((event) => event.id)).toEqual([1]);
+    expect(stream.completed).toBe(true);
+  });
+
+  it('should keep only SSE_REPLAY_LIMIT events for replay', async () => {
+    service = new QuizEventsService(store, config({ SSE_REPLAY_LIMIT: 2 }));
+    for (let seq = 1; seq <= 4; seq++) {
+      await service.publish('QUIZ01', 'leaderboard_update', { seq });
+    }
+
+    const stream = follow(0);
+    await settle();
+
+    expect(stream.received.map((event) => event.id)).toEqual([3, 4]);
+  });
+
+  it('should stop delivering to a stream once unsubscribed', async () => {
+    const stream = follow();
+    await settle();
+
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    await service.publish('QUIZ01', 'question_next', { questionNumber: 2 });
+
+    expect(stream.received).toEqual([]);
+  });
+
+  it('should log rather than throw when the event cannot be recorded', async () => {
+    jest.spyOn(store, 'appendEvent').mockRejectedValue(new Error('Connection lost'));
+
+    await expect(
+      service.publish('QUIZ01', 'question_next', { questionNumber: 2 }),
+    ).resolves.toBeUndefined();
+  });
+
+  describe('with Redis', () => {
+    let redis: RedisService;
+    let other: QuizEventsService;
+
+    beforeEach(async () => {
+      redis = new RedisService(config());
+      await redis.onModuleInit();
+      await (redis.getClient() as Redis).flushall();
+      await redis.createQuizSession('QUIZ01', session(QuizStatus.IN_PROGRESS));
+
+      // Two instances sharing one Redis
+      service = new QuizEventsService(redis, config());
+      other = new QuizEventsService(redis, config());
+      await service.onModuleInit();
+      await other.onModuleInit();
+    });
+
+    afterEach(async () => {
+      await other.onModuleDestroy();
+      await redis.onModuleDestroy();
+    });
+
+    it('should deliver events published on one instance to streams on another', async () => {
+      const stream = follow(undefined, other);
+      await settle();
+
+      await service.publish('QUIZ01', 'question_next', { questionNumber: 2 });
+      await settle();
+
+      expect(stream.received).toEqual([
+        { id: 1, event: 'question_next', data: { questionNumber: 2 } },
+      ]);
+    });
+  });
+});
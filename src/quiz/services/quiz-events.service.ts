@@ -0,0 +1,156 @@
+/**
+ * Quiz Events Service - Room broadcasts for Server-Sent Events clients
+ *
+ * The gateway publishes the broadcasts that SSE clients follow. Each one is
+ * recorded in the quiz store under the quiz's next event ID, so a client that
+ * reconnects with Last-Event-ID gets what it missed, and then delivered to the
+ * streams open on every instance: through a Redis channel when the store is
+ * Redis, directly otherwise (the in-memory store only runs as one instance).
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Observable } from 'rxjs';
+import { QuizStore } from '../../storage/quiz.store';
+import { RedisService } from '../../redis/redis.service';
+import { QuizEvent, QuizEventName, QuizStatus } from '../interfaces/quiz.interface';
+
+const QUIZ_EVENTS_CHANNEL = 'quiz:events';
+
+type QuizEventListener = (event: QuizEvent) => void;
+
+@Injectable()
+export class QuizEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QuizEventsService.name);
+  private readonly replayLimit: number;
+
+  // quizId -> open streams on this instance
+  private readonly listeners = new Map<string, Set<QuizEventListener>>();
+  private subscriber?: Redis;
+
+  constructor(
+    private readonly store: QuizStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.replayLimit = this.configService.get<number>('SSE_REPLAY_LIMIT', 1000);
+  }
+
+  async onModuleInit() {
+    if (!(this.store instanceof RedisService)) return;
+
+    this.subscriber = this.store.createClient();
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      const { quizId, event } = JSON.parse(message);
+      this.deliver(quizId, event);
+    });
+    await this.subscriber.subscribe(QUIZ_EVENTS_CHANNEL);
+  }
+
+  async onModuleDestroy() {
+    await this.subscriber?.quit();
+    this.listeners.clear();
+  }
+
+  /**
+   * Record a broadcast and pass it to the quiz's SSE streams. Failures are
+   * logged rather than thrown; the socket broadcast has already gone out.
+   */
+  async publish(quizId: string, event: QuizEventName, data: object): Promise<void> {
+    try {
+      const stored = await this.store.appendEvent(
+        quizId,
+        { event, data: { ...data } },
+        this.replayLimit,
+      );
+
+      if (this.subscriber && this.store instanceof RedisService) {
+        // Comes back through the subscription, here as on every other instance
+        await this.store
+          .getClient()
+          .publish(QUIZ_EVENTS_CHANNEL, JSON.stringify({ quizId, event: stored }));
+      } else {
+        this.deliver(quizId, stored);
+      }
+    } catch (error) {
+      this.logger.error(`Error publishing ${event} for quiz ${quizId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * The quiz's events from now on, preceded by those recorded after
+   * lastEventId when resuming. Ends after quiz_completed, or right after the
+   * replay if the quiz has already completed.
+   */
+  stream(quizId: string, lastEventId?: number): Observable<QuizEvent> {
+    return new Observable<QuizEvent>((subscriber) => {
+      let lastSent = lastEventId ?? 0;
+
+      // Live events wait here until the replay has been sent
+      let pending: QuizEvent[] | null = [];
+
+      const send = (event: QuizEvent) => {
+        if (event.id <= lastSent) return;
+
+        lastSent = event.id;
+        subscriber.next(event);
+        if (event.event === 'quiz_completed') {
+          subscriber.complete();
+        }
+      };
+
+      const listener: QuizEventListener = (event) => {
+        if (pending) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      };
+      this.addListener(quizId, listener);
+
+      this.replay(quizId, lastEventId)
+        .then(async (missed) => {
+          for (const event of [...missed, ...(pending ?? [])]) {
+            send(event);
+          }
+          pending = null;
+
+          const session = await this.store.getQuizSession(quizId);
+          if (!session || session.status === QuizStatus.COMPLETED) {
+            subscriber.complete();
+          }
+        })
+        .catch((error) => subscriber.error(error));
+
+      return () => this.removeListener(quizId, listener);
+    });
+  }
+
+  private async replay(quizId: string, lastEventId?: number): Promise<QuizEvent[]> {
+    if (lastEventId === undefined) return [];
+    return this.store.getEventsSince(quizId, lastEventId);
+  }
+
+  private deliver(quizId: string, event: QuizEvent) {
+    for (const listener of this.listeners.get(quizId) ?? []) {
+      listener(event);
+    }
+  }
+
+  private addListener(quizId: string, listener: QuizEventListener) {
+    let listeners = this.listeners.get(quizId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(quizId, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  private removeListener(quizId: string, listener: QuizEventListener) {
+    const listeners = this.listeners.get(quizId);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(quizId);
+    }
+  }
+}
@@ -0,0 +1,350 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { QuizHistoryService } from './quiz-history.service';
+import { QuizService } from './quiz.service';
+import { QuestionService } from '../../questions/question.service';
+import { QuestionRepository } from '../../questions/repositories/question.repository';
+import { InMemoryQuestionRepository } from '../../questions/repositories/in-memory-question.repository';
+import { QuizStore } from '../../storage/quiz.store';
+import { InMemoryQuizStore } from '../../storage/in-memory-quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { SqliteQuizArchiveRepository } from '../../archive/repositories/sqlite-quiz-archive.repository';
+import { ArchivedQuiz } from '../../archive/interfaces/archive.interface';
+import { AnswerRecord, QuizSession, QuizStatus } from '../interfaces/quiz.interface';
+
+describe('QuizHistoryService', () => {
+  let module: TestingModule;
+  let service: QuizHistoryService;
+  let quizService: QuizService;
+  let store: InMemoryQuizStore;
+  let archive: SqliteQuizArchiveRepository;
+
+  const questions = [
+    {
+      id: 'q1',
+      text: 'What does "happy" mean?',
+      options: ['Sad', 'Joyful'],
+      correctAnswer: 'Joyful',
+      difficulty: 'easy' as const,
+      category: 'emotions',
+      points: 10,
+    },
+    {
+      id: 'q2',
+      text: 'Choose the synonym of "big"',
+      options: ['Small', 'Large'],
+      correctAnswer: 'Large',
+      difficulty: 'easy' as const,
+      category: 'adjectives',
+      points: 10,
+    },
+  ];
+
+  const answer = (given: string, correct: boolean): AnswerRecord => ({
+    answer: given,
+    correct,
+    correctAnswer: 'Joyful',
+    credit: correct ? 1 : 0,
+    earnedPoints: correct ? 10 : 0,
+    timeTaken: 5,
+    submittedAt: new Date('2025-11-10T10:00:05.000Z'),
+  });
+
+  const session = (quizId: string, overrides: Partial<QuizSession> = {}): QuizSession => ({
+    quizId,
+    title: `Quiz ${quizId}`,
+    status: QuizStatus.WAITING,
+    questions,
+    currentQuestionIndex: 0,
+    createdAt: new Date('2025-11-10T10:00:00.000Z'),
+    maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: false,
+    hostToken: 'host-token',
+    coHostIds: [],
+    ...overrides,
+  });
+
+  const archived = (quizId: string, overrides: Partial<ArchivedQuiz> = {}): ArchivedQuiz => ({
+    quizId,
+    title: `Quiz ${quizId}`,
+    createdAt: new Date('2025-11-01T10:00:00.000Z'),
+    endTime: new Date('2025-11-01T10:05:00.000Z'),
+    archivedAt: new Date('2025-11-01T10:05:00.000Z'),
+    timePerQuestion: 30,
+    scoring: { strategy: 'flat', description: 'Flat' },
+    questions,
+    participants: [
+      {
+        userId: 'alice',
+        playerId: 'alice',
+        username: 'Alice',
+        score: 10,
+        rank: 1,
+        correctAnswers: 1,
+        totalAnswers: 2,
+        answers: { q1: answer('Joyful', true), q2: answer('Small', false) },
+      },
+    ],
+    ...overrides,
+  });
+
+  const join = async (quizId: string, userId: string) => {
+    await store.addParticipant(quizId, userId, {
+      userId,
+      username: userId,
+      socketId: `socket-${userId}`,
+      joinedAt: new Date(),
+      score: 0,
+      answersSubmitted: 0,
+    });
+    await store.initializeScore(quizId, userId);
+  };
+
+  beforeEach(async () => {
+    store = new InMemoryQuizStore();
+    archive = new SqliteQuizArchiveRepository(':memory:');
+
+    module = await Test.createTestingModule({
+      providers: [
+        QuizHistoryService,
+        QuizService,
+        QuestionService,
+        { provide: QuestionRepository, useValue: new InMemoryQuestionRepository() },
+        { provide: QuizStore, useValue: store },
+        { provide: QuizArchiveRepository, useValue: archive },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizHistoryService>(QuizHistoryService);
+    quizService = module.get<QuizService>(QuizService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    archive.onModuleDestroy();
+  });
+
+  describe('listQuizzes', () => {
+    beforeEach(async () => {
+      await store.createQuizSession(
+        'LIVE01',
+        session('LIVE01', { createdBy: 'anna', createdAt: new Date('2025-11-10T10:00:00.000Z') }),
+      );
+      await store.createQuizSession(
+        'LIVE02',
+        session('LIVE02', {
+          status: QuizStatus.IN_PROGRESS,
+          createdAt: new Date('2025-11-05T10:00:00.000Z'),
+        }),
+      );
+      await join('LIVE02', 'alice');
+      await archive.save(
+        archived('ARCH01', { createdBy: 'anna', createdAt: new Date('2025-11-07T10:00:00.000Z') }),
+      );
+      await archive.save(archived('ARCH02', { createdAt: new Date('2025-11-01T10:00:00.000Z') }));
+    });
+
+    it('should list live and archived quizzes together, newest first', async () => {
+      const page = await service.listQuizzes();
+
+      expect(page.total).toBe(4);
+      expect(page.items.map((quiz) => [quiz.quizId, quiz.status, quiz.archived])).toEqual([
+        ['LIVE01', QuizStatus.WAITING, false],
+        ['ARCH01', QuizStatus.COMPLETED, true],
+        ['LIVE02', QuizStatus.IN_PROGRESS, false],
+        ['ARCH02', QuizStatus.COMPLETED, true],
+      ]);
+      expect(page.items[2]).toEqual(
+        expect.objectContaining({ questionCount: 2, participantCount: 1 }),
+      );
+    });
+
+    it('should leave completed quizzes to the archive', async () => {
+      await store.createQuizSession(
+        'ARCH01',
+        session('ARCH01', { status: QuizStatus.COMPLETED, createdBy: 'anna' }),
+      );
+
+      const page = await service.listQuizzes();
+
+      expect(page.total).toBe(4);
+      expect(page.items.filter((quiz) => quiz.quizId === 'ARCH01')).toHaveLength(1);
+    });
+
+    it('should filter by status', async () => {
+      const running = await service.listQuizzes({ status: QuizStatus.IN_PROGRESS });
+      const completed = await service.listQuizzes({ status: QuizStatus.COMPLETED });
+
+      expect(running.items.map((quiz) => quiz.quizId)).toEqual(['LIVE02']);
+      expect(completed.items.map((quiz) => quiz.quizId)).toEqual(['ARCH01', 'ARCH02']);
+    });
+
+    it('should filter by creator and creation date', async () => {
+      const byAnna = await service.listQuizzes({ createdBy: 'anna' });
+      const inRange = await service.listQuizzes({
+        from: new Date('2025-11-05T00:00:00.000Z'),
+        to: new Date('2025-11-08T00:00:00.000Z'),
+      });
+
+      expect(byAnna.items.map((quiz) => quiz.quizId)).toEqual(['LIVE01', 'ARCH01']);
+      expect(inRange.items.map((quiz) => quiz.quizId)).toEqual(['ARCH01', 'LIVE02']);
+    });
+
+    it('should page across live and archived quizzes', async () => {
+      const second = await service.listQuizzes({}, 2, 2);
+      const beyond = await service.listQuizzes({}, 3, 2);
+
+      expect(second).toEqual(expect.objectContaining({ total: 4, page: 2, limit: 2 }));
+      expect(second.items.map((quiz) => quiz.quizId)).toEqual(['LIVE02', 'ARCH02']);
+      expect(beyond.items).toEqual([]);
+    });
+  });
+
+  describe('getPlayerResults', () => {
+    /**
+     * Run a two-question quiz to completion. Everyone joins with a new
+     * participant ID, as they do through the gateway, and answers the first
+     * question right or wrong.
+     */
+    const playQuiz = async (
+      players: Array<{ username: string; playerId?: string; right: boolean }>,
+    ) => {
+      const { quizId } = await quizService.createQuiz('Vocabulary', 2);
+      const userIds = players.map(() => uuidv4());
+      for (const [index, player] of players.entries()) {
+        await quizService.joinQuiz(
+          quizId,
+          userIds[index],
+          player.username,
+          undefined,
+          player.playerId,
+        );
+      }
+
+      const [question] = (await quizService.startQuiz(quizId)).questions;
+      for (const [index, player] of players.entries()) {
+        const given = player.right ? question.correctAnswer : 'definitely wrong';
+        await quizService.submitAnswer(quizId, userIds[index], question.id, given);
+      }
+      await quizService.completeQuiz(quizId);
+
+      return { quizId, userIds };
+    };
+
+    it("should list a player's results across quizzes with their accuracy", async () => {
+      const first = await playQuiz([
+        { username: 'Alice', playerId: 'player-alice', right: true },
+        { username: 'Bob', playerId: 'player-bob', right: false },
+      ]);
+      const second = await playQuiz([
+        { username: 'Alice', playerId: 'player-alice', right: false },
+        { username: 'Carol', right: true },
+      ]);
+
+      const page = await service.getPlayerResults('player-alice');
+
+      expect(page).toEqual(expect.objectContaining({ total: 2, page: 1, limit: 20 }));
+      expect(page.items).toHaveLength(2);
+      expect(page.items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            quizId: first.quizId,
+            userId: first.userIds[0],
+            rank: 1,
+            correctAnswers: 1,
+            questionCount: 2,
+            participantCount: 2,
+            accuracy: 50,
+          }),
+          expect.objectContaining({
+            quizId: second.quizId,
+            userId: second.userIds[0],
+            rank: 2,
+            correctAnswers: 0,
+            accuracy: 0,
+          }),
+        ]),
+      );
+      expect((await service.getPlayerResults('player-bob')).total).toBe(1);
+    });
+
+    it('should not list the results of a player who gave no player ID', async () => {
+      const { userIds } = await playQuiz([{ username: 'Carol', right: true }]);
+
+      expect((await service.getPlayerResults(userIds[0])).items).toEqual([]);
+    });
+
+    it('should return an empty page for a player without results', async () => {
+      expect((await service.getPlayerResults('nobody')).items).toEqual([]);
+    });
+  });
+
+  describe('getParticipantAnswers', () => {
+    const correctRank = {
+      scoreRadix: 1000,
+      weights: { correct_answers: 0, answer_time: 0, last_correct: 0 },
+      stats: { correct_answers: 1, answer_time: 5000, last_correct: 1 },
+    };
+
+    it('should review a completed live quiz, unanswered questions included', async () => {
+      await store.createQuizSession('LIVE01', session('LIVE01', { status: QuizStatus.COMPLETED }));
+      await join('LIVE01', 'alice');
+      await store.recordAnswer('LIVE01', 'alice', 'q1', answer('Joyful', true), 10, correctRank);
+
+      const review = await service.getParticipantAnswers('LIVE01', 'alice');
+
+      expect(review).toEqual({
+        quizId: 'LIVE01',
+        userId: 'alice',
+        username: 'alice',
+        score: 10,
+        rank: 1,
+        correctAnswers: 1,
+        totalAnswers: 1,
+        answers: [
+          { question: questions[0], answer: JSON.parse(JSON.stringify(answer('Joyful', true))) },
+          { question: questions[1], answer: null },
+        ],
+      });
+    });
+
+    it('should not reveal answers while the quiz is running', async () => {
+      await store.createQuizSession(
+        'LIVE01',
+        session('LIVE01', { status: QuizStatus.IN_PROGRESS }),
+      );
+      await join('LIVE01', 'alice');
+
+      await expect(service.getParticipantAnswers('LIVE01', 'alice')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should review an archived quiz', async () => {
+      await archive.save(archived('ARCH01'));
+
+      const review = await service.getParticipantAnswers('ARCH01', 'alice');
+
+      expect(review.answers.map((item) => item.answer?.correct)).toEqual([true, false]);
+      expect(review.correctAnswers).toBe(1);
+    });
+
+    it('should throw NotFoundException for an unknown quiz or participant', async () => {
+      await archive.save(archived('ARCH01'));
+
+      await expect(service.getParticipantAnswers('NOPE12', 'alice')).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.getParticipantAnswers('ARCH01', 'bob')).rejects.toThrow(
+        'Participant bob not found in quiz ARCH01',
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Quiz History Service - Quiz listings, player results and answer reviews
+ *
+ * Quizzes that are waiting or in progress come from the live quiz store;
+ * completed quizzes come from the archive, which is written when they
+ * complete and outlives the live session.
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { QuizStore } from '../../storage/quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { ArchivedQuizSummary } from '../../archive/interfaces/archive.interface';
+import { Question } from '../../questions/interfaces/question.interface';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { AnswerRecord, LeaderboardEntry, QuizStatus } from '../interfaces/quiz.interface';
+import {
+  HistoryPage,
+  ParticipantAnswers,
+  QuizListFilter,
+  QuizResult,
+  QuizSummary,
+} from '../interfaces/history.interface';
+
+@Injectable()
+export class QuizHistoryService {
+  constructor(
+    private readonly store: QuizStore,
+    private readonly archive: QuizArchiveRepository,
+  ) {}
+
+  /**
+   * Get a page of quizzes, newest first
+   */
+  async listQuizzes(
+    filter: QuizListFilter = {},
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<HistoryPage<QuizSummary>> {
+    const offset = (page - 1) * limit;
+    const wantsLive = filter.status !== QuizStatus.COMPLETED;
+    const wantsArchived = !filter.status || filter.status === QuizStatus.COMPLETED;
+
+    const live = wantsLive ? await this.listLiveQuizzes(filter) : [];
+    // Enough archived quizzes to fill the page whatever the live ones take of it
+    const archived = wantsArchived
+      ? await this.archive.findQuizzes(
+          { createdBy: filter.createdBy, from: filter.from, to: filter.to },
+          0,
+          offset + limit,
+        )
+      : { items: [], total: 0 };
+
+    const quizzes = [...live, ...archived.items.map(summarizeArchived)].sort(newestFirst);
+
+    return {
+      items: quizzes.slice(offset, offset + limit),
+      total: live.length + archived.total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a page of a player's results in completed quizzes by their player ID, newest first
+   */
+  async getPlayerResults(
+    playerId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<HistoryPage<QuizResult>> {
+    const results = await this.archive.findResultsByPlayer(playerId, (page - 1) * limit, limit);
+
+    return {
+      items: results.items.map((result) => ({
+        ...result,
+        accuracy:
+          result.questionCount > 0
+            ? Math.round((result.correctAnswers / result.questionCount) * 100)
+            : 0,
+      })),
+      total: results.total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Every question of a completed quiz with the answer a participant gave.
+   * Answers stay hidden while the quiz is running.
+   */
+  async getParticipantAnswers(quizId: string, userId: string): Promise<ParticipantAnswers> {
+    const session = await this.store.getQuizSession(quizId);
+
+    if (session) {
+      if (session.status !== QuizStatus.COMPLETED) {
+        throw new BadRequestException({
+          code: ErrorCode.QUIZ_NOT_COMPLETED,
+          message: 'Answers can be reviewed once the quiz has completed',
+        });
+      }
+
+      const leaderboard = await this.store.getFullLeaderboard(quizId);
+      const entry = findEntry(quizId, userId, leaderboard);
+      const answers = await this.store.getAllAnswers(quizId, userId);
+
+      return reviewAnswers(quizId, entry, session.questions, answers);
+    }
+
+    const archived = await this.archive.findById(quizId);
+    if (!archived) {
+      throw new NotFoundException({
+        code: ErrorCode.QUIZ_NOT_FOUND,
+        message: `Quiz ${quizId} not found`,
+      });
+    }
+
+    const participant = findEntry(quizId, userId, archived.participants);
+    return reviewAnswers(quizId, participant, archived.questions, participant.answers);
+  }
+
+  /**
+   * Waiting and running quizzes in the live store that match the filter.
+   * Completed ones are left to the archive.
+   */
+  private async listLiveQuizzes(filter: QuizListFilter): Promise<QuizSummary[]> {
+    const quizIds = await this.store.getLiveQuizzes(Date.now());
+    const sessions = await Promise.all(quizIds.map((quizId) => this.store.getQuizSession(quizId)));
+
+    const matching = sessions.filter(
+      (session): session is NonNullable<typeof session> =>
+        session !== null &&
+        session.status !== QuizStatus.COMPLETED &&
+        (!filter.status || session.status === filter.status) &&
+        (filter.createdBy === undefined || session.createdBy === filter.createdBy) &&
+        (!filter.from || new Date(session.createdAt) >= filter.from) &&
+        (!filter.to || new Date(session.createdAt) <= filter.to),
+    );
+
+    return await Promise.all(
+      matching.map(async (session) => ({
+        quizId: session.quizId,
+        title: session.title,
+        status: session.status,
+        createdBy: session.createdBy,
+        createdAt: new Date(session.createdAt),
+        startTime: session.startTime ? new Date(session.startTime) : undefined,
+        endTime: undefined,
+        questionCount: session.questions.length,
+        participantCount: await this.store.getParticipantCount(session.quizId),
+        archived: false,
+      })),
+    );
+  }
+}
+
+function summarizeArchived(quiz: ArchivedQuizSummary): QuizSummary {
+  return { ...quiz, status: QuizStatus.COMPLETED, archived: true };
+}
+
+function newestFirst(a: QuizSummary, b: QuizSummary): number {
+  const difference = b.createdAt.getTime() - a.createdAt.getTime();
+  if (difference !== 0) return difference;
+  if (a.quizId === b.quizId) return 0;
+  return a.quizId < b.quizId ? 1 : -1;
+}
+
+function findEntry<T extends LeaderboardEntry>(quizId: string, userId: string, entries: T[]): T {
+  const entry = entries.find((candidate) => candidate.userId === userId);
+  if (!entry) {
+    throw new NotFoundException({
+      code: ErrorCode.PARTICIPANT_NOT_FOUND,
+      message: `Participant ${userId} not found in quiz ${quizId}`,
+    });
+  }
+  return entry;
+}
+
+function reviewAnswers(
+  quizId: string,
+  entry: LeaderboardEntry,
+  questions: Question[],
+  answers: Record<string, AnswerRecord>,
+): ParticipantAnswers {
+  return {
+    quizId,
+    userId: entry.userId,
+    username: entry.username,
+    score: entry.score,
+    rank: entry.rank,
+    correctAnswers: entry.correctAnswers ?? 0,
+    totalAnswers: entry.totalAnswers ?? 0,
+    answers: questions.map((question) => ({ question, answer: answers[question.id] ?? null })),
+  };
+}
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { QuizService } from './quiz.service';
+import { QuestionService } from '../../questions/question.service';
+import { QuestionRepository } from '../../questions/repositories/question.repository';
+import { InMemoryQuestionRepository } from '../../questions/repositories/in-memory-question.repository';
+import { RedisService } from '../../redis/redis.service';
+import { QuizStore } from '../../storage/quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { SqliteQuizArchiveRepository } from '../../archive/repositories/sqlite-quiz-archive.repository';
+
+// Run the real Redis commands (including the Lua scripts) against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+/**
+ * Counts Redis round trips (not per-room work) as rooms grow: every direct
+ * command is one round trip, and so is every pipeline, however many commands it holds
+ */
+describe('QuizService (Redis round trips)', () => {
+  let module: TestingModule;
+  let service: QuizService;
+  let redisService: RedisService;
+  let roundTrips = 0;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        QuizService,
+        QuestionService,
+        { provide: QuestionRepository, useValue: new InMemoryQuestionRepository() },
+        RedisService,
+        { provide: QuizStore, useExisting: RedisService },
+        { provide: QuizArchiveRepository, useValue: new SqliteQuizArchiveRepository(':memory:') },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizService>(QuizService);
+    redisService = module.get<RedisService>(RedisService);
+    await redisService.onModuleInit();
+
+    const client = redisService.getClient();
+    await (client as Redis).flushall();
+    redisService['redisClient'] = new Proxy(redisService['redisClient'], {
+      get(target, property) {
+        const value = Reflect.get(target, property);
+        if (typeof value !== 'function') return value;
+
+        return (...args: unknown[]) => {
+          const result = value.apply(target, args);
+          if (property === 'pipeline' || property === 'multi') {
+            const exec = result.exec.bind(result);
+            result.exec = () => {
+              roundTrips++;
+              return exec();
+            };
+          } else {
+            roundTrips++;
+          }
+          return result;
+        };
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await redisService.onModuleDestroy();
+    await module.close();
+  });
+
+  // A started quiz over bank questions q1 ("Joyful") and q2 where every other player answered q1
+  const startRoom = async (players: number) => {
+    const { quizId } = await service.createQuiz('Benchmark Quiz', 2, { questionIds: ['q1', 'q2'] });
+    for (let n = 0; n < players; n++) {
+      await service.joinQuiz(quizId, `user${n}`, `Player ${n}`, `socket${n}`);
+    }
+    await service.startQuiz(quizId);
+    for (let n = 1; n < players; n += 2) {
+      await service.submitAnswer(quizId, `user${n}`, 'q1', n % 4 === 1 ? 'Joyful' : 'Sad');
+    }
+    return quizId;
+  };
+
+  const measure = async (players: number, action: (quizId: string) => Promise<unknown>) => {
+    const quizId = await startRoom(players);
+    roundTrips = 0;
+    await action(quizId);
+    return roundTrips;
+  };
+
+  const sizes = [5, 50];
+
+  it('should use the same number of round trips per submission in any room size', async () => {
+    const counts = [];
+    for (const players of sizes) {
+      counts.push(
+        await measure(players, (quizId) => service.submitAnswer(quizId, 'user0', 'q1', 'Joyful')),
+      );
+    }
+
+    // Session, duplicate check, release time, record-answer script
+    expect(counts).toEqual([4, 4]);
+  });
+
+  it('should read a leaderboard in a fixed number of round trips', async () => {
+    const top = [];
+    const full = [];
+    for (const players of sizes) {
+      top.push(await measure(players, (quizId) => service.getLeaderboard(quizId, 10)));
+      full.push(await measure(players, (quizId) => service.getFullLeaderboard(quizId)));
+    }
+
+    // While q1 awaits its reveal, players see the published snapshot: session and snapshot
+    expect(top).toEqual([2, 2]);
+    // Session, ranking, one pipeline for points, names and answer counts
+    expect(full).toEqual([3, 3]);
+  });
+
+  it('should reveal a question in a fixed number of round trips', async () => {
+    const counts = [];
+    for (const players of sizes) {
+      counts.push(await measure(players, (quizId) => service.revealQuestion(quizId)));
+    }
+
+    expect(counts[1]).toBe(counts[0]);
+  });
+
+  it('should keep answer counts on the leaderboard without reading answers', async () => {
+    const quizId = await startRoom(5);
+
+    const leaderboard = await service.getFullLeaderboard(quizId);
+
+    expect(leaderboard.find((entry) => entry.userId === 'user1')).toMatchObject({
+      correctAnswers: 1,
+      totalAnswers: 1,
+      username: 'Player 1',
+    });
+    expect(leaderboard.find((entry) => entry.userId === 'user3')).toMatchObject({
+      correctAnswers: 0,
+      totalAnswers: 1,
+    });
+    expect(leaderboard.find((entry) => entry.userId === 'user0')).toMatchObject({
+      correctAnswers: 0,
+      totalAnswers: 0,
+    });
+  });
+});
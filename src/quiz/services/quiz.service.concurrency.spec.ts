@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { QuizService } from './quiz.service';
+import { AnswerReceipt, QuestionPhase } from '../interfaces/quiz.interface';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { QuestionService } from '../../questions/question.service';
+import { QuestionRepository } from '../../questions/repositories/question.repository';
+import { InMemoryQuestionRepository } from '../../questions/repositories/in-memory-question.repository';
+import { RedisService } from '../../redis/redis.service';
+import { QuizStore } from '../../storage/quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { SqliteQuizArchiveRepository } from '../../archive/repositories/sqlite-quiz-archive.repository';
+
+// Run the real Redis commands (including the Lua scripts) against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+describe('QuizService (concurrent submissions)', () => {
+  let module: TestingModule;
+  let service: QuizService;
+  let redisService: RedisService;
+  let quizId: string;
+  let questionId: string;
+  let correctAnswer: string;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        QuizService,
+        QuestionService,
+        { provide: QuestionRepository, useValue: new InMemoryQuestionRepository() },
+        RedisService,
+        { provide: QuizStore, useExisting: RedisService },
+        { provide: QuizArchiveRepository, useValue: new SqliteQuizArchiveRepository(':memory:') },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizService>(QuizService);
+    redisService = module.get<RedisService>(RedisService);
+    await redisService.onModuleInit();
+    await (redisService.getClient() as Redis).flushall();
+
+    const session = await service.createQuiz('Race Quiz', 5);
+    quizId = session.quizId;
+    await service.joinQuiz(quizId, 'user1', 'Alice', 'socket1');
+    const started = await service.startQuiz(quizId);
+
+    questionId = started.questions[0].id;
+    correctAnswer = started.questions[0].correctAnswer;
+  });
+
+  afterEach(async () => {
+    await redisService.onModuleDestroy();
+    await module.close();
+  });
+
+  it('should score a burst of identical submissions exactly once', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        service.submitAnswer(quizId, 'user1', questionId, correctAnswer),
+      ),
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter((result) => result.status === 'rejected')) {
+      expect((result as PromiseRejectedResult).reason).toMatchObject({
+        response: { code: ErrorCode.ALREADY_ANSWERED },
+      });
+    }
+
+    const stored = await redisService.getAnswer(quizId, 'user1', questionId);
+    const points = stored?.earnedPoints;
+    expect(points).toBeGreaterThan(0);
+    expect(await redisService.getScore(quizId, 'user1')).toBe(points);
+
+    const participant = await redisService.getParticipant(quizId, 'user1');
+    expect(participant?.answersSubmitted).toBe(1);
+    expect(participant?.score).toBe(points);
+  });
+
+  it('should keep only the first of two different concurrent answers', async () => {
+    const results = await Promise.allSettled([
+      service.submitAnswer(quizId, 'user1', questionId, correctAnswer),
+      service.submitAnswer(quizId, 'user1', questionId, 'definitely wrong'),
+    ]);
+    const accepted = results.filter((result) => result.status === 'fulfilled');
+
+    expect(accepted).toHaveLength(1);
+
+    const stored = await redisService.getAnswer(quizId, 'user1', questionId);
+    expect(stored?.answer).toBe(
+      (accepted[0] as PromiseFulfilledResult<AnswerReceipt>).value.answer,
+    );
+    expect(await redisService.getScore(quizId, 'user1')).toBe(stored?.earnedPoints);
+
+    const participant = await redisService.getParticipant(quizId, 'user1');
+    expect(participant?.answersSubmitted).toBe(1);
+  });
+
+  it('should count answers to different questions independently', async () => {
+    await Promise.allSettled([
+      service.submitAnswer(quizId, 'user1', questionId, correctAnswer),
+      service.submitAnswer(quizId, 'user1', questionId, correctAnswer),
+    ]);
+    const first = await redisService.getAnswer(quizId, 'user1', questionId);
+
+    await service.nextQuestion(quizId);
+    const session = await service.getQuizSession(quizId);
+    const nextQuestion = session.questions[1];
+
+    await Promise.allSettled([
+      service.submitAnswer(quizId, 'user1', nextQuestion.id, 'definitely wrong'),
+      service.submitAnswer(quizId, 'user1', nextQuestion.id, 'definitely wrong'),
+    ]);
+
+    const participant = await redisService.getParticipant(quizId, 'user1');
+    expect(participant?.answersSubmitted).toBe(2);
+    expect(participant?.score).toBe(first?.earnedPoints);
+  });
+
+  it('should let only one of two concurrent closes of a question through', async () => {
+    const closes = await Promise.all([
+      service.closeQuestion(quizId),
+      service.closeQuestion(quizId),
+    ]);
+
+    expect(closes.filter((session) => session !== null)).toHaveLength(1);
+    expect((await service.getQuizSession(quizId)).questionPhase).toBe(QuestionPhase.CLOSED);
+  });
+});
@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { QuizService } from './quiz.service';
+import { QuestionService } from '../../questions/question.service';
+import { QuestionRepository } from '../../questions/repositories/question.repository';
+import { InMemoryQuestionRepository } from '../../questions/repositories/in-memory-question.repository';
+import { RedisService } from '../../redis/redis.service';
+import { QuizStore } from '../../storage/quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { SqliteQuizArchiveRepository } from '../../archive/repositories/sqlite-quiz-archive.repository';
+import { TieBreaker } from '../interfaces/quiz.interface';
+
+// Run the real Redis commands (including the Lua scripts) against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+describe('QuizService (tie-breaking)', () => {
+  let module: TestingModule;
+  let service: QuizService;
+  let redisService: RedisService;
+  let now: number;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        QuizService,
+        QuestionService,
+        { provide: QuestionRepository, useValue: new InMemoryQuestionRepository() },
+        RedisService,
+        { provide: QuizStore, useExisting: RedisService },
+        { provide: QuizArchiveRepository, useValue: new SqliteQuizArchiveRepository(':memory:') },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizService>(QuizService);
+    redisService = module.get<RedisService>(RedisService);
+    await redisService.onModuleInit();
+    await (redisService.getClient() as Redis).flushall();
+
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redisService.onModuleDestroy();
+    await module.close();
+  });
+
+  // Flat scoring over bank questions (q1 "Joyful" and q2 "Large" by default) with three players
+  const startQuiz = async (tieBreakers?: TieBreaker[], questionIds = ['q1', 'q2']) => {
+    const session = await service.createQuiz('Tie Quiz', questionIds.length, {
+      questionIds,
+      scoring: { strategy: 'flat' },
+      tieBreakers,
+    });
+    for (const [userId, username] of [
+      ['alice', 'Alice'],
+      ['bob', 'Bob'],
+      ['carol', 'Carol'],
+    ]) {
+      await service.joinQuiz(session.quizId, userId, username, `socket-${userId}`);
+    }
+    await service.startQuiz(session.quizId);
+    return session.quizId;
+  };
+
+  const answerAt = async (
+    quizId: string,
+    seconds: number,
+    userId: string,
+    questionId: string,
+    answer: string,
+  ) => {
+    const session = await service.getQuizSession(quizId);
+    now = session.questionStartedAt! + seconds * 1000;
+    await service.submitAnswer(quizId, userId, questionId, answer);
+  };
+
+  const order = async (quizId: string) => {
+    const top = await redisService.getLeaderboard(quizId, 10);
+    const full = await service.getFullLeaderboard(quizId);
+    const ranks = await Promise.all(
+      full.map((entry) => redisService.getRank(quizId, entry.userId)),
+    );
+
+    // Every view of the standings must agree
+    expect(top.map((entry) => entry.userId)).toEqual(full.map((entry) => entry.userId));
+    expect(ranks).toEqual(full.map((entry) => entry.rank - 1));
+
+    return full.map((entry) => `${entry.userId}:${entry.score}`);
+  };
+
+  it('should put the faster of two players with equal points first', async () => {
+    const quizId = await startQuiz();
+
+    await answerAt(quizId, 5, 'alice', 'q1', 'Joyful');
+    await answerAt(quizId, 2, 'bob', 'q1', 'Joyful');
+    await answerAt(quizId, 1, 'carol', 'q1', 'Sad');
+
+    expect(await order(quizId)).toEqual(['bob:10', 'alice:10', 'carol:0']);
+  });
+
+  it('should apply the tie-breakers in the configured order', async () => {
+    const play = async (tieBreakers: TieBreaker[]) => {
+      const quizId = await startQuiz(tieBreakers, ['q1', 'q2', 'q11']);
+
+      // Bob earns 20 points with two slow easy answers, Alice with one quick hard answer
+      await answerAt(quizId, 25, 'bob', 'q1', 'Joyful');
+      await service.nextQuestion(quizId);
+      await answerAt(quizId, 25, 'bob', 'q2', 'Large');
+      await service.nextQuestion(quizId);
+      await answerAt(quizId, 1, 'alice', 'q11', 'Lasting for a very short time');
+
+      return order(quizId);
+    };
+
+    expect(await play(['correct_answers', 'answer_time'])).toEqual([
+      'bob:20',
+      'alice:20',
+      'carol:0',
+    ]);
+    expect(await play(['answer_time', 'correct_answers'])).toEqual([
+      'alice:20',
+      'bob:20',
+      'carol:0',
+    ]);
+  });
+
+  it('should rank the player whose last correct answer came first higher', async () => {
+    const quizId = await startQuiz(['last_correct']);
+
+    await answerAt(quizId, 20, 'alice', 'q1', 'Joyful');
+    await answerAt(quizId, 1, 'bob', 'q1', 'Sad');
+    await service.nextQuestion(quizId);
+    await answerAt(quizId, 1, 'bob', 'q2', 'Large');
+
+    expect(await order(quizId)).toEqual(['alice:10', 'bob:10', 'carol:0']);
+  });
+
+  it('should report the same ranks when the question is revealed', async () => {
+    const quizId = await startQuiz();
+
+    await answerAt(quizId, 5, 'alice', 'q1', 'Joyful');
+    await answerAt(quizId, 2, 'bob', 'q1', 'Joyful');
+
+    const reveal = await service.revealQuestion(quizId);
+
+    expect(reveal.results.map((result) => [result.userId, result.rank])).toEqual([
+      ['bob', 1],
+      ['alice', 2],
+      ['carol', 3],
+    ]);
+  });
+
+  it('should order players that are level on everything by user ID, highest first', async () => {
+    const quizId = await startQuiz();
+
+    await answerAt(quizId, 3, 'alice', 'q1', 'Sad');
+    await answerAt(quizId, 3, 'carol', 'q1', 'Sad');
+
+    const standings = await order(quizId);
+    expect(standings).toEqual(['carol:0', 'alice:0', 'bob:0']);
+    expect(await order(quizId)).toEqual(standings);
+  });
+});
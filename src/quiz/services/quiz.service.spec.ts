@@ -1,14 +1,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+  ConflictException,
+} from '@nestjs/common';
 import { QuizService } from './quiz.service';
-import { RedisService } from '../../redis/redis.service';
-import { QuestionService } from './question.service';
-import { QuizStatus } from '../interfaces/quiz.interface';
+import { QuizStore } from '../../storage/quiz.store';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { QuestionService } from '../../questions/question.service';
+import { QuizStatus, QuestionPhase, AnswerRecord, Participant } from '../interfaces/quiz.interface';
+import { Question } from '../../questions/interfaces/question.interface';
 
 describe('QuizService', () => {
   let service: QuizService;
-  let redisService: jest.Mocked<RedisService>;
+  let store: jest.Mocked<QuizStore>;
+  let archive: jest.Mocked<QuizArchiveRepository>;
   let questionService: jest.Mocked<QuestionService>;
 
   const mockQuestions = [
@@ -37,7 +47,7 @@ describe('QuizService', () => {
       providers: [
         QuizService,
         {
-          provide: RedisService,
+          provide: QuizStore,
           useValue: {
             createQuizSession: jest.fn(),
             getQuizSession: jest.fn(),
@@ -48,25 +58,47 @@ describe('QuizService', () => {
             getParticipants: jest.fn(),
             removeParticipant: jest.fn(),
             updateScore: jest.fn(),
-            incrementScore: jest.fn(),
+            initializeScore: jest.fn(),
             getScore: jest.fn(),
             getRank: jest.fn(),
-            getFullLeaderboard: jest.fn(),
+            getLeaderboard: jest.fn(),
+            getFullLeaderboard: jest.fn().mockResolvedValue([]),
+            getLeaderboardSnapshot: jest.fn().mockResolvedValue(null),
             getAllAnswers: jest.fn(),
             getAnswer: jest.fn(),
-            storeAnswer: jest.fn(),
+            getAnswersForQuestion: jest.fn(),
+            getParticipantsById: jest.fn(),
+            recordAnswer: jest.fn(),
             setCurrentQuestion: jest.fn(),
             getCurrentQuestion: jest.fn(),
+            moveToQuestion: jest.fn().mockResolvedValue(true),
+            setQuestionReleaseTime: jest.fn(),
+            getQuestionReleaseTime: jest.fn(),
+            advanceQuestionPhase: jest.fn().mockResolvedValue(true),
+            setResumeToken: jest.fn(),
+            getResumeUserId: jest.fn(),
             quizExists: jest.fn(),
+            expireQuiz: jest.fn(),
+          },
+        },
+        {
+          provide: QuizArchiveRepository,
+          useValue: {
+            save: jest.fn(),
+            findById: jest.fn(),
           },
         },
         {
           provide: QuestionService,
           useValue: {
             getBalancedQuestions: jest.fn(),
-            getQuestionById: jest.fn(),
-            validateAnswer: jest.fn(),
-            calculatePoints: jest.fn(),
+            getQuestionsByIds: jest.fn(),
+            buildQuestion: jest.fn(),
+            resolveAnswerKey: jest.fn(),
+            evaluateAnswer: jest.fn(),
+            findOption: jest.fn(),
+            describeListAnswer: jest.fn(),
+            scrambleOptions: jest.fn((question) => question),
           },
         },
         {
@@ -75,6 +107,7 @@ describe('QuizService', () => {
             get: jest.fn((key: string, defaultValue?: any) => {
               const config: Record<string, any> = {
                 QUIZ_SESSION_TTL: 3600,
+                QUIZ_COMPLETED_TTL: 300,
                 MAX_PARTICIPANTS_PER_QUIZ: 100,
                 SCORE_PER_CORRECT_ANSWER: 10,
                 TIME_BONUS_ENABLED: true,
@@ -87,7 +120,8 @@ describe('QuizService', () => {
     }).compile();
 
     service = module.get<QuizService>(QuizService);
-    redisService = module.get(RedisService);
+    store = module.get(QuizStore);
+    archive = module.get(QuizArchiveRepository);
     questionService = module.get(QuestionService);
   });
 
@@ -101,7 +135,7 @@ describe('QuizService', () => {
 
   describe('createQuiz', () => {
     it('should create a new quiz session', async () => {
-      questionService.getBalancedQuestions.mockReturnValue(mockQuestions);
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
 
       const quiz = await service.createQuiz('Test Quiz', 2);
 
@@ -110,17 +144,180 @@ describe('QuizService', () => {
       expect(quiz.title).toBe('Test Quiz');
       expect(quiz.status).toBe(QuizStatus.WAITING);
       expect(quiz.questions).toEqual(mockQuestions);
-      expect(redisService.createQuizSession).toHaveBeenCalledWith(quiz.quizId, quiz, 3600);
+      expect(store.createQuizSession).toHaveBeenCalledWith(quiz.quizId, quiz, 3600);
+    });
+
+    it('should store the configured time limit and auto-advance setting', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      const quiz = await service.createQuiz('Timed Quiz', 2, {
+        timePerQuestion: 15,
+        autoAdvance: true,
+      });
+
+      expect(quiz.timePerQuestion).toBe(15);
+      expect(quiz.autoAdvance).toBe(true);
+    });
+
+    it('should default to 30 seconds per question without auto-advance', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      const quiz = await service.createQuiz('Test Quiz', 2);
+
+      expect(quiz.timePerQuestion).toBe(30);
+      expect(quiz.autoAdvance).toBe(false);
+    });
+
+    it('should default to time bonus scoring', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      const quiz = await service.createQuiz('Test Quiz', 2);
+
+      expect(quiz.scoring).toEqual({ strategy: 'time_bonus', maxTimeBonus: 0.5 });
+    });
+
+    it('should store the chosen scoring strategy with its defaults filled in', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      const quiz = await service.createQuiz('Streak Quiz', 2, {
+        scoring: { strategy: 'streak', maxMultiplier: 3 },
+      });
+
+      expect(quiz.scoring).toEqual({ strategy: 'streak', streakStep: 0.25, maxMultiplier: 3 });
+      expect(service.getScoring(quiz).description).toContain('up to ×3');
+    });
+
+    it('should reject settings that do not apply to the scoring strategy', async () => {
+      await expect(
+        service.createQuiz('Flat Quiz', 2, { scoring: { strategy: 'flat', penalty: 0.5 } }),
+      ).rejects.toThrow('penalty does not apply to flat scoring');
+      expect(store.createQuizSession).not.toHaveBeenCalled();
     });
 
     it('should generate unique quiz IDs', async () => {
-      questionService.getBalancedQuestions.mockReturnValue(mockQuestions);
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
 
       const quiz1 = await service.createQuiz('Quiz 1', 2);
       const quiz2 = await service.createQuiz('Quiz 2', 2);
 
       expect(quiz1.quizId).not.toBe(quiz2.quizId);
     });
+
+    it('should use explicit question IDs in the given order', async () => {
+      questionService.getQuestionsByIds.mockResolvedValue([mockQuestions[1], mockQuestions[0]]);
+
+      const quiz = await service.createQuiz('Picked Quiz', 10, { questionIds: ['q2', 'q1'] });
+
+      expect(questionService.getQuestionsByIds).toHaveBeenCalledWith(['q2', 'q1']);
+      expect(questionService.getBalancedQuestions).not.toHaveBeenCalled();
+      expect(quiz.questions).toEqual([mockQuestions[1], mockQuestions[0]]);
+    });
+
+    it('should store the questions with their options scrambled', async () => {
+      const reversed = (question: Question) => ({
+        ...question,
+        options: [...question.options].reverse(),
+      });
+      questionService.getQuestionsByIds.mockResolvedValue([mockQuestions[0]]);
+      questionService.scrambleOptions.mockImplementation(reversed);
+
+      const quiz = await service.createQuiz('Picked Quiz', 10, { questionIds: ['q1'] });
+
+      expect(questionService.scrambleOptions).toHaveBeenCalledWith(mockQuestions[0]);
+      expect(quiz.questions).toEqual([reversed(mockQuestions[0])]);
+    });
+
+    it('should reject unknown question IDs', async () => {
+      questionService.getQuestionsByIds.mockResolvedValue([mockQuestions[0]]);
+
+      await expect(
+        service.createQuiz('Picked Quiz', 10, { questionIds: ['q1', 'q99', 'q100'] }),
+      ).rejects.toThrow('Unknown question IDs: q99, q100');
+      expect(store.createQuizSession).not.toHaveBeenCalled();
+    });
+
+    describe('with custom questions', () => {
+      const customInput = {
+        text: 'What does "brave" mean?',
+        options: ['Scared', 'Courageous', 'Lazy', 'Quiet'],
+        correctAnswer: 'courageous',
+      };
+
+      beforeEach(() => {
+        questionService.getQuestionsByIds.mockResolvedValue([mockQuestions[0]]);
+        questionService.buildQuestion.mockImplementation((id, input) => ({
+          id,
+          ...input,
+          options: input.options ?? [],
+          correctAnswer: input.correctAnswer ?? '',
+          difficulty: 'medium',
+          category: 'custom',
+          points: 15,
+        }));
+      });
+
+      it('should append custom questions after the bank questions', async () => {
+        questionService.resolveAnswerKey.mockImplementation((input) => ({
+          ...input,
+          correctAnswer: 'Courageous',
+        }));
+
+        const quiz = await service.createQuiz('Custom Quiz', 10, {
+          questionIds: ['q1'],
+          questions: [customInput],
+        });
+
+        expect(quiz.questions).toHaveLength(2);
+        expect(quiz.questions[0]).toEqual(mockQuestions[0]);
+        expect(quiz.questions[1]).toMatchObject({
+          id: `${quiz.quizId}-c1`,
+          text: customInput.text,
+          correctAnswer: 'Courageous',
+        });
+        expect(questionService.resolveAnswerKey).toHaveBeenCalledWith(customInput);
+      });
+
+      it('should reject a custom question whose correctAnswer is not an option', async () => {
+        questionService.resolveAnswerKey.mockImplementation(() => {
+          throw new BadRequestException({
+            message: `correctAnswer "Bold" is not one of the question's options`,
+            field: 'correctAnswer',
+          });
+        });
+
+        await expect(
+          service.createQuiz('Custom Quiz', 10, {
+            questions: [{ ...customInput, correctAnswer: 'Bold' }],
+          }),
+        ).rejects.toThrow(
+          `Custom question 1: correctAnswer "Bold" is not one of the question's options`,
+        );
+        expect(store.createQuizSession).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should pass categories and difficulty distribution to the question selection', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      await service.createQuiz('Verb Quiz', 2, {
+        categories: ['verbs'],
+        difficultyDistribution: { easy: 50, hard: 50 },
+      });
+
+      expect(questionService.getBalancedQuestions).toHaveBeenCalledWith(2, {
+        categories: ['verbs'],
+        distribution: { easy: 50, hard: 50 },
+      });
+    });
+
+    it('should reject categories combined with explicit question IDs', async () => {
+      questionService.getQuestionsByIds.mockResolvedValue([mockQuestions[0]]);
+
+      await expect(
+        service.createQuiz('Mixed Quiz', 10, { questionIds: ['q1'], categories: ['verbs'] }),
+      ).rejects.toThrow('categories and difficultyDistribution cannot be combined');
+      expect(store.createQuizSession).not.toHaveBeenCalled();
+    });
   });
 
   describe('getQuizSession', () => {
@@ -133,18 +330,22 @@ describe('QuizService', () => {
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
+      store.getQuizSession.mockResolvedValue(mockSession);
 
       const result = await service.getQuizSession('QUIZ123');
 
       expect(result).toEqual(mockSession);
-      expect(redisService.getQuizSession).toHaveBeenCalledWith('QUIZ123');
+      expect(store.getQuizSession).toHaveBeenCalledWith('QUIZ123');
     });
 
     it('should throw NotFoundException if quiz does not exist', async () => {
-      redisService.getQuizSession.mockResolvedValue(null);
+      store.getQuizSession.mockResolvedValue(null);
 
       await expect(service.getQuizSession('NONEXISTENT')).rejects.toThrow(NotFoundException);
     });
@@ -159,20 +360,24 @@ describe('QuizService', () => {
       currentQuestionIndex: 0,
       createdAt: new Date(),
       maxParticipants: 100,
+      timePerQuestion: 30,
+      autoAdvance: false,
+      hostToken: 'host-token',
+      coHostIds: [],
     };
 
     beforeEach(() => {
-      redisService.getQuizSession.mockResolvedValue(mockSession);
+      store.getQuizSession.mockResolvedValue(mockSession);
     });
 
     it('should allow user to join quiz', async () => {
-      redisService.getParticipantCount.mockResolvedValue(5);
-      redisService.getParticipant.mockResolvedValue(null);
+      store.getParticipantCount.mockResolvedValue(5);
+      store.getParticipant.mockResolvedValue(null);
 
       const result = await service.joinQuiz('QUIZ123', 'user1', 'Alice', 'socket1');
 
       expect(result).toEqual(mockSession);
-      expect(redisService.addParticipant).toHaveBeenCalledWith(
+      expect(store.addParticipant).toHaveBeenCalledWith(
         'QUIZ123',
         'user1',
         expect.objectContaining({
@@ -183,11 +388,52 @@ describe('QuizService', () => {
           answersSubmitted: 0,
         }),
       );
-      expect(redisService.updateScore).toHaveBeenCalledWith('QUIZ123', 'user1', 0);
+      expect(store.initializeScore).toHaveBeenCalledWith('QUIZ123', 'user1');
+    });
+
+    it('should store the player ID a participant joined with', async () => {
+      store.getParticipantCount.mockResolvedValue(5);
+      store.getParticipant.mockResolvedValue(null);
+
+      await service.joinQuiz('QUIZ123', 'user1', 'Alice', undefined, 'player-alice');
+
+      expect(store.addParticipant).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        expect.objectContaining({ userId: 'user1', playerId: 'player-alice' }),
+      );
+    });
+
+    it('should record the current question release time for late joiners', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        status: QuizStatus.IN_PROGRESS,
+        currentQuestionIndex: 1,
+      });
+      store.getParticipantCount.mockResolvedValue(5);
+      store.getParticipant.mockResolvedValue(null);
+
+      await service.joinQuiz('QUIZ123', 'user1', 'Alice', 'socket1');
+
+      expect(store.setQuestionReleaseTime).toHaveBeenCalledWith(
+        'QUIZ123',
+        'q2',
+        'user1',
+        expect.any(Number),
+      );
+    });
+
+    it('should not record a release time before the quiz starts', async () => {
+      store.getParticipantCount.mockResolvedValue(5);
+      store.getParticipant.mockResolvedValue(null);
+
+      await service.joinQuiz('QUIZ123', 'user1', 'Alice', 'socket1');
+
+      expect(store.setQuestionReleaseTime).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException if quiz is full', async () => {
-      redisService.getParticipantCount.mockResolvedValue(100);
+      store.getParticipantCount.mockResolvedValue(100);
 
       await expect(service.joinQuiz('QUIZ123', 'user1', 'Alice', 'socket1')).rejects.toThrow(
         BadRequestException,
@@ -195,7 +441,7 @@ describe('QuizService', () => {
     });
 
     it('should throw BadRequestException if quiz is completed', async () => {
-      redisService.getQuizSession.mockResolvedValue({
+      store.getQuizSession.mockResolvedValue({
         ...mockSession,
         status: QuizStatus.COMPLETED,
       });
@@ -215,13 +461,13 @@ describe('QuizService', () => {
         answersSubmitted: 3,
       };
 
-      redisService.getParticipantCount.mockResolvedValue(5);
-      redisService.getParticipant.mockResolvedValue(existingParticipant);
+      store.getParticipantCount.mockResolvedValue(5);
+      store.getParticipant.mockResolvedValue(existingParticipant);
 
       const result = await service.joinQuiz('QUIZ123', 'user1', 'Alice', 'new-socket');
 
       expect(result).toEqual(mockSession);
-      expect(redisService.addParticipant).toHaveBeenCalledWith(
+      expect(store.addParticipant).toHaveBeenCalledWith(
         'QUIZ123',
         'user1',
         expect.objectContaining({
@@ -232,6 +478,173 @@ describe('QuizService', () => {
     });
   });
 
+  describe('resumable sessions', () => {
+    const mockSession = {
+      quizId: 'QUIZ123',
+      title: 'Test Quiz',
+      status: QuizStatus.IN_PROGRESS,
+      questions: mockQuestions,
+      currentQuestionIndex: 1,
+      createdAt: new Date(),
+      maxParticipants: 100,
+      timePerQuestion: 30,
+      autoAdvance: false,
+      hostToken: 'host-token',
+      coHostIds: [],
+      questionDeadline: Date.now() + 12000,
+    };
+
+    const participant = {
+      userId: 'user1',
+      username: 'Alice',
+      socketId: 'old-socket',
+      joinedAt: new Date(),
+      score: 40,
+      answersSubmitted: 1,
+    };
+
+    beforeEach(() => {
+      store.getQuizSession.mockResolvedValue(mockSession);
+    });
+
+    it('should issue a resume token mapped to the participant', async () => {
+      const token = await service.issueResumeToken('QUIZ123', 'user1');
+
+      expect(token).toEqual(expect.any(String));
+      expect(store.setResumeToken).toHaveBeenCalledWith('QUIZ123', token, 'user1');
+    });
+
+    it('should reattach the participant to the new socket', async () => {
+      store.getResumeUserId.mockResolvedValue('user1');
+      store.getParticipant.mockResolvedValue({ ...participant });
+
+      const result = await service.resumeParticipant('QUIZ123', 'token', 'new-socket');
+
+      expect(result).toMatchObject({ userId: 'user1', score: 40, socketId: 'new-socket' });
+      expect(store.addParticipant).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        expect.objectContaining({ socketId: 'new-socket', score: 40 }),
+      );
+    });
+
+    it('should reject unknown resume tokens', async () => {
+      store.getResumeUserId.mockResolvedValue(null);
+
+      await expect(service.resumeParticipant('QUIZ123', 'bogus', 'new-socket')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(store.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should authenticate a participant by resume token without touching the socket', async () => {
+      store.getResumeUserId.mockResolvedValue('user1');
+      store.getParticipant.mockResolvedValue({ ...participant });
+
+      const result = await service.authenticateParticipant('QUIZ123', 'token');
+
+      expect(result).toMatchObject({ userId: 'user1', socketId: 'old-socket' });
+      expect(store.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should reject a resume token of a participant no longer in the quiz', async () => {
+      store.getResumeUserId.mockResolvedValue('user1');
+      store.getParticipant.mockResolvedValue(null);
+
+      await expect(service.authenticateParticipant('QUIZ123', 'token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should build a snapshot of the quiz for the participant', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        questionPhase: QuestionPhase.REVEALED,
+      });
+      store.getCurrentQuestion.mockResolvedValue(1);
+      store.getRank.mockResolvedValue(1);
+      store.getScore.mockResolvedValue(40);
+      store.getAllAnswers.mockResolvedValue({
+        q1: {
+          answer: 'Joyful',
+          correct: true,
+          correctAnswer: 'Joyful',
+          earnedPoints: 40,
+          timeTaken: 5,
+          submittedAt: new Date(),
+        },
+      });
+      store.getLeaderboard.mockResolvedValue([]);
+
+      const snapshot = await service.getSessionSnapshot('QUIZ123', 'user1');
+
+      expect(snapshot.question?.id).toBe('q2');
+      expect(snapshot.question?.correctAnswer).toBe('');
+      expect(snapshot.questionNumber).toBe(2);
+      expect(snapshot.remainingSeconds).toBeGreaterThan(10);
+      expect(snapshot.remainingSeconds).toBeLessThanOrEqual(12);
+      expect(snapshot.score).toBe(40);
+      expect(snapshot.rank).toBe(2);
+      expect(snapshot.answers.q1).toMatchObject({ answer: 'Joyful', correct: true });
+    });
+
+    it('should only include a receipt for an answer to the unrevealed current question', async () => {
+      const submittedAt = new Date();
+      store.getCurrentQuestion.mockResolvedValue(1);
+      store.getRank.mockResolvedValue(0);
+      store.getScore.mockResolvedValue(40);
+      store.getAllAnswers.mockResolvedValue({
+        q2: {
+          answer: 'Large',
+          correct: true,
+          correctAnswer: 'Large',
+          earnedPoints: 10,
+          timeTaken: 5,
+          submittedAt,
+        },
+      });
+      store.getLeaderboard.mockResolvedValue([]);
+
+      const snapshot = await service.getSessionSnapshot('QUIZ123', 'user1');
+
+      expect(snapshot.questionPhase).toBe(QuestionPhase.OPEN);
+      expect(snapshot.answers.q2).toEqual({ questionId: 'q2', answer: 'Large', submittedAt });
+    });
+
+    it('should give scores and ranks as of the last reveal while the question is open', async () => {
+      const revealed = [
+        { userId: 'user2', username: 'Bob', score: 10, rank: 1 },
+        { userId: 'user1', username: 'Alice', score: 0, rank: 2 },
+      ];
+      store.getCurrentQuestion.mockResolvedValue(1);
+      store.getAllAnswers.mockResolvedValue({});
+      store.getLeaderboardSnapshot.mockResolvedValue({ seq: 3, leaderboard: revealed });
+
+      const snapshot = await service.getSessionSnapshot('QUIZ123', 'user1');
+
+      expect(snapshot.score).toBe(0);
+      expect(snapshot.rank).toBe(2);
+      expect(snapshot.leaderboard).toEqual(revealed);
+      expect(store.getScore).not.toHaveBeenCalled();
+      expect(store.getRank).not.toHaveBeenCalled();
+      expect(store.getLeaderboard).not.toHaveBeenCalled();
+    });
+
+    it('should not include a question before the quiz starts', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, status: QuizStatus.WAITING });
+      store.getRank.mockResolvedValue(null);
+      store.getScore.mockResolvedValue(0);
+      store.getAllAnswers.mockResolvedValue({});
+      store.getLeaderboard.mockResolvedValue([]);
+
+      const snapshot = await service.getSessionSnapshot('QUIZ123', 'user1');
+
+      expect(snapshot.question).toBeNull();
+      expect(snapshot.remainingSeconds).toBeNull();
+      expect(snapshot.rank).toBeNull();
+    });
+  });
+
   describe('startQuiz', () => {
     it('should start quiz successfully', async () => {
       const mockSession = {
@@ -242,42 +655,78 @@ describe('QuizService', () => {
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getParticipantCount.mockResolvedValue(5);
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getParticipantCount.mockResolvedValue(5);
 
       const result = await service.startQuiz('QUIZ123');
 
       expect(result.status).toBe(QuizStatus.IN_PROGRESS);
       expect(result.startTime).toBeDefined();
-      expect(redisService.updateQuizSession).toHaveBeenCalled();
-      expect(redisService.setCurrentQuestion).toHaveBeenCalledWith('QUIZ123', 0);
+      expect(store.updateQuizSession).toHaveBeenCalled();
+      expect(store.setCurrentQuestion).toHaveBeenCalledWith('QUIZ123', 0);
+    });
+
+    it('should compute the first question deadline from timePerQuestion', async () => {
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.WAITING,
+        questions: mockQuestions,
+        currentQuestionIndex: 0,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 20,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+      store.getParticipantCount.mockResolvedValue(1);
+
+      const result = await service.startQuiz('QUIZ123');
+
+      expect(result.questionStartedAt).toBeDefined();
+      expect(result.questionDeadline).toBe(result.questionStartedAt! + 20000);
     });
 
     it('should throw BadRequestException if quiz already started', async () => {
-      redisService.getQuizSession.mockResolvedValue({
+      store.getQuizSession.mockResolvedValue({
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       });
 
       await expect(service.startQuiz('QUIZ123')).rejects.toThrow(BadRequestException);
     });
 
     it('should throw BadRequestException if no participants', async () => {
-      redisService.getQuizSession.mockResolvedValue({
+      store.getQuizSession.mockResolvedValue({
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.WAITING,
         questions: mockQuestions,
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       });
-      redisService.getParticipantCount.mockResolvedValue(0);
+      store.getParticipantCount.mockResolvedValue(0);
 
       await expect(service.startQuiz('QUIZ123')).rejects.toThrow(BadRequestException);
     });
@@ -287,15 +736,20 @@ describe('QuizService', () => {
     it('should return current question without correct answer', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getCurrentQuestion.mockResolvedValue(0);
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getCurrentQuestion.mockResolvedValue(0);
 
       const result = await service.getCurrentQuestion('QUIZ123');
 
@@ -304,18 +758,58 @@ describe('QuizService', () => {
       expect(result.correctAnswer).toBe(''); // Should be hidden
     });
 
+    it('should hide the answer key of list questions but keep prompts and options', async () => {
+      const matching = {
+        id: 'm1',
+        type: 'matching' as const,
+        text: 'Match each word to its meaning',
+        prompts: ['rapid', 'ancient'],
+        options: ['Old', 'Fast'],
+        correctAnswer: 'rapid → Fast; ancient → Old',
+        answerKey: ['Fast', 'Old'],
+        difficulty: 'hard' as const,
+        category: 'vocabulary',
+        points: 20,
+      };
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        questions: [matching],
+        currentQuestionIndex: 0,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+      store.getCurrentQuestion.mockResolvedValue(0);
+
+      const result = await service.getCurrentQuestion('QUIZ123');
+
+      expect(result.correctAnswer).toBe('');
+      expect(result.answerKey).toBeUndefined();
+      expect(result).toMatchObject({ prompts: ['rapid', 'ancient'], options: ['Old', 'Fast'] });
+    });
+
     it('should throw BadRequestException if no more questions', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 2,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getCurrentQuestion.mockResolvedValue(10); // Beyond questions length
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getCurrentQuestion.mockResolvedValue(10); // Beyond questions length
 
       await expect(service.getCurrentQuestion('QUIZ123')).rejects.toThrow(BadRequestException);
     });
@@ -324,91 +818,361 @@ describe('QuizService', () => {
   describe('submitAnswer', () => {
     const mockSession = {
       quizId: 'QUIZ123',
+      title: 'Test Quiz',
       status: QuizStatus.IN_PROGRESS,
       questions: mockQuestions,
       currentQuestionIndex: 0,
       createdAt: new Date(),
       maxParticipants: 100,
+      timePerQuestion: 30,
+      autoAdvance: false,
+      hostToken: 'host-token',
+      coHostIds: [],
     };
 
     const mockQuestion = mockQuestions[0];
 
     beforeEach(() => {
-      redisService.getQuizSession.mockResolvedValue(mockSession);
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.recordAnswer.mockImplementation(async (_quizId, _userId, _qid, answer, points) => ({
+        recorded: true,
+        answer,
+        score: points,
+      }));
     });
 
     it('should process correct answer and update score', async () => {
-      redisService.getAnswer.mockResolvedValue(null); // No duplicate
-      questionService.validateAnswer.mockReturnValue(true);
-      questionService.getQuestionById.mockReturnValue(mockQuestion);
-      questionService.calculatePoints.mockReturnValue(15);
-      redisService.incrementScore.mockResolvedValue(15);
-      redisService.getRank.mockResolvedValue(0);
-      redisService.getParticipant.mockResolvedValue({
-        userId: 'user1',
-        username: 'Alice',
-        socketId: 'socket1',
-        joinedAt: new Date(),
-        score: 0,
-        answersSubmitted: 0,
-      });
+      store.getAnswer.mockResolvedValue(null); // No duplicate
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
 
-      const result = await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10);
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10);
 
-      expect(result.correct).toBe(true);
-      expect(result.earnedPoints).toBe(15);
-      expect(result.currentScore).toBe(15);
-      expect(result.rank).toBe(1); // 1-based rank
-      expect(redisService.incrementScore).toHaveBeenCalledWith('QUIZ123', 'user1', 15);
-      expect(redisService.storeAnswer).toHaveBeenCalled();
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({ answer: 'Joyful', correct: true, earnedPoints: 10 }),
+        10,
+        expect.any(Object),
+      );
     });
 
     it('should process incorrect answer with 0 points', async () => {
-      redisService.getAnswer.mockResolvedValue(null);
-      questionService.validateAnswer.mockReturnValue(false);
-      questionService.getQuestionById.mockReturnValue(mockQuestion);
-      questionService.calculatePoints.mockReturnValue(0);
-      redisService.getScore.mockResolvedValue(10);
-      redisService.getRank.mockResolvedValue(3);
-      redisService.getParticipant.mockResolvedValue({
-        userId: 'user1',
-        username: 'Alice',
-        socketId: 'socket1',
-        joinedAt: new Date(),
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: false, credit: 0 });
+      store.recordAnswer.mockImplementation(async (_quizId, _userId, _qid, answer) => ({
+        recorded: true,
+        answer,
         score: 10,
-        answersSubmitted: 1,
+      }));
+
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Sad', 10);
+
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({ correct: false }),
+        0,
+        expect.any(Object),
+      );
+    });
+
+    it('should score a list answer by its partial credit', async () => {
+      const multiSelect = {
+        ...mockQuestion,
+        type: 'multi_select' as const,
+        answerKey: ['Joyful', 'Tired'],
+        correctAnswer: 'Joyful, Tired',
+      };
+      store.getQuizSession.mockResolvedValue({ ...mockSession, questions: [multiSelect] });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: false, credit: 0.5 });
+
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', ['Joyful'], 10);
+
+      expect(questionService.evaluateAnswer).toHaveBeenCalledWith(multiSelect, ['Joyful']);
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({
+          correct: false,
+          credit: 0.5,
+          correctAnswer: 'Joyful, Tired',
+          answerKey: ['Joyful', 'Tired'],
+          earnedPoints: 5,
+        }),
+        5,
+        expect.any(Object),
+      );
+    });
+
+    it('should surface partial credit for a near-miss text answer', async () => {
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 0.75, typos: 1 });
+
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyfull', 10);
+
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({ credit: 0.75, typos: 1, earnedPoints: 8 }),
+        8,
+        expect.any(Object),
+      );
+    });
+
+    it('should take points off a wrong answer with negative marking', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        scoring: { strategy: 'negative_marking', penalty: 0.5 },
       });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: false, credit: 0 });
 
-      const result = await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Sad', 10);
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Sad', 10);
 
-      expect(result.correct).toBe(false);
-      expect(result.earnedPoints).toBe(0);
-      expect(redisService.incrementScore).not.toHaveBeenCalled();
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({ earnedPoints: -5 }),
+        -5,
+        expect.any(Object),
+      );
     });
 
-    it('should return cached result for duplicate submission (idempotency)', async () => {
+    it('should multiply points by the streak of fully correct answers before the question', async () => {
+      const questions = [
+        ...mockQuestions,
+        { ...mockQuestion, id: 'q3' },
+        { ...mockQuestion, id: 'q4' },
+      ];
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        questions,
+        currentQuestionIndex: 3,
+        scoring: { strategy: 'streak', streakStep: 0.5, maxMultiplier: 3 },
+      });
+      store.getAnswer.mockResolvedValue(null);
+      const answered = (answer: string) => ({
+        answer,
+        correctAnswer: 'Joyful',
+        timeTaken: 5,
+        submittedAt: new Date(),
+      });
+      store.getAllAnswers.mockResolvedValue({
+        q1: { ...answered('Sad'), correct: false, credit: 0, earnedPoints: 0 },
+        q2: { ...answered('Large'), correct: true, earnedPoints: 10 },
+        q3: { ...answered('Joyful'), correct: true, credit: 1, earnedPoints: 15 },
+      });
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      await service.submitAnswer('QUIZ123', 'user1', 'q4', 'Joyful', 10);
+
+      // Two correct answers in a row: ×2
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q4',
+        expect.objectContaining({ earnedPoints: 20 }),
+        20,
+        expect.any(Object),
+      );
+    });
+
+    it('should only acknowledge receipt of an answer, without its outcome', async () => {
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      const result = await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10);
+
+      expect(result).toEqual({
+        questionId: 'q1',
+        answer: 'Joyful',
+        submittedAt: expect.any(Date),
+      });
+    });
+
+    it('should refuse a second answer to the same question', async () => {
+      const submittedAt = new Date();
       const cachedAnswer = {
         answer: 'Joyful',
         correct: true,
         correctAnswer: 'Joyful',
         earnedPoints: 15,
         timeTaken: 10,
+        submittedAt,
       };
 
-      redisService.getAnswer.mockResolvedValue(cachedAnswer);
-      redisService.getScore.mockResolvedValue(15);
-      redisService.getRank.mockResolvedValue(0);
+      store.getAnswer.mockResolvedValue(cachedAnswer);
 
-      const result = await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10);
+      await expect(service.submitAnswer('QUIZ123', 'user1', 'q1', 'Sad', 10)).rejects.toMatchObject(
+        { response: { code: ErrorCode.ALREADY_ANSWERED } },
+      );
+      expect(questionService.evaluateAnswer).not.toHaveBeenCalled();
+      expect(store.recordAnswer).not.toHaveBeenCalled();
+    });
 
-      expect(result.correct).toBe(true);
-      expect(result.earnedPoints).toBe(15);
-      expect(questionService.validateAnswer).not.toHaveBeenCalled();
-      expect(redisService.storeAnswer).not.toHaveBeenCalled();
+    it('should refuse an answer when a concurrent submission wins the race', async () => {
+      const submittedAt = new Date();
+      const storedAnswer = {
+        answer: 'Joyful',
+        correct: true,
+        correctAnswer: 'Joyful',
+        earnedPoints: 15,
+        timeTaken: 8,
+        submittedAt,
+      };
+
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: false, credit: 0 });
+      store.recordAnswer.mockResolvedValue({
+        recorded: false,
+        answer: storedAnswer,
+        score: 15,
+      });
+
+      await expect(service.submitAnswer('QUIZ123', 'user1', 'q1', 'Sad', 10)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should use the quiz time limit for the time bonus', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        timePerQuestion: 60,
+        questionStartedAt: Date.now() - 10000,
+      });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10);
+
+      // 10 points plus 50% of the bonus for using 10 of 60 seconds
+      expect(store.recordAnswer).toHaveBeenCalledWith(
+        'QUIZ123',
+        'user1',
+        'q1',
+        expect.objectContaining({ timeTaken: 10, earnedPoints: 14 }),
+        14,
+        expect.any(Object),
+      );
+    });
+
+    describe('server-measured answer time', () => {
+      const releasedAt = new Date('2025-11-10T10:00:00.000Z').getTime();
+
+      beforeEach(() => {
+        jest.useFakeTimers().setSystemTime(releasedAt + 12000);
+        store.getQuizSession.mockResolvedValue({
+          ...mockSession,
+          questionStartedAt: releasedAt,
+          questionDeadline: releasedAt + 30000,
+        });
+        store.getAnswer.mockResolvedValue(null);
+        store.getQuestionReleaseTime.mockResolvedValue(null);
+        questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const expectTimeTaken = (timeTaken: number) =>
+        expect(store.recordAnswer).toHaveBeenCalledWith(
+          'QUIZ123',
+          'user1',
+          'q1',
+          expect.objectContaining({ timeTaken }),
+          expect.any(Number),
+          expect.any(Object),
+        );
+
+      it('should ignore a forged timeTaken far below the server measurement', async () => {
+        await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 0);
+
+        expect(store.recordAnswer).toHaveBeenCalledWith(
+          'QUIZ123',
+          'user1',
+          'q1',
+          expect.objectContaining({ timeTaken: 11, clientTimeTaken: 0 }),
+          13,
+          expect.any(Object),
+        );
+      });
+
+      it('should accept a client time within the clock skew allowance', async () => {
+        await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 11.5);
+
+        expectTimeTaken(11.5);
+      });
+
+      it('should never use a client time slower than the server measurement', async () => {
+        await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 25);
+
+        expectTimeTaken(12);
+      });
+
+      it('should fall back to the server measurement without a client time', async () => {
+        await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful');
+
+        expectTimeTaken(12);
+      });
+
+      it('should measure from the participant release time for late joiners', async () => {
+        store.getQuestionReleaseTime.mockResolvedValue(releasedAt + 8000);
+
+        await service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful');
+
+        expect(store.getQuestionReleaseTime).toHaveBeenCalledWith('QUIZ123', 'q1', 'user1');
+        expectTimeTaken(4);
+      });
+    });
+
+    it('should reject answers submitted after the question deadline', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        questionDeadline: Date.now() - 5000,
+      });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      await expect(service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10)).rejects.toThrow(
+        'Time is up for this question',
+      );
+      expect(store.recordAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should reject answers once the question is closed', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        questionPhase: QuestionPhase.CLOSED,
+      });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      await expect(service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10)).rejects.toThrow(
+        'This question is closed',
+      );
+      expect(store.recordAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should reject answers for a question that is no longer current', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, currentQuestionIndex: 1 });
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
+
+      await expect(service.submitAnswer('QUIZ123', 'user1', 'q1', 'Joyful', 10)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(store.recordAnswer).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException if quiz not in progress', async () => {
-      redisService.getQuizSession.mockResolvedValue({
+      store.getQuizSession.mockResolvedValue({
         ...mockSession,
         status: QuizStatus.WAITING,
       });
@@ -419,9 +1183,8 @@ describe('QuizService', () => {
     });
 
     it('should throw NotFoundException for invalid question', async () => {
-      redisService.getAnswer.mockResolvedValue(null);
-      questionService.validateAnswer.mockReturnValue(true);
-      questionService.getQuestionById.mockReturnValue(undefined);
+      store.getAnswer.mockResolvedValue(null);
+      questionService.evaluateAnswer.mockReturnValue({ correct: true, credit: 1 });
 
       await expect(
         service.submitAnswer('QUIZ123', 'user1', 'invalid', 'Answer', 10),
@@ -429,83 +1192,315 @@ describe('QuizService', () => {
     });
   });
 
+  describe('closing and revealing questions', () => {
+    const multiSelect = {
+      id: 'q3',
+      type: 'multi_select' as const,
+      text: 'Which words are positive?',
+      options: ['Joyful', 'Sad', 'Kind'],
+      answerKey: ['Joyful', 'Kind'],
+      correctAnswer: 'Joyful, Kind',
+      difficulty: 'medium' as const,
+      category: 'emotions',
+      points: 20,
+    };
+
+    const mockSession = {
+      quizId: 'QUIZ123',
+      title: 'Test Quiz',
+      status: QuizStatus.IN_PROGRESS,
+      questions: [...mockQuestions, multiSelect],
+      currentQuestionIndex: 0,
+      createdAt: new Date(),
+      maxParticipants: 100,
+      timePerQuestion: 30,
+      autoAdvance: false,
+      hostToken: 'host-token',
+      coHostIds: [],
+      questionPhase: QuestionPhase.OPEN,
+    };
+
+    const participant = (userId: string, username: string) => ({
+      userId,
+      username,
+      socketId: `socket-${userId}`,
+      joinedAt: new Date(),
+      score: 0,
+      answersSubmitted: 0,
+    });
+
+    beforeEach(() => {
+      store.getParticipants.mockResolvedValue(['user1', 'user2', 'user3']);
+      store.getParticipantsById.mockImplementation(async (_quizId, userIds) =>
+        userIds.map((userId) =>
+          participant(userId, { user1: 'Alice', user2: 'Bob', user3: 'Carol' }[userId]!),
+        ),
+      );
+      store.getFullLeaderboard.mockResolvedValue([
+        { userId: 'user2', username: 'Bob', score: 25, rank: 1 },
+        { userId: 'user1', username: 'Alice', score: 10, rank: 2 },
+        { userId: 'user3', username: 'Carol', score: 0, rank: 3 },
+      ]);
+      questionService.findOption.mockImplementation((question, answer) =>
+        question.options.find((option) => option.toLowerCase() === answer.toLowerCase()),
+      );
+    });
+
+    it('should close an open question', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession });
+
+      const session = await service.closeQuestion('QUIZ123');
+
+      expect(session?.questionPhase).toBe(QuestionPhase.CLOSED);
+      expect(store.advanceQuestionPhase).toHaveBeenCalledWith('QUIZ123', 0, QuestionPhase.CLOSED);
+      expect(store.updateQuizSession).toHaveBeenCalledWith(
+        'QUIZ123',
+        expect.objectContaining({ questionPhase: QuestionPhase.CLOSED }),
+      );
+    });
+
+    it('should not reopen a revealed question when closing it again', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        questionPhase: QuestionPhase.REVEALED,
+      });
+
+      expect(await service.closeQuestion('QUIZ123')).toBeNull();
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
+    });
+
+    it('should leave a question that another caller just closed to them', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession });
+      store.advanceQuestionPhase.mockResolvedValue(false);
+
+      expect(await service.closeQuestion('QUIZ123')).toBeNull();
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
+    });
+
+    it('should not close a question the quiz has already moved past', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, currentQuestionIndex: 1 });
+
+      expect(await service.closeQuestion('QUIZ123', 0)).toBeNull();
+      expect(store.advanceQuestionPhase).not.toHaveBeenCalled();
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
+    });
+
+    it('should reveal a question the quiz has moved past without touching the current one', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, currentQuestionIndex: 1 });
+      store.getAnswersForQuestion.mockResolvedValue([null, null, null]);
+
+      const reveal = await service.revealQuestion('QUIZ123', 0);
+
+      expect(reveal).toMatchObject({ questionId: 'q1', questionNumber: 1 });
+      expect(store.getAnswersForQuestion).toHaveBeenCalledWith('QUIZ123', expect.any(Array), 'q1');
+      expect(store.advanceQuestionPhase).toHaveBeenCalledWith('QUIZ123', 0, QuestionPhase.REVEALED);
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
+    });
+
+    it("should reveal the answer, its distribution and every player's points", async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession });
+      const answers: Record<string, Partial<AnswerRecord>> = {
+        user1: { answer: 'joyful', correct: true, credit: 1, earnedPoints: 10 },
+        user2: { answer: 'Sad', correct: false, credit: 0, earnedPoints: 0 },
+      };
+      store.getAnswersForQuestion.mockImplementation(async (_quizId, userIds) =>
+        userIds.map((userId) => (answers[userId] as AnswerRecord) ?? null),
+      );
+
+      const reveal = await service.revealQuestion('QUIZ123');
+
+      expect(reveal).toMatchObject({
+        questionId: 'q1',
+        questionNumber: 1,
+        correctAnswer: 'Joyful',
+        distribution: { Sad: 1, Joyful: 1, Angry: 0, Tired: 0 },
+        unanswered: 1,
+      });
+      expect(reveal.results).toEqual([
+        expect.objectContaining({ userId: 'user2', correct: false, earnedPoints: 0, rank: 1 }),
+        expect.objectContaining({ userId: 'user1', correct: true, earnedPoints: 10, score: 10 }),
+        expect.objectContaining({ userId: 'user3', answered: false, earnedPoints: 0, rank: 3 }),
+      ]);
+      expect(store.updateQuizSession).toHaveBeenLastCalledWith(
+        'QUIZ123',
+        expect.objectContaining({ questionPhase: QuestionPhase.REVEALED }),
+      );
+    });
+
+    it('should count each picked option of a list answer', async () => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, currentQuestionIndex: 2 });
+      const answers: Record<string, Partial<AnswerRecord>> = {
+        user1: { answer: ['Joyful', 'Kind'], correct: true, credit: 1, earnedPoints: 20 },
+        user2: { answer: ['Joyful', 'Sad'], correct: false, credit: 0, earnedPoints: 0 },
+      };
+      store.getAnswersForQuestion.mockImplementation(async (_quizId, userIds) =>
+        userIds.map((userId) => (answers[userId] as AnswerRecord) ?? null),
+      );
+
+      const reveal = await service.revealQuestion('QUIZ123');
+
+      expect(reveal.answerKey).toEqual(['Joyful', 'Kind']);
+      expect(reveal.distribution).toEqual({ Joyful: 2, Sad: 1, Kind: 1 });
+    });
+
+    it('should refuse to close a question when the quiz is not in progress', async () => {
+      store.getQuizSession.mockResolvedValue({
+        ...mockSession,
+        status: QuizStatus.COMPLETED,
+      });
+
+      await expect(service.revealQuestion('QUIZ123')).rejects.toThrow('Quiz is not in progress');
+    });
+  });
+
   describe('nextQuestion', () => {
     it('should move to next question', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 0,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getCurrentQuestion.mockResolvedValue(0);
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getCurrentQuestion.mockResolvedValue(0);
 
       const result = await service.nextQuestion('QUIZ123');
 
       expect(result).toBeDefined();
-      expect(redisService.setCurrentQuestion).toHaveBeenCalledWith('QUIZ123', 1);
-      expect(redisService.updateQuizSession).toHaveBeenCalled();
+      expect(store.moveToQuestion).toHaveBeenCalledWith('QUIZ123', 0, 1);
+      expect(store.updateQuizSession).toHaveBeenCalled();
+    });
+
+    it('should refuse to move on from a question the quiz has already left', async () => {
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        questions: mockQuestions,
+        currentQuestionIndex: 1,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+      store.moveToQuestion.mockResolvedValue(false);
+
+      await expect(service.nextQuestion('QUIZ123', 0)).rejects.toMatchObject({
+        response: { code: ErrorCode.ALREADY_ADVANCED },
+      });
+      expect(store.moveToQuestion).toHaveBeenCalledWith('QUIZ123', 0, 1);
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
     });
 
     it('should complete quiz when no more questions', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 1,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getCurrentQuestion.mockResolvedValue(1);
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getCurrentQuestion.mockResolvedValue(1);
 
       const result = await service.nextQuestion('QUIZ123');
 
       expect(result).toBeNull();
-      expect(redisService.updateQuizSession).toHaveBeenCalledWith(
+      expect(store.updateQuizSession).toHaveBeenCalledWith(
         'QUIZ123',
         expect.objectContaining({
           status: QuizStatus.COMPLETED,
         }),
       );
     });
+
+    it.each([QuizStatus.WAITING, QuizStatus.COMPLETED])(
+      'should refuse to advance a %s quiz',
+      async (status) => {
+        store.getQuizSession.mockResolvedValue({
+          quizId: 'QUIZ123',
+          title: 'Test Quiz',
+          status,
+          questions: mockQuestions,
+          currentQuestionIndex: 1,
+          createdAt: new Date(),
+          maxParticipants: 100,
+          timePerQuestion: 30,
+          autoAdvance: false,
+          hostToken: 'host-token',
+          coHostIds: [],
+        });
+
+        await expect(service.nextQuestion('QUIZ123')).rejects.toMatchObject({
+          response: { code: ErrorCode.QUIZ_NOT_IN_PROGRESS },
+        });
+        expect(store.moveToQuestion).not.toHaveBeenCalled();
+        expect(store.updateQuizSession).not.toHaveBeenCalled();
+        expect(archive.save).not.toHaveBeenCalled();
+      },
+    );
   });
 
   describe('getLeaderboard', () => {
-    it('should return enriched leaderboard with stats', async () => {
+    it('should return the top entries with their answer counts', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 0,
+        questionPhase: QuestionPhase.REVEALED,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
       const mockLeaderboard = [
-        { userId: 'user1', username: 'Alice', score: 150, rank: 1 },
-        { userId: 'user2', username: 'Bob', score: 120, rank: 2 },
+        {
+          userId: 'user1',
+          username: 'Alice',
+          score: 150,
+          rank: 1,
+          correctAnswers: 2,
+          totalAnswers: 3,
+        },
+        {
+          userId: 'user2',
+          username: 'Bob',
+          score: 120,
+          rank: 2,
+          correctAnswers: 1,
+          totalAnswers: 2,
+        },
       ];
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getFullLeaderboard.mockResolvedValue(mockLeaderboard);
-      redisService.getAllAnswers
-        .mockResolvedValueOnce({
-          q1: { correct: true },
-          q2: { correct: true },
-          q3: { correct: false },
-        })
-        .mockResolvedValueOnce({
-          q1: { correct: true },
-          q2: { correct: false },
-        });
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getLeaderboard.mockResolvedValue(mockLeaderboard);
 
       const result = await service.getLeaderboard('QUIZ123', 2);
 
+      expect(store.getLeaderboard).toHaveBeenCalledWith('QUIZ123', 2);
+      expect(store.getAllAnswers).not.toHaveBeenCalled();
       expect(result).toHaveLength(2);
       expect(result[0]).toMatchObject({
         userId: 'user1',
@@ -520,18 +1515,46 @@ describe('QuizService', () => {
         totalAnswers: 2,
       });
     });
+
+    it.each([QuestionPhase.OPEN, QuestionPhase.CLOSED])(
+      'should return the leaderboard as of the last reveal while the question is %s',
+      async (questionPhase) => {
+        const revealed = [
+          { userId: 'user2', username: 'Bob', score: 10, rank: 1, correctAnswers: 1 },
+          { userId: 'user1', username: 'Alice', score: 0, rank: 2, correctAnswers: 0 },
+        ];
+        store.getQuizSession.mockResolvedValue({
+          quizId: 'QUIZ123',
+          title: 'Test Quiz',
+          status: QuizStatus.IN_PROGRESS,
+          questions: mockQuestions,
+          currentQuestionIndex: 1,
+          questionPhase,
+          createdAt: new Date(),
+          maxParticipants: 100,
+          timePerQuestion: 30,
+          autoAdvance: false,
+          hostToken: 'host-token',
+          coHostIds: [],
+        });
+        store.getLeaderboardSnapshot.mockResolvedValue({ seq: 2, leaderboard: revealed });
+
+        expect(await service.getLeaderboard('QUIZ123', 1)).toEqual(revealed.slice(0, 1));
+        expect(await service.getVisibleLeaderboard('QUIZ123')).toEqual(revealed);
+        expect(store.getLeaderboard).not.toHaveBeenCalled();
+        expect(store.getFullLeaderboard).not.toHaveBeenCalled();
+      },
+    );
   });
 
   describe('getParticipants', () => {
     it('should return list of participants with details', async () => {
       const userIds = ['user1', 'user2'];
-      const participant1 = { userId: 'user1', username: 'Alice', score: 100 };
-      const participant2 = { userId: 'user2', username: 'Bob', score: 80 };
+      const participant1 = { userId: 'user1', username: 'Alice', score: 100 } as Participant;
+      const participant2 = { userId: 'user2', username: 'Bob', score: 80 } as Participant;
 
-      redisService.getParticipants.mockResolvedValue(userIds);
-      redisService.getParticipant
-        .mockResolvedValueOnce(participant1)
-        .mockResolvedValueOnce(participant2);
+      store.getParticipants.mockResolvedValue(userIds);
+      store.getParticipantsById.mockResolvedValue([participant1, participant2]);
 
       const result = await service.getParticipants('QUIZ123');
 
@@ -541,11 +1564,12 @@ describe('QuizService', () => {
     });
 
     it('should filter out null participants', async () => {
-      redisService.getParticipants.mockResolvedValue(['user1', 'user2', 'user3']);
-      redisService.getParticipant
-        .mockResolvedValueOnce({ userId: 'user1', username: 'Alice' })
-        .mockResolvedValueOnce(null)
-        .mockResolvedValueOnce({ userId: 'user3', username: 'Charlie' });
+      store.getParticipants.mockResolvedValue(['user1', 'user2', 'user3']);
+      store.getParticipantsById.mockResolvedValue([
+        { userId: 'user1', username: 'Alice' } as Participant,
+        null,
+        { userId: 'user3', username: 'Charlie' } as Participant,
+      ]);
 
       const result = await service.getParticipants('QUIZ123');
 
@@ -558,26 +1582,171 @@ describe('QuizService', () => {
     it('should mark quiz as completed', async () => {
       const mockSession = {
         quizId: 'QUIZ123',
+        title: 'Test Quiz',
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 2,
         createdAt: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
+      store.getQuizSession.mockResolvedValue(mockSession);
 
       const result = await service.completeQuiz('QUIZ123');
 
       expect(result.status).toBe(QuizStatus.COMPLETED);
       expect(result.endTime).toBeDefined();
-      expect(redisService.updateQuizSession).toHaveBeenCalledWith(
+      expect(store.updateQuizSession).toHaveBeenCalledWith(
         'QUIZ123',
         expect.objectContaining({
           status: QuizStatus.COMPLETED,
         }),
       );
     });
+
+    it('should keep the completed quiz for its grace period only', async () => {
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        questions: mockQuestions,
+        currentQuestionIndex: 2,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+
+      await service.completeQuiz('QUIZ123');
+
+      expect(store.expireQuiz).toHaveBeenCalledWith('QUIZ123', 300);
+    });
+
+    it('should archive the final standings with every answer', async () => {
+      const startTime = new Date();
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        questions: mockQuestions,
+        currentQuestionIndex: 1,
+        startTime,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+      store.getFullLeaderboard.mockResolvedValue([
+        { userId: 'user1', username: 'Alice', score: 10, rank: 1 },
+        { userId: 'user2', username: 'Bob', score: 0, rank: 2 },
+      ]);
+      const answers = {
+        q1: {
+          answer: 'Joyful',
+          correct: true,
+          correctAnswer: 'Joyful',
+          earnedPoints: 10,
+          timeTaken: 4,
+          submittedAt: new Date(),
+        },
+      };
+      store.getAllAnswers.mockImplementation(async (_quizId, userId) =>
+        userId === 'user1' ? answers : {},
+      );
+      store.getParticipantsById.mockResolvedValue([
+        {
+          userId: 'user1',
+          username: 'Alice',
+          playerId: 'player-alice',
+          joinedAt: new Date(),
+          score: 10,
+          answersSubmitted: 1,
+        },
+        { userId: 'user2', username: 'Bob', joinedAt: new Date(), score: 0, answersSubmitted: 0 },
+      ]);
+
+      const result = await service.completeQuiz('QUIZ123');
+
+      expect(archive.save).toHaveBeenCalledWith({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        createdAt: expect.any(Date),
+        startTime,
+        endTime: result.endTime,
+        archivedAt: expect.any(Date),
+        timePerQuestion: 30,
+        scoring: service.getScoring(result),
+        questions: mockQuestions,
+        participants: [
+          {
+            userId: 'user1',
+            playerId: 'player-alice',
+            username: 'Alice',
+            score: 10,
+            rank: 1,
+            answers,
+          },
+          // Players who gave no player ID are archived without one
+          { userId: 'user2', playerId: null, username: 'Bob', score: 0, rank: 2, answers: {} },
+        ],
+      });
+      expect(archive.save.mock.calls[0][0]).not.toHaveProperty('hostToken');
+    });
+
+    it('should complete the quiz even if archiving fails', async () => {
+      store.getQuizSession.mockResolvedValue({
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        status: QuizStatus.IN_PROGRESS,
+        questions: mockQuestions,
+        currentQuestionIndex: 1,
+        createdAt: new Date(),
+        maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
+      });
+      store.getFullLeaderboard.mockResolvedValue([]);
+      archive.save.mockRejectedValue(new Error('disk full'));
+
+      const result = await service.completeQuiz('QUIZ123');
+
+      expect(result.status).toBe(QuizStatus.COMPLETED);
+      expect(store.expireQuiz).toHaveBeenCalledWith('QUIZ123', 300);
+    });
+  });
+
+  describe('getArchivedQuiz', () => {
+    it('should return the archived quiz', async () => {
+      const archived = {
+        quizId: 'QUIZ123',
+        title: 'Test Quiz',
+        createdAt: new Date(),
+        archivedAt: new Date(),
+        timePerQuestion: 30,
+        scoring: { strategy: 'flat' as const, description: 'Flat' },
+        questions: mockQuestions,
+        participants: [],
+      };
+      archive.findById.mockResolvedValue(archived);
+
+      expect(await service.getArchivedQuiz('QUIZ123')).toBe(archived);
+    });
+
+    it('should throw NotFoundException for a quiz that was never archived', async () => {
+      archive.findById.mockResolvedValue(undefined);
+
+      await expect(service.getArchivedQuiz('NOPE12')).rejects.toThrow(NotFoundException);
+    });
   });
 
   describe('getQuizStats', () => {
@@ -588,9 +1757,14 @@ describe('QuizService', () => {
         status: QuizStatus.IN_PROGRESS,
         questions: mockQuestions,
         currentQuestionIndex: 1,
+        questionPhase: QuestionPhase.REVEALED,
         createdAt: new Date(),
         startTime: new Date(),
         maxParticipants: 100,
+        timePerQuestion: 30,
+        autoAdvance: false,
+        hostToken: 'host-token',
+        coHostIds: [],
       };
 
       const mockLeaderboard = [
@@ -604,16 +1778,9 @@ describe('QuizService', () => {
         },
       ];
 
-      redisService.getQuizSession.mockResolvedValue(mockSession);
-      redisService.getParticipantCount.mockResolvedValue(10);
-      redisService.getFullLeaderboard.mockResolvedValue(mockLeaderboard);
-      redisService.getAllAnswers.mockResolvedValue({
-        q1: { correct: true },
-        q2: { correct: true },
-        q3: { correct: true },
-        q4: { correct: true },
-        q5: { correct: true },
-      });
+      store.getQuizSession.mockResolvedValue(mockSession);
+      store.getParticipantCount.mockResolvedValue(10);
+      store.getLeaderboard.mockResolvedValue(mockLeaderboard);
 
       const result = await service.getQuizStats('QUIZ123');
 
@@ -625,22 +1792,120 @@ describe('QuizService', () => {
         questionCount: 2,
         currentQuestion: 2,
       });
-      expect(result.topPlayers).toBeDefined();
+      expect(result.topPlayers).toEqual(mockLeaderboard);
+      expect(store.getLeaderboard).toHaveBeenCalledWith('QUIZ123', 3);
+    });
+  });
+
+  describe('host authorization', () => {
+    const mockSession = {
+      quizId: 'QUIZ123',
+      title: 'Test Quiz',
+      status: QuizStatus.WAITING,
+      questions: mockQuestions,
+      currentQuestionIndex: 0,
+      createdAt: new Date(),
+      maxParticipants: 100,
+      timePerQuestion: 30,
+      autoAdvance: false,
+      hostToken: 'host-token',
+      coHostIds: ['user2'],
+    };
+
+    beforeEach(() => {
+      store.getQuizSession.mockResolvedValue({ ...mockSession, coHostIds: ['user2'] });
+    });
+
+    it('should issue a host token when creating a quiz', async () => {
+      questionService.getBalancedQuestions.mockResolvedValue(mockQuestions);
+
+      const quiz = await service.createQuiz('Test Quiz', 2, { hostSocketId: 'socket1' });
+
+      expect(quiz.hostToken).toEqual(expect.any(String));
+      expect(quiz.hostToken.length).toBeGreaterThan(20);
+      expect(quiz.hostSocketId).toBe('socket1');
+      expect(quiz.coHostIds).toEqual([]);
+    });
+
+    it('should authorize the host token', async () => {
+      await expect(service.authorizeHost('QUIZ123', { hostToken: 'host-token' })).resolves.toBe(
+        'host',
+      );
+    });
+
+    it('should authorize delegated co-hosts', async () => {
+      await expect(service.authorizeHost('QUIZ123', { userId: 'user2' })).resolves.toBe('co_host');
+    });
+
+    it('should reject anyone else with a NOT_HOST error', async () => {
+      const attempt = service.authorizeHost('QUIZ123', { hostToken: 'guess', userId: 'user3' });
+
+      await expect(attempt).rejects.toThrow(ForbiddenException);
+      await expect(attempt).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'NOT_HOST' }),
+      });
+    });
+
+    it('should only let the host add co-hosts', async () => {
+      await expect(service.addCoHost('QUIZ123', 'guess', 'user3')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(store.updateQuizSession).not.toHaveBeenCalled();
+    });
+
+    it('should add an existing participant as co-host', async () => {
+      store.getParticipant.mockResolvedValue({
+        userId: 'user3',
+        username: 'Carol',
+        socketId: 'socket-user3',
+        joinedAt: new Date(),
+        score: 0,
+        answersSubmitted: 0,
+      });
+
+      const result = await service.addCoHost('QUIZ123', 'host-token', 'user3');
+
+      expect(result.coHostIds).toEqual(['user2', 'user3']);
+      expect(store.updateQuizSession).toHaveBeenCalledWith(
+        'QUIZ123',
+        expect.objectContaining({ coHostIds: ['user2', 'user3'] }),
+      );
+    });
+
+    it('should reject co-hosts that are not participants', async () => {
+      store.getParticipant.mockResolvedValue(null);
+
+      await expect(service.addCoHost('QUIZ123', 'host-token', 'ghost')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should rotate the host token on handover', async () => {
+      const result = await service.transferHost('QUIZ123', 'user2', 'socket2');
+
+      expect(result.hostToken).not.toBe('host-token');
+      expect(result.hostUserId).toBe('user2');
+      expect(result.hostSocketId).toBe('socket2');
+      expect(result.coHostIds).toEqual([]);
+      expect(store.updateQuizSession).toHaveBeenCalledWith(
+        'QUIZ123',
+        expect.objectContaining({ hostToken: result.hostToken }),
+      );
     });
   });
 
   describe('quizExists', () => {
     it('should return true if quiz exists', async () => {
-      redisService.quizExists.mockResolvedValue(true);
+      store.quizExists.mockResolvedValue(true);
 
       const result = await service.quizExists('QUIZ123');
 
       expect(result).toBe(true);
-      expect(redisService.quizExists).toHaveBeenCalledWith('QUIZ123');
+      expect(store.quizExists).toHaveBeenCalledWith('QUIZ123');
     });
 
     it('should return false if quiz does not exist', async () => {
-      redisService.quizExists.mockResolvedValue(false);
+      store.quizExists.mockResolvedValue(false);
 
       const result = await service.quizExists('NONEXISTENT');
 
@@ -11,56 +11,124 @@
  * - Refinement: Added idempotency for answer submission to prevent double scoring
  */
 
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { RedisService } from '../../redis/redis.service';
-import { QuestionService } from './question.service';
+import { timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode } from '../../common/errors/error-codes';
+import { QuizStore } from '../../storage/quiz.store';
+import { QuizArchiveRepository } from '../../archive/repositories/quiz-archive.repository';
+import { ArchivedQuiz } from '../../archive/interfaces/archive.interface';
+import { QuestionService } from '../../questions/question.service';
+import { Question, SubmittedAnswer } from '../../questions/interfaces/question.interface';
+import { normalizeAnswer } from '../../questions/answer-matching';
 import {
   QuizSession,
   QuizStatus,
+  QuestionPhase,
   Participant,
   LeaderboardEntry,
-  AnswerResult,
-  Question,
+  AnswerReceipt,
+  PlayerQuestionResult,
+  QuestionReveal,
+  CreateQuizOptions,
+  HostCredentials,
+  HostRole,
+  AnswerRecord,
+  SessionSnapshot,
+  ScoringRules,
+  ScoringStrategyName,
+  ScoringSummary,
+  RankEncoding,
 } from '../interfaces/quiz.interface';
+import {
+  SCORING_STRATEGIES,
+  calculateScore,
+  resolveScoringRules,
+  summarizeScoring,
+} from '../scoring/scoring-strategies';
+import { DEFAULT_TIE_BREAKERS, buildRankEncoding, tieBreakerStats } from '../ranking/tie-breakers';
 
 @Injectable()
 export class QuizService {
   private readonly logger = new Logger(QuizService.name);
   private readonly quizSessionTTL: number;
+  private readonly completedQuizTTL: number;
   private readonly maxParticipants: number;
   private readonly scorePerCorrect: number;
-  private readonly timeBonusEnabled: boolean;
+  private readonly defaultScoringStrategy: ScoringStrategyName;
+  private readonly defaultTimePerQuestion: number;
+  private readonly lateAnswerGrace: number;
+  private readonly maxClockSkew: number;
 
   constructor(
-    private readonly redisService: RedisService,
+    private readonly store: QuizStore,
+    private readonly archive: QuizArchiveRepository,
     private readonly questionService: QuestionService,
     private readonly configService: ConfigService,
   ) {
     this.quizSessionTTL = this.configService.get<number>('QUIZ_SESSION_TTL', 3600);
+    this.completedQuizTTL = this.configService.get<number>('QUIZ_COMPLETED_TTL', 600);
     this.maxParticipants = this.configService.get<number>('MAX_PARTICIPANTS_PER_QUIZ', 100);
     this.scorePerCorrect = this.configService.get<number>('SCORE_PER_CORRECT_ANSWER', 10);
-    this.timeBonusEnabled = this.configService.get<boolean>('TIME_BONUS_ENABLED', true);
+    // Quizzes created without a scoring strategy get the time bonus unless it is disabled
+    this.defaultScoringStrategy = this.configService.get<boolean>('TIME_BONUS_ENABLED', true)
+      ? 'time_bonus'
+      : 'flat';
+    this.defaultTimePerQuestion = this.configService.get<number>('DEFAULT_TIME_PER_QUESTION', 30);
+    this.lateAnswerGrace = this.configService.get<number>('LATE_ANSWER_GRACE_MS', 500);
+    this.maxClockSkew = this.configService.get<number>('MAX_CLOCK_SKEW_MS', 1000);
   }
 
   /**
    * Create a new quiz session
    */
-  async createQuiz(title: string, questionCount: number = 10): Promise<QuizSession> {
+  async createQuiz(
+    title: string,
+    questionCount: number = 10,
+    options: CreateQuizOptions = {},
+  ): Promise<QuizSession> {
     const quizId = this.generateQuizId();
-    const questions = this.questionService.getBalancedQuestions(questionCount);
+    const scoring = resolveScoringRules(
+      options.scoring ?? { strategy: this.defaultScoringStrategy },
+    );
+    const questions = (await this.resolveQuestions(quizId, questionCount, options)).map(
+      (question) => this.questionService.scrambleOptions(question),
+    );
+    const timePerQuestion = options.timePerQuestion ?? this.defaultTimePerQuestion;
+    const ranking = buildRankEncoding(
+      options.tieBreakers ?? DEFAULT_TIE_BREAKERS,
+      questions,
+      timePerQuestion,
+    );
 
     const quizSession: QuizSession = {
       quizId,
       title,
+      createdBy: options.createdBy,
       status: QuizStatus.WAITING,
       questions,
       currentQuestionIndex: 0,
       createdAt: new Date(),
       maxParticipants: this.maxParticipants,
+      timePerQuestion,
+      autoAdvance: options.autoAdvance ?? false,
+      scoring,
+      ranking,
+      hostToken: uuidv4(),
+      hostSocketId: options.hostSocketId,
+      coHostIds: [],
     };
 
-    await this.redisService.createQuizSession(quizId, quizSession, this.quizSessionTTL);
+    await this.store.createQuizSession(quizId, quizSession, this.quizSessionTTL);
     this.logger.log(`Created quiz session: ${quizId} - ${title}`);
 
     return quizSession;
@@ -70,42 +138,50 @@ export class QuizService {
    * Get quiz session
    */
   async getQuizSession(quizId: string): Promise<QuizSession> {
-    const session = await this.redisService.getQuizSession(quizId);
+    const session = await this.store.getQuizSession(quizId);
     if (!session) {
-      throw new NotFoundException(`Quiz session ${quizId} not found`);
+      throw new NotFoundException({
+        code: ErrorCode.QUIZ_NOT_FOUND,
+        message: `Quiz session ${quizId} not found`,
+      });
     }
     return session;
   }
 
   /**
-   * Join a quiz session
+   * Join a quiz session. A playerId, if the player gave one, collects their
+   * results across quizzes (see QuizHistoryService).
    */
   async joinQuiz(
     quizId: string,
     userId: string,
     username: string,
-    socketId: string,
+    socketId?: string,
+    playerId?: string,
   ): Promise<QuizSession> {
     // Check if quiz exists
     const session = await this.getQuizSession(quizId);
 
     // Check if quiz is still accepting participants
     if (session.status === QuizStatus.COMPLETED) {
-      throw new BadRequestException('Quiz has already completed');
+      throw new BadRequestException({
+        code: ErrorCode.QUIZ_COMPLETED,
+        message: 'Quiz has already completed',
+      });
     }
 
     // Check participant limit
-    const participantCount = await this.redisService.getParticipantCount(quizId);
+    const participantCount = await this.store.getParticipantCount(quizId);
     if (participantCount >= this.maxParticipants) {
-      throw new BadRequestException('Quiz is full');
+      throw new BadRequestException({ code: ErrorCode.QUIZ_FULL, message: 'Quiz is full' });
     }
 
     // Check if user already joined
-    const existingParticipant = await this.redisService.getParticipant(quizId, userId);
+    const existingParticipant = await this.store.getParticipant(quizId, userId);
     if (existingParticipant) {
       // Update socket ID for reconnection
       existingParticipant.socketId = socketId;
-      await this.redisService.addParticipant(quizId, userId, existingParticipant);
+      await this.store.addParticipant(quizId, userId, existingParticipant);
       this.logger.log(`User ${username} reconnected to quiz ${quizId}`);
       return session;
     }
@@ -115,20 +191,140 @@ export class QuizService {
       userId,
       username,
       socketId,
+      playerId,
       joinedAt: new Date(),
       score: 0,
       answersSubmitted: 0,
     };
 
-    await this.redisService.addParticipant(quizId, userId, participant);
+    await this.store.addParticipant(quizId, userId, participant);
 
     // Initialize score to 0
-    await this.redisService.updateScore(quizId, userId, 0);
+    await this.store.initializeScore(quizId, userId);
+
+    // Late joiners get the current question released to them now, not at broadcast time
+    if (session.status === QuizStatus.IN_PROGRESS) {
+      const currentQuestion = session.questions[session.currentQuestionIndex];
+      if (currentQuestion) {
+        await this.store.setQuestionReleaseTime(
+          quizId,
+          currentQuestion.id,
+          userId,
+          participant.joinedAt.getTime(),
+        );
+      }
+    }
 
     this.logger.log(`User ${username} joined quiz ${quizId}`);
     return session;
   }
 
+  /**
+   * Issue a resume token the participant can use to reattach after a reconnect
+   */
+  async issueResumeToken(quizId: string, userId: string): Promise<string> {
+    const resumeToken = uuidv4();
+    await this.store.setResumeToken(quizId, resumeToken, userId);
+    return resumeToken;
+  }
+
+  /**
+   * Reattach an existing participant to a new socket using their resume token
+   */
+  async resumeParticipant(
+    quizId: string,
+    resumeToken: string,
+    socketId: string,
+  ): Promise<Participant> {
+    const participant = await this.authenticateParticipant(quizId, resumeToken);
+
+    participant.socketId = socketId;
+    await this.store.addParticipant(quizId, participant.userId, participant);
+
+    this.logger.log(`User ${participant.username} resumed quiz ${quizId}`);
+    return participant;
+  }
+
+  /**
+   * The participant a resume token belongs to. HTTP clients, which have no
+   * socket to be recognized by, present it with every request.
+   */
+  async authenticateParticipant(quizId: string, resumeToken: string): Promise<Participant> {
+    await this.getQuizSession(quizId);
+
+    const userId = await this.store.getResumeUserId(quizId, resumeToken);
+    const participant = userId ? await this.store.getParticipant(quizId, userId) : null;
+
+    if (!participant) {
+      throw new UnauthorizedException({
+        code: ErrorCode.INVALID_RESUME_TOKEN,
+        message: 'Resume token is invalid or has expired',
+      });
+    }
+
+    return participant;
+  }
+
+  /**
+   * Everything a reconnecting client needs to continue mid-quiz
+   */
+  async getSessionSnapshot(quizId: string, userId: string): Promise<SessionSnapshot> {
+    const session = await this.getQuizSession(quizId);
+    const inProgress = session.status === QuizStatus.IN_PROGRESS;
+
+    const question = inProgress ? await this.getCurrentQuestion(quizId) : null;
+    const remainingSeconds =
+      inProgress && session.questionDeadline
+        ? Math.max(Math.ceil((session.questionDeadline - Date.now()) / 1000), 0)
+        : null;
+
+    const questionPhase = inProgress ? (session.questionPhase ?? QuestionPhase.OPEN) : null;
+
+    // Until the current question is revealed, the participant only sees their own submission
+    const answers: SessionSnapshot['answers'] = await this.store.getAllAnswers(quizId, userId);
+    const current = inProgress ? session.questions[session.currentQuestionIndex] : undefined;
+    if (current && answers[current.id] && questionPhase !== QuestionPhase.REVEALED) {
+      answers[current.id] = this.toReceipt(current.id, answers[current.id] as AnswerRecord);
+    }
+
+    // ... and everyone's score and rank as of the last reveal
+    let score: number;
+    let rank: number | null;
+    let leaderboard: LeaderboardEntry[];
+    if (this.scoresRevealed(session)) {
+      const liveRank = await this.store.getRank(quizId, userId);
+      score = await this.store.getScore(quizId, userId);
+      rank = liveRank !== null ? liveRank + 1 : null;
+      leaderboard = await this.store.getLeaderboard(quizId, 10);
+    } else {
+      const standings = await this.getRevealedStandings(quizId);
+      const own = standings.find((entry) => entry.userId === userId);
+      score = own?.score ?? 0;
+      rank = own?.rank ?? null;
+      leaderboard = standings.slice(0, 10);
+    }
+
+    return {
+      quiz: {
+        quizId: session.quizId,
+        title: session.title,
+        status: session.status,
+        currentQuestion: session.currentQuestionIndex,
+        totalQuestions: session.questions.length,
+        timePerQuestion: session.timePerQuestion,
+        scoring: this.getScoring(session),
+      },
+      question,
+      questionNumber: inProgress ? session.currentQuestionIndex + 1 : null,
+      remainingSeconds,
+      score,
+      rank,
+      questionPhase,
+      answers,
+      leaderboard,
+    };
+  }
+
   /**
    * Start quiz session
    */
@@ -136,20 +332,27 @@ export class QuizService {
     const session = await this.getQuizSession(quizId);
 
     if (session.status !== QuizStatus.WAITING) {
-      throw new BadRequestException('Quiz has already started or completed');
+      throw new BadRequestException({
+        code: ErrorCode.QUIZ_ALREADY_STARTED,
+        message: 'Quiz has already started or completed',
+      });
     }
 
-    const participantCount = await this.redisService.getParticipantCount(quizId);
+    const participantCount = await this.store.getParticipantCount(quizId);
     if (participantCount === 0) {
-      throw new BadRequestException('Cannot start quiz with no participants');
+      throw new BadRequestException({
+        code: ErrorCode.NO_PARTICIPANTS,
+        message: 'Cannot start quiz with no participants',
+      });
     }
 
     session.status = QuizStatus.IN_PROGRESS;
     session.startTime = new Date();
     session.currentQuestionIndex = 0;
+    this.openQuestion(session);
 
-    await this.redisService.updateQuizSession(quizId, session);
-    await this.redisService.setCurrentQuestion(quizId, 0);
+    await this.store.updateQuizSession(quizId, session);
+    await this.store.setCurrentQuestion(quizId, 0);
 
     this.logger.log(`Started quiz ${quizId} with ${participantCount} participants`);
     return session;
@@ -160,10 +363,13 @@ export class QuizService {
    */
   async getCurrentQuestion(quizId: string): Promise<Question> {
     const session = await this.getQuizSession(quizId);
-    const currentIndex = await this.redisService.getCurrentQuestion(quizId);
+    const currentIndex = await this.store.getCurrentQuestion(quizId);
 
     if (currentIndex >= session.questions.length) {
-      throw new BadRequestException('No more questions available');
+      throw new BadRequestException({
+        code: ErrorCode.NO_MORE_QUESTIONS,
+        message: 'No more questions available',
+      });
     }
 
     const question = session.questions[currentIndex];
@@ -172,17 +378,28 @@ export class QuizService {
     return {
       ...question,
       correctAnswer: '', // Hide correct answer from clients
+      acceptedAnswers: undefined,
+      answerKey: undefined,
     };
   }
 
   /**
-   * Move to next question
+   * Move to next question. Given fromIndex, the quiz only moves on from that
+   * question: of several callers advancing at once (the host, the auto-advance
+   * on any instance) one goes ahead and the others get ALREADY_ADVANCED.
    */
-  async nextQuestion(quizId: string): Promise<Question | null> {
-    const session = await this.getQuizSession(quizId);
-    const currentIndex = await this.redisService.getCurrentQuestion(quizId);
+  async nextQuestion(quizId: string, fromIndex?: number): Promise<Question | null> {
+    const session = await this.getQuizInProgress(quizId);
+    const currentIndex = fromIndex ?? (await this.store.getCurrentQuestion(quizId));
     const nextIndex = currentIndex + 1;
 
+    if (!(await this.store.moveToQuestion(quizId, currentIndex, nextIndex))) {
+      throw new ConflictException({
+        code: ErrorCode.ALREADY_ADVANCED,
+        message: `Quiz ${quizId} has already moved on from question ${currentIndex + 1}`,
+      });
+    }
+
     if (nextIndex >= session.questions.length) {
       // Quiz completed
       await this.completeQuiz(quizId);
@@ -190,152 +407,300 @@ export class QuizService {
     }
 
     session.currentQuestionIndex = nextIndex;
-    await this.redisService.setCurrentQuestion(quizId, nextIndex);
-    await this.redisService.updateQuizSession(quizId, session);
+    this.openQuestion(session);
+    await this.store.updateQuizSession(quizId, session);
 
     return this.getCurrentQuestion(quizId);
   }
 
   /**
-   * Submit answer and calculate score
+   * Submit answer and calculate score. The outcome stays private until the
+   * question is revealed, so the caller only gets a receipt.
    */
   async submitAnswer(
     quizId: string,
     userId: string,
     questionId: string,
-    answer: string,
-    timeTaken: number,
-  ): Promise<AnswerResult> {
+    answer: SubmittedAnswer,
+    clientTimeTaken?: number,
+  ): Promise<AnswerReceipt> {
+    const receivedAt = Date.now();
     const session = await this.getQuizSession(quizId);
 
     if (session.status !== QuizStatus.IN_PROGRESS) {
-      throw new BadRequestException('Quiz is not in progress');
+      throw new BadRequestException({
+        code: ErrorCode.QUIZ_NOT_IN_PROGRESS,
+        message: 'Quiz is not in progress',
+      });
     }
 
-    // Check if answer already submitted (idempotency)
-    const existingAnswer = await this.redisService.getAnswer(quizId, userId, questionId);
+    // Only the first answer counts; a second one is refused
+    const existingAnswer = await this.store.getAnswer(quizId, userId, questionId);
     if (existingAnswer) {
       this.logger.warn(
         `User ${userId} attempted to submit duplicate answer for question ${questionId}`,
       );
 
-      // Return cached result
-      return {
-        correct: existingAnswer.correct,
-        correctAnswer: existingAnswer.correctAnswer,
-        earnedPoints: existingAnswer.earnedPoints,
-        currentScore: await this.redisService.getScore(quizId, userId),
-        rank: (await this.redisService.getRank(quizId, userId)) || 0,
-      };
+      throw new ConflictException({
+        code: ErrorCode.ALREADY_ANSWERED,
+        message: `Question ${questionId} has already been answered`,
+      });
     }
 
-    // Validate answer
-    const isCorrect = this.questionService.validateAnswer(questionId, answer);
-    const question = this.questionService.getQuestionById(questionId);
+    // Validate answer against the quiz's own copy (custom questions aren't in the bank)
+    const question = session.questions.find((q) => q.id === questionId);
 
     if (!question) {
-      throw new NotFoundException(`Question ${questionId} not found`);
+      throw new NotFoundException({
+        code: ErrorCode.QUESTION_NOT_FOUND,
+        message: `Question ${questionId} not found`,
+      });
     }
 
-    // Calculate points
-    const earnedPoints = this.timeBonusEnabled
-      ? this.questionService.calculatePoints(questionId, isCorrect, timeTaken, 30)
-      : isCorrect
-        ? question.points
-        : 0;
+    const evaluation = this.questionService.evaluateAnswer(question, answer);
+
+    this.assertQuestionOpen(session, questionId);
+
+    const participantReleasedAt = await this.store.getQuestionReleaseTime(
+      quizId,
+      questionId,
+      userId,
+    );
+    const timeTaken = this.resolveTimeTaken(
+      session,
+      receivedAt,
+      participantReleasedAt,
+      clientTimeTaken,
+    );
 
-    // Update score atomically
-    const newScore =
-      earnedPoints > 0
-        ? await this.redisService.incrementScore(quizId, userId, earnedPoints)
-        : await this.redisService.getScore(quizId, userId);
+    // Calculate points with the quiz's scoring strategy
+    const scoring = this.getScoringRules(session);
+    const streak = SCORING_STRATEGIES[scoring.strategy].usesStreak
+      ? await this.countStreak(session, userId)
+      : 0;
+    const earnedPoints = calculateScore(scoring, {
+      question,
+      credit: evaluation.credit,
+      timeTaken,
+      timeLimit: session.timePerQuestion,
+      streak,
+    });
 
-    // Store answer
-    await this.redisService.storeAnswer(quizId, userId, questionId, {
+    // Store answer, update score and participant stats in one atomic step
+    const answerRecord: AnswerRecord = {
       answer,
-      correct: isCorrect,
+      correct: evaluation.correct,
       correctAnswer: question.correctAnswer,
+      answerKey: question.answerKey,
+      credit: evaluation.credit,
+      typos: evaluation.typos,
       earnedPoints,
       timeTaken,
-      submittedAt: new Date(),
-    });
+      clientTimeTaken,
+      submittedAt: new Date(receivedAt),
+    };
+    const ranking = this.getRankEncoding(session);
+    const recorded = await this.store.recordAnswer(
+      quizId,
+      userId,
+      questionId,
+      answerRecord,
+      earnedPoints,
+      {
+        scoreRadix: ranking.scoreRadix,
+        weights: ranking.weights,
+        stats: tieBreakerStats(
+          ranking,
+          session.questions.indexOf(question),
+          evaluation.correct,
+          timeTaken,
+        ),
+      },
+    );
 
-    // Update participant stats
-    const participant = await this.redisService.getParticipant(quizId, userId);
-    if (participant) {
-      participant.answersSubmitted += 1;
-      participant.score = newScore;
-      await this.redisService.addParticipant(quizId, userId, participant);
-    }
+    if (!recorded.recorded) {
+      // A concurrent submission for the same question won the race
+      this.logger.warn(
+        `User ${userId} attempted to submit duplicate answer for question ${questionId}`,
+      );
 
-    // Get current rank
-    const rank = (await this.redisService.getRank(quizId, userId)) || 0;
+      throw new ConflictException({
+        code: ErrorCode.ALREADY_ANSWERED,
+        message: `Question ${questionId} has already been answered`,
+      });
+    }
 
     this.logger.debug(
-      `User ${userId} answered question ${questionId}: ${isCorrect ? 'Correct' : 'Incorrect'} (+${earnedPoints} points)`,
+      `User ${userId} answered question ${questionId}: ${evaluation.correct ? 'Correct' : 'Incorrect'} (+${earnedPoints} points)`,
     );
 
-    return {
-      correct: isCorrect,
-      correctAnswer: question.correctAnswer,
-      earnedPoints,
-      currentScore: newScore,
-      rank: rank + 1, // Convert to 1-based ranking
-    };
+    return this.toReceipt(questionId, answerRecord);
   }
 
   /**
-   * Get leaderboard for a quiz
+   * The quiz's scoring rules with a description for players
    */
-  async getLeaderboard(quizId: string, limit: number = 10): Promise<LeaderboardEntry[]> {
-    await this.getQuizSession(quizId); // Verify quiz exists
+  getScoring(session: QuizSession): ScoringSummary {
+    return summarizeScoring(this.getScoringRules(session));
+  }
+
+  /**
+   * Stop accepting answers to the current question. Resolves to the session
+   * if this call closed it, or null if it was no longer open: of several
+   * concurrent callers (the timer, the host skipping ahead) only one gets it.
+   * A questionIndex that is no longer the current question closes nothing,
+   * so a timer left over from an earlier question can't close a later one.
+   */
+  async closeQuestion(quizId: string, questionIndex?: number): Promise<QuizSession | null> {
+    const session = await this.getQuizInProgress(quizId);
+    const index = questionIndex ?? session.currentQuestionIndex;
+
+    if (
+      index !== session.currentQuestionIndex ||
+      (session.questionPhase ?? QuestionPhase.OPEN) !== QuestionPhase.OPEN
+    ) {
+      return null;
+    }
+    const closed = await this.store.advanceQuestionPhase(quizId, index, QuestionPhase.CLOSED);
+    if (!closed) {
+      return null;
+    }
+
+    session.questionPhase = QuestionPhase.CLOSED;
+    await this.store.updateQuizSession(quizId, session);
+    return session;
+  }
+
+  /**
+   * Close the current question if it is still open and gather its outcome:
+   * the correct answer, how often each answer was given and every player's
+   * points. Given a questionIndex, that question's outcome is gathered even
+   * if the quiz has moved on since it was closed.
+   */
+  async revealQuestion(quizId: string, questionIndex?: number): Promise<QuestionReveal> {
+    const session =
+      (await this.closeQuestion(quizId, questionIndex)) ?? (await this.getQuizInProgress(quizId));
+    const index = questionIndex ?? session.currentQuestionIndex;
+    const question = session.questions[index];
 
-    const leaderboard = await this.redisService.getFullLeaderboard(quizId);
+    const [participants, leaderboard] = await Promise.all([
+      this.getParticipants(quizId),
+      this.store.getFullLeaderboard(quizId),
+    ]);
+    const records: Array<AnswerRecord | null> = await this.store.getAnswersForQuestion(
+      quizId,
+      participants.map((p) => p.userId),
+      question.id,
+    );
+    const standings = new Map(leaderboard.map((entry) => [entry.userId, entry]));
 
-    // Calculate additional stats
-    const enrichedLeaderboard = await Promise.all(
-      leaderboard.slice(0, limit).map(async (entry) => {
-        const answers = await this.redisService.getAllAnswers(quizId, entry.userId);
-        const correctAnswers = Object.values(answers).filter((a: any) => a.correct).length;
-        const totalAnswers = Object.keys(answers).length;
+    const results: PlayerQuestionResult[] = participants
+      .map((participant, index) => {
+        const record = records[index];
+        const standing = standings.get(participant.userId);
 
         return {
-          ...entry,
-          correctAnswers,
-          totalAnswers,
+          userId: participant.userId,
+          username: participant.username,
+          answered: record !== null,
+          answer: record?.answer,
+          correct: record?.correct ?? false,
+          credit: record ? (record.credit ?? (record.correct ? 1 : 0)) : 0,
+          typos: record?.typos,
+          earnedPoints: record?.earnedPoints ?? 0,
+          score: standing?.score ?? participant.score,
+          rank: standing?.rank ?? leaderboard.length + 1,
         };
-      }),
-    );
+      })
+      .sort((a, b) => a.rank - b.rank);
+
+    const revealed = await this.store.advanceQuestionPhase(quizId, index, QuestionPhase.REVEALED);
+    if (revealed && index === session.currentQuestionIndex) {
+      session.questionPhase = QuestionPhase.REVEALED;
+      await this.store.updateQuizSession(quizId, session);
+    }
+
+    const answers = records.filter((record): record is AnswerRecord => record !== null);
+
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      correctAnswer: question.correctAnswer,
+      answerKey: question.answerKey,
+      acceptedAnswers: question.acceptedAnswers,
+      distribution: this.tallyAnswers(
+        question,
+        answers.map((record) => record.answer),
+      ),
+      unanswered: participants.length - answers.length,
+      results,
+    };
+  }
+
+  /**
+   * Get leaderboard for a quiz, as players may see it (see getVisibleLeaderboard)
+   */
+  async getLeaderboard(quizId: string, limit: number = 10): Promise<LeaderboardEntry[]> {
+    const session = await this.getQuizSession(quizId);
 
-    return enrichedLeaderboard;
+    if (!this.scoresRevealed(session)) {
+      return (await this.getRevealedStandings(quizId)).slice(0, limit);
+    }
+    return await this.store.getLeaderboard(quizId, limit);
   }
 
   /**
-   * Get full leaderboard (all participants)
+   * Get full leaderboard (all participants), live
    */
   async getFullLeaderboard(quizId: string): Promise<LeaderboardEntry[]> {
     await this.getQuizSession(quizId);
-    return await this.redisService.getFullLeaderboard(quizId);
+    return await this.store.getFullLeaderboard(quizId);
+  }
+
+  /**
+   * The full leaderboard as players may see it. Live scores would give away
+   * answers to the current question until it is revealed, so until then it
+   * is the leaderboard as of the last published delta.
+   */
+  async getVisibleLeaderboard(quizId: string): Promise<LeaderboardEntry[]> {
+    const session = await this.getQuizSession(quizId);
+
+    if (!this.scoresRevealed(session)) {
+      return this.getRevealedStandings(quizId);
+    }
+    return await this.store.getFullLeaderboard(quizId);
+  }
+
+  /**
+   * Whether the live scores are public: not while the current question is
+   * waiting to be revealed
+   */
+  scoresRevealed(session: QuizSession): boolean {
+    return (
+      session.status !== QuizStatus.IN_PROGRESS || session.questionPhase === QuestionPhase.REVEALED
+    );
+  }
+
+  /**
+   * The leaderboard last published with a delta; empty before the first
+   */
+  private async getRevealedStandings(quizId: string): Promise<LeaderboardEntry[]> {
+    return (await this.store.getLeaderboardSnapshot(quizId))?.leaderboard ?? [];
   }
 
   /**
    * Get participant details
    */
   async getParticipant(quizId: string, userId: string): Promise<Participant | null> {
-    return await this.redisService.getParticipant(quizId, userId);
+    return await this.store.getParticipant(quizId, userId);
   }
 
   /**
    * Get all participants
    */
   async getParticipants(quizId: string): Promise<Participant[]> {
-    const userIds = await this.redisService.getParticipants(quizId);
-
-    const participants = await Promise.all(
-      userIds.map(async (userId) => {
-        return await this.redisService.getParticipant(quizId, userId);
-      }),
-    );
+    const userIds = await this.store.getParticipants(quizId);
+    const participants = await this.store.getParticipantsById(quizId, userIds);
 
     return participants.filter((p) => p !== null) as Participant[];
   }
@@ -344,12 +709,13 @@ export class QuizService {
    * Remove participant (disconnect)
    */
   async removeParticipant(quizId: string, userId: string): Promise<void> {
-    await this.redisService.removeParticipant(quizId, userId);
+    await this.store.removeParticipant(quizId, userId);
     this.logger.log(`Removed participant ${userId} from quiz ${quizId}`);
   }
 
   /**
-   * Complete quiz session
+   * Complete quiz session. Its results are archived for good and stay live
+   * for QUIZ_COMPLETED_TTL seconds before the quiz janitor purges them.
    */
   async completeQuiz(quizId: string): Promise<QuizSession> {
     const session = await this.getQuizSession(quizId);
@@ -357,18 +723,125 @@ export class QuizService {
     session.status = QuizStatus.COMPLETED;
     session.endTime = new Date();
 
-    await this.redisService.updateQuizSession(quizId, session);
+    await this.store.updateQuizSession(quizId, session);
+    await this.store.expireQuiz(quizId, this.completedQuizTTL);
+    await this.archiveQuiz(session);
     this.logger.log(`Completed quiz ${quizId}`);
 
     return session;
   }
 
+  /**
+   * Get a completed quiz from the archive, once its live session is gone
+   */
+  async getArchivedQuiz(quizId: string): Promise<ArchivedQuiz> {
+    const archived = await this.archive.findById(quizId);
+    if (!archived) {
+      throw new NotFoundException({
+        code: ErrorCode.QUIZ_NOT_FOUND,
+        message: `Quiz ${quizId} not found`,
+      });
+    }
+    return archived;
+  }
+
+  /**
+   * Verify that the caller may control the quiz, either with the host token
+   * or as a delegated co-host
+   */
+  async authorizeHost(quizId: string, credentials: HostCredentials): Promise<HostRole> {
+    const session = await this.getQuizSession(quizId);
+
+    if (this.isHostToken(session, credentials.hostToken)) {
+      return 'host';
+    }
+
+    if (credentials.userId && session.coHostIds.includes(credentials.userId)) {
+      return 'co_host';
+    }
+
+    throw new ForbiddenException({
+      code: ErrorCode.NOT_HOST,
+      message: 'Only the quiz host or a co-host can perform this action',
+    });
+  }
+
+  /**
+   * Record which socket is currently acting as host
+   */
+  async setHostSocket(quizId: string, hostToken: string, socketId: string): Promise<QuizSession> {
+    const session = await this.getQuizSession(quizId);
+    this.assertHostToken(session, hostToken);
+
+    if (session.hostSocketId !== socketId) {
+      session.hostSocketId = socketId;
+      await this.store.updateQuizSession(quizId, session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Delegate quiz control to a participant (host only)
+   */
+  async addCoHost(quizId: string, hostToken: string, userId: string): Promise<QuizSession> {
+    const session = await this.getQuizSession(quizId);
+    this.assertHostToken(session, hostToken);
+
+    const participant = await this.store.getParticipant(quizId, userId);
+    if (!participant) {
+      throw new NotFoundException({
+        code: ErrorCode.PARTICIPANT_NOT_FOUND,
+        message: `Participant ${userId} not found in quiz ${quizId}`,
+      });
+    }
+
+    if (!session.coHostIds.includes(userId)) {
+      session.coHostIds.push(userId);
+      await this.store.updateQuizSession(quizId, session);
+      this.logger.log(`User ${userId} is now a co-host of quiz ${quizId}`);
+    }
+
+    return session;
+  }
+
+  /**
+   * Revoke a participant's co-host role (host only)
+   */
+  async removeCoHost(quizId: string, hostToken: string, userId: string): Promise<QuizSession> {
+    const session = await this.getQuizSession(quizId);
+    this.assertHostToken(session, hostToken);
+
+    session.coHostIds = session.coHostIds.filter((id) => id !== userId);
+    await this.store.updateQuizSession(quizId, session);
+
+    return session;
+  }
+
+  /**
+   * Hand the host role over to a participant, issuing a fresh host token.
+   * The previous token stops working.
+   */
+  async transferHost(quizId: string, userId: string, socketId: string): Promise<QuizSession> {
+    const session = await this.getQuizSession(quizId);
+
+    session.hostToken = uuidv4();
+    session.hostUserId = userId;
+    session.hostSocketId = socketId;
+    session.coHostIds = session.coHostIds.filter((id) => id !== userId);
+
+    await this.store.updateQuizSession(quizId, session);
+    this.logger.log(`Host of quiz ${quizId} handed over to ${userId}`);
+
+    return session;
+  }
+
   /**
    * Get quiz statistics
    */
   async getQuizStats(quizId: string) {
     const session = await this.getQuizSession(quizId);
-    const participantCount = await this.redisService.getParticipantCount(quizId);
+    const participantCount = await this.store.getParticipantCount(quizId);
     const leaderboard = await this.getLeaderboard(quizId, 3);
 
     return {
@@ -384,6 +857,279 @@ export class QuizService {
     };
   }
 
+  /**
+   * A session that must be in progress, e.g. to close its current question
+   */
+  private async getQuizInProgress(quizId: string): Promise<QuizSession> {
+    const session = await this.getQuizSession(quizId);
+
+    if (session.status !== QuizStatus.IN_PROGRESS) {
+      throw new BadRequestException({
+        code: ErrorCode.QUIZ_NOT_IN_PROGRESS,
+        message: 'Quiz is not in progress',
+      });
+    }
+
+    return session;
+  }
+
+  /**
+   * Pick the quiz questions: explicit bank IDs and custom questions when given,
+   * otherwise a random selection from the bank by category and difficulty
+   */
+  private async resolveQuestions(
+    quizId: string,
+    questionCount: number,
+    options: CreateQuizOptions,
+  ): Promise<Question[]> {
+    const questionIds = options.questionIds ?? [];
+    const customQuestions = options.questions ?? [];
+
+    if (questionIds.length === 0 && customQuestions.length === 0) {
+      return this.questionService.getBalancedQuestions(questionCount, {
+        categories: options.categories,
+        distribution: options.difficultyDistribution,
+      });
+    }
+
+    if (options.categories || options.difficultyDistribution) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_QUIZ_SETTINGS,
+        message:
+          'categories and difficultyDistribution cannot be combined with questionIds or questions',
+      });
+    }
+
+    const bankQuestions = await this.questionService.getQuestionsByIds(questionIds);
+    const foundIds = new Set(bankQuestions.map((q) => q.id));
+    const missingIds = questionIds.filter((id) => !foundIds.has(id));
+
+    if (missingIds.length > 0) {
+      throw new BadRequestException({
+        code: ErrorCode.QUESTION_NOT_FOUND,
+        message: `Unknown question IDs: ${missingIds.join(', ')}`,
+      });
+    }
+
+    const custom = customQuestions.map((input, index) => {
+      try {
+        return this.questionService.buildQuestion(
+          `${quizId}-c${index + 1}`,
+          this.questionService.resolveAnswerKey(input),
+        );
+      } catch (error) {
+        throw new BadRequestException({
+          code: ErrorCode.INVALID_QUESTION,
+          message: `Custom question ${index + 1}: ${error.message}`,
+        });
+      }
+    });
+
+    return [...bankQuestions, ...custom];
+  }
+
+  /**
+   * Write a completed quiz to the archive. A failure is logged rather than
+   * thrown: the quiz has completed either way and stays live for a while.
+   */
+  private async archiveQuiz(session: QuizSession): Promise<void> {
+    try {
+      const leaderboard = await this.store.getFullLeaderboard(session.quizId);
+      const userIds = leaderboard.map((entry) => entry.userId);
+      const [participants, answers] = await Promise.all([
+        this.store.getParticipantsById(session.quizId, userIds),
+        Promise.all(userIds.map((userId) => this.store.getAllAnswers(session.quizId, userId))),
+      ]);
+
+      await this.archive.save({
+        quizId: session.quizId,
+        title: session.title,
+        createdBy: session.createdBy,
+        createdAt: session.createdAt,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        archivedAt: new Date(),
+        timePerQuestion: session.timePerQuestion,
+        scoring: this.getScoring(session),
+        questions: session.questions,
+        participants: leaderboard.map((entry, index) => ({
+          ...entry,
+          playerId: participants[index]?.playerId ?? null,
+          answers: answers[index],
+        })),
+      });
+    } catch (error) {
+      this.logger.error(`Error archiving quiz ${session.quizId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Scoring rules of a session, falling back to the default for sessions created without them
+   */
+  private getScoringRules(session: QuizSession): ScoringRules {
+    return session.scoring ?? resolveScoringRules({ strategy: this.defaultScoringStrategy });
+  }
+
+  private getRankEncoding(session: QuizSession): RankEncoding {
+    return (
+      session.ranking ??
+      buildRankEncoding(DEFAULT_TIE_BREAKERS, session.questions, session.timePerQuestion)
+    );
+  }
+
+  /**
+   * Count the fully correct answers the participant gave in a row just before the current question
+   */
+  private async countStreak(session: QuizSession, userId: string): Promise<number> {
+    const answers = await this.store.getAllAnswers(session.quizId, userId);
+
+    let streak = 0;
+    for (let index = session.currentQuestionIndex - 1; index >= 0; index--) {
+      const answer: AnswerRecord | undefined = answers[session.questions[index].id];
+      const credit = answer ? (answer.credit ?? (answer.correct ? 1 : 0)) : 0;
+      if (credit < 1) break;
+      streak++;
+    }
+
+    return streak;
+  }
+
+  /**
+   * Stamp the release time and deadline for the session's current question
+   */
+  private openQuestion(session: QuizSession): void {
+    const now = Date.now();
+    session.questionStartedAt = now;
+    session.questionDeadline = now + session.timePerQuestion * 1000;
+    session.questionPhase = QuestionPhase.OPEN;
+  }
+
+  /**
+   * Reject answers for questions that are not current, closed or whose timer has run out
+   */
+  private assertQuestionOpen(session: QuizSession, questionId: string): void {
+    const currentQuestion = session.questions[session.currentQuestionIndex];
+    if (currentQuestion && currentQuestion.id !== questionId) {
+      throw new BadRequestException({
+        code: ErrorCode.QUESTION_CLOSED,
+        message: `Question ${questionId} is no longer accepting answers`,
+      });
+    }
+
+    if (session.questionPhase && session.questionPhase !== QuestionPhase.OPEN) {
+      throw new BadRequestException({
+        code: ErrorCode.QUESTION_CLOSED,
+        message: 'This question is closed',
+      });
+    }
+
+    if (session.questionDeadline && Date.now() > session.questionDeadline + this.lateAnswerGrace) {
+      throw new BadRequestException({
+        code: ErrorCode.TIME_UP,
+        message: 'Time is up for this question',
+      });
+    }
+  }
+
+  /**
+   * Work out how long a participant took to answer, in seconds, from the server's clock.
+   *
+   * The server-side measurement also includes network latency, so a smaller client-reported
+   * value is accepted as long as it is within maxClockSkew of it. Anything faster than that is
+   * clamped, so a forged timeTaken of 0 can only gain a slow connection's worth of bonus.
+   */
+  private resolveTimeTaken(
+    session: QuizSession,
+    receivedAt: number,
+    participantReleasedAt: number | null,
+    clientTimeTaken?: number,
+  ): number {
+    if (!session.questionStartedAt) {
+      // No release time on record: no time bonus
+      return session.timePerQuestion;
+    }
+
+    const releasedAt = Math.max(session.questionStartedAt, participantReleasedAt ?? 0);
+    const serverTimeTaken = Math.max(receivedAt - releasedAt, 0) / 1000;
+
+    let timeTaken = serverTimeTaken;
+    if (typeof clientTimeTaken === 'number' && Number.isFinite(clientTimeTaken)) {
+      const minimumAllowed = Math.max(serverTimeTaken - this.maxClockSkew / 1000, 0);
+      timeTaken = Math.min(Math.max(clientTimeTaken, minimumAllowed), serverTimeTaken);
+
+      if (clientTimeTaken < minimumAllowed) {
+        this.logger.debug(
+          `Client time ${clientTimeTaken}s is ${(serverTimeTaken - clientTimeTaken).toFixed(2)}s below server time ${serverTimeTaken}s`,
+        );
+      }
+    }
+
+    return Math.min(timeTaken, session.timePerQuestion);
+  }
+
+  /**
+   * Acknowledge a recorded submission without revealing its outcome
+   */
+  private toReceipt(questionId: string, answer: AnswerRecord): AnswerReceipt {
+    return {
+      questionId,
+      answer: answer.answer,
+      submittedAt: new Date(answer.submittedAt), // a string once read back from the store
+    };
+  }
+
+  /**
+   * Count how many players gave each answer: every option of a choice
+   * question (including unpicked ones), otherwise each distinct answer
+   */
+  private tallyAnswers(question: Question, answers: SubmittedAnswer[]): Record<string, number> {
+    const type = question.type ?? 'multiple_choice';
+    const isChoice = type === 'multiple_choice' || type === 'multi_select';
+    const distribution: Record<string, number> = {};
+
+    if (isChoice) {
+      for (const option of question.options) distribution[option] = 0;
+    }
+
+    for (const answer of answers) {
+      const picks = Array.isArray(answer) ? answer : [answer];
+      const labels = isChoice
+        ? picks.map((pick) => this.questionService.findOption(question, pick) ?? pick)
+        : type === 'text'
+          ? [normalizeAnswer(picks.join(' '))]
+          : [this.questionService.describeListAnswer(type, picks, question.prompts)];
+
+      for (const label of labels) {
+        distribution[label] = (distribution[label] ?? 0) + 1;
+      }
+    }
+
+    return distribution;
+  }
+
+  /**
+   * Throw unless the token is the quiz's current host token
+   */
+  private assertHostToken(session: QuizSession, hostToken: string): void {
+    if (!this.isHostToken(session, hostToken)) {
+      throw new ForbiddenException({
+        code: ErrorCode.NOT_HOST,
+        message: 'Only the quiz host can perform this action',
+      });
+    }
+  }
+
+  /**
+   * Constant-time comparison against the session's host token
+   */
+  private isHostToken(session: QuizSession, hostToken?: string): boolean {
+    if (!hostToken || !session.hostToken) return false;
+
+    const expected = Buffer.from(session.hostToken);
+    const provided = Buffer.from(hostToken);
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
   /**
    * Generate unique quiz ID
    */
@@ -401,6 +1147,6 @@ export class QuizService {
    * Check if quiz exists
    */
   async quizExists(quizId: string): Promise<boolean> {
-    return await this.redisService.quizExists(quizId);
+    return await this.store.quizExists(quizId);
   }
 }
@@ -0,0 +1,59 @@
+/**
+ * Socket.IO adapter that relays room broadcasts through Redis pub/sub
+ *
+ * With the default in-memory adapter a broadcast only reaches the sockets
+ * connected to the emitting instance. This one publishes every broadcast to
+ * Redis so all instances behind the load balancer deliver it to their own
+ * sockets in the room.
+ */
+
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import { Server, ServerOptions } from 'socket.io';
+import { RedisService } from './redis.service';
+
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+  private clients: Redis[] = [];
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly redisService: RedisService,
+  ) {
+    super(app);
+  }
+
+  /**
+   * Open the publishing and subscribing connections; call before the app listens
+   */
+  async connectToRedis(): Promise<void> {
+    const pubClient = this.redisService.createClient();
+    const subClient = pubClient.duplicate();
+    this.clients = [pubClient, subClient];
+
+    await Promise.all(
+      this.clients.map(
+        (client) =>
+          new Promise((resolve, reject) => client.once('ready', resolve).once('error', reject)),
+      ),
+    );
+
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+
+  async dispose(): Promise<void> {
+    await super.dispose();
+    await Promise.all(this.clients.map((client) => client.quit()));
+    this.clients = [];
+  }
+}
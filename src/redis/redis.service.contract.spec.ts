@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { RedisService } from './redis.service';
+import { describeQuizStoreContract } from '../storage/quiz-store.contract';
+import {
+  AnswerRecord,
+  Participant,
+  QuestionPhase,
+  QuizSession,
+} from '../quiz/interfaces/quiz.interface';
+
+// Run the real Redis commands (including the Lua scripts) against an in-memory server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+describe('RedisService as a QuizStore', () => {
+  describeQuizStoreContract(async () => {
+    const store = new RedisService({
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as ConfigService);
+    await store.onModuleInit();
+    await (store.getClient() as Redis).flushall();
+
+    return { store, teardown: () => store.onModuleDestroy() };
+  });
+});
+
+describe('RedisService key expiry', () => {
+  let store: RedisService;
+  let client: Redis;
+
+  beforeEach(async () => {
+    store = new RedisService({
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as ConfigService);
+    await store.onModuleInit();
+    client = store.getClient() as Redis;
+    await client.flushall();
+  });
+
+  afterEach(async () => {
+    await store.onModuleDestroy();
+  });
+
+  // Remaining lifetime (ms) of every key but the global expiry index
+  const lifetimes = async () => {
+    const keys = (await client.keys('quiz:*')).filter((key) => key !== 'quiz:expiries');
+    return Object.fromEntries(
+      await Promise.all(keys.map(async (key) => [key, await client.pttl(key)])),
+    );
+  };
+
+  const playQuiz = async (quizId: string) => {
+    await store.createQuizSession(quizId, { quizId } as QuizSession, 600);
+    await store.addParticipant(quizId, 'alice', {
+      userId: 'alice',
+      username: 'Alice',
+    } as Participant);
+    await store.initializeScore(quizId, 'alice');
+    await store.setResumeToken(quizId, 'token-a', 'alice');
+    await store.attachSocket(quizId, 'alice', 'socket-a');
+    await store.setSocketHost('socket-h', quizId);
+    await store.setCurrentQuestion(quizId, 0);
+    await store.setQuestionReleaseTime(quizId, 'q1', 'alice', Date.now());
+    await store.recordAnswer(quizId, 'alice', 'q1', { answer: 'Joyful' } as AnswerRecord, 10, {
+      scoreRadix: 1000,
+      weights: { correct_answers: 0, answer_time: 0, last_correct: 0 },
+      stats: { correct_answers: 1, answer_time: 2, last_correct: 1 },
+    });
+    await store.advanceQuestionPhase(quizId, 0, QuestionPhase.CLOSED);
+    await store.appendEvent(quizId, { event: 'quiz_started', data: {} }, 10);
+    await store.saveLeaderboardSnapshot(quizId, { seq: 1, leaderboard: [] });
+  };
+
+  it('should give every key of a quiz the lifetime of its session', async () => {
+    await playQuiz('QUIZ1');
+
+    const remaining = await lifetimes();
+    expect(Object.keys(remaining)).toHaveLength(21);
+    for (const ttl of Object.values(remaining)) {
+      expect(ttl).toBeGreaterThan(590 * 1000);
+      expect(ttl).toBeLessThanOrEqual(600 * 1000);
+    }
+  });
+
+  it('should move the lifetime of every key of a quiz', async () => {
+    await playQuiz('QUIZ1');
+
+    await store.expireQuiz('QUIZ1', 60);
+
+    for (const ttl of Object.values(await lifetimes())) {
+      expect(ttl).toBeGreaterThan(50 * 1000);
+      expect(ttl).toBeLessThanOrEqual(60 * 1000);
+    }
+  });
+});
@@ -2,6 +2,12 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from './redis.service';
 import Redis from 'ioredis';
+import {
+  AnswerRecord,
+  Participant,
+  QuizSession,
+  QuizStatus,
+} from '../quiz/interfaces/quiz.interface';
 
 // Mock Redis client
 jest.mock('ioredis');
@@ -9,8 +15,28 @@ jest.mock('ioredis');
 describe('RedisService', () => {
   let service: RedisService;
   let mockRedisClient: jest.Mocked<Redis>;
+  let mockPipeline: Record<string, jest.Mock>;
 
   beforeEach(async () => {
+    // Pipelined commands are queued on one object; tests set what exec resolves with
+    mockPipeline = {
+      mget: jest.fn().mockReturnThis(),
+      hmget: jest.fn().mockReturnThis(),
+      hget: jest.fn().mockReturnThis(),
+      zmscore: jest.fn().mockReturnThis(),
+      setex: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      sadd: jest.fn().mockReturnThis(),
+      hset: jest.fn().mockReturnThis(),
+      zadd: jest.fn().mockReturnThis(),
+      expire: jest.fn().mockReturnThis(),
+      del: jest.fn().mockReturnThis(),
+      zrem: jest.fn().mockReturnThis(),
+      recordAnswer: jest.fn().mockReturnThis(),
+      trackQuizKeys: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([]),
+    };
+
     // Create a mock Redis client with all needed methods
     mockRedisClient = {
       on: jest.fn(),
@@ -29,12 +55,18 @@ describe('RedisService', () => {
       zscore: jest.fn().mockResolvedValue('10'),
       zrevrank: jest.fn().mockResolvedValue(0),
       zrevrange: jest.fn().mockResolvedValue([]),
+      pipeline: jest.fn(() => mockPipeline),
+      multi: jest.fn(() => mockPipeline),
       hset: jest.fn().mockResolvedValue(1),
       hget: jest.fn(),
+      hdel: jest.fn().mockResolvedValue(1),
       hgetall: jest.fn().mockResolvedValue({}),
       exists: jest.fn().mockResolvedValue(1),
-      keys: jest.fn().mockResolvedValue([]),
+      zrem: jest.fn().mockResolvedValue(1),
+      zrangebyscore: jest.fn().mockResolvedValue([]),
       info: jest.fn().mockResolvedValue('# Server\nredis_version:6.0.0'),
+      defineCommand: jest.fn(),
+      recordAnswer: jest.fn(),
     } as any;
 
     // Mock the Redis constructor to return our mock client
@@ -94,15 +126,25 @@ describe('RedisService', () => {
     describe('createQuizSession', () => {
       it('should create a quiz session with TTL', async () => {
         const quizId = 'QUIZ123';
-        const sessionData = { quizId, title: 'Test Quiz' };
+        const sessionData = { quizId, title: 'Test Quiz' } as QuizSession;
+        const now = Date.now();
 
         await service.createQuizSession(quizId, sessionData, 3600);
 
-        expect(mockRedisClient.setex).toHaveBeenCalledWith(
+        expect(mockPipeline.setex).toHaveBeenCalledWith(
           'quiz:session:QUIZ123',
           3600,
           JSON.stringify(sessionData),
         );
+        const [key, expiresAt, member] = mockPipeline.zadd.mock.calls[0];
+        expect(key).toBe('quiz:expiries');
+        expect(expiresAt).toBeGreaterThanOrEqual(now + 3600 * 1000);
+        expect(member).toBe('QUIZ123');
+        expect(mockPipeline.trackQuizKeys).toHaveBeenCalledWith(
+          'quiz:session:QUIZ123',
+          'quiz:keys:QUIZ123',
+          'quiz:session:QUIZ123',
+        );
       });
     });
 
@@ -128,7 +170,7 @@ describe('RedisService', () => {
 
     describe('updateQuizSession', () => {
       it('should update quiz session preserving TTL', async () => {
-        const sessionData = { quizId: 'QUIZ123', status: 'IN_PROGRESS' };
+        const sessionData = { quizId: 'QUIZ123', status: QuizStatus.IN_PROGRESS } as QuizSession;
         mockRedisClient.ttl.mockResolvedValue(1800);
 
         await service.updateQuizSession('QUIZ123', sessionData);
@@ -142,7 +184,7 @@ describe('RedisService', () => {
       });
 
       it('should set without TTL if no TTL exists', async () => {
-        const sessionData = { quizId: 'QUIZ123' };
+        const sessionData = { quizId: 'QUIZ123' } as QuizSession;
         mockRedisClient.ttl.mockResolvedValue(-1);
 
         await service.updateQuizSession('QUIZ123', sessionData);
@@ -166,15 +208,21 @@ describe('RedisService', () => {
   describe('Participant Operations', () => {
     describe('addParticipant', () => {
       it('should add participant to set and store user data', async () => {
-        const userData = { userId: 'user1', username: 'John' };
+        const userData = { userId: 'user1', username: 'John' } as Participant;
 
         await service.addParticipant('QUIZ123', 'user1', userData);
 
-        expect(mockRedisClient.sadd).toHaveBeenCalledWith('quiz:participants:QUIZ123', 'user1');
-        expect(mockRedisClient.set).toHaveBeenCalledWith(
+        expect(mockPipeline.sadd).toHaveBeenCalledWith('quiz:participants:QUIZ123', 'user1');
+        expect(mockPipeline.set).toHaveBeenCalledWith(
           'quiz:participant:QUIZ123:user1',
           JSON.stringify(userData),
         );
+        expect(mockPipeline.trackQuizKeys).toHaveBeenCalledWith(
+          'quiz:session:QUIZ123',
+          'quiz:keys:QUIZ123',
+          'quiz:participants:QUIZ123',
+          'quiz:participant:QUIZ123:user1',
+        );
       });
     });
 
@@ -190,14 +238,18 @@ describe('RedisService', () => {
     });
 
     describe('getParticipant', () => {
-      it('should return participant data', async () => {
-        const userData = { userId: 'user1', username: 'John', score: 100 };
+      it('should return participant data with live score and answer count', async () => {
+        const userData = { userId: 'user1', username: 'John', score: 0, answersSubmitted: 0 };
         mockRedisClient.get.mockResolvedValue(JSON.stringify(userData));
+        mockRedisClient.hget.mockResolvedValue('3');
+        mockRedisClient.zscore.mockResolvedValue('100');
 
         const result = await service.getParticipant('QUIZ123', 'user1');
 
         expect(mockRedisClient.get).toHaveBeenCalledWith('quiz:participant:QUIZ123:user1');
-        expect(result).toEqual(userData);
+        expect(mockRedisClient.hget).toHaveBeenCalledWith('quiz:answer_counts:QUIZ123', 'user1');
+        expect(mockRedisClient.zscore).toHaveBeenCalledWith('quiz:scores:QUIZ123', 'user1');
+        expect(result).toEqual({ ...userData, score: 100, answersSubmitted: 3 });
       });
 
       it('should return null if participant does not exist', async () => {
@@ -209,6 +261,33 @@ describe('RedisService', () => {
       });
     });
 
+    describe('getParticipantsById', () => {
+      it('should read several participants in one pipelined round trip', async () => {
+        mockPipeline.exec.mockResolvedValue([
+          [null, [JSON.stringify({ userId: 'user1', username: 'John' }), null]],
+          [null, ['3', null]],
+          [null, ['100', null]],
+        ]);
+
+        const result = await service.getParticipantsById('QUIZ123', ['user1', 'user2']);
+
+        expect(mockPipeline.mget).toHaveBeenCalledWith([
+          'quiz:participant:QUIZ123:user1',
+          'quiz:participant:QUIZ123:user2',
+        ]);
+        expect(mockPipeline.hmget).toHaveBeenCalledWith(
+          'quiz:answer_counts:QUIZ123',
+          'user1',
+          'user2',
+        );
+        expect(mockPipeline.zmscore).toHaveBeenCalledWith('quiz:scores:QUIZ123', 'user1', 'user2');
+        expect(result).toEqual([
+          { userId: 'user1', username: 'John', score: 100, answersSubmitted: 3 },
+          null,
+        ]);
+      });
+    });
+
     describe('getParticipantCount', () => {
       it('should return count of participants', async () => {
         mockRedisClient.scard.mockResolvedValue(5);
@@ -226,11 +305,51 @@ describe('RedisService', () => {
 
         expect(mockRedisClient.srem).toHaveBeenCalledWith('quiz:participants:QUIZ123', 'user1');
         expect(mockRedisClient.del).toHaveBeenCalledWith('quiz:participant:QUIZ123:user1');
+        expect(mockRedisClient.hdel).toHaveBeenCalledWith('quiz:answer_counts:QUIZ123', 'user1');
+        expect(mockRedisClient.hdel).toHaveBeenCalledWith('quiz:correct_counts:QUIZ123', 'user1');
+      });
+    });
+  });
+
+  describe('Resume Token Operations', () => {
+    describe('setResumeToken', () => {
+      it('should map the token to the user in a per-quiz hash', async () => {
+        await service.setResumeToken('QUIZ123', 'token-1', 'user1');
+
+        expect(mockPipeline.hset).toHaveBeenCalledWith('quiz:resume:QUIZ123', 'token-1', 'user1');
+      });
+    });
+
+    describe('getResumeUserId', () => {
+      it('should return the user the token was issued to', async () => {
+        mockRedisClient.hget.mockResolvedValue('user1');
+
+        const result = await service.getResumeUserId('QUIZ123', 'token-1');
+
+        expect(mockRedisClient.hget).toHaveBeenCalledWith('quiz:resume:QUIZ123', 'token-1');
+        expect(result).toBe('user1');
+      });
+
+      it('should return null for unknown tokens', async () => {
+        mockRedisClient.hget.mockResolvedValue(null);
+
+        const result = await service.getResumeUserId('QUIZ123', 'unknown');
+
+        expect(result).toBeNull();
       });
     });
   });
 
   describe('Score Operations', () => {
+    describe('initializeScore', () => {
+      it('should add the participant to both the scores and ranking sorted sets', async () => {
+        await service.initializeScore('QUIZ123', 'user1');
+
+        expect(mockPipeline.zadd).toHaveBeenCalledWith('quiz:scores:QUIZ123', 0, 'user1');
+        expect(mockPipeline.zadd).toHaveBeenCalledWith('quiz:ranking:QUIZ123', 0, 'user1');
+      });
+    });
+
     describe('updateScore', () => {
       it('should update score in sorted set', async () => {
         await service.updateScore('QUIZ123', 'user1', 100);
@@ -275,7 +394,7 @@ describe('RedisService', () => {
 
         const rank = await service.getRank('QUIZ123', 'user1');
 
-        expect(mockRedisClient.zrevrank).toHaveBeenCalledWith('quiz:scores:QUIZ123', 'user1');
+        expect(mockRedisClient.zrevrank).toHaveBeenCalledWith('quiz:ranking:QUIZ123', 'user1');
         expect(rank).toBe(2);
       });
 
@@ -291,44 +410,113 @@ describe('RedisService', () => {
 
   describe('Leaderboard Operations', () => {
     describe('getLeaderboard', () => {
-      it('should return top N participants with scores and ranks', async () => {
-        mockRedisClient.zrevrange.mockResolvedValue([
-          'user1',
-          '150',
-          'user2',
-          '120',
-          'user3',
-          '100',
+      it('should read the top N in ranking order with one pipelined round trip', async () => {
+        mockRedisClient.zrevrange.mockResolvedValue(['user1', 'user2', 'user3']);
+        mockPipeline.exec.mockResolvedValue([
+          [null, ['150', '120', '100']],
+          [
+            null,
+            [
+              JSON.stringify({ username: 'Alice' }),
+              JSON.stringify({ username: 'Bob' }),
+              JSON.stringify({ username: 'Carol' }),
+            ],
+          ],
+          [null, ['3', '2', null]],
+          [null, ['2', '1', null]],
         ]);
 
         const leaderboard = await service.getLeaderboard('QUIZ123', 3);
 
-        expect(mockRedisClient.zrevrange).toHaveBeenCalledWith(
+        expect(mockRedisClient.zrevrange).toHaveBeenCalledWith('quiz:ranking:QUIZ123', 0, 2);
+        expect(mockPipeline.zmscore).toHaveBeenCalledWith(
           'quiz:scores:QUIZ123',
-          0,
-          2,
-          'WITHSCORES',
+          'user1',
+          'user2',
+          'user3',
+        );
+        expect(mockPipeline.mget).toHaveBeenCalledWith([
+          'quiz:participant:QUIZ123:user1',
+          'quiz:participant:QUIZ123:user2',
+          'quiz:participant:QUIZ123:user3',
+        ]);
+        expect(mockPipeline.hmget).toHaveBeenCalledWith(
+          'quiz:answer_counts:QUIZ123',
+          'user1',
+          'user2',
+          'user3',
         );
+        expect(mockPipeline.hmget).toHaveBeenCalledWith(
+          'quiz:correct_counts:QUIZ123',
+          'user1',
+          'user2',
+          'user3',
+        );
+        expect(mockPipeline.exec).toHaveBeenCalledTimes(1);
         expect(leaderboard).toEqual([
-          { userId: 'user1', score: 150, rank: 1 },
-          { userId: 'user2', score: 120, rank: 2 },
-          { userId: 'user3', score: 100, rank: 3 },
+          {
+            userId: 'user1',
+            username: 'Alice',
+            score: 150,
+            rank: 1,
+            correctAnswers: 2,
+            totalAnswers: 3,
+          },
+          {
+            userId: 'user2',
+            username: 'Bob',
+            score: 120,
+            rank: 2,
+            correctAnswers: 1,
+            totalAnswers: 2,
+          },
+          {
+            userId: 'user3',
+            username: 'Carol',
+            score: 100,
+            rank: 3,
+            correctAnswers: 0,
+            totalAnswers: 0,
+          },
+        ]);
+      });
+
+      it('should fail when a pipelined command fails', async () => {
+        mockRedisClient.zrevrange.mockResolvedValue(['user1']);
+        mockPipeline.exec.mockResolvedValue([
+          [new Error('WRONGTYPE'), null],
+          [null, [null]],
+          [null, [null]],
+          [null, [null]],
         ]);
+
+        await expect(service.getLeaderboard('QUIZ123')).rejects.toThrow('WRONGTYPE');
       });
     });
 
     describe('getFullLeaderboard', () => {
-      it('should return full leaderboard with participant details', async () => {
-        mockRedisClient.zrevrange.mockResolvedValue(['user1', '150', 'user2', '120']);
-        mockRedisClient.get
-          .mockResolvedValueOnce(JSON.stringify({ username: 'Alice' }))
-          .mockResolvedValueOnce(JSON.stringify({ username: 'Bob' }));
+      it('should not run the pipeline for an empty quiz', async () => {
+        const leaderboard = await service.getFullLeaderboard('QUIZ123');
+
+        expect(leaderboard).toEqual([]);
+        expect(mockRedisClient.pipeline).not.toHaveBeenCalled();
+      });
+
+      it('should return everyone, naming users whose data is gone Unknown', async () => {
+        mockRedisClient.zrevrange.mockResolvedValue(['user1', 'user2']);
+        mockPipeline.exec.mockResolvedValue([
+          [null, ['150', '120']],
+          [null, [JSON.stringify({ username: 'Alice' }), null]],
+          [null, ['1', '1']],
+          [null, ['1', '0']],
+        ]);
 
         const leaderboard = await service.getFullLeaderboard('QUIZ123');
 
-        expect(leaderboard).toEqual([
-          { userId: 'user1', username: 'Alice', score: 150, rank: 1 },
-          { userId: 'user2', username: 'Bob', score: 120, rank: 2 },
+        expect(mockRedisClient.zrevrange).toHaveBeenCalledWith('quiz:ranking:QUIZ123', 0, -1);
+        expect(leaderboard.map((entry) => [entry.username, entry.rank])).toEqual([
+          ['Alice', 1],
+          ['Unknown', 2],
         ]);
       });
     });
@@ -337,7 +525,7 @@ describe('RedisService', () => {
   describe('Answer Tracking Operations', () => {
     describe('storeAnswer', () => {
       it('should store user answer in hash', async () => {
-        const answer = { answer: 'Joyful', correct: true, earnedPoints: 10 };
+        const answer = { answer: 'Joyful', correct: true, earnedPoints: 10 } as AnswerRecord;
 
         await service.storeAnswer('QUIZ123', 'user1', 'q1', answer);
 
@@ -349,6 +537,64 @@ describe('RedisService', () => {
       });
     });
 
+    describe('recordAnswer', () => {
+      const rank = {
+        scoreRadix: 1000,
+        weights: { correct_answers: 100, answer_time: 1, last_correct: 0 },
+        stats: { correct_answers: 1, answer_time: 30, last_correct: 90 },
+      };
+
+      it('should run the record script with the answer, score, count and ranking keys', async () => {
+        const answer = { answer: 'Joyful', correct: true, earnedPoints: 10 } as AnswerRecord;
+        mockPipeline.exec.mockResolvedValue([
+          [null, [1, JSON.stringify(answer), '25']],
+          [null, 3600000],
+        ]);
+
+        const result = await service.recordAnswer('QUIZ123', 'user1', 'q1', answer, 10, rank);
+
+        expect(mockPipeline.recordAnswer).toHaveBeenCalledWith(
+          'quiz:answers:QUIZ123:user1',
+          'quiz:scores:QUIZ123',
+          'quiz:answer_counts:QUIZ123',
+          'quiz:correct_counts:QUIZ123',
+          'quiz:rank_stats:QUIZ123:user1',
+          'quiz:ranking:QUIZ123',
+          'user1',
+          'q1',
+          JSON.stringify(answer),
+          10,
+          1000,
+          1,
+          30,
+          90,
+          100,
+          1,
+          0,
+        );
+        expect(result).toEqual({ recorded: true, answer, score: 25 });
+      });
+
+      it('should return the stored answer when one already exists', async () => {
+        const stored = { answer: 'Joyful', correct: true, earnedPoints: 10 };
+        mockPipeline.exec.mockResolvedValue([
+          [null, [0, JSON.stringify(stored), '10']],
+          [null, 3600000],
+        ]);
+
+        const result = await service.recordAnswer(
+          'QUIZ123',
+          'user1',
+          'q1',
+          { answer: 'Sad' } as AnswerRecord,
+          0,
+          rank,
+        );
+
+        expect(result).toEqual({ recorded: false, answer: stored, score: 10 });
+      });
+    });
+
     describe('getAnswer', () => {
       it('should return parsed answer', async () => {
         const answer = { answer: 'Joyful', correct: true };
@@ -369,6 +615,23 @@ describe('RedisService', () => {
       });
     });
 
+    describe('getAnswersForQuestion', () => {
+      it("should read each user's answer to the question in one pipeline", async () => {
+        const answer = { answer: 'Joyful', correct: true };
+        mockPipeline.exec.mockResolvedValue([
+          [null, JSON.stringify(answer)],
+          [null, null],
+        ]);
+
+        const result = await service.getAnswersForQuestion('QUIZ123', ['user1', 'user2'], 'q1');
+
+        expect(mockPipeline.hget).toHaveBeenCalledWith('quiz:answers:QUIZ123:user1', 'q1');
+        expect(mockPipeline.hget).toHaveBeenCalledWith('quiz:answers:QUIZ123:user2', 'q1');
+        expect(mockPipeline.exec).toHaveBeenCalledTimes(1);
+        expect(result).toEqual([answer, null]);
+      });
+    });
+
     describe('getAllAnswers', () => {
       it('should return all answers for a user', async () => {
         const answers = {
@@ -392,7 +655,7 @@ describe('RedisService', () => {
       it('should set current question index', async () => {
         await service.setCurrentQuestion('QUIZ123', 3);
 
-        expect(mockRedisClient.set).toHaveBeenCalledWith('quiz:current_question:QUIZ123', '3');
+        expect(mockPipeline.set).toHaveBeenCalledWith('quiz:current_question:QUIZ123', '3');
       });
     });
 
@@ -416,6 +679,39 @@ describe('RedisService', () => {
     });
   });
 
+  describe('Question Release Operations', () => {
+    describe('setQuestionReleaseTime', () => {
+      it('should store release timestamp per participant', async () => {
+        await service.setQuestionReleaseTime('QUIZ123', 'q1', 'user1', 1700000000000);
+
+        expect(mockPipeline.hset).toHaveBeenCalledWith(
+          'quiz:releases:QUIZ123:q1',
+          'user1',
+          '1700000000000',
+        );
+      });
+    });
+
+    describe('getQuestionReleaseTime', () => {
+      it('should return parsed release timestamp', async () => {
+        mockRedisClient.hget.mockResolvedValue('1700000000000');
+
+        const result = await service.getQuestionReleaseTime('QUIZ123', 'q1', 'user1');
+
+        expect(mockRedisClient.hget).toHaveBeenCalledWith('quiz:releases:QUIZ123:q1', 'user1');
+        expect(result).toBe(1700000000000);
+      });
+
+      it('should return null if no release time was recorded', async () => {
+        mockRedisClient.hget.mockResolvedValue(null);
+
+        const result = await service.getQuestionReleaseTime('QUIZ123', 'q1', 'user1');
+
+        expect(result).toBeNull();
+      });
+    });
+  });
+
   describe('Utility Operations', () => {
     describe('quizExists', () => {
       it('should return true if quiz exists', async () => {
@@ -436,15 +732,47 @@ describe('RedisService', () => {
       });
     });
 
+    describe('expireQuiz', () => {
+      it('should move the lifetime of the session and every indexed key', async () => {
+        mockRedisClient.smembers.mockResolvedValue([
+          'quiz:session:QUIZ123',
+          'quiz:participant:QUIZ123:user1',
+        ]);
+
+        await service.expireQuiz('QUIZ123', 60);
+
+        expect(mockRedisClient.smembers).toHaveBeenCalledWith('quiz:keys:QUIZ123');
+        expect(mockPipeline.expire).toHaveBeenCalledWith('quiz:session:QUIZ123', 60);
+        expect(mockPipeline.expire).toHaveBeenCalledWith('quiz:participant:QUIZ123:user1', 60);
+        expect(mockPipeline.expire).toHaveBeenCalledWith('quiz:keys:QUIZ123', 60);
+        expect(mockPipeline.zadd).toHaveBeenCalledWith(
+          'quiz:expiries',
+          expect.any(Number),
+          'QUIZ123',
+        );
+      });
+    });
+
     describe('cleanupQuiz', () => {
-      it('should delete all quiz-related keys', async () => {
-        const keys = ['quiz:session:QUIZ123', 'quiz:participants:QUIZ123', 'quiz:scores:QUIZ123'];
-        mockRedisClient.keys.mockResolvedValue(keys);
+      it('should delete the keys listed in the quiz key index', async () => {
+        mockRedisClient.smembers.mockResolvedValue([
+          'quiz:session:QUIZ123',
+          'quiz:participant:QUIZ123:user1',
+        ]);
+        mockPipeline.exec.mockResolvedValue([
+          [null, 3],
+          [null, 1],
+        ]);
 
         await service.cleanupQuiz('QUIZ123');
 
-        expect(mockRedisClient.keys).toHaveBeenCalledWith('quiz:*:QUIZ123*');
-        expect(mockRedisClient.del).toHaveBeenCalledWith(...keys);
+        expect(mockRedisClient.smembers).toHaveBeenCalledWith('quiz:keys:QUIZ123');
+        expect(mockPipeline.del).toHaveBeenCalledWith(
+          'quiz:keys:QUIZ123',
+          'quiz:session:QUIZ123',
+          'quiz:participant:QUIZ123:user1',
+        );
+        expect(mockPipeline.zrem).toHaveBeenCalledWith('quiz:expiries', 'QUIZ123');
       });
     });
 
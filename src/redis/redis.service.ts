@@ -12,31 +12,235 @@
 
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Redis from 'ioredis';
+import Redis, { ChainableCommander } from 'ioredis';
+import {
+  AnswerRecord,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  Participant,
+  QuestionPhase,
+  QuizEvent,
+  QuizSession,
+  SocketPresence,
+} from '../quiz/interfaces/quiz.interface';
+import { QuizStore, RankUpdate, RecordAnswerResult } from '../storage/quiz.store';
+
+/**
+ * Records an answer exactly once: the answer hash entry, score increment and
+ * answer counters are written in a single script so concurrent submissions for
+ * the same question cannot both pass the duplicate check. The player's
+ * tie-breaker stats and rank score (points × radix + weighted stats) are
+ * updated in the same step.
+ *
+ * KEYS: answers hash, scores zset, answer-count hash, correct-count hash,
+ *       tie-breaker stats hash, ranking zset
+ * ARGV: userId, questionId, answer JSON, points (negative for penalties), score radix,
+ *       correct answers / answer_time increments, last_correct (0 keeps the previous),
+ *       correct_answers / answer_time / last_correct weights
+ * Returns: { recorded (0/1), stored answer JSON, current score }
+ */
+const RECORD_ANSWER_SCRIPT = `
+local existing = redis.call('HGET', KEYS[1], ARGV[2])
+if existing then
+  return {0, existing, redis.call('ZSCORE', KEYS[2], ARGV[1]) or '0'}
+end
+
+redis.call('HSET', KEYS[1], ARGV[2], ARGV[3])
+redis.call('HINCRBY', KEYS[3], ARGV[1], 1)
+local correct = redis.call('HINCRBY', KEYS[4], ARGV[1], ARGV[6])
+
+local score
+if tonumber(ARGV[4]) ~= 0 then
+  score = redis.call('ZINCRBY', KEYS[2], ARGV[4], ARGV[1])
+else
+  score = redis.call('ZSCORE', KEYS[2], ARGV[1]) or '0'
+end
+
+local answerTime = redis.call('HINCRBY', KEYS[5], 'answer_time', ARGV[7])
+if tonumber(ARGV[8]) > 0 then
+  redis.call('HSET', KEYS[5], 'last_correct', ARGV[8])
+end
+local lastCorrect = tonumber(redis.call('HGET', KEYS[5], 'last_correct') or '0')
+
+local rankScore = tonumber(score) * tonumber(ARGV[5])
+  + correct * tonumber(ARGV[9])
+  + answerTime * tonumber(ARGV[10])
+  + lastCorrect * tonumber(ARGV[11])
+redis.call('ZADD', KEYS[6], string.format('%.0f', rankScore), ARGV[1])
+
+return {1, ARGV[3], score}
+`;
+
+/**
+ * Forgets a participant's socket unless they have already moved to another one
+ * (e.g. rejoined through a different instance before this one saw the disconnect)
+ *
+ * KEYS: quiz sockets hash
+ * ARGV: userId, socketId
+ * Returns: 1 if the mapping was removed
+ */
+const RELEASE_SOCKET_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) == ARGV[2] then
+  return redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+/**
+ * Moves a question to a later phase, never back, so only one of several
+ * instances closing or revealing it at the same time goes ahead
+ *
+ * KEYS: question phases hash
+ * ARGV: question index, position of the phase in QUESTION_PHASES
+ * Returns: 1 if the phase changed
+ */
+const ADVANCE_QUESTION_PHASE_SCRIPT = `
+if tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0') >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Moves the quiz to another question, provided it is still on the one the
+ * caller saw, so only one of several instances advancing at once moves it
+ *
+ * KEYS: current question
+ * ARGV: expected current index, new index
+ * Returns: 1 if the quiz moved
+ */
+const MOVE_TO_QUESTION_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Stores the leaderboard a delta was published for, provided it is the next
+ * in the quiz's sequence, so instances flushing at the same time cannot both
+ * publish under one sequence number
+ *
+ * KEYS: leaderboard seq, leaderboard snapshot
+ * ARGV: seq of the snapshot, snapshot JSON
+ * Returns: 1 if the snapshot was stored
+ */
+const SAVE_LEADERBOARD_SNAPSHOT_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') + 1 ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1])
+redis.call('SET', KEYS[2], ARGV[2])
+return 1
+`;
+
+/**
+ * Lists keys just written for a quiz in its key index and gives them the
+ * session's remaining lifetime. Queued after the write in the same
+ * transaction (SET drops a key's TTL), so every key of a quiz expires with
+ * its session.
+ *
+ * KEYS: session, quiz key index
+ * ARGV: the keys written
+ * Returns: the session's remaining ms (negative without a session; the keys are only indexed)
+ */
+const TRACK_QUIZ_KEYS_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+for _, key in ipairs(ARGV) do
+  redis.call('SADD', KEYS[2], key)
+  if ttl > 0 then
+    redis.call('PEXPIRE', key, ttl)
+  end
+end
+if ttl > 0 then
+  redis.call('PEXPIRE', KEYS[2], ttl)
+end
+return ttl
+`;
+
+// Phases in the order a question goes through them
+const QUESTION_PHASES = Object.values(QuestionPhase);
+
+/**
+ * When each quiz's lifetime ends: quizId -> epoch ms. A quiz's keys expire
+ * with its session; the quiz janitor purges any a quiz still has once it is due.
+ */
+const QUIZ_EXPIRIES_KEY = 'quiz:expiries';
+
+interface QuizCommands {
+  trackQuizKeys(sessionKey: string, keyIndexKey: string, ...keys: string[]): Promise<number>;
+  releaseSocket(socketsKey: string, userId: string, socketId: string): Promise<number>;
+  advanceQuestionPhase(phasesKey: string, questionIndex: number, phase: number): Promise<number>;
+  moveToQuestion(currentKey: string, fromIndex: number, toIndex: number): Promise<number>;
+  saveLeaderboardSnapshot(
+    seqKey: string,
+    snapshotKey: string,
+    seq: number,
+    snapshot: string,
+  ): Promise<number>;
+  recordAnswer(
+    answersKey: string,
+    scoresKey: string,
+    answerCountsKey: string,
+    correctCountsKey: string,
+    rankStatsKey: string,
+    rankingKey: string,
+    userId: string,
+    questionId: string,
+    answer: string,
+    points: number,
+    scoreRadix: number,
+    correctAnswers: number,
+    answerTime: number,
+    lastCorrect: number,
+    correctAnswersWeight: number,
+    answerTimeWeight: number,
+    lastCorrectWeight: number,
+  ): Promise<[number, string, string]>;
+}
+
+// The quiz commands queued on a transaction instead of sent directly
+type QuizTransaction = ChainableCommander & {
+  [Command in keyof QuizCommands]: (...args: Parameters<QuizCommands[Command]>) => QuizTransaction;
+};
 
 @Injectable()
-export class RedisService implements OnModuleInit, OnModuleDestroy {
+export class RedisService extends QuizStore implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RedisService.name);
-  private redisClient: Redis;
+  private redisClient: Redis & QuizCommands;
 
-  constructor(private configService: ConfigService) {}
+  constructor(private configService: ConfigService) {
+    super();
+  }
 
   async onModuleInit() {
-    const host = this.configService.get<string>('REDIS_HOST', 'localhost');
-    const port = this.configService.get<number>('REDIS_PORT', 6379);
-    const password = this.configService.get<string>('REDIS_PASSWORD');
-    const db = this.configService.get<number>('REDIS_DB', 0);
+    this.redisClient = this.createClient() as Redis & QuizCommands;
 
-    this.redisClient = new Redis({
-      host,
-      port,
-      password,
-      db,
-      retryStrategy: (times) => {
-        const delay = Math.min(times * 50, 2000);
-        return delay;
-      },
-      maxRetriesPerRequest: 3,
+    this.redisClient.defineCommand('recordAnswer', {
+      numberOfKeys: 6,
+      lua: RECORD_ANSWER_SCRIPT,
+    });
+    this.redisClient.defineCommand('releaseSocket', {
+      numberOfKeys: 1,
+      lua: RELEASE_SOCKET_SCRIPT,
+    });
+    this.redisClient.defineCommand('advanceQuestionPhase', {
+      numberOfKeys: 1,
+      lua: ADVANCE_QUESTION_PHASE_SCRIPT,
+    });
+    this.redisClient.defineCommand('moveToQuestion', {
+      numberOfKeys: 1,
+      lua: MOVE_TO_QUESTION_SCRIPT,
+    });
+    this.redisClient.defineCommand('trackQuizKeys', {
+      numberOfKeys: 2,
+      lua: TRACK_QUIZ_KEYS_SCRIPT,
+    });
+    this.redisClient.defineCommand('saveLeaderboardSnapshot', {
+      numberOfKeys: 2,
+      lua: SAVE_LEADERBOARD_SNAPSHOT_SCRIPT,
     });
 
     this.redisClient.on('connect', () => {
@@ -61,21 +265,51 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.redisClient;
   }
 
+  /**
+   * Open a separate connection with the configured settings (e.g. for pub/sub)
+   */
+  createClient(): Redis {
+    const host = this.configService.get<string>('REDIS_HOST', 'localhost');
+    const port = this.configService.get<number>('REDIS_PORT', 6379);
+    const password = this.configService.get<string>('REDIS_PASSWORD');
+    const db = this.configService.get<number>('REDIS_DB', 0);
+
+    return new Redis({
+      host,
+      port,
+      password,
+      db,
+      retryStrategy: (times) => {
+        const delay = Math.min(times * 50, 2000);
+        return delay;
+      },
+      maxRetriesPerRequest: 3,
+    });
+  }
+
   // ==================== Quiz Session Operations ====================
 
   /**
    * Create a new quiz session
    */
-  async createQuizSession(quizId: string, sessionData: any, ttl: number = 3600): Promise<void> {
+  async createQuizSession(
+    quizId: string,
+    sessionData: QuizSession,
+    ttl: number = 3600,
+  ): Promise<void> {
     const key = `quiz:session:${quizId}`;
-    await this.redisClient.setex(key, ttl, JSON.stringify(sessionData));
+    const transaction = this.redisClient
+      .multi()
+      .setex(key, ttl, JSON.stringify(sessionData))
+      .zadd(QUIZ_EXPIRIES_KEY, Date.now() + ttl * 1000, quizId);
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key]));
     this.logger.debug(`Created quiz session: ${quizId}`);
   }
 
   /**
    * Get quiz session data
    */
-  async getQuizSession(quizId: string): Promise<any | null> {
+  async getQuizSession(quizId: string): Promise<QuizSession | null> {
     const key = `quiz:session:${quizId}`;
     const data = await this.redisClient.get(key);
     return data ? JSON.parse(data) : null;
@@ -84,7 +318,7 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   /**
    * Update quiz session data
    */
-  async updateQuizSession(quizId: string, sessionData: any): Promise<void> {
+  async updateQuizSession(quizId: string, sessionData: QuizSession): Promise<void> {
     const key = `quiz:session:${quizId}`;
     const ttl = await this.redisClient.ttl(key);
 
@@ -109,15 +343,16 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   /**
    * Add participant to quiz
    */
-  async addParticipant(quizId: string, userId: string, userData: any): Promise<void> {
+  async addParticipant(quizId: string, userId: string, userData: Participant): Promise<void> {
     const key = `quiz:participants:${quizId}`;
     const userKey = `quiz:participant:${quizId}:${userId}`;
 
-    // Add to participants set
-    await this.redisClient.sadd(key, userId);
-
-    // Store participant data
-    await this.redisClient.set(userKey, JSON.stringify(userData));
+    // Add to participants set and store participant data
+    const transaction = this.redisClient
+      .multi()
+      .sadd(key, userId)
+      .set(userKey, JSON.stringify(userData));
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key, userKey]));
 
     this.logger.debug(`Added participant ${userId} to quiz ${quizId}`);
   }
@@ -131,12 +366,51 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get participant data
+   * Get participant data, with score and answer count read from their live keys
    */
-  async getParticipant(quizId: string, userId: string): Promise<any | null> {
+  async getParticipant(quizId: string, userId: string): Promise<Participant | null> {
     const userKey = `quiz:participant:${quizId}:${userId}`;
-    const data = await this.redisClient.get(userKey);
-    return data ? JSON.parse(data) : null;
+    const [data, answersSubmitted, score] = await Promise.all([
+      this.redisClient.get(userKey),
+      this.redisClient.hget(`quiz:answer_counts:${quizId}`, userId),
+      this.redisClient.zscore(`quiz:scores:${quizId}`, userId),
+    ]);
+
+    if (!data) return null;
+
+    return {
+      ...JSON.parse(data),
+      score: score ? parseFloat(score) : 0,
+      answersSubmitted: answersSubmitted ? parseInt(answersSubmitted, 10) : 0,
+    };
+  }
+
+  /**
+   * Get several participants' data in one round trip, in the order of userIds
+   * (null for unknown users)
+   */
+  async getParticipantsById(quizId: string, userIds: string[]): Promise<Array<Participant | null>> {
+    if (userIds.length === 0) return [];
+
+    const [data, answersSubmitted, scores] = await this.execPipeline<
+      [Array<string | null>, Array<string | null>, Array<string | null>]
+    >(
+      this.redisClient
+        .pipeline()
+        .mget(userIds.map((userId) => `quiz:participant:${quizId}:${userId}`))
+        .hmget(`quiz:answer_counts:${quizId}`, ...userIds)
+        .zmscore(`quiz:scores:${quizId}`, ...userIds),
+    );
+
+    return userIds.map((_userId, index) =>
+      data[index]
+        ? {
+            ...JSON.parse(data[index]),
+            score: scores[index] ? parseFloat(scores[index]) : 0,
+            answersSubmitted: answersSubmitted[index] ? parseInt(answersSubmitted[index], 10) : 0,
+          }
+        : null,
+    );
   }
 
   /**
@@ -148,6 +422,8 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
 
     await this.redisClient.srem(key, userId);
     await this.redisClient.del(userKey);
+    await this.redisClient.hdel(`quiz:answer_counts:${quizId}`, userId);
+    await this.redisClient.hdel(`quiz:correct_counts:${quizId}`, userId);
   }
 
   /**
@@ -158,8 +434,104 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return await this.redisClient.scard(key);
   }
 
+  /**
+   * Map a resume token to the participant it was issued to
+   */
+  async setResumeToken(quizId: string, resumeToken: string, userId: string): Promise<void> {
+    const key = `quiz:resume:${quizId}`;
+    const transaction = this.redisClient.multi().hset(key, resumeToken, userId);
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key]));
+  }
+
+  /**
+   * Look up the participant a resume token belongs to
+   */
+  async getResumeUserId(quizId: string, resumeToken: string): Promise<string | null> {
+    const key = `quiz:resume:${quizId}`;
+    return await this.redisClient.hget(key, resumeToken);
+  }
+
+  // ==================== Presence Operations ====================
+
+  /**
+   * Attach a participant to a socket, returning the socket it replaces (if any)
+   */
+  async attachSocket(quizId: string, userId: string, socketId: string): Promise<string | null> {
+    const socketsKey = `quiz:sockets:${quizId}`;
+    const socketKey = `quiz:socket:${socketId}`;
+    const previous = await this.redisClient.hget(socketsKey, userId);
+
+    const transaction = this.redisClient
+      .multi()
+      .hset(socketsKey, userId, socketId)
+      .hset(socketKey, { userId, quizId });
+    if (previous && previous !== socketId) {
+      transaction.hdel(`quiz:socket:${previous}`, 'userId', 'quizId');
+    }
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [socketsKey, socketKey]));
+
+    return previous && previous !== socketId ? previous : null;
+  }
+
+  /**
+   * Remember that a socket holds the host role of a quiz
+   */
+  async setSocketHost(socketId: string, quizId: string): Promise<void> {
+    const key = `quiz:socket:${socketId}`;
+    const transaction = this.redisClient.multi().hset(key, 'hostQuizId', quizId);
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key]));
+  }
+
+  /**
+   * What a socket is attached to, or null for an unknown socket
+   */
+  async getSocketPresence(socketId: string): Promise<SocketPresence | null> {
+    const presence = await this.redisClient.hgetall(`quiz:socket:${socketId}`);
+    return Object.keys(presence).length > 0 ? presence : null;
+  }
+
+  /**
+   * Connected participants of a quiz: userId -> socketId
+   */
+  async getQuizSockets(quizId: string): Promise<Record<string, string>> {
+    return await this.redisClient.hgetall(`quiz:sockets:${quizId}`);
+  }
+
+  /**
+   * Forget a disconnected socket, returning what it was attached to
+   */
+  async releaseSocket(socketId: string): Promise<SocketPresence | null> {
+    const key = `quiz:socket:${socketId}`;
+    const [presence] = await this.execPipeline<[Record<string, string>, number]>(
+      this.redisClient.multi().hgetall(key).del(key),
+    );
+
+    if (presence.userId && presence.quizId) {
+      await this.redisClient.releaseSocket(
+        `quiz:sockets:${presence.quizId}`,
+        presence.userId,
+        socketId,
+      );
+    }
+
+    return Object.keys(presence).length > 0 ? presence : null;
+  }
+
   // ==================== Score Operations ====================
 
+  /**
+   * Start a new participant on 0 points and at the bottom of the ranking
+   */
+  async initializeScore(quizId: string, userId: string): Promise<void> {
+    const scoresKey = `quiz:scores:${quizId}`;
+    const rankingKey = `quiz:ranking:${quizId}`;
+    const transaction = this.redisClient
+      .multi()
+      .zadd(scoresKey, 0, userId)
+      .zadd(rankingKey, 0, userId);
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [scoresKey, rankingKey]));
+  }
+
   /**
    * Update participant score (using Redis Sorted Set for automatic ranking)
    */
@@ -188,10 +560,10 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get participant rank (0-based, 0 is highest)
+   * Get participant rank (0-based, 0 is highest), ties broken by the quiz's tie-breakers
    */
   async getRank(quizId: string, userId: string): Promise<number | null> {
-    const key = `quiz:scores:${quizId}`;
+    const key = `quiz:ranking:${quizId}`;
     const rank = await this.redisClient.zrevrank(key, userId);
     return rank !== null ? rank : null;
   }
@@ -201,51 +573,78 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   /**
    * Get top N participants (leaderboard)
    */
-  async getLeaderboard(
-    quizId: string,
-    limit: number = 10,
-  ): Promise<Array<{ userId: string; score: number; rank: number }>> {
-    const key = `quiz:scores:${quizId}`;
+  async getLeaderboard(quizId: string, limit: number = 10): Promise<LeaderboardEntry[]> {
+    const userIds = await this.redisClient.zrevrange(`quiz:ranking:${quizId}`, 0, limit - 1);
+    return this.readLeaderboard(quizId, userIds);
+  }
 
-    // ZREVRANGE returns highest scores first
-    const results = await this.redisClient.zrevrange(key, 0, limit - 1, 'WITHSCORES');
+  /**
+   * Get full leaderboard with participant details
+   */
+  async getFullLeaderboard(quizId: string): Promise<LeaderboardEntry[]> {
+    const userIds = await this.redisClient.zrevrange(`quiz:ranking:${quizId}`, 0, -1);
+    return this.readLeaderboard(quizId, userIds);
+  }
 
-    const leaderboard = [];
-    for (let i = 0; i < results.length; i += 2) {
-      leaderboard.push({
-        userId: results[i],
-        score: parseFloat(results[i + 1]),
-        rank: i / 2 + 1,
-      });
-    }
+  /**
+   * Points, names and answer counts for ranked users, read in one round trip.
+   * The ranking zset orders players (tie-breakers included); points come from the scores zset.
+   */
+  private async readLeaderboard(quizId: string, userIds: string[]): Promise<LeaderboardEntry[]> {
+    if (userIds.length === 0) return [];
+
+    const [scores, participants, totalAnswers, correctAnswers] = await this.execPipeline<
+      [Array<string | null>, Array<string | null>, Array<string | null>, Array<string | null>]
+    >(
+      this.redisClient
+        .pipeline()
+        .zmscore(`quiz:scores:${quizId}`, ...userIds)
+        .mget(userIds.map((userId) => `quiz:participant:${quizId}:${userId}`))
+        .hmget(`quiz:answer_counts:${quizId}`, ...userIds)
+        .hmget(`quiz:correct_counts:${quizId}`, ...userIds),
+    );
+
+    return userIds.map((userId, index) => ({
+      userId,
+      username: participants[index] ? JSON.parse(participants[index]).username : 'Unknown',
+      score: scores[index] ? parseFloat(scores[index]) : 0,
+      rank: index + 1,
+      correctAnswers: correctAnswers[index] ? parseInt(correctAnswers[index], 10) : 0,
+      totalAnswers: totalAnswers[index] ? parseInt(totalAnswers[index], 10) : 0,
+    }));
+  }
 
-    return leaderboard;
+  /**
+   * The leaderboard as of the latest published delta, or null before the first
+   */
+  async getLeaderboardSnapshot(quizId: string): Promise<LeaderboardSnapshot | null> {
+    const snapshot = await this.redisClient.get(`quiz:leaderboard_snapshot:${quizId}`);
+    return snapshot ? JSON.parse(snapshot) : null;
   }
 
   /**
-   * Get full leaderboard with participant details
+   * Sequence number of the latest published delta (0 before the first one)
    */
-  async getFullLeaderboard(
-    quizId: string,
-  ): Promise<Array<{ userId: string; username: string; score: number; rank: number }>> {
-    const key = `quiz:scores:${quizId}`;
-    const results = await this.redisClient.zrevrange(key, 0, -1, 'WITHSCORES');
-
-    const leaderboard = [];
-    for (let i = 0; i < results.length; i += 2) {
-      const userId = results[i];
-      const score = parseFloat(results[i + 1]);
-      const participant = await this.getParticipant(quizId, userId);
-
-      leaderboard.push({
-        userId,
-        username: participant?.username || 'Unknown',
-        score,
-        rank: i / 2 + 1,
-      });
-    }
+  async getLeaderboardSeq(quizId: string): Promise<number> {
+    const seq = await this.redisClient.get(`quiz:leaderboard_seq:${quizId}`);
+    return seq ? parseInt(seq, 10) : 0;
+  }
 
-    return leaderboard;
+  /**
+   * Store a published leaderboard if its seq is the next one; false if
+   * another instance got there first
+   */
+  async saveLeaderboardSnapshot(quizId: string, snapshot: LeaderboardSnapshot): Promise<boolean> {
+    const keys = [`quiz:leaderboard_seq:${quizId}`, `quiz:leaderboard_snapshot:${quizId}`] as const;
+    const transaction = (this.redisClient.multi() as QuizTransaction).saveLeaderboardSnapshot(
+      ...keys,
+      snapshot.seq,
+      JSON.stringify(snapshot),
+    );
+    const [saved] = await this.execPipeline<[number, number]>(
+      this.trackQuizKeys(transaction, quizId, [...keys]),
+    );
+    return saved === 1;
   }
 
   // ==================== Answer Tracking Operations ====================
@@ -257,29 +656,99 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     quizId: string,
     userId: string,
     questionId: string,
-    answer: any,
+    answer: AnswerRecord,
   ): Promise<void> {
     const key = `quiz:answers:${quizId}:${userId}`;
     await this.redisClient.hset(key, questionId, JSON.stringify(answer));
   }
 
+  /**
+   * Atomically record a user's first answer to a question, add its points to
+   * the score, bump the participant's answer count and update their rank
+   * score. If an answer already exists nothing is written and the stored
+   * answer is returned instead.
+   */
+  async recordAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+    answer: AnswerRecord,
+    points: number,
+    rank: RankUpdate,
+  ): Promise<RecordAnswerResult> {
+    const keys = [
+      `quiz:answers:${quizId}:${userId}`,
+      `quiz:scores:${quizId}`,
+      `quiz:answer_counts:${quizId}`,
+      `quiz:correct_counts:${quizId}`,
+      `quiz:rank_stats:${quizId}:${userId}`,
+      `quiz:ranking:${quizId}`,
+    ] as const;
+    const transaction = (this.redisClient.multi() as QuizTransaction).recordAnswer(
+      ...keys,
+      userId,
+      questionId,
+      JSON.stringify(answer),
+      points,
+      rank.scoreRadix,
+      rank.stats.correct_answers,
+      rank.stats.answer_time,
+      rank.stats.last_correct,
+      rank.weights.correct_answers,
+      rank.weights.answer_time,
+      rank.weights.last_correct,
+    );
+    const [[recorded, storedAnswer, score]] = await this.execPipeline<
+      [[number, string, string], number]
+    >(this.trackQuizKeys(transaction, quizId, [...keys]));
+
+    return {
+      recorded: recorded === 1,
+      answer: JSON.parse(storedAnswer),
+      score: parseFloat(score),
+    };
+  }
+
   /**
    * Get user's answer for a question
    */
-  async getAnswer(quizId: string, userId: string, questionId: string): Promise<any | null> {
+  async getAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+  ): Promise<AnswerRecord | null> {
     const key = `quiz:answers:${quizId}:${userId}`;
     const answer = await this.redisClient.hget(key, questionId);
     return answer ? JSON.parse(answer) : null;
   }
 
+  /**
+   * Get several users' answers to one question in one round trip, in the order of userIds
+   */
+  async getAnswersForQuestion(
+    quizId: string,
+    userIds: string[],
+    questionId: string,
+  ): Promise<Array<AnswerRecord | null>> {
+    if (userIds.length === 0) return [];
+
+    const pipeline = this.redisClient.pipeline();
+    for (const userId of userIds) {
+      pipeline.hget(`quiz:answers:${quizId}:${userId}`, questionId);
+    }
+    const answers = await this.execPipeline<Array<string | null>>(pipeline);
+
+    return answers.map((answer) => (answer ? JSON.parse(answer) : null));
+  }
+
   /**
    * Get all answers for a user in a quiz
    */
-  async getAllAnswers(quizId: string, userId: string): Promise<Record<string, any>> {
+  async getAllAnswers(quizId: string, userId: string): Promise<Record<string, AnswerRecord>> {
     const key = `quiz:answers:${quizId}:${userId}`;
     const answers = await this.redisClient.hgetall(key);
 
-    const parsed: Record<string, any> = {};
+    const parsed: Record<string, AnswerRecord> = {};
     for (const [questionId, answerStr] of Object.entries(answers)) {
       parsed[questionId] = JSON.parse(answerStr);
     }
@@ -294,7 +763,8 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
    */
   async setCurrentQuestion(quizId: string, questionIndex: number): Promise<void> {
     const key = `quiz:current_question:${quizId}`;
-    await this.redisClient.set(key, questionIndex.toString());
+    const transaction = this.redisClient.multi().set(key, questionIndex.toString());
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key]));
   }
 
   /**
@@ -306,6 +776,105 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return index ? parseInt(index, 10) : 0;
   }
 
+  /**
+   * Move to another question if the quiz is still on fromIndex
+   */
+  async moveToQuestion(quizId: string, fromIndex: number, toIndex: number): Promise<boolean> {
+    const key = `quiz:current_question:${quizId}`;
+    const transaction = (this.redisClient.multi() as QuizTransaction).moveToQuestion(
+      key,
+      fromIndex,
+      toIndex,
+    );
+    const [moved] = await this.execPipeline<[number, number]>(
+      this.trackQuizKeys(transaction, quizId, [key]),
+    );
+    return moved === 1;
+  }
+
+  /**
+   * Record when a question was released to a specific participant (late joiners)
+   */
+  async setQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+    timestamp: number,
+  ): Promise<void> {
+    const key = `quiz:releases:${quizId}:${questionId}`;
+    const transaction = this.redisClient.multi().hset(key, userId, timestamp.toString());
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key]));
+  }
+
+  /**
+   * Get when a question was released to a specific participant, if recorded
+   */
+  async getQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+  ): Promise<number | null> {
+    const key = `quiz:releases:${quizId}:${questionId}`;
+    const timestamp = await this.redisClient.hget(key, userId);
+    return timestamp ? parseInt(timestamp, 10) : null;
+  }
+
+  /**
+   * Move a question on to a later phase; false if it is already there or past it
+   */
+  async advanceQuestionPhase(
+    quizId: string,
+    questionIndex: number,
+    phase: QuestionPhase,
+  ): Promise<boolean> {
+    const key = `quiz:question_phases:${quizId}`;
+    const transaction = (this.redisClient.multi() as QuizTransaction).advanceQuestionPhase(
+      key,
+      questionIndex,
+      QUESTION_PHASES.indexOf(phase),
+    );
+    const [changed] = await this.execPipeline<[number, number]>(
+      this.trackQuizKeys(transaction, quizId, [key]),
+    );
+    return changed === 1;
+  }
+
+  // ==================== Event Operations ====================
+
+  /**
+   * Record a broadcast under the quiz's next event ID. Events are scored by ID,
+   * so they stay in order even when instances append concurrently.
+   */
+  async appendEvent(
+    quizId: string,
+    event: Omit<QuizEvent, 'id'>,
+    limit: number,
+  ): Promise<QuizEvent> {
+    const key = `quiz:events:${quizId}`;
+    const seqKey = `quiz:event_seq:${quizId}`;
+    const id = await this.redisClient.incr(seqKey);
+    const stored = { id, ...event };
+
+    const transaction = this.redisClient
+      .multi()
+      .zadd(key, id, JSON.stringify(stored))
+      .zremrangebyrank(key, 0, -(limit + 1));
+    await this.execPipeline(this.trackQuizKeys(transaction, quizId, [key, seqKey]));
+    return JSON.parse(JSON.stringify(stored));
+  }
+
+  /**
+   * Recorded events after lastEventId, oldest first
+   */
+  async getEventsSince(quizId: string, lastEventId: number): Promise<QuizEvent[]> {
+    const events = await this.redisClient.zrangebyscore(
+      `quiz:events:${quizId}`,
+      `(${lastEventId}`,
+      '+inf',
+    );
+    return events.map((event) => JSON.parse(event));
+  }
+
   // ==================== Utility Operations ====================
 
   /**
@@ -318,15 +887,57 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Clean up all quiz data
+   * Let a quiz live ttl more seconds from now, together with all of its keys.
+   * The session goes first: keys written after that take its new lifetime,
+   * those written before are in the index by the time it is read.
    */
-  async cleanupQuiz(quizId: string): Promise<void> {
-    const pattern = `quiz:*:${quizId}*`;
-    const keys = await this.redisClient.keys(pattern);
+  async expireQuiz(quizId: string, ttl: number): Promise<void> {
+    const indexKey = `quiz:keys:${quizId}`;
+    await this.execPipeline(
+      this.redisClient
+        .multi()
+        .expire(`quiz:session:${quizId}`, ttl)
+        .zadd(QUIZ_EXPIRIES_KEY, Date.now() + ttl * 1000, quizId),
+    );
+
+    const keys = await this.redisClient.smembers(indexKey);
+    const transaction = this.redisClient.multi().expire(indexKey, ttl);
+    for (const key of keys) {
+      transaction.expire(key, ttl);
+    }
+    await this.execPipeline(transaction);
+  }
 
-    if (keys.length > 0) {
-      await this.redisClient.del(...keys);
-      this.logger.log(`Cleaned up ${keys.length} keys for quiz ${quizId}`);
+  /**
+   * Quizzes whose lifetime ended at or before now, longest expired first
+   */
+  async getExpiredQuizzes(now: number, limit: number): Promise<string[]> {
+    return await this.redisClient.zrangebyscore(QUIZ_EXPIRIES_KEY, '-inf', now, 'LIMIT', 0, limit);
+  }
+
+  /**
+   * Quizzes whose lifetime has not ended at now
+   */
+  async getLiveQuizzes(now: number): Promise<string[]> {
+    return await this.redisClient.zrangebyscore(QUIZ_EXPIRIES_KEY, `(${now}`, '+inf');
+  }
+
+  /**
+   * Clean up all quiz data: every key listed in the quiz's key index
+   */
+  async cleanupQuiz(quizId: string): Promise<void> {
+    const indexKey = `quiz:keys:${quizId}`;
+    const keys = await this.redisClient.smembers(indexKey);
+
+    const [deleted] = await this.execPipeline<[number, number]>(
+      this.redisClient
+        .multi()
+        .del(indexKey, ...keys)
+        .zrem(QUIZ_EXPIRIES_KEY, quizId),
+    );
+
+    if (deleted > 0) {
+      this.logger.log(`Cleaned up ${deleted} keys for quiz ${quizId}`);
     }
   }
 
@@ -336,4 +947,32 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   async getInfo(): Promise<string> {
     return await this.redisClient.info();
   }
+
+  /**
+   * Queue the bookkeeping for keys a transaction writes: list them in the
+   * quiz's key index and give them the session's remaining lifetime
+   */
+  private trackQuizKeys(
+    transaction: ChainableCommander,
+    quizId: string,
+    keys: string[],
+  ): ChainableCommander {
+    return (transaction as QuizTransaction).trackQuizKeys(
+      `quiz:session:${quizId}`,
+      `quiz:keys:${quizId}`,
+      ...keys,
+    );
+  }
+
+  /**
+   * Run a pipeline and return its replies, failing on the first command error
+   */
+  private async execPipeline<T extends unknown[]>(pipeline: ChainableCommander): Promise<T> {
+    const results = (await pipeline.exec()) ?? [];
+
+    const failed = results.find(([error]) => error);
+    if (failed) throw failed[0];
+
+    return results.map(([, reply]) => reply) as T;
+  }
 }
@@ -0,0 +1,6 @@
+import { InMemoryQuizStore } from './in-memory-quiz.store';
+import { describeQuizStoreContract } from './quiz-store.contract';
+
+describe('InMemoryQuizStore', () => {
+  describeQuizStoreContract(async () => ({ store: new InMemoryQuizStore() }));
+});
@@ -0,0 +1,523 @@
+/**
+ * In-memory quiz store for running a single instance without Redis
+ * (QUIZ_STORE=memory). Everything is lost on restart and nothing is shared
+ * between processes, so it is meant for local development and tests.
+ *
+ * Mirrors RedisService command by command: values are stored serialized (Dates
+ * come back as strings) and the ranking orders ties by user ID descending like
+ * ZREVRANGE. Only the session expires by itself; the rest of a quiz, which
+ * Redis expires with it, stays until the quiz janitor purges it.
+ */
+
+import {
+  AnswerRecord,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  Participant,
+  QuestionPhase,
+  QuizEvent,
+  QuizSession,
+  SocketPresence,
+} from '../quiz/interfaces/quiz.interface';
+import { QuizStore, RankUpdate, RecordAnswerResult } from './quiz.store';
+
+// Phases in the order a question goes through them
+const QUESTION_PHASES = Object.values(QuestionPhase);
+
+interface StoredSession {
+  data: string;
+  expiresAt: number | null; // epoch ms
+}
+
+interface RankStats {
+  answerTime: number;
+  lastCorrect: number;
+}
+
+/**
+ * Everything kept for one quiz, the counterpart of its quiz:*:{quizId}* keys
+ */
+interface QuizData {
+  participants: Map<string, string>; // userId -> participant JSON
+  resumeTokens: Map<string, string>; // resumeToken -> userId
+  sockets: Map<string, string>; // userId -> socketId
+  scores: Map<string, number>;
+  ranking: Map<string, number>; // userId -> rank score
+  answerCounts: Map<string, number>;
+  correctCounts: Map<string, number>;
+  rankStats: Map<string, RankStats>;
+  answers: Map<string, Map<string, string>>; // userId -> questionId -> answer JSON
+  releases: Map<string, Map<string, number>>; // questionId -> userId -> epoch ms
+  questionPhases: Map<number, number>; // question index -> position in QUESTION_PHASES
+  leaderboardSnapshot?: string; // snapshot JSON as of leaderboardSeq
+  leaderboardSeq: number;
+  events: string[]; // event JSON, oldest first
+  eventSeq: number;
+  currentQuestion?: number;
+}
+
+export class InMemoryQuizStore extends QuizStore {
+  private readonly sessions = new Map<string, StoredSession>();
+  private readonly expiries = new Map<string, number>(); // quizId -> epoch ms
+  private readonly quizzes = new Map<string, QuizData>();
+  private readonly socketPresence = new Map<string, SocketPresence>();
+
+  // ==================== Quiz Sessions ====================
+
+  async createQuizSession(quizId: string, session: QuizSession, ttl: number = 3600): Promise<void> {
+    const expiresAt = Date.now() + ttl * 1000;
+    this.sessions.set(quizId, { data: JSON.stringify(session), expiresAt });
+    this.expiries.set(quizId, expiresAt);
+  }
+
+  async getQuizSession(quizId: string): Promise<QuizSession | null> {
+    const stored = this.readSession(quizId);
+    return stored ? JSON.parse(stored.data) : null;
+  }
+
+  async updateQuizSession(quizId: string, session: QuizSession): Promise<void> {
+    this.sessions.set(quizId, {
+      data: JSON.stringify(session),
+      expiresAt: this.readSession(quizId)?.expiresAt ?? null,
+    });
+  }
+
+  async deleteQuizSession(quizId: string): Promise<void> {
+    this.sessions.delete(quizId);
+  }
+
+  async quizExists(quizId: string): Promise<boolean> {
+    return this.readSession(quizId) !== null;
+  }
+
+  async expireQuiz(quizId: string, ttl: number): Promise<void> {
+    const expiresAt = Date.now() + ttl * 1000;
+    const stored = this.readSession(quizId);
+    if (stored) {
+      stored.expiresAt = expiresAt;
+    }
+    this.expiries.set(quizId, expiresAt);
+  }
+
+  // ==================== Participants ====================
+
+  async addParticipant(quizId: string, userId: string, participant: Participant): Promise<void> {
+    this.quiz(quizId).participants.set(userId, JSON.stringify(participant));
+  }
+
+  async getParticipants(quizId: string): Promise<string[]> {
+    return [...(this.quizzes.get(quizId)?.participants.keys() ?? [])];
+  }
+
+  async getParticipant(quizId: string, userId: string): Promise<Participant | null> {
+    const [participant] = await this.getParticipantsById(quizId, [userId]);
+    return participant;
+  }
+
+  async getParticipantsById(quizId: string, userIds: string[]): Promise<Array<Participant | null>> {
+    const quiz = this.quizzes.get(quizId);
+
+    return userIds.map((userId) => {
+      const data = quiz?.participants.get(userId);
+      if (!quiz || !data) return null;
+
+      return {
+        ...JSON.parse(data),
+        score: quiz.scores.get(userId) ?? 0,
+        answersSubmitted: quiz.answerCounts.get(userId) ?? 0,
+      };
+    });
+  }
+
+  async removeParticipant(quizId: string, userId: string): Promise<void> {
+    const quiz = this.quizzes.get(quizId);
+    if (!quiz) return;
+
+    quiz.participants.delete(userId);
+    quiz.answerCounts.delete(userId);
+    quiz.correctCounts.delete(userId);
+  }
+
+  async getParticipantCount(quizId: string): Promise<number> {
+    return this.quizzes.get(quizId)?.participants.size ?? 0;
+  }
+
+  async setResumeToken(quizId: string, resumeToken: string, userId: string): Promise<void> {
+    this.quiz(quizId).resumeTokens.set(resumeToken, userId);
+  }
+
+  async getResumeUserId(quizId: string, resumeToken: string): Promise<string | null> {
+    return this.quizzes.get(quizId)?.resumeTokens.get(resumeToken) ?? null;
+  }
+
+  // ==================== Presence ====================
+
+  async attachSocket(quizId: string, userId: string, socketId: string): Promise<string | null> {
+    const sockets = this.quiz(quizId).sockets;
+    const previous = sockets.get(userId);
+
+    sockets.set(userId, socketId);
+    this.socketPresence.set(socketId, {
+      ...this.socketPresence.get(socketId),
+      userId,
+      quizId,
+    });
+
+    if (!previous || previous === socketId) return null;
+
+    const { hostQuizId } = this.socketPresence.get(previous) ?? {};
+    if (hostQuizId) {
+      this.socketPresence.set(previous, { hostQuizId });
+    } else {
+      this.socketPresence.delete(previous);
+    }
+    return previous;
+  }
+
+  async setSocketHost(socketId: string, quizId: string): Promise<void> {
+    this.socketPresence.set(socketId, { ...this.socketPresence.get(socketId), hostQuizId: quizId });
+  }
+
+  async getSocketPresence(socketId: string): Promise<SocketPresence | null> {
+    const presence = this.socketPresence.get(socketId);
+    return presence ? { ...presence } : null;
+  }
+
+  async getQuizSockets(quizId: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.quizzes.get(quizId)?.sockets ?? []);
+  }
+
+  async releaseSocket(socketId: string): Promise<SocketPresence | null> {
+    const presence = this.socketPresence.get(socketId);
+    if (!presence) return null;
+    this.socketPresence.delete(socketId);
+
+    if (presence.userId && presence.quizId) {
+      const sockets = this.quizzes.get(presence.quizId)?.sockets;
+      if (sockets?.get(presence.userId) === socketId) {
+        sockets.delete(presence.userId);
+      }
+    }
+
+    return presence;
+  }
+
+  // ==================== Scores & Leaderboards ====================
+
+  async initializeScore(quizId: string, userId: string): Promise<void> {
+    const quiz = this.quiz(quizId);
+    quiz.scores.set(userId, 0);
+    quiz.ranking.set(userId, 0);
+  }
+
+  async getScore(quizId: string, userId: string): Promise<number> {
+    return this.quizzes.get(quizId)?.scores.get(userId) ?? 0;
+  }
+
+  async getRank(quizId: string, userId: string): Promise<number | null> {
+    const rank = this.rankedUserIds(quizId).indexOf(userId);
+    return rank >= 0 ? rank : null;
+  }
+
+  async getLeaderboard(quizId: string, limit: number = 10): Promise<LeaderboardEntry[]> {
+    // Same bounds as ZREVRANGE 0 (limit - 1): a limit of 0 means everyone
+    const userIds = this.rankedUserIds(quizId);
+    const stop = limit - 1 < 0 ? userIds.length + limit - 1 : limit - 1;
+    return this.readLeaderboard(quizId, userIds.slice(0, stop + 1));
+  }
+
+  async getFullLeaderboard(quizId: string): Promise<LeaderboardEntry[]> {
+    return this.readLeaderboard(quizId, this.rankedUserIds(quizId));
+  }
+
+  async getLeaderboardSnapshot(quizId: string): Promise<LeaderboardSnapshot | null> {
+    const snapshot = this.quizzes.get(quizId)?.leaderboardSnapshot;
+    return snapshot ? JSON.parse(snapshot) : null;
+  }
+
+  async getLeaderboardSeq(quizId: string): Promise<number> {
+    return this.quizzes.get(quizId)?.leaderboardSeq ?? 0;
+  }
+
+  async saveLeaderboardSnapshot(quizId: string, snapshot: LeaderboardSnapshot): Promise<boolean> {
+    const quiz = this.quiz(quizId);
+    if (snapshot.seq !== quiz.leaderboardSeq + 1) {
+      return false;
+    }
+
+    quiz.leaderboardSeq = snapshot.seq;
+    quiz.leaderboardSnapshot = JSON.stringify(snapshot);
+    return true;
+  }
+
+  // ==================== Answers ====================
+
+  async recordAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+    answer: AnswerRecord,
+    points: number,
+    rank: RankUpdate,
+  ): Promise<RecordAnswerResult> {
+    const quiz = this.quiz(quizId);
+    let answers = quiz.answers.get(userId);
+    if (!answers) {
+      answers = new Map();
+      quiz.answers.set(userId, answers);
+    }
+
+    const existing = answers.get(questionId);
+    if (existing) {
+      return {
+        recorded: false,
+        answer: JSON.parse(existing),
+        score: quiz.scores.get(userId) ?? 0,
+      };
+    }
+
+    const stored = JSON.stringify(answer);
+    answers.set(questionId, stored);
+    quiz.answerCounts.set(userId, (quiz.answerCounts.get(userId) ?? 0) + 1);
+    const correct = (quiz.correctCounts.get(userId) ?? 0) + rank.stats.correct_answers;
+    quiz.correctCounts.set(userId, correct);
+
+    let score = quiz.scores.get(userId) ?? 0;
+    if (points !== 0) {
+      score += points;
+      quiz.scores.set(userId, score);
+    }
+
+    const stats = quiz.rankStats.get(userId) ?? { answerTime: 0, lastCorrect: 0 };
+    stats.answerTime += rank.stats.answer_time;
+    if (rank.stats.last_correct > 0) {
+      stats.lastCorrect = rank.stats.last_correct;
+    }
+    quiz.rankStats.set(userId, stats);
+
+    const rankScore =
+      score * rank.scoreRadix +
+      correct * rank.weights.correct_answers +
+      stats.answerTime * rank.weights.answer_time +
+      stats.lastCorrect * rank.weights.last_correct;
+    quiz.ranking.set(userId, Math.round(rankScore));
+
+    return { recorded: true, answer: JSON.parse(stored), score };
+  }
+
+  async getAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+  ): Promise<AnswerRecord | null> {
+    const [answer] = await this.getAnswersForQuestion(quizId, [userId], questionId);
+    return answer;
+  }
+
+  async getAnswersForQuestion(
+    quizId: string,
+    userIds: string[],
+    questionId: string,
+  ): Promise<Array<AnswerRecord | null>> {
+    const quiz = this.quizzes.get(quizId);
+
+    return userIds.map((userId) => {
+      const answer = quiz?.answers.get(userId)?.get(questionId);
+      return answer ? JSON.parse(answer) : null;
+    });
+  }
+
+  async getAllAnswers(quizId: string, userId: string): Promise<Record<string, AnswerRecord>> {
+    const answers = this.quizzes.get(quizId)?.answers.get(userId) ?? new Map<string, string>();
+
+    const parsed: Record<string, AnswerRecord> = {};
+    for (const [questionId, answer] of answers) {
+      parsed[questionId] = JSON.parse(answer);
+    }
+
+    return parsed;
+  }
+
+  // ==================== Question State ====================
+
+  async setCurrentQuestion(quizId: string, questionIndex: number): Promise<void> {
+    this.quiz(quizId).currentQuestion = questionIndex;
+  }
+
+  async getCurrentQuestion(quizId: string): Promise<number> {
+    return this.quizzes.get(quizId)?.currentQuestion ?? 0;
+  }
+
+  async moveToQuestion(quizId: string, fromIndex: number, toIndex: number): Promise<boolean> {
+    if ((this.quizzes.get(quizId)?.currentQuestion ?? 0) !== fromIndex) {
+      return false;
+    }
+
+    this.quiz(quizId).currentQuestion = toIndex;
+    return true;
+  }
+
+  async setQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+    timestamp: number,
+  ): Promise<void> {
+    const quiz = this.quiz(quizId);
+    let releases = quiz.releases.get(questionId);
+    if (!releases) {
+      releases = new Map();
+      quiz.releases.set(questionId, releases);
+    }
+    releases.set(userId, timestamp);
+  }
+
+  async getQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+  ): Promise<number | null> {
+    return this.quizzes.get(quizId)?.releases.get(questionId)?.get(userId) ?? null;
+  }
+
+  async advanceQuestionPhase(
+    quizId: string,
+    questionIndex: number,
+    phase: QuestionPhase,
+  ): Promise<boolean> {
+    const quiz = this.quiz(quizId);
+    const target = QUESTION_PHASES.indexOf(phase);
+    if ((quiz.questionPhases.get(questionIndex) ?? 0) >= target) {
+      return false;
+    }
+
+    quiz.questionPhases.set(questionIndex, target);
+    return true;
+  }
+
+  // ==================== Events ====================
+
+  async appendEvent(
+    quizId: string,
+    event: Omit<QuizEvent, 'id'>,
+    limit: number,
+  ): Promise<QuizEvent> {
+    const quiz = this.quiz(quizId);
+    const stored = { id: ++quiz.eventSeq, ...event };
+
+    quiz.events.push(JSON.stringify(stored));
+    quiz.events.splice(0, Math.max(quiz.events.length - limit, 0));
+    return JSON.parse(JSON.stringify(stored));
+  }
+
+  async getEventsSince(quizId: string, lastEventId: number): Promise<QuizEvent[]> {
+    return (this.quizzes.get(quizId)?.events ?? [])
+      .map((event): QuizEvent => JSON.parse(event))
+      .filter((event) => event.id > lastEventId);
+  }
+
+  // ==================== Cleanup ====================
+
+  async getExpiredQuizzes(now: number, limit: number): Promise<string[]> {
+    return [...this.expiries.entries()]
+      .filter(([, expiresAt]) => expiresAt <= now)
+      .sort(([quizA, expiresA], [quizB, expiresB]) => {
+        if (expiresA !== expiresB) return expiresA - expiresB;
+        if (quizA === quizB) return 0;
+        return quizA < quizB ? -1 : 1;
+      })
+      .slice(0, limit)
+      .map(([quizId]) => quizId);
+  }
+
+  async getLiveQuizzes(now: number): Promise<string[]> {
+    return [...this.expiries.entries()]
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([quizId]) => quizId);
+  }
+
+  async cleanupQuiz(quizId: string): Promise<void> {
+    this.sessions.delete(quizId);
+    this.quizzes.delete(quizId);
+    this.expiries.delete(quizId);
+
+    for (const [socketId, presence] of this.socketPresence) {
+      if (presence.quizId === quizId || presence.hostQuizId === quizId) {
+        this.socketPresence.delete(socketId);
+      }
+    }
+  }
+
+  /**
+   * The session if it has not expired; expired sessions are dropped on access
+   */
+  private readSession(quizId: string): StoredSession | null {
+    const stored = this.sessions.get(quizId);
+    if (!stored) return null;
+
+    if (stored.expiresAt !== null && stored.expiresAt <= Date.now()) {
+      this.sessions.delete(quizId);
+      return null;
+    }
+    return stored;
+  }
+
+  /**
+   * A quiz's data, created on first write
+   */
+  private quiz(quizId: string): QuizData {
+    let quiz = this.quizzes.get(quizId);
+    if (!quiz) {
+      quiz = {
+        participants: new Map(),
+        resumeTokens: new Map(),
+        sockets: new Map(),
+        scores: new Map(),
+        ranking: new Map(),
+        answerCounts: new Map(),
+        correctCounts: new Map(),
+        rankStats: new Map(),
+        answers: new Map(),
+        releases: new Map(),
+        questionPhases: new Map(),
+        leaderboardSeq: 0,
+        events: [],
+        eventSeq: 0,
+      };
+      this.quizzes.set(quizId, quiz);
+    }
+    return quiz;
+  }
+
+  /**
+   * User IDs by rank score, highest first, ties by user ID descending (as ZREVRANGE)
+   */
+  private rankedUserIds(quizId: string): string[] {
+    const ranking = this.quizzes.get(quizId)?.ranking ?? new Map<string, number>();
+
+    return [...ranking.entries()]
+      .sort(([userA, scoreA], [userB, scoreB]) => {
+        if (scoreA !== scoreB) return scoreB - scoreA;
+        if (userA === userB) return 0;
+        return userA < userB ? 1 : -1;
+      })
+      .map(([userId]) => userId);
+  }
+
+  private readLeaderboard(quizId: string, userIds: string[]): LeaderboardEntry[] {
+    const quiz = this.quizzes.get(quizId);
+
+    return userIds.map((userId, index) => {
+      const participant = quiz?.participants.get(userId);
+
+      return {
+        userId,
+        username: participant ? JSON.parse(participant).username : 'Unknown',
+        score: quiz?.scores.get(userId) ?? 0,
+        rank: index + 1,
+        correctAnswers: quiz?.correctCounts.get(userId) ?? 0,
+        totalAnswers: quiz?.answerCounts.get(userId) ?? 0,
+      };
+    });
+  }
+}
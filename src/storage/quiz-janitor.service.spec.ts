@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QuizJanitorService } from './quiz-janitor.service';
+import { InMemoryQuizStore } from './in-memory-quiz.store';
+import { QuizStore } from './quiz.store';
+import { QuizSession, QuizStatus } from '../quiz/interfaces/quiz.interface';
+
+describe('QuizJanitorService', () => {
+  let module: TestingModule;
+  let janitor: QuizJanitorService;
+  let store: InMemoryQuizStore;
+
+  const session = (quizId: string): QuizSession => ({
+    quizId,
+    title: 'Vocabulary',
+    status: QuizStatus.WAITING,
+    questions: [],
+    currentQuestionIndex: 0,
+    createdAt: new Date(),
+    maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: true,
+    hostToken: 'host-token',
+    coHostIds: [],
+  });
+
+  const inSeconds = (seconds: number) => Date.now() + seconds * 1000;
+
+  beforeEach(async () => {
+    store = new InMemoryQuizStore();
+
+    module = await Test.createTestingModule({
+      providers: [
+        QuizJanitorService,
+        { provide: QuizStore, useValue: store },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: number) =>
+              key === 'QUIZ_JANITOR_INTERVAL_MS' ? 1000 : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    janitor = module.get<QuizJanitorService>(QuizJanitorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    jest.useRealTimers();
+  });
+
+  describe('sweep', () => {
+    it('should purge everything stored for expired quizzes and keep live ones', async () => {
+      await store.createQuizSession('QUIZ1', session('QUIZ1'), 60);
+      await store.addParticipant('QUIZ1', 'alice', {
+        userId: 'alice',
+        username: 'Alice',
+        socketId: 'socket-a',
+        joinedAt: new Date(),
+        score: 0,
+        answersSubmitted: 0,
+      });
+      await store.createQuizSession('QUIZ2', session('QUIZ2'), 3600);
+
+      expect(await janitor.sweep(inSeconds(61))).toBe(1);
+
+      expect(await store.getParticipantCount('QUIZ1')).toBe(0);
+      expect(await store.getExpiredQuizzes(inSeconds(61), 10)).toEqual([]);
+      expect(await store.quizExists('QUIZ2')).toBe(true);
+    });
+
+    it('should purge completed quizzes once their grace period is over', async () => {
+      await store.createQuizSession('QUIZ1', session('QUIZ1'), 3600);
+      await store.expireQuiz('QUIZ1', 60);
+
+      expect(await janitor.sweep(inSeconds(30))).toBe(0);
+      expect(await janitor.sweep(inSeconds(61))).toBe(1);
+    });
+
+    it('should work through more expired quizzes than fit in one batch', async () => {
+      for (let i = 0; i < 150; i++) {
+        await store.createQuizSession(`QUIZ${i}`, session(`QUIZ${i}`), 1);
+      }
+
+      expect(await janitor.sweep(inSeconds(2))).toBe(150);
+      expect(await store.getExpiredQuizzes(inSeconds(2), 10)).toEqual([]);
+    });
+
+    it('should log store errors and leave the quizzes for the next sweep', async () => {
+      await store.createQuizSession('QUIZ1', session('QUIZ1'), 1);
+      jest.spyOn(store, 'cleanupQuiz').mockRejectedValueOnce(new Error('Connection lost'));
+
+      expect(await janitor.sweep(inSeconds(2))).toBe(0);
+      expect(await janitor.sweep(inSeconds(2))).toBe(1);
+    });
+  });
+
+  it('should sweep periodically until the module is destroyed', async () => {
+    jest.useFakeTimers();
+    const sweep = jest.spyOn(janitor, 'sweep').mockResolvedValue(0);
+
+    janitor.onModuleInit();
+    await jest.advanceTimersByTimeAsync(2500);
+    expect(sweep).toHaveBeenCalledTimes(2);
+
+    janitor.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(sweep).toHaveBeenCalledTimes(2);
+  });
+});
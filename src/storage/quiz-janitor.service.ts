@@ -0,0 +1,70 @@
+/**
+ * Quiz Janitor - Purges the data of quizzes whose lifetime has ended
+ *
+ * Every quiz is indexed with the time it expires: the session TTL when it is
+ * created, or the grace period after it completes. Each instance sweeps that
+ * index periodically and deletes everything stored for the quizzes that are
+ * due, so no key outlives its session. Sweeps on several instances may
+ * overlap; purging a quiz twice is harmless.
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuizStore } from './quiz.store';
+
+const SWEEP_BATCH_SIZE = 100;
+
+@Injectable()
+export class QuizJanitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QuizJanitorService.name);
+  private readonly sweepInterval: number;
+  private timer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private readonly store: QuizStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.sweepInterval = this.configService.get<number>('QUIZ_JANITOR_INTERVAL_MS', 60000);
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.sweep(), this.sweepInterval);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Purge every quiz that has expired by now, returning how many were purged.
+   * Errors are logged; the quizzes left over are retried on the next sweep.
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    let purged = 0;
+    try {
+      let batch: string[];
+      do {
+        batch = await this.store.getExpiredQuizzes(now, SWEEP_BATCH_SIZE);
+        for (const quizId of batch) {
+          await this.store.cleanupQuiz(quizId);
+          purged++;
+        }
+      } while (batch.length === SWEEP_BATCH_SIZE);
+    } catch (error) {
+      this.logger.error(`Error purging expired quizzes: ${error.message}`);
+    } finally {
+      this.sweeping = false;
+    }
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired quizzes`);
+    }
+    return purged;
+  }
+}
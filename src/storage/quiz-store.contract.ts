@@ -0,0 +1,620 @@
+/**
+ * Behaviour every QuizStore must share, run against each implementation by
+ * its own spec so the in-memory store stays a drop-in for Redis
+ */
+
+import {
+  AnswerRecord,
+  Participant,
+  QuestionPhase,
+  QuizSession,
+  QuizStatus,
+  TieBreaker,
+} from '../quiz/interfaces/quiz.interface';
+import { QuizStore, RankUpdate } from './quiz.store';
+
+export interface QuizStoreFixture {
+  store: QuizStore;
+  teardown?: () => Promise<void>;
+}
+
+export function describeQuizStoreContract(setup: () => Promise<QuizStoreFixture>): void {
+  let store: QuizStore;
+  let teardown: (() => Promise<void>) | undefined;
+
+  const session = (overrides: Partial<QuizSession> = {}): QuizSession => ({
+    quizId: 'QUIZ1',
+    title: 'Vocabulary',
+    status: QuizStatus.WAITING,
+    questions: [],
+    currentQuestionIndex: 0,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    maxParticipants: 100,
+    timePerQuestion: 30,
+    autoAdvance: true,
+    hostToken: 'host-token',
+    coHostIds: [],
+    ...overrides,
+  });
+
+  const participant = (userId: string, username: string): Participant => ({
+    userId,
+    username,
+    socketId: `socket-${userId}`,
+    joinedAt: new Date('2024-01-01T00:00:00Z'),
+    score: 0,
+    answersSubmitted: 0,
+  });
+
+  const answer = (overrides: Partial<AnswerRecord> = {}): AnswerRecord => ({
+    answer: 'Joyful',
+    correct: true,
+    correctAnswer: 'Joyful',
+    earnedPoints: 10,
+    timeTaken: 2,
+    submittedAt: new Date('2024-01-01T00:00:05Z'),
+    ...overrides,
+  });
+
+  const rank = (
+    stats: Partial<Record<TieBreaker, number>> = {},
+    weights: Partial<Record<TieBreaker, number>> = {},
+  ): RankUpdate => ({
+    scoreRadix: 1000,
+    weights: { correct_answers: 0, answer_time: 0, last_correct: 0, ...weights },
+    stats: { correct_answers: 0, answer_time: 0, last_correct: 0, ...stats },
+  });
+
+  const join = async (quizId: string, userId: string, username: string) => {
+    await store.addParticipant(quizId, userId, participant(userId, username));
+    await store.initializeScore(quizId, userId);
+  };
+
+  beforeEach(async () => {
+    ({ store, teardown } = await setup());
+  });
+
+  afterEach(async () => {
+    await teardown?.();
+  });
+
+  describe('sessions', () => {
+    it('should store a session as JSON', async () => {
+      await store.createQuizSession('QUIZ1', session());
+
+      expect(await store.getQuizSession('QUIZ1')).toEqual({
+        ...session(),
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+      expect(await store.quizExists('QUIZ1')).toBe(true);
+      expect(await store.getQuizSession('QUIZ2')).toBeNull();
+      expect(await store.quizExists('QUIZ2')).toBe(false);
+    });
+
+    it('should replace a session and delete it', async () => {
+      await store.createQuizSession('QUIZ1', session());
+      await store.updateQuizSession('QUIZ1', session({ status: QuizStatus.IN_PROGRESS }));
+
+      expect((await store.getQuizSession('QUIZ1'))?.status).toBe(QuizStatus.IN_PROGRESS);
+
+      await store.deleteQuizSession('QUIZ1');
+
+      expect(await store.getQuizSession('QUIZ1')).toBeNull();
+    });
+
+    it('should expire a session after its ttl, also once it was updated', async () => {
+      await store.createQuizSession('QUIZ1', session(), 1);
+      await store.updateQuizSession('QUIZ1', session({ status: QuizStatus.IN_PROGRESS }));
+
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      expect(await store.getQuizSession('QUIZ1')).toBeNull();
+      expect(await store.quizExists('QUIZ1')).toBe(false);
+    });
+
+    it('should expire a session early once its quiz is given less time', async () => {
+      await store.createQuizSession('QUIZ1', session(), 3600);
+      await store.expireQuiz('QUIZ1', 1);
+
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      expect(await store.getQuizSession('QUIZ1')).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    const inSeconds = (seconds: number) => Date.now() + seconds * 1000;
+
+    it('should report a quiz as expired once its session ttl has passed', async () => {
+      await store.createQuizSession('QUIZ1', session(), 60);
+
+      expect(await store.getExpiredQuizzes(Date.now(), 10)).toEqual([]);
+      expect(await store.getExpiredQuizzes(inSeconds(61), 10)).toEqual(['QUIZ1']);
+    });
+
+    it('should move the expiry of a quiz, with or without a session', async () => {
+      await store.createQuizSession('QUIZ1', session(), 3600);
+      await store.expireQuiz('QUIZ1', 60);
+      await store.expireQuiz('QUIZ2', 60);
+
+      expect((await store.getExpiredQuizzes(inSeconds(61), 10)).sort()).toEqual(['QUIZ1', 'QUIZ2']);
+    });
+
+    it('should list expired quizzes longest expired first, up to the limit', async () => {
+      await store.createQuizSession('QUIZ1', session({ quizId: 'QUIZ1' }), 30);
+      await store.createQuizSession('QUIZ2', session({ quizId: 'QUIZ2' }), 10);
+      await store.createQuizSession('QUIZ3', session({ quizId: 'QUIZ3' }), 20);
+      await store.createQuizSession('QUIZ4', session({ quizId: 'QUIZ4' }), 3600);
+
+      expect(await store.getExpiredQuizzes(inSeconds(60), 2)).toEqual(['QUIZ2', 'QUIZ3']);
+      expect(await store.getExpiredQuizzes(inSeconds(60), 10)).toEqual(['QUIZ2', 'QUIZ3', 'QUIZ1']);
+    });
+
+    it('should list the quizzes still alive', async () => {
+      await store.createQuizSession('QUIZ1', session({ quizId: 'QUIZ1' }), 30);
+      await store.createQuizSession('QUIZ2', session({ quizId: 'QUIZ2' }), 3600);
+      await store.createQuizSession('QUIZ3', session({ quizId: 'QUIZ3' }), 3600);
+      await store.cleanupQuiz('QUIZ3');
+
+      expect((await store.getLiveQuizzes(Date.now())).sort()).toEqual(['QUIZ1', 'QUIZ2']);
+      expect(await store.getLiveQuizzes(inSeconds(30))).toEqual(['QUIZ2']);
+    });
+  });
+
+  describe('participants', () => {
+    it('should return participants with their live score and answer count', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank());
+
+      expect(await store.getParticipant('QUIZ1', 'alice')).toEqual({
+        ...participant('alice', 'Alice'),
+        joinedAt: '2024-01-01T00:00:00.000Z',
+        score: 10,
+        answersSubmitted: 1,
+      });
+      expect(await store.getParticipant('QUIZ1', 'bob')).toBeNull();
+    });
+
+    it('should read several participants in the order asked', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await join('QUIZ1', 'bob', 'Bob');
+
+      const participants = await store.getParticipantsById('QUIZ1', ['bob', 'carol', 'alice']);
+
+      expect(participants.map((p) => p?.username ?? null)).toEqual(['Bob', null, 'Alice']);
+      expect(await store.getParticipantsById('QUIZ1', [])).toEqual([]);
+    });
+
+    it('should list and count participants per quiz', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await join('QUIZ1', 'bob', 'Bob');
+      await join('QUIZ2', 'carol', 'Carol');
+      await store.addParticipant('QUIZ1', 'alice', participant('alice', 'Alicia'));
+
+      expect((await store.getParticipants('QUIZ1')).sort()).toEqual(['alice', 'bob']);
+      expect(await store.getParticipantCount('QUIZ1')).toBe(2);
+      expect((await store.getParticipant('QUIZ1', 'alice'))?.username).toBe('Alicia');
+      expect(await store.getParticipants('QUIZ3')).toEqual([]);
+      expect(await store.getParticipantCount('QUIZ3')).toBe(0);
+    });
+
+    it('should remove a participant but keep their score and rank', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank({ correct_answers: 1 }));
+
+      await store.removeParticipant('QUIZ1', 'alice');
+
+      expect(await store.getParticipant('QUIZ1', 'alice')).toBeNull();
+      expect(await store.getParticipantCount('QUIZ1')).toBe(0);
+      expect(await store.getScore('QUIZ1', 'alice')).toBe(10);
+      expect(await store.getFullLeaderboard('QUIZ1')).toEqual([
+        {
+          userId: 'alice',
+          username: 'Unknown',
+          score: 10,
+          rank: 1,
+          correctAnswers: 0,
+          totalAnswers: 0,
+        },
+      ]);
+    });
+
+    it('should map resume tokens to participants', async () => {
+      await store.setResumeToken('QUIZ1', 'token-a', 'alice');
+
+      expect(await store.getResumeUserId('QUIZ1', 'token-a')).toBe('alice');
+      expect(await store.getResumeUserId('QUIZ1', 'token-b')).toBeNull();
+      expect(await store.getResumeUserId('QUIZ2', 'token-a')).toBeNull();
+    });
+  });
+
+  describe('presence', () => {
+    it('should map sockets to participants and back', async () => {
+      expect(await store.attachSocket('QUIZ1', 'alice', 'socket-a')).toBeNull();
+      await store.attachSocket('QUIZ1', 'bob', 'socket-b');
+
+      expect(await store.getSocketPresence('socket-a')).toEqual({
+        userId: 'alice',
+        quizId: 'QUIZ1',
+      });
+      expect(await store.getSocketPresence('unknown')).toBeNull();
+      expect(await store.getQuizSockets('QUIZ1')).toEqual({
+        alice: 'socket-a',
+        bob: 'socket-b',
+      });
+      expect(await store.getQuizSockets('QUIZ2')).toEqual({});
+    });
+
+    it('should move a participant to a new socket, keeping the old one host', async () => {
+      await store.attachSocket('QUIZ1', 'alice', 'socket-a');
+      await store.setSocketHost('socket-a', 'QUIZ1');
+
+      expect(await store.attachSocket('QUIZ1', 'alice', 'socket-a2')).toBe('socket-a');
+      expect(await store.attachSocket('QUIZ1', 'alice', 'socket-a2')).toBeNull();
+      expect(await store.getSocketPresence('socket-a')).toEqual({ hostQuizId: 'QUIZ1' });
+      expect(await store.getQuizSockets('QUIZ1')).toEqual({ alice: 'socket-a2' });
+    });
+
+    it('should forget a released socket unless the participant moved on', async () => {
+      await store.attachSocket('QUIZ1', 'alice', 'socket-a');
+      await store.attachSocket('QUIZ1', 'bob', 'socket-b');
+      await store.setSocketHost('socket-b', 'QUIZ1');
+      await store.attachSocket('QUIZ1', 'alice', 'socket-a2');
+
+      expect(await store.releaseSocket('socket-a')).toBeNull();
+      expect(await store.releaseSocket('socket-b')).toEqual({
+        userId: 'bob',
+        quizId: 'QUIZ1',
+        hostQuizId: 'QUIZ1',
+      });
+      expect(await store.releaseSocket('socket-b')).toBeNull();
+      expect(await store.getQuizSockets('QUIZ1')).toEqual({ alice: 'socket-a2' });
+    });
+  });
+
+  describe('scores', () => {
+    it('should start players on 0 points, ranked, and reset them when initialized again', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank());
+
+      await store.initializeScore('QUIZ1', 'alice');
+
+      expect(await store.getScore('QUIZ1', 'alice')).toBe(0);
+      expect(await store.getRank('QUIZ1', 'alice')).toBe(0);
+      expect(await store.getScore('QUIZ1', 'bob')).toBe(0);
+      expect(await store.getRank('QUIZ1', 'bob')).toBeNull();
+    });
+
+    it('should record an answer once and add its points', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+
+      const first = await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank());
+      const duplicate = await store.recordAnswer(
+        'QUIZ1',
+        'alice',
+        'q1',
+        answer({ answer: 'Sad', correct: false, earnedPoints: 0 }),
+        0,
+        rank(),
+      );
+
+      expect(first).toEqual({
+        recorded: true,
+        answer: { ...answer(), submittedAt: '2024-01-01T00:00:05.000Z' },
+        score: 10,
+      });
+      expect(duplicate).toEqual({ ...first, recorded: false });
+      expect((await store.getParticipant('QUIZ1', 'alice'))?.answersSubmitted).toBe(1);
+    });
+
+    it('should deduct negative points and keep the score for no points', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank());
+
+      const penalty = await store.recordAnswer('QUIZ1', 'alice', 'q2', answer(), -2.5, rank());
+      const nothing = await store.recordAnswer('QUIZ1', 'alice', 'q3', answer(), 0, rank());
+
+      expect(penalty.score).toBe(7.5);
+      expect(nothing.score).toBe(7.5);
+      expect(await store.getScore('QUIZ1', 'alice')).toBe(7.5);
+    });
+
+    it('should record answers of players that were never initialized', async () => {
+      const result = await store.recordAnswer('QUIZ1', 'ghost', 'q1', answer(), 0, rank());
+
+      expect(result.score).toBe(0);
+      expect(await store.getRank('QUIZ1', 'ghost')).toBe(0);
+    });
+  });
+
+  describe('leaderboards', () => {
+    it('should rank by points, then tie-breakers, then user ID descending', async () => {
+      const weights = { correct_answers: 100, answer_time: -1 };
+      for (const userId of ['alice', 'bob', 'carol', 'dave']) {
+        await join('QUIZ1', userId, userId.toUpperCase());
+      }
+      // bob and carol: same points, bob has more correct answers
+      await store.recordAnswer(
+        'QUIZ1',
+        'bob',
+        'q1',
+        answer(),
+        5,
+        rank({ correct_answers: 1, answer_time: 9 }, weights),
+      );
+      await store.recordAnswer(
+        'QUIZ1',
+        'carol',
+        'q1',
+        answer(),
+        5,
+        rank({ answer_time: 1 }, weights),
+      );
+      // alice and dave: level on everything
+      await store.recordAnswer(
+        'QUIZ1',
+        'alice',
+        'q1',
+        answer(),
+        1,
+        rank({ answer_time: 3 }, weights),
+      );
+      await store.recordAnswer(
+        'QUIZ1',
+        'dave',
+        'q1',
+        answer(),
+        1,
+        rank({ answer_time: 3 }, weights),
+      );
+
+      const leaderboard = await store.getFullLeaderboard('QUIZ1');
+
+      expect(leaderboard.map((entry) => entry.userId)).toEqual(['bob', 'carol', 'dave', 'alice']);
+      expect(leaderboard.map((entry) => entry.rank)).toEqual([1, 2, 3, 4]);
+      expect(await store.getRank('QUIZ1', 'carol')).toBe(1);
+    });
+
+    it('should add up answer time over answers', async () => {
+      const weights = { answer_time: -1 };
+      await join('QUIZ1', 'alice', 'Alice');
+      await join('QUIZ1', 'bob', 'Bob');
+      await store.recordAnswer(
+        'QUIZ1',
+        'alice',
+        'q1',
+        answer(),
+        5,
+        rank({ answer_time: 2 }, weights),
+      );
+      await store.recordAnswer(
+        'QUIZ1',
+        'alice',
+        'q2',
+        answer(),
+        0,
+        rank({ answer_time: 2 }, weights),
+      );
+      await store.recordAnswer(
+        'QUIZ1',
+        'bob',
+        'q1',
+        answer(),
+        5,
+        rank({ answer_time: 3 }, weights),
+      );
+
+      expect(await store.getRank('QUIZ1', 'bob')).toBe(0);
+    });
+
+    it('should keep the last correct answer when an answer brings none', async () => {
+      const weights = { last_correct: -1 };
+      await join('QUIZ1', 'alice', 'Alice');
+      await join('QUIZ1', 'bob', 'Bob');
+      await store.recordAnswer(
+        'QUIZ1',
+        'bob',
+        'q1',
+        answer(),
+        5,
+        rank({ last_correct: 1 }, weights),
+      );
+      await store.recordAnswer(
+        'QUIZ1',
+        'alice',
+        'q1',
+        answer(),
+        5,
+        rank({ last_correct: 2 }, weights),
+      );
+      await store.recordAnswer('QUIZ1', 'alice', 'q2', answer(), 0, rank({}, weights));
+
+      expect(await store.getRank('QUIZ1', 'bob')).toBe(0);
+    });
+
+    it('should list the top players with names and answer counts', async () => {
+      await join('QUIZ1', 'alice', 'Alice');
+      await join('QUIZ1', 'bob', 'Bob');
+      await join('QUIZ1', 'carol', 'Carol');
+      await store.recordAnswer('QUIZ1', 'bob', 'q1', answer(), 10, rank({ correct_answers: 1 }));
+      await store.recordAnswer('QUIZ1', 'bob', 'q2', answer(), 0, rank());
+      await store.recordAnswer('QUIZ1', 'carol', 'q1', answer(), 5, rank());
+
+      expect(await store.getLeaderboard('QUIZ1', 2)).toEqual([
+        { userId: 'bob', username: 'Bob', score: 10, rank: 1, correctAnswers: 1, totalAnswers: 2 },
+        {
+          userId: 'carol',
+          username: 'Carol',
+          score: 5,
+          rank: 2,
+          correctAnswers: 0,
+          totalAnswers: 1,
+        },
+      ]);
+      expect(await store.getLeaderboard('QUIZ1')).toHaveLength(3);
+      expect(await store.getLeaderboard('QUIZ2')).toEqual([]);
+    });
+
+    it('should keep the published snapshots in sequence', async () => {
+      const alice = {
+        userId: 'alice',
+        username: 'Alice',
+        score: 10,
+        rank: 1,
+        correctAnswers: 1,
+        totalAnswers: 1,
+      };
+
+      expect(await store.getLeaderboardSnapshot('QUIZ1')).toBeNull();
+      expect(await store.getLeaderboardSeq('QUIZ1')).toBe(0);
+
+      const saves = await Promise.all([
+        store.saveLeaderboardSnapshot('QUIZ1', { seq: 1, leaderboard: [alice] }),
+        store.saveLeaderboardSnapshot('QUIZ1', { seq: 1, leaderboard: [] }),
+      ]);
+
+      expect(saves).toEqual([true, false]);
+      expect(await store.saveLeaderboardSnapshot('QUIZ1', { seq: 3, leaderboard: [] })).toBe(false);
+      expect(await store.getLeaderboardSeq('QUIZ1')).toBe(1);
+      expect(await store.getLeaderboardSnapshot('QUIZ1')).toEqual({ seq: 1, leaderboard: [alice] });
+      expect(await store.saveLeaderboardSnapshot('QUIZ1', { seq: 2, leaderboard: [] })).toBe(true);
+      expect(await store.getLeaderboardSnapshot('QUIZ1')).toEqual({ seq: 2, leaderboard: [] });
+      expect(await store.getLeaderboardSeq('QUIZ2')).toBe(0);
+    });
+  });
+
+  describe('answers', () => {
+    it('should read answers by question and by participant', async () => {
+      await store.recordAnswer('QUIZ1', 'alice', 'q1', answer(), 10, rank());
+      await store.recordAnswer('QUIZ1', 'alice', 'q2', answer({ answer: ['a', 'b'] }), 10, rank());
+      await store.recordAnswer('QUIZ1', 'bob', 'q1', answer({ answer: 'Sad' }), 0, rank());
+
+      expect((await store.getAnswer('QUIZ1', 'alice', 'q2'))?.answer).toEqual(['a', 'b']);
+      expect(await store.getAnswer('QUIZ1', 'alice', 'q3')).toBeNull();
+      expect(
+        (await store.getAnswersForQuestion('QUIZ1', ['bob', 'carol', 'alice'], 'q1')).map(
+          (record) => record?.answer ?? null,
+        ),
+      ).toEqual(['Sad', null, 'Joyful']);
+      expect(await store.getAnswersForQuestion('QUIZ1', [], 'q1')).toEqual([]);
+      expect(Object.keys(await store.getAllAnswers('QUIZ1', 'alice')).sort()).toEqual(['q1', 'q2']);
+      expect(await store.getAllAnswers('QUIZ1', 'carol')).toEqual({});
+    });
+  });
+
+  describe('question state', () => {
+    it('should track the current question and per-player release times', async () => {
+      expect(await store.getCurrentQuestion('QUIZ1')).toBe(0);
+
+      await store.setCurrentQuestion('QUIZ1', 2);
+      await store.setQuestionReleaseTime('QUIZ1', 'q3', 'alice', 1700000000123);
+
+      expect(await store.getCurrentQuestion('QUIZ1')).toBe(2);
+      expect(await store.getQuestionReleaseTime('QUIZ1', 'q3', 'alice')).toBe(1700000000123);
+      expect(await store.getQuestionReleaseTime('QUIZ1', 'q3', 'bob')).toBeNull();
+    });
+
+    it('should move each question through its phases once and never back', async () => {
+      const closes = await Promise.all([
+        store.advanceQuestionPhase('QUIZ1', 0, QuestionPhase.CLOSED),
+        store.advanceQuestionPhase('QUIZ1', 0, QuestionPhase.CLOSED),
+      ]);
+
+      expect(closes.sort()).toEqual([false, true]);
+      expect(await store.advanceQuestionPhase('QUIZ1', 0, QuestionPhase.REVEALED)).toBe(true);
+      expect(await store.advanceQuestionPhase('QUIZ1', 0, QuestionPhase.CLOSED)).toBe(false);
+      expect(await store.advanceQuestionPhase('QUIZ1', 0, QuestionPhase.OPEN)).toBe(false);
+      expect(await store.advanceQuestionPhase('QUIZ1', 1, QuestionPhase.REVEALED)).toBe(true);
+      expect(await store.advanceQuestionPhase('QUIZ2', 0, QuestionPhase.CLOSED)).toBe(true);
+    });
+
+    it('should move to another question only from the one the caller expects', async () => {
+      const moves = await Promise.all([
+        store.moveToQuestion('QUIZ1', 0, 1),
+        store.moveToQuestion('QUIZ1', 0, 1),
+      ]);
+
+      expect(moves.sort()).toEqual([false, true]);
+      expect(await store.getCurrentQuestion('QUIZ1')).toBe(1);
+      expect(await store.moveToQuestion('QUIZ1', 0, 1)).toBe(false);
+      expect(await store.moveToQuestion('QUIZ1', 1, 2)).toBe(true);
+      expect(await store.getCurrentQuestion('QUIZ1')).toBe(2);
+    });
+  });
+
+  describe('events', () => {
+    const leaderboardUpdate = (seq: number) => ({
+      event: 'leaderboard_update' as const,
+      data: { seq, timestamp: new Date('2024-01-01T00:00:05Z') },
+    });
+
+    it('should number events per quiz and return those after an ID, oldest first', async () => {
+      const first = await store.appendEvent('QUIZ1', leaderboardUpdate(1), 10);
+      await store.appendEvent('QUIZ1', leaderboardUpdate(2), 10);
+      await store.appendEvent('QUIZ1', leaderboardUpdate(3), 10);
+      await store.appendEvent('QUIZ2', leaderboardUpdate(1), 10);
+
+      expect(first).toEqual({
+        id: 1,
+        event: 'leaderboard_update',
+        data: { seq: 1, timestamp: '2024-01-01T00:00:05.000Z' },
+      });
+      expect((await store.getEventsSince('QUIZ1', 1)).map((event) => event.id)).toEqual([2, 3]);
+      expect((await store.getEventsSince('QUIZ1', 0)).map((event) => event.data.seq)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(await store.getEventsSince('QUIZ1', 3)).toEqual([]);
+      expect((await store.getEventsSince('QUIZ2', 0)).map((event) => event.id)).toEqual([1]);
+    });
+
+    it('should keep only the latest events', async () => {
+      for (let seq = 1; seq <= 5; seq++) {
+        await store.appendEvent('QUIZ1', leaderboardUpdate(seq), 3);
+      }
+
+      expect((await store.getEventsSince('QUIZ1', 0)).map((event) => event.id)).toEqual([3, 4, 5]);
+    });
+  });
+
+  describe('cleanupQuiz', () => {
+    it('should delete everything stored for the quiz and nothing else', async () => {
+      for (const quizId of ['QUIZ1', 'QUIZ12']) {
+        await store.createQuizSession(quizId, session({ quizId }));
+        await join(quizId, 'alice', 'Alice');
+        await store.recordAnswer(quizId, 'alice', 'q1', answer(), 10, rank());
+        await store.setResumeToken(quizId, 'token-a', 'alice');
+        await store.setCurrentQuestion(quizId, 1);
+        await store.advanceQuestionPhase(quizId, 1, QuestionPhase.CLOSED);
+        await store.attachSocket(quizId, 'alice', `socket-${quizId}`);
+        await store.setSocketHost(`host-${quizId}`, quizId);
+        await store.appendEvent(quizId, { event: 'quiz_started', data: {} }, 10);
+        await store.saveLeaderboardSnapshot(quizId, { seq: 1, leaderboard: [] });
+      }
+
+      await store.cleanupQuiz('QUIZ1');
+
+      expect(await store.quizExists('QUIZ1')).toBe(false);
+      expect(await store.getParticipantCount('QUIZ1')).toBe(0);
+      expect(await store.getFullLeaderboard('QUIZ1')).toEqual([]);
+      expect(await store.getAllAnswers('QUIZ1', 'alice')).toEqual({});
+      expect(await store.getResumeUserId('QUIZ1', 'token-a')).toBeNull();
+      expect(await store.getCurrentQuestion('QUIZ1')).toBe(0);
+      expect(await store.getQuizSockets('QUIZ1')).toEqual({});
+      expect(await store.getSocketPresence('socket-QUIZ1')).toBeNull();
+      expect(await store.getSocketPresence('host-QUIZ1')).toBeNull();
+      expect(await store.getEventsSince('QUIZ1', 0)).toEqual([]);
+      expect(await store.getLeaderboardSnapshot('QUIZ1')).toBeNull();
+      expect(await store.getLeaderboardSeq('QUIZ1')).toBe(0);
+      expect(await store.getExpiredQuizzes(Date.now() + 7200 * 1000, 10)).toEqual(['QUIZ12']);
+
+      expect(await store.quizExists('QUIZ12')).toBe(true);
+      expect(await store.getScore('QUIZ12', 'alice')).toBe(10);
+      expect(await store.getQuizSockets('QUIZ12')).toEqual({ alice: 'socket-QUIZ12' });
+      expect(await store.getSocketPresence('host-QUIZ12')).toEqual({ hostQuizId: 'QUIZ12' });
+      expect(await store.getEventsSince('QUIZ12', 0)).toHaveLength(1);
+      expect(await store.getLeaderboardSeq('QUIZ12')).toBe(1);
+      expect(await store.advanceQuestionPhase('QUIZ12', 1, QuestionPhase.CLOSED)).toBe(false);
+      expect(await store.advanceQuestionPhase('QUIZ1', 1, QuestionPhase.CLOSED)).toBe(true);
+    });
+  });
+}
@@ -0,0 +1,279 @@
+/**
+ * Quiz Store - Storage abstraction for live quiz state
+ *
+ * Implementations are selected with QUIZ_STORE (see StorageModule): Redis for
+ * production and several instances, or in-memory for a single process without
+ * Redis. Both behave the same; quiz-store.contract.ts holds the shared tests.
+ */
+
+import {
+  AnswerRecord,
+  LeaderboardEntry,
+  LeaderboardSnapshot,
+  Participant,
+  QuestionPhase,
+  QuizEvent,
+  QuizSession,
+  SocketPresence,
+  TieBreaker,
+} from '../quiz/interfaces/quiz.interface';
+
+export interface RecordAnswerResult {
+  recorded: boolean;
+  answer: AnswerRecord;
+  score: number;
+}
+
+/**
+ * How an answer moves the player's rank score: the quiz's encoding plus
+ * the answer's tie-breaker stats
+ */
+export interface RankUpdate {
+  scoreRadix: number;
+  weights: Record<TieBreaker, number>;
+  stats: Record<TieBreaker, number>;
+}
+
+export abstract class QuizStore {
+  // ==================== Quiz Sessions ====================
+
+  /**
+   * Store a new session. The session and everything else stored for the quiz
+   * expire after ttl seconds (see getExpiredQuizzes).
+   */
+  abstract createQuizSession(quizId: string, session: QuizSession, ttl?: number): Promise<void>;
+
+  /**
+   * Get a session, or null if it does not exist or has expired
+   */
+  abstract getQuizSession(quizId: string): Promise<QuizSession | null>;
+
+  /**
+   * Replace a session, keeping the time it has left to live
+   */
+  abstract updateQuizSession(quizId: string, session: QuizSession): Promise<void>;
+
+  abstract deleteQuizSession(quizId: string): Promise<void>;
+
+  abstract quizExists(quizId: string): Promise<boolean>;
+
+  /**
+   * Let a quiz live ttl more seconds from now, e.g. the grace after it completes
+   */
+  abstract expireQuiz(quizId: string, ttl: number): Promise<void>;
+
+  // ==================== Participants ====================
+
+  /**
+   * Add a participant, or replace their data
+   */
+  abstract addParticipant(quizId: string, userId: string, participant: Participant): Promise<void>;
+
+  /**
+   * IDs of a quiz's participants, in no particular order
+   */
+  abstract getParticipants(quizId: string): Promise<string[]>;
+
+  /**
+   * A participant with their live score and answer count, or null
+   */
+  abstract getParticipant(quizId: string, userId: string): Promise<Participant | null>;
+
+  /**
+   * Several participants in the order of userIds (null for unknown users)
+   */
+  abstract getParticipantsById(
+    quizId: string,
+    userIds: string[],
+  ): Promise<Array<Participant | null>>;
+
+  /**
+   * Remove a participant and their answer counts; their score and rank stay
+   */
+  abstract removeParticipant(quizId: string, userId: string): Promise<void>;
+
+  abstract getParticipantCount(quizId: string): Promise<number>;
+
+  abstract setResumeToken(quizId: string, resumeToken: string, userId: string): Promise<void>;
+
+  abstract getResumeUserId(quizId: string, resumeToken: string): Promise<string | null>;
+
+  // ==================== Presence ====================
+
+  /**
+   * Attach a participant to a socket, returning the socket it replaces (if any)
+   */
+  abstract attachSocket(quizId: string, userId: string, socketId: string): Promise<string | null>;
+
+  abstract setSocketHost(socketId: string, quizId: string): Promise<void>;
+
+  /**
+   * What a socket is attached to, or null for an unknown socket
+   */
+  abstract getSocketPresence(socketId: string): Promise<SocketPresence | null>;
+
+  /**
+   * Connected participants of a quiz: userId -> socketId
+   */
+  abstract getQuizSockets(quizId: string): Promise<Record<string, string>>;
+
+  /**
+   * Forget a socket, returning what it was attached to. The participant keeps
+   * any socket they moved to in the meantime.
+   */
+  abstract releaseSocket(socketId: string): Promise<SocketPresence | null>;
+
+  // ==================== Scores & Leaderboards ====================
+
+  /**
+   * Start a participant on 0 points and at the bottom of the ranking
+   */
+  abstract initializeScore(quizId: string, userId: string): Promise<void>;
+
+  /**
+   * Points of a participant (0 if they have none)
+   */
+  abstract getScore(quizId: string, userId: string): Promise<number>;
+
+  /**
+   * 0-based rank (0 is highest), ties broken by the quiz's tie-breakers, or null if unranked
+   */
+  abstract getRank(quizId: string, userId: string): Promise<number | null>;
+
+  /**
+   * Top participants by rank. Players level on everything are ordered by user ID, highest first.
+   */
+  abstract getLeaderboard(quizId: string, limit?: number): Promise<LeaderboardEntry[]>;
+
+  abstract getFullLeaderboard(quizId: string): Promise<LeaderboardEntry[]>;
+
+  /**
+   * The leaderboard as of the latest published delta, or null before the first
+   */
+  abstract getLeaderboardSnapshot(quizId: string): Promise<LeaderboardSnapshot | null>;
+
+  /**
+   * Sequence number of the latest published delta (0 before the first one)
+   */
+  abstract getLeaderboardSeq(quizId: string): Promise<number>;
+
+  /**
+   * Store the leaderboard a delta was published for. Only succeeds when
+   * snapshot.seq follows the stored sequence, so of several instances diffing
+   * against the same snapshot exactly one publishes the next delta.
+   */
+  abstract saveLeaderboardSnapshot(quizId: string, snapshot: LeaderboardSnapshot): Promise<boolean>;
+
+  // ==================== Answers ====================
+
+  /**
+   * Atomically record a participant's first answer to a question together
+   * with its points, answer counts and rank score. If an answer already
+   * exists nothing is written and the stored answer is returned instead.
+   */
+  abstract recordAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+    answer: AnswerRecord,
+    points: number,
+    rank: RankUpdate,
+  ): Promise<RecordAnswerResult>;
+
+  abstract getAnswer(
+    quizId: string,
+    userId: string,
+    questionId: string,
+  ): Promise<AnswerRecord | null>;
+
+  /**
+   * Several participants' answers to one question, in the order of userIds
+   */
+  abstract getAnswersForQuestion(
+    quizId: string,
+    userIds: string[],
+    questionId: string,
+  ): Promise<Array<AnswerRecord | null>>;
+
+  /**
+   * A participant's answers by question ID
+   */
+  abstract getAllAnswers(quizId: string, userId: string): Promise<Record<string, AnswerRecord>>;
+
+  // ==================== Question State ====================
+
+  abstract setCurrentQuestion(quizId: string, questionIndex: number): Promise<void>;
+
+  /**
+   * Index of the current question (0 if never set)
+   */
+  abstract getCurrentQuestion(quizId: string): Promise<number>;
+
+  /**
+   * Move the quiz from question fromIndex to toIndex. Returns false and
+   * changes nothing if it is no longer on fromIndex, so of several callers
+   * advancing at once (the host, a timer on any instance) exactly one moves it.
+   */
+  abstract moveToQuestion(quizId: string, fromIndex: number, toIndex: number): Promise<boolean>;
+
+  /**
+   * Record when a question was released to a participant (late joiners)
+   */
+  abstract setQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+    timestamp: number,
+  ): Promise<void>;
+
+  abstract getQuestionReleaseTime(
+    quizId: string,
+    questionId: string,
+    userId: string,
+  ): Promise<number | null>;
+
+  /**
+   * Move a question on to phase (open → closed → revealed). Returns false and
+   * changes nothing if it already reached that phase or a later one, so of
+   * several concurrent callers exactly one takes each step.
+   */
+  abstract advanceQuestionPhase(
+    quizId: string,
+    questionIndex: number,
+    phase: QuestionPhase,
+  ): Promise<boolean>;
+
+  // ==================== Events ====================
+
+  /**
+   * Record a broadcast under the quiz's next event ID, keeping only the latest
+   * limit events
+   */
+  abstract appendEvent(
+    quizId: string,
+    event: Omit<QuizEvent, 'id'>,
+    limit: number,
+  ): Promise<QuizEvent>;
+
+  /**
+   * Recorded events with an ID above lastEventId, oldest first
+   */
+  abstract getEventsSince(quizId: string, lastEventId: number): Promise<QuizEvent[]>;
+
+  // ==================== Cleanup ====================
+
+  /**
+   * Quizzes whose lifetime ended at or before now (epoch ms), longest expired first
+   */
+  abstract getExpiredQuizzes(now: number, limit: number): Promise<string[]>;
+
+  /**
+   * Quizzes whose lifetime has not ended at now (epoch ms), in no particular order
+   */
+  abstract getLiveQuizzes(now: number): Promise<string[]>;
+
+  /**
+   * Delete everything stored for a quiz, including its expiry
+   */
+  abstract cleanupQuiz(quizId: string): Promise<void>;
+}
@@ -0,0 +1,41 @@
+/**
+ * Storage Module - Where live quiz state is kept
+ *
+ * The backend is chosen with QUIZ_STORE:
+ * - redis (default): shared by every instance, needed to run more than one
+ * - memory: a single process without Redis, state is lost on restart
+ *
+ * QuizJanitorService purges quizzes once their lifetime has ended.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuizStore } from './quiz.store';
+import { InMemoryQuizStore } from './in-memory-quiz.store';
+import { QuizJanitorService } from './quiz-janitor.service';
+import { RedisService } from '../redis/redis.service';
+
+@Global()
+@Module({
+  providers: [
+    QuizJanitorService,
+    {
+      provide: QuizStore,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): QuizStore => {
+        const driver = configService.get<string>('QUIZ_STORE', 'redis');
+
+        switch (driver) {
+          case 'redis':
+            return new RedisService(configService);
+          case 'memory':
+            return new InMemoryQuizStore();
+          default:
+            throw new Error(`Unknown QUIZ_STORE "${driver}" (expected redis or memory)`);
+        }
+      },
+    },
+  ],
+  exports: [QuizStore],
+})
+export class StorageModule {}
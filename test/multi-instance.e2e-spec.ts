@@ -0,0 +1,159 @@
+/**
+ * Two app instances sharing one Redis, as they would behind a load balancer.
+ * Needs a local Redis (`docker compose up -d redis`); the test uses REDIS_DB
+ * (15 unless set) and flushes it.
+ */
+
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AddressInfo } from 'net';
+import { io, Socket } from 'socket.io-client';
+import { AppModule } from '../src/app.module';
+import { RedisService } from '../src/redis/redis.service';
+import { RedisIoAdapter } from '../src/redis/redis-io.adapter';
+import { QuizStore } from '../src/storage/quiz.store';
+
+describe('Multiple instances (e2e)', () => {
+  let instances: INestApplication[] = [];
+  let sockets: Socket[] = [];
+
+  beforeAll(() => {
+    process.env.REDIS_DB ??= '15';
+    process.env.QUIZ_STORE = 'redis';
+    process.env.QUESTION_REPOSITORY = 'memory';
+    process.env.QUIZ_ARCHIVE_FILE = ':memory:';
+    process.env.HOST_HANDOVER_GRACE_MS = '200';
+  });
+
+  beforeEach(async () => {
+    instances = [await startInstance(), await startInstance()];
+    await redisStore(instances[0]).getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    sockets.forEach((socket) => socket.disconnect());
+    sockets = [];
+    await Promise.all(instances.map((app) => app.close()));
+  });
+
+  const startInstance = async (): Promise<INestApplication> => {
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    const app = moduleRef.createNestApplication({ logger: false });
+
+    const adapter = new RedisIoAdapter(app, redisStore(app));
+    await adapter.connectToRedis();
+    app.useWebSocketAdapter(adapter);
+
+    await app.listen(0);
+    return app;
+  };
+
+  const redisStore = (app: INestApplication): RedisService => app.get(QuizStore) as RedisService;
+
+  const connect = async (app: INestApplication): Promise<Socket> => {
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    const socket = io(`http://localhost:${port}`, { transports: ['websocket'], forceNew: true });
+    sockets.push(socket);
+
+    await next(socket, 'connected');
+    return socket;
+  };
+
+  // The next payload of an event, failing on an error event or after a while
+  const next = <T = any>(socket: Socket, event: string, timeout = 5000): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.off(event, onEvent);
+        reject(new Error(`Timed out waiting for ${event}`));
+      }, timeout);
+      const onEvent = (data: T) => {
+        clearTimeout(timer);
+        socket.off('error', onError);
+        resolve(data);
+      };
+      const onError = (data: { code: string; message: string }) => {
+        clearTimeout(timer);
+        socket.off(event, onEvent);
+        reject(new Error(`${data.code}: ${data.message}`));
+      };
+      socket.once(event, onEvent);
+      socket.once('error', onError);
+    });
+
+  const request = <T = any>(socket: Socket, event: string, payload: object, reply: string) => {
+    const response = next<T>(socket, reply);
+    socket.emit(event, payload);
+    return response;
+  };
+
+  const createQuiz = async (host: Socket) =>
+    request<{ quizId: string; hostToken: string }>(
+      host,
+      'create_quiz',
+      { title: 'Scaling Quiz', questionIds: ['q1', 'q2'] },
+      'quiz_created',
+    );
+
+  const join = async (socket: Socket, quizId: string, username: string) =>
+    request<{ userId: string }>(socket, 'join_quiz', { quizId, username }, 'joined_successfully');
+
+  it('should deliver room broadcasts and personal events across instances', async () => {
+    const host = await connect(instances[0]);
+    const alice = await connect(instances[0]);
+    const bob = await connect(instances[1]);
+
+    const { quizId, hostToken } = await createQuiz(host);
+    await join(alice, quizId, 'Alice');
+
+    const bobJoined = next(alice, 'user_joined');
+    const { userId: bobId } = await join(bob, quizId, 'Bob');
+    expect(await bobJoined).toMatchObject({ userId: bobId, username: 'Bob' });
+
+    const started = next(bob, 'quiz_started');
+    await request(host, 'start_quiz', { quizId, hostToken }, 'quiz_start_success');
+    expect((await started).question).toMatchObject({ id: 'q1' });
+
+    await request(
+      bob,
+      'submit_answer',
+      { quizId, questionId: 'q1', answer: 'Joyful' },
+      'answer_submitted',
+    );
+
+    // Revealed by the first instance, delivered by the second
+    const scored = next(bob, 'score_update');
+    const leaderboard = next(alice, 'leaderboard_update');
+    await request(host, 'next_question', { quizId, hostToken }, 'next_question_success');
+
+    expect(await scored).toMatchObject({ userId: bobId, rank: 1 });
+    expect((await scored).score).toBeGreaterThan(0);
+    expect((await leaderboard).changes).toEqual(
+      expect.arrayContaining([expect.objectContaining({ userId: bobId, rank: 1 })]),
+    );
+
+    const left = next(alice, 'user_disconnected');
+    bob.disconnect();
+    expect(await left).toMatchObject({ userId: bobId });
+  });
+
+  it('should hand the host role to a player connected to another instance', async () => {
+    const host = await connect(instances[0]);
+    const bob = await connect(instances[1]);
+
+    const { quizId } = await createQuiz(host);
+    const { userId: bobId } = await join(bob, quizId, 'Bob');
+
+    const assigned = next(bob, 'host_assigned');
+    const changed = next(bob, 'host_changed');
+    host.disconnect();
+
+    const { hostToken } = await assigned;
+    expect(await changed).toMatchObject({ userId: bobId, username: 'Bob' });
+
+    // The new token is honoured by the other instance too
+    const started = next(bob, 'quiz_started');
+    const dashboard = await connect(instances[0]);
+    await request(dashboard, 'start_quiz', { quizId, hostToken }, 'quiz_start_success');
+    expect((await started).question).toMatchObject({ id: 'q1' });
+  });
+});